@@ -9,6 +9,8 @@ import Home from "./pages/Home";
 import Auth from "./pages/Auth";
 import Ships from "./pages/Ships";
 import ShipDetail from "./pages/ShipDetail";
+import ShipCompare from "./pages/ShipCompare";
+import Hangar from "./pages/Hangar";
 import Gallery from "./pages/Gallery";
 import CreateGalleryPost from "./pages/CreateGalleryPost";
 import GalleryPostDetail from "./pages/GalleryPostDetail";
@@ -16,15 +18,30 @@ import Logs from "./pages/Logs";
 import CreateLog from "./pages/CreateLog";
 import Pilots from "./pages/Pilots";
 import PilotProfile from "./pages/PilotProfile";
+import Organizations from "./pages/Organizations";
+import OrganizationDetail from "./pages/OrganizationDetail";
+import OperationDetail from "./pages/OperationDetail";
+import Lfg from "./pages/Lfg";
 import Profile from "./pages/Profile";
 import Admin from "./pages/Admin";
 import AdminDebug from "./pages/AdminDebug";
 import NewsDetail from "./pages/NewsDetail";
 import NotFound from "./pages/NotFound";
 import Commodities from "./pages/Commodities";
+import CommodityDetail from "./pages/CommodityDetail";
+import TradePlanner from "./pages/TradePlanner";
+import Terminals from "./pages/Terminals";
+import TerminalDetail from "./pages/TerminalDetail";
 import Mining from "./pages/Mining";
 import Missions from "./pages/Missions";
 import Items from "./pages/Items";
+import ShoppingPlanner from "./pages/ShoppingPlanner";
+import ItemCompare from "./pages/ItemCompare";
+import ItemDetail from "./pages/ItemDetail";
+import Loadouts from "./pages/Loadouts";
+import LoadoutBuilder from "./pages/LoadoutBuilder";
+import RefineryJobs from "./pages/RefineryJobs";
+import MissionLog from "./pages/MissionLog";
 import EmailConfirmed from "./pages/EmailConfirmed";
 
 const queryClient = new QueryClient({
@@ -49,11 +66,24 @@ const App = () => (
               <Route path="/" element={<Home />} />
               <Route path="/auth" element={<Auth />} />
               <Route path="/ships" element={<Ships />} />
+              <Route path="/ships/compare" element={<ShipCompare />} />
               <Route path="/ships/:slug" element={<ShipDetail />} />
               <Route path="/commodities" element={<Commodities />} />
+              <Route path="/commodities/:slug" element={<CommodityDetail />} />
+              <Route path="/trade" element={<TradePlanner />} />
+              <Route path="/terminals" element={<Terminals />} />
+              <Route path="/terminals/:slug" element={<TerminalDetail />} />
               <Route path="/mining" element={<Mining />} />
+              <Route path="/mining/jobs" element={<RefineryJobs />} />
               <Route path="/missions" element={<Missions />} />
+              <Route path="/missions/log" element={<MissionLog />} />
               <Route path="/items" element={<Items />} />
+              <Route path="/items/shopping-list" element={<ShoppingPlanner />} />
+              <Route path="/items/compare" element={<ItemCompare />} />
+              <Route path="/items/:slug" element={<ItemDetail />} />
+              <Route path="/loadouts" element={<Loadouts />} />
+              <Route path="/loadouts/new" element={<LoadoutBuilder />} />
+              <Route path="/loadouts/:id" element={<LoadoutBuilder />} />
             <Route path="/gallery" element={<Gallery />} />
             <Route path="/gallery/create" element={<CreateGalleryPost />} />
             <Route path="/gallery/:id" element={<GalleryPostDetail />} />
@@ -61,7 +91,12 @@ const App = () => (
               <Route path="/logs/create" element={<CreateLog />} />
               <Route path="/pilots" element={<Pilots />} />
               <Route path="/pilots/:handle" element={<PilotProfile />} />
+              <Route path="/orgs" element={<Organizations />} />
+              <Route path="/orgs/:slug" element={<OrganizationDetail />} />
+              <Route path="/orgs/:slug/ops/:id" element={<OperationDetail />} />
+              <Route path="/lfg" element={<Lfg />} />
               <Route path="/profile" element={<Profile />} />
+              <Route path="/hangar" element={<Hangar />} />
               <Route path="/admin" element={<Admin />} />
               <Route path="/admin/debug" element={<AdminDebug />} />
               <Route path="/news/:id" element={<NewsDetail />} />
@@ -0,0 +1,128 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent } from '@/components/ui/card';
+import { Search, CheckCircle2 } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+import { buildBlueprintIndex } from '@/lib/missionChains';
+import { useCollectedBlueprints } from '@/hooks/useCollectedBlueprints';
+
+interface BlueprintExplorerProps {
+  missions: Tables<'missions'>[];
+}
+
+export function BlueprintExplorer({ missions }: BlueprintExplorerProps) {
+  const { user } = useAuth();
+  const { collected, toggleBlueprint } = useCollectedBlueprints(user?.id);
+  const [search, setSearch] = useState('');
+  const [collectedFilter, setCollectedFilter] = useState<string>('all');
+
+  const blueprints = useMemo(() => buildBlueprintIndex(missions), [missions]);
+
+  const filtered = useMemo(() => {
+    let result = blueprints;
+    if (search) {
+      const q = search.toLowerCase();
+      result = result.filter(b => b.name.toLowerCase().includes(q) || b.factions.some(f => f.toLowerCase().includes(q)));
+    }
+    if (collectedFilter === 'collected') result = result.filter(b => collected.has(b.name));
+    else if (collectedFilter === 'missing') result = result.filter(b => !collected.has(b.name));
+    return result;
+  }, [blueprints, search, collectedFilter, collected]);
+
+  const collectedCount = blueprints.filter(b => collected.has(b.name)).length;
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input placeholder="Rechercher un blueprint ou une faction..." value={search} onChange={(e) => setSearch(e.target.value)} className="pl-10 bg-background/50" />
+            </div>
+            {user && (
+              <Select value={collectedFilter} onValueChange={setCollectedFilter}>
+                <SelectTrigger className="w-full md:w-[180px] bg-background/50"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Tous</SelectItem>
+                  <SelectItem value="collected">Collectés</SelectItem>
+                  <SelectItem value="missing">À obtenir</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {user ? (
+              <>{collectedCount}/{blueprints.length} blueprints collectés • Coche ceux que tu as déjà, ils apparaissent sur ton profil</>
+            ) : (
+              <><Link to="/auth" className="hover:text-primary hover:underline">Connecte-toi</Link> pour suivre les blueprints que tu as collectés</>
+            )}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card/60 border-border/50 overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent border-border/50">
+                {user && <TableHead className="w-10" />}
+                <TableHead>Blueprint</TableHead>
+                <TableHead>Factions</TableHead>
+                <TableHead>Missions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={user ? 4 : 3} className="text-center text-muted-foreground py-8">
+                    {blueprints.length === 0 ? "Aucune mission ne donne de blueprint. Lance la sync missions depuis l'admin." : 'Aucun résultat.'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filtered.map(blueprint => {
+                  const isCollected = collected.has(blueprint.name);
+                  return (
+                    <TableRow key={blueprint.name} className="border-border/30 hover:bg-muted/20">
+                      {user && (
+                        <TableCell>
+                          <Checkbox
+                            checked={isCollected}
+                            disabled={toggleBlueprint.isPending}
+                            onCheckedChange={(checked) => toggleBlueprint.mutate({ blueprint: blueprint.name, collected: checked === true })}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell className="font-medium">
+                        <span className="flex items-center gap-2">
+                          {blueprint.name}
+                          {isCollected && <CheckCircle2 className="w-4 h-4 text-green-400" />}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {blueprint.factions.length > 0
+                            ? blueprint.factions.map(f => <Badge key={f} variant="outline" className="text-xs">{f}</Badge>)
+                            : <span className="text-muted-foreground">—</span>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {blueprint.missions.map(m => m.title).join(', ')}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { useCommodityPriceHistory, type PriceHistoryRange } from '@/hooks/useCommodityPriceHistory';
+
+const RANGES: PriceHistoryRange[] = [7, 30, 90];
+
+const chartConfig = {
+  buy: { label: 'Achat moy.', color: 'hsl(142 71% 45%)' },
+  sell: { label: 'Vente moy.', color: 'hsl(var(--accent))' },
+  bestBuy: { label: 'Meilleur achat', color: 'hsl(142 71% 30%)' },
+  bestSell: { label: 'Meilleure vente', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+interface CommodityPriceChartProps {
+  commodityId: number;
+}
+
+export function CommodityPriceChart({ commodityId }: CommodityPriceChartProps) {
+  const [range, setRange] = useState<PriceHistoryRange>(30);
+  const { data: history, isLoading } = useCommodityPriceHistory(commodityId, range);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {RANGES.map((r) => (
+          <Button key={r} variant={range === r ? 'default' : 'outline'} size="sm" onClick={() => setRange(r)}>
+            {r}j
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="h-[280px] bg-muted/30 rounded animate-pulse" />
+      ) : !history || history.length === 0 ? (
+        <div className="h-[280px] flex items-center justify-center text-sm text-muted-foreground">
+          Pas encore d'historique sur cette période. Il se construit à chaque sync.
+        </div>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-[280px] w-full aspect-auto">
+          <LineChart data={history} margin={{ left: 8, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="day"
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(d: string) => format(new Date(d), 'dd/MM')}
+            />
+            <YAxis tickLine={false} axisLine={false} width={64} tickFormatter={(v: number) => v.toLocaleString()} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(d: string) => format(new Date(d), 'dd/MM/yyyy')} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Line type="monotone" dataKey="buy" stroke="var(--color-buy)" strokeWidth={2} dot={false} connectNulls />
+            <Line type="monotone" dataKey="sell" stroke="var(--color-sell)" strokeWidth={2} dot={false} connectNulls />
+            <Line type="monotone" dataKey="bestBuy" stroke="var(--color-bestBuy)" strokeDasharray="4 4" dot={false} connectNulls />
+            <Line type="monotone" dataKey="bestSell" stroke="var(--color-bestSell)" strokeDasharray="4 4" dot={false} connectNulls />
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Download, Upload, FileJson, FileSpreadsheet, Check, X } from 'lucide-react';
+import type { useHangar } from '@/hooks/useHangar';
+import { downloadFile } from '@/lib/utils';
+import {
+  hangarToCsv,
+  hangarToJson,
+  matchImportedShips,
+  parseFleetFile,
+  type ExportedShip,
+  type ImportMatch,
+  type MatchMethod,
+} from '@/lib/fleetImport';
+
+type Hangar = ReturnType<typeof useHangar>;
+
+interface FleetImportExportProps {
+  entries: Hangar['ships'];
+  importShips: Hangar['importShips'];
+}
+
+interface ReviewRow {
+  match: ImportMatch;
+  shipId: number | null;
+  include: boolean;
+  /** The hangar already holds this ship (one row per hull already there), likely a re-import */
+  inHangar: boolean;
+}
+
+const METHOD_LABELS: Record<MatchMethod, string> = {
+  fleetyards: 'Slug FleetYards',
+  mapping: 'Mapping admin',
+  slug: 'Slug',
+  name: 'Nom',
+  fuzzy: 'Nom approchant',
+};
+
+export function FleetImportExport({ entries, importShips }: FleetImportExportProps) {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ReviewRow[] | null>(null);
+
+  const { data: ships } = useQuery({
+    queryKey: ['ship-import-refs'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('ships').select('id, slug, name, manufacturer, fleetyards_slug_used').order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: mappings } = useQuery({
+    queryKey: ['ship-slug-mappings'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('ship_slug_mappings').select('wiki_title, fleetyards_slug');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !ships) return;
+
+    try {
+      const imported = parseFleetFile(file.name, await file.text());
+      if (imported.length === 0) throw new Error('Aucun vaisseau trouvé dans le fichier');
+      const matches = matchImportedShips(imported, ships, mappings ?? []);
+      // Hulls already in the hangar, each one accounts for a single row of the file
+      const owned = new Map<number, number>();
+      for (const entry of entries) owned.set(entry.ship_id, (owned.get(entry.ship_id) ?? 0) + 1);
+      setFileName(file.name);
+      // Fuzzy matches, wishlist entries and ships already in the hangar stay unchecked until reviewed
+      setRows(matches.map(match => {
+        const shipId = match.ship?.id ?? null;
+        const inHangar = shipId !== null && (owned.get(shipId) ?? 0) > 0;
+        if (inHangar) owned.set(shipId, owned.get(shipId)! - 1);
+        return {
+          match,
+          shipId,
+          include: !!match.ship && match.method !== 'fuzzy' && !match.entry.wanted && !inHangar,
+          inHangar,
+        };
+      }));
+    } catch (error) {
+      toast({ title: 'Import impossible', description: error instanceof Error ? error.message : 'Fichier illisible', variant: 'destructive' });
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<ReviewRow>) => {
+    setRows(current => current && current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const selected = (rows ?? []).filter(row => row.include && row.shipId);
+  const unmatched = (rows ?? []).filter(row => !row.shipId).length;
+  const alreadyOwned = (rows ?? []).filter(row => row.inHangar).length;
+
+  const handleSave = () => {
+    importShips.mutate(
+      selected.map(({ match, shipId }) => ({
+        ship_id: shipId!,
+        acquisition: match.entry.acquisition,
+        insurance: match.entry.insurance,
+        nickname: match.entry.nickname,
+        loadout_notes: match.entry.loadout_notes,
+      })),
+      { onSuccess: () => setRows(null) },
+    );
+  };
+
+  const exported = (): ExportedShip[] =>
+    entries.flatMap(entry => entry.ships ? [{
+      name: entry.ships.name,
+      slug: entry.ships.slug,
+      manufacturer: entry.ships.manufacturer,
+      nickname: entry.nickname,
+      acquisition: entry.acquisition,
+      insurance: entry.insurance,
+      loadout_notes: entry.loadout_notes,
+    }] : []);
+
+  return (
+    <Card className="bg-card/60 border-border/50">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2"><Upload className="w-4 h-4 text-primary" /> Import / export</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Importe un export de flotte FleetYards (JSON) ou un CSV avec au moins une colonne <code>name</code> ou <code>slug</code>.
+          Les vaisseaux sont rapprochés de notre base, tu valides la liste avant l'ajout au hangar.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <input ref={fileInput} type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={handleFile} />
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => fileInput.current?.click()} disabled={!ships}>
+            <Upload className="w-4 h-4" /> Importer un fichier
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            disabled={entries.length === 0}
+            onClick={() => downloadFile('hangar.csv', hangarToCsv(exported()), 'text/csv;charset=utf-8')}
+          >
+            <FileSpreadsheet className="w-4 h-4" /> Exporter en CSV
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            disabled={entries.length === 0}
+            onClick={() => downloadFile('hangar.json', hangarToJson(exported()), 'application/json')}
+          >
+            <FileJson className="w-4 h-4" /> Exporter en JSON
+          </Button>
+        </div>
+
+        {rows && ships && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span className="text-muted-foreground">
+                {fileName} • {rows.length} entrée(s), {unmatched} non reconnue(s)
+                {alreadyOwned > 0 && `, ${alreadyOwned} déjà au hangar`}
+              </span>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" className="gap-2" onClick={() => setRows(null)}>
+                  <X className="w-4 h-4" /> Annuler
+                </Button>
+                <Button size="sm" className="gap-2" onClick={handleSave} disabled={selected.length === 0 || importShips.isPending}>
+                  <Download className="w-4 h-4" /> Ajouter {selected.length} vaisseau(x)
+                </Button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Fichier</TableHead>
+                    <TableHead>Vaisseau</TableHead>
+                    <TableHead>Correspondance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, i) => (
+                    <TableRow key={i} className={row.include ? undefined : 'opacity-60'}>
+                      <TableCell>
+                        <Checkbox
+                          checked={row.include}
+                          disabled={!row.shipId}
+                          onCheckedChange={(checked) => updateRow(i, { include: checked === true })}
+                          aria-label="Importer"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{row.match.entry.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {[row.match.entry.nickname, row.match.entry.manufacturer, row.match.entry.insurance].filter(Boolean).join(' • ')}
+                        </p>
+                      </TableCell>
+                      <TableCell className="min-w-56">
+                        <Select
+                          value={row.shipId ? String(row.shipId) : undefined}
+                          onValueChange={(value) => updateRow(i, {
+                            shipId: Number(value),
+                            include: true,
+                            inHangar: entries.some(entry => entry.ship_id === Number(value)),
+                          })}
+                        >
+                          <SelectTrigger className="h-8 bg-background/50"><SelectValue placeholder="Choisir un vaisseau" /></SelectTrigger>
+                          <SelectContent>
+                            {ships.map(ship => (
+                              <SelectItem key={ship.id} value={String(ship.id)}>{ship.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {row.match.method === 'fuzzy' ? (
+                            <Badge variant="outline" className="text-xs border-yellow-500/50 text-yellow-400">À vérifier</Badge>
+                          ) : row.match.method ? (
+                            <Badge variant="outline" className="text-xs gap-1"><Check className="w-3 h-3" /> {METHOD_LABELS[row.match.method]}</Badge>
+                          ) : (
+                            <Badge variant="outline" className="text-xs border-red-500/50 text-red-400">Non reconnu</Badge>
+                          )}
+                          {row.match.entry.wanted && <Badge variant="secondary" className="text-xs">Wishlist</Badge>}
+                          {row.inHangar && (
+                            <Badge variant="outline" className="text-xs border-yellow-500/50 text-yellow-400">Déjà au hangar</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
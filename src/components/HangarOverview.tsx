@@ -0,0 +1,113 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Pencil, Trash2 } from 'lucide-react';
+import type { useHangar } from '@/hooks/useHangar';
+import { ACQUISITIONS, hangarTotals } from '@/lib/hangar';
+
+type HangarRow = ReturnType<typeof useHangar>['ships'][number];
+
+interface HangarOverviewProps {
+  entries: HangarRow[];
+  /** Owner actions, only passed on the pilot's own hangar page */
+  onEdit?: (entry: HangarRow) => void;
+  onRemove?: (entry: HangarRow) => void;
+}
+
+export function HangarOverview({ entries, onEdit, onRemove }: HangarOverviewProps) {
+  const totals = useMemo(() => hangarTotals(entries), [entries]);
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No ships in the hangar yet</p>;
+  }
+
+  const tiles = [
+    { label: 'Ships', value: `${totals.ships} (${totals.pledged} pledged, ${totals.ingame} in-game)` },
+    { label: 'Combined cargo', value: `${totals.cargo.toLocaleString()} SCU` },
+    { label: 'Crew seats', value: totals.crewSeats.toLocaleString() },
+    { label: 'Pledge value', value: `$${totals.pledgeValue.toLocaleString()}` },
+    { label: 'In-game value', value: `${totals.ingameValue.toLocaleString()} aUEC` },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {tiles.map((tile) => (
+          <div key={tile.label} className="space-y-1">
+            <p className="text-xs sm:text-sm text-muted-foreground">{tile.label}</p>
+            <p className="text-sm sm:text-base font-bold text-primary">{tile.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs sm:text-sm text-muted-foreground">Role coverage</p>
+        <div className="flex flex-wrap gap-2">
+          {totals.roles.map((r) => (
+            <Badge key={r.role} variant="secondary" className="text-xs">
+              {r.role} × {r.count}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {entries.map((entry) => (
+          <div key={entry.id} className="flex gap-3 border border-border rounded-lg p-3">
+            <img
+              src={entry.ships?.image_url || `${import.meta.env.BASE_URL}placeholder.svg`}
+              alt={entry.ships?.name ?? ''}
+              className="w-24 h-16 object-cover rounded-md bg-muted shrink-0"
+              loading="lazy"
+            />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  {entry.ships ? (
+                    <Link to={`/ships/${entry.ships.slug}`} className="font-semibold text-sm hover:text-primary hover:underline">
+                      {entry.nickname || entry.ships.name}
+                    </Link>
+                  ) : (
+                    <span className="font-semibold text-sm">{entry.nickname}</span>
+                  )}
+                  {entry.nickname && entry.ships && (
+                    <p className="text-xs text-muted-foreground truncate">{entry.ships.name}</p>
+                  )}
+                </div>
+                {(onEdit || onRemove) && (
+                  <div className="flex shrink-0">
+                    {onEdit && (
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onEdit(entry)} aria-label="Edit">
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                    {onRemove && (
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onRemove(entry)} aria-label="Remove">
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                <Badge variant="outline" className="text-xs">
+                  {ACQUISITIONS.find((a) => a.value === entry.acquisition)?.label ?? entry.acquisition}
+                </Badge>
+                {entry.insurance && <Badge variant="outline" className="text-xs">{entry.insurance}</Badge>}
+              </div>
+              {entry.ship_loadouts && (
+                <Link to={`/loadouts/${entry.ship_loadouts.id}`} className="text-xs text-primary hover:underline block truncate">
+                  Loadout: {entry.ship_loadouts.name}
+                </Link>
+              )}
+              {entry.loadout_notes && (
+                <p className="text-xs text-muted-foreground line-clamp-2">{entry.loadout_notes}</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
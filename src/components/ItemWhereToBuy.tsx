@@ -0,0 +1,105 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { supabase } from '@/integrations/supabase/client';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import { formatTerminalLocation } from '@/lib/terminalUtils';
+
+interface ItemWhereToBuyProps {
+  itemId: number;
+}
+
+export function ItemWhereToBuy({ itemId }: ItemWhereToBuyProps) {
+  const { data: prices, isLoading } = useQuery({
+    queryKey: ['item-prices', itemId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('item_prices')
+        .select('*, terminals(id, name, slug, star_system, planet, moon, space_station)')
+        .eq('item_id', itemId);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Cheapest shop first for buying, best offer first for selling back
+  const { buyAt, sellAt } = useMemo(() => ({
+    buyAt: (prices || []).filter(p => Number(p.price_buy) > 0).sort((a, b) => Number(a.price_buy) - Number(b.price_buy)),
+    sellAt: (prices || []).filter(p => Number(p.price_sell) > 0).sort((a, b) => Number(b.price_sell) - Number(a.price_sell)),
+  }), [prices]);
+
+  const formatPrice = (price: number | null) => {
+    if (!price) return '—';
+    return `${Number(price).toLocaleString()} aUEC`;
+  };
+
+  const renderTable = (rows: typeof buyAt, side: 'buy' | 'sell') => (
+    <Table>
+      <TableHeader>
+        <TableRow className="hover:bg-transparent border-border/50">
+          <TableHead>Terminal</TableHead>
+          <TableHead className="text-right">Prix</TableHead>
+          <TableHead className="text-right">Mis à jour</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(p => (
+          <TableRow key={p.id} className="border-border/30 hover:bg-muted/20">
+            <TableCell>
+              {p.terminals ? (
+                <Link to={`/terminals/${p.terminals.slug}`} className="text-sm font-medium hover:text-primary hover:underline">{p.terminals.name}</Link>
+              ) : '—'}
+              <div className="text-xs text-muted-foreground">{formatTerminalLocation(p.terminals)}</div>
+            </TableCell>
+            <TableCell className={`text-right font-mono text-sm ${side === 'buy' ? 'text-green-400' : 'text-accent'}`}>
+              {formatPrice(Number(side === 'buy' ? p.price_buy : p.price_sell))}
+            </TableCell>
+            <TableCell className="text-right text-xs text-muted-foreground">
+              {p.updated_at ? formatDistanceToNow(new Date(p.updated_at), { addSuffix: true, locale: fr }) : '—'}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 4 }).map((_, i) => <div key={i} className="h-8 bg-muted/30 rounded animate-pulse" />)}
+      </div>
+    );
+  }
+
+  if (buyAt.length === 0 && sellAt.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        Aucun terminal connu pour cet objet. Lance la sync items depuis l'admin.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+      <div>
+        <h3 className="text-sm font-semibold flex items-center gap-2 mb-1">
+          <TrendingDown className="w-4 h-4 text-green-400" /> Où acheter ({buyAt.length})
+        </h3>
+        {buyAt.length > 0
+          ? renderTable(buyAt, 'buy')
+          : <p className="text-sm text-muted-foreground">Aucun terminal ne vend cet objet.</p>}
+      </div>
+      {sellAt.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold flex items-center gap-2 mb-1">
+            <TrendingUp className="w-4 h-4 text-accent" /> Où revendre ({sellAt.length})
+          </h3>
+          {renderTable(sellAt, 'sell')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,12 +2,13 @@ import { ReactNode, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
-import { Rocket, Ship, ImageIcon, BookOpen, User, LogOut, Menu, X, Package, Mountain, Target, Sword } from 'lucide-react';
+import { Rocket, Ship, ImageIcon, BookOpen, User, LogOut, Menu, X, Package, Mountain, Target, Sword, Route, MapPin, Shield, Users, Wrench } from 'lucide-react';
 import { LanguageSelector } from './LanguageSelector';
 import { useTranslation } from 'react-i18next';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { SpaceBackground } from '@/components/SpaceBackground';
+import { RefineryJobNotifier } from '@/components/RefineryJobNotifier';
 
 export default function Layout({ children }: { children: ReactNode }) {
   const { user, signOut, isAdmin } = useAuth();
@@ -20,12 +21,17 @@ export default function Layout({ children }: { children: ReactNode }) {
     { name: t('nav.home'), path: '/', icon: Rocket },
     { name: t('nav.ships'), path: '/ships', icon: Ship },
     { name: 'Commodities', path: '/commodities', icon: Package },
+    { name: 'Trade', path: '/trade', icon: Route },
+    { name: 'Terminals', path: '/terminals', icon: MapPin },
     { name: 'Mining', path: '/mining', icon: Mountain },
     { name: 'Missions', path: '/missions', icon: Target },
     { name: 'Items', path: '/items', icon: Sword },
+    { name: 'Loadouts', path: '/loadouts', icon: Wrench },
     { name: t('nav.gallery'), path: '/gallery', icon: ImageIcon },
     { name: t('nav.logs'), path: '/logs', icon: BookOpen },
     { name: 'Pilots', path: '/pilots', icon: User },
+    { name: 'Orgs', path: '/orgs', icon: Shield },
+    { name: 'LFG', path: '/lfg', icon: Users },
     { name: t('nav.profile'), path: '/profile', icon: User },
   ];
 
@@ -37,6 +43,7 @@ export default function Layout({ children }: { children: ReactNode }) {
   return (
     <div className="min-h-screen bg-background">
       <SpaceBackground />
+      {user && <RefineryJobNotifier />}
       <nav className="border-b border-border bg-card/95 backdrop-blur supports-[backdrop-filter]:bg-card/80 sticky top-0 z-50">
         <div className="container mx-auto px-4">
           <div className="flex h-16 items-center justify-between">
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Card, CardContent } from '@/components/ui/card';
+import { Check, Clock, MapPin, UserPlus, Users, X } from 'lucide-react';
+import { languages } from '@/i18n/languages';
+import type { useLfg } from '@/hooks/useLfg';
+import { LFG_ACTIVITIES, acceptedCount } from '@/lib/lfg';
+
+type Lfg = ReturnType<typeof useLfg>;
+type Listing = Lfg['listings'][number];
+
+interface LfgListingCardProps {
+  listing: Listing;
+  userId?: string;
+  requestSeat: Lfg['requestSeat'];
+  withdrawRequest: Lfg['withdrawRequest'];
+  answerRequest: Lfg['answerRequest'];
+  closeListing: Lfg['closeListing'];
+}
+
+const REQUEST_LABELS: Record<string, string> = {
+  pending: 'Demande en attente',
+  accepted: 'Accepté à bord',
+  declined: 'Demande refusée',
+};
+
+export function LfgListingCard({ listing, userId, requestSeat, withdrawRequest, answerRequest, closeListing }: LfgListingCardProps) {
+  const [message, setMessage] = useState('');
+
+  const isOwner = listing.user_id === userId;
+  const accepted = listing.lfg_requests.filter(r => r.status === 'accepted');
+  const pending = listing.lfg_requests.filter(r => r.status === 'pending');
+  const myRequest = listing.lfg_requests.find(r => r.user_id === userId);
+  const seatsTaken = acceptedCount(listing.lfg_requests);
+  const isFull = seatsTaken >= listing.seats_needed;
+  const language = languages.find(l => l.code === listing.language);
+  const startsAt = new Date(listing.starts_at);
+
+  return (
+    <Card className="bg-card/60 border-border/50">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex gap-3">
+          <img
+            src={listing.ships?.image_url || `${import.meta.env.BASE_URL}placeholder.svg`}
+            alt={listing.ships?.name ?? ''}
+            className="w-24 h-16 object-cover rounded-md bg-muted shrink-0"
+            loading="lazy"
+          />
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex flex-wrap gap-1">
+              <Badge variant="outline" className="text-xs">{LFG_ACTIVITIES.find(a => a.value === listing.activity)?.label ?? listing.activity}</Badge>
+              {language && <Badge variant="outline" className="text-xs">{language.flag} {language.name}</Badge>}
+              <Badge variant={isFull ? 'secondary' : 'default'} className="text-xs gap-1">
+                <Users className="w-3 h-3" /> {seatsTaken} / {listing.seats_needed}
+              </Badge>
+            </div>
+            {listing.ships && (
+              <Link to={`/ships/${listing.ships.slug}`} className="font-semibold text-sm hover:text-primary hover:underline">
+                {listing.ships.name}
+              </Link>
+            )}
+            {listing.missions && <p className="text-xs text-primary truncate">{listing.missions.title}</p>}
+          </div>
+        </div>
+
+        <div className="text-xs text-muted-foreground flex flex-wrap gap-x-4 gap-y-1">
+          <span className="flex items-center gap-1">
+            <Clock className="w-3 h-3" />
+            {format(startsAt, 'EEE d MMM HH:mm', { locale: fr })} ({formatDistanceToNow(startsAt, { addSuffix: true, locale: fr })})
+          </span>
+          {listing.star_system && <span className="flex items-center gap-1"><MapPin className="w-3 h-3" /> {listing.star_system}</span>}
+          {listing.profiles && (
+            <span>
+              par <Link to={`/pilots/${listing.profiles.handle}`} className="text-foreground hover:text-primary hover:underline">{listing.profiles.display_name}</Link>
+            </span>
+          )}
+        </div>
+
+        {listing.description && <p className="text-sm whitespace-pre-line">{listing.description}</p>}
+
+        {accepted.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-muted-foreground">Équipage :</span>
+            {accepted.map(r => r.profiles && (
+              <Link key={r.id} to={`/pilots/${r.profiles.handle}`} className="flex items-center gap-1 text-xs hover:text-primary">
+                <Avatar className="w-5 h-5">
+                  <AvatarImage src={r.profiles.avatar_url || undefined} />
+                  <AvatarFallback className="text-[10px]">{r.profiles.display_name?.[0]?.toUpperCase()}</AvatarFallback>
+                </Avatar>
+                {r.profiles.display_name}
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {isOwner ? (
+          <div className="space-y-2 border-t border-border pt-3">
+            {pending.length === 0 ? (
+              <p className="text-xs text-muted-foreground">Aucune demande en attente</p>
+            ) : (
+              pending.map(r => (
+                <div key={r.id} className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0 text-sm">
+                    {r.profiles && (
+                      <Link to={`/pilots/${r.profiles.handle}`} className="font-medium hover:text-primary hover:underline">{r.profiles.display_name}</Link>
+                    )}
+                    {r.message && <p className="text-xs text-muted-foreground">{r.message}</p>}
+                  </div>
+                  <Button
+                    size="sm"
+                    className="gap-1"
+                    disabled={isFull || answerRequest.isPending}
+                    onClick={() => answerRequest.mutate({ requestId: r.id, accept: true })}
+                  >
+                    <Check className="w-4 h-4" /> Accepter
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={answerRequest.isPending}
+                    onClick={() => answerRequest.mutate({ requestId: r.id, accept: false })}
+                    aria-label="Refuser"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+            <Button variant="outline" size="sm" onClick={() => closeListing.mutate(listing.id)} disabled={closeListing.isPending}>
+              Fermer l'annonce
+            </Button>
+          </div>
+        ) : userId && (
+          <div className="border-t border-border pt-3">
+            {myRequest ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={myRequest.status === 'accepted' ? 'default' : 'outline'}>{REQUEST_LABELS[myRequest.status] ?? myRequest.status}</Badge>
+                <Button variant="ghost" size="sm" onClick={() => withdrawRequest.mutate(myRequest.id)} disabled={withdrawRequest.isPending}>
+                  {myRequest.status === 'accepted' ? 'Quitter l\'équipage' : 'Retirer'}
+                </Button>
+              </div>
+            ) : isFull ? (
+              <p className="text-xs text-muted-foreground">Équipage complet</p>
+            ) : (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  placeholder="Message (rôle, expérience...)"
+                  className="h-9 bg-background/50"
+                />
+                <Button
+                  size="sm"
+                  className="gap-2 shrink-0"
+                  disabled={requestSeat.isPending}
+                  onClick={() => requestSeat.mutate({ listingId: listing.id, message: message.trim() || null }, { onSuccess: () => setMessage('') })}
+                >
+                  <UserPlus className="w-4 h-4" /> Demander une place
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
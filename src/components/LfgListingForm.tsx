@@ -0,0 +1,239 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { addMinutes, format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, Send, X } from 'lucide-react';
+import { languages } from '@/i18n/languages';
+import { useHangar } from '@/hooks/useHangar';
+import type { NewLfgListing } from '@/hooks/useLfg';
+import { LFG_ACTIVITIES, LFG_DURATIONS, isMulticrew, listingExpiry } from '@/lib/lfg';
+
+interface LfgListingFormProps {
+  userId: string;
+  pending: boolean;
+  onSubmit: (listing: NewLfgListing) => void;
+  onCancel: () => void;
+}
+
+type MissionOption = { id: number; title: string; star_system: string | null };
+
+export function LfgListingForm({ userId, pending, onSubmit, onCancel }: LfgListingFormProps) {
+  const { i18n } = useTranslation();
+  const { ships: hangar } = useHangar(userId);
+
+  const [activity, setActivity] = useState('mining');
+  const [mission, setMission] = useState<MissionOption | null>(null);
+  const [missionSearch, setMissionSearch] = useState('');
+  const [shipId, setShipId] = useState('');
+  const [seats, setSeats] = useState('1');
+  const [starSystem, setStarSystem] = useState('');
+  const [startsAt, setStartsAt] = useState(() => format(addMinutes(new Date(), 30), "yyyy-MM-dd'T'HH:mm"));
+  const [duration, setDuration] = useState('2');
+  const [language, setLanguage] = useState(languages.some(l => l.code === i18n.language) ? i18n.language : 'en');
+  const [description, setDescription] = useState('');
+
+  const { data: multicrewShips } = useQuery({
+    queryKey: ['multicrew-ships'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ships')
+        .select('id, name, manufacturer, crew_min, crew_max')
+        .gt('crew_min', 1)
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: missions } = useQuery({
+    queryKey: ['lfg-missions'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('missions')
+        .select('id, title, star_system')
+        .eq('is_active', true)
+        .order('title');
+      if (error) throw error;
+      return data;
+    },
+    enabled: activity === 'mission',
+  });
+
+  // The pilot's own multicrew hulls first
+  const shipOptions = useMemo(() => {
+    const owned = new Set(hangar.filter(entry => entry.ships && isMulticrew(entry.ships)).map(entry => entry.ship_id));
+    return [...(multicrewShips ?? [])]
+      .map(ship => ({ ...ship, owned: owned.has(ship.id) }))
+      .sort((a, b) => Number(b.owned) - Number(a.owned));
+  }, [hangar, multicrewShips]);
+
+  const missionSuggestions = useMemo(() => {
+    if (!missions || missionSearch.length < 2) return [];
+    const q = missionSearch.toLowerCase();
+    return missions.filter(m => m.title.toLowerCase().includes(q)).slice(0, 8);
+  }, [missions, missionSearch]);
+
+  const selectShip = (value: string) => {
+    setShipId(value);
+    const ship = shipOptions.find(s => String(s.id) === value);
+    // Every seat but the pilot's
+    if (ship) setSeats(String(Math.max(1, (ship.crew_max ?? ship.crew_min ?? 2) - 1)));
+  };
+
+  const selectMission = (option: MissionOption) => {
+    setMission(option);
+    setMissionSearch('');
+    if (!starSystem && option.star_system) setStarSystem(option.star_system);
+  };
+
+  const canSubmit = !!shipId && !!startsAt && Number(seats) > 0 && (activity !== 'mission' || !!mission);
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    const start = new Date(startsAt);
+    onSubmit({
+      activity,
+      mission_id: activity === 'mission' ? mission?.id ?? null : null,
+      ship_id: Number(shipId),
+      seats_needed: Math.min(100, Math.max(1, Number(seats))),
+      star_system: starSystem.trim() || null,
+      starts_at: start.toISOString(),
+      expires_at: listingExpiry(start, Number(duration)),
+      language,
+      description: description.trim() || null,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <Label>Activité</Label>
+          <Select value={activity} onValueChange={setActivity}>
+            <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {LFG_ACTIVITIES.map(a => (
+                <SelectItem key={a.value} value={a.value}>{a.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Vaisseau</Label>
+          <Select value={shipId} onValueChange={selectShip}>
+            <SelectTrigger className="bg-background/50"><SelectValue placeholder="Vaisseau multi-équipage" /></SelectTrigger>
+            <SelectContent>
+              {shipOptions.map(ship => (
+                <SelectItem key={ship.id} value={String(ship.id)}>
+                  {ship.name}{ship.owned ? ' • hangar' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="lfg-seats">Places à pourvoir</Label>
+          <Input id="lfg-seats" type="number" min={1} max={100} value={seats} onChange={(e) => setSeats(e.target.value)} className="bg-background/50" />
+        </div>
+      </div>
+
+      {activity === 'mission' && (
+        <div className="space-y-2">
+          <Label>Mission</Label>
+          {mission ? (
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant="secondary" className="gap-1">
+                {mission.title}
+                <button type="button" onClick={() => setMission(null)} aria-label="Retirer la mission"><X className="w-3 h-3" /></button>
+              </Badge>
+            </div>
+          ) : (
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Chercher une mission..."
+                value={missionSearch}
+                onChange={(e) => setMissionSearch(e.target.value)}
+                className="pl-10 bg-background/50"
+              />
+              {missionSuggestions.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full rounded-md border border-border bg-popover shadow-md">
+                  {missionSuggestions.map(option => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => selectMission(option)}
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-muted/50 flex justify-between gap-2"
+                    >
+                      <span className="truncate">{option.title}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">{option.star_system || ''}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="lfg-start">Départ</Label>
+          <Input id="lfg-start" type="datetime-local" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} className="bg-background/50" />
+        </div>
+        <div className="space-y-2">
+          <Label>Visible jusqu'à</Label>
+          <Select value={duration} onValueChange={setDuration}>
+            <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {LFG_DURATIONS.map(d => (
+                <SelectItem key={d.hours} value={String(d.hours)}>Départ + {d.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="lfg-system">Système</Label>
+          <Input id="lfg-system" value={starSystem} onChange={(e) => setStarSystem(e.target.value)} placeholder="Stanton" className="bg-background/50" />
+        </div>
+        <div className="space-y-2">
+          <Label>Langue</Label>
+          <Select value={language} onValueChange={setLanguage}>
+            <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {languages.map(l => (
+                <SelectItem key={l.code} value={l.code}>{l.flag} {l.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="lfg-description">Détails</Label>
+        <Textarea
+          id="lfg-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Rôles recherchés, point de rendez-vous, vocal..."
+          rows={2}
+          className="bg-background/50"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={handleSubmit} disabled={!canSubmit || pending} className="gap-2">
+          <Send className="w-4 h-4" /> Publier
+        </Button>
+        <Button variant="ghost" onClick={onCancel}>Annuler</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, Crosshair, MapPin, Save, ShoppingCart } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+import { useLoadoutItems, useLoadoutOffers, type LoadoutInput } from '@/hooks/useLoadouts';
+import { formatTerminalLocation } from '@/lib/terminalUtils';
+import { planShoppingList } from '@/lib/shoppingList';
+import {
+  HARDPOINT_GROUPS,
+  cheapestPrices,
+  fitsSlot,
+  loadoutLines,
+  loadoutShoppingList,
+  loadoutTotal,
+  parseSelection,
+  shipSlots,
+  type LoadoutSelection,
+} from '@/lib/loadout';
+
+type LoadoutShip = Pick<Tables<'ships'>, 'id' | 'armament' | 'systems'>;
+
+interface LoadoutEditorProps {
+  ship: LoadoutShip;
+  /** Saved loadout to start from, null for a new one */
+  loadout: Tables<'ship_loadouts'> | null;
+  /** Visitors see the components without the pickers or the save form */
+  readOnly: boolean;
+  canSave: boolean;
+  saving: boolean;
+  onSave: (loadout: LoadoutInput) => void;
+}
+
+const STOCK = 'stock';
+// Same default as the shopping list: one more stop is worth 5000 aUEC
+const STOP_PENALTY = 5000;
+
+const formatAuec = (value: number) => `${Math.round(value).toLocaleString()} aUEC`;
+
+export function LoadoutEditor({ ship, loadout, readOnly, canSave, saving, onSave }: LoadoutEditorProps) {
+  const [name, setName] = useState(loadout?.name ?? '');
+  const [description, setDescription] = useState(loadout?.description ?? '');
+  const [isPublic, setIsPublic] = useState(loadout?.is_public ?? true);
+  const [selection, setSelection] = useState<LoadoutSelection>(() => (loadout ? parseSelection(loadout.slots) : {}));
+
+  const { items, isLoading: loadingItems } = useLoadoutItems();
+  const slots = useMemo(() => shipSlots(ship), [ship]);
+  const itemsById = useMemo(() => new Map(items.map(item => [item.id, item])), [items]);
+
+  const compatible = useMemo(
+    () => new Map(slots.map(slot => [slot.key, items.filter(item => fitsSlot(item, slot)).sort((a, b) => a.name.localeCompare(b.name))])),
+    [slots, items],
+  );
+
+  const itemIds = useMemo(
+    () => Array.from(new Set(Object.values(selection))).sort((a, b) => a - b),
+    [selection],
+  );
+  const { offers, isLoading: loadingOffers } = useLoadoutOffers(itemIds);
+
+  const prices = useMemo(() => cheapestPrices(offers), [offers]);
+  const lines = useMemo(() => loadoutLines(slots, selection, itemsById, prices), [slots, selection, itemsById, prices]);
+  const total = loadoutTotal(lines);
+  const unpriced = lines.filter(line => line.unitPrice === null).length;
+  const plan = useMemo(() => planShoppingList(loadoutShoppingList(lines), offers, STOP_PENALTY)[0], [lines, offers]);
+
+  const pick = (slotKey: string, value: string) => {
+    setSelection(current => {
+      const { [slotKey]: _previous, ...rest } = current;
+      return value === STOCK ? rest : { ...rest, [slotKey]: Number(value) };
+    });
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave({
+      ship_id: ship.id,
+      name: name.trim(),
+      description: description.trim() || null,
+      is_public: isPublic,
+      slots: selection,
+    });
+  };
+
+  if (slots.length === 0) {
+    return (
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="py-12 text-center text-muted-foreground">
+          Aucun emplacement connu pour ce vaisseau • Lance la sync vaisseaux depuis l'admin
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Hardpoints */}
+      <Card className="bg-card/60 border-border/50 lg:col-span-2">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2"><Crosshair className="w-4 h-4 text-primary" /> Emplacements</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          {loadingItems && <Skeleton className="h-8 w-full" />}
+          {HARDPOINT_GROUPS.map(group => {
+            const groupSlots = slots.filter(slot => slot.group.key === group.key);
+            if (groupSlots.length === 0) return null;
+            return (
+              <div key={group.key} className="space-y-2">
+                <p className="text-xs sm:text-sm text-muted-foreground">{group.label}</p>
+                {groupSlots.map(slot => {
+                  const options = compatible.get(slot.key) ?? [];
+                  const picked = itemsById.get(selection[slot.key]);
+                  return (
+                    <div key={slot.key} className="flex flex-col sm:flex-row sm:items-center gap-2 border border-border rounded-lg p-2">
+                      <div className="flex items-center gap-2 sm:w-2/5 min-w-0">
+                        {slot.sizeLabel && <Badge variant="outline" className="text-xs shrink-0">{slot.sizeLabel}</Badge>}
+                        <span className="text-sm truncate" title={slot.stock}>{slot.stock}</span>
+                        {slot.count > 1 && <span className="text-xs text-muted-foreground shrink-0">× {slot.count}</span>}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        {readOnly ? (
+                          <span className={`text-sm ${picked ? 'font-medium text-primary' : 'text-muted-foreground'}`}>
+                            {picked ? picked.name : 'Stock'}
+                          </span>
+                        ) : (
+                          <Select value={picked ? String(picked.id) : STOCK} onValueChange={(value) => pick(slot.key, value)}>
+                            <SelectTrigger className="h-9 bg-background/50"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={STOCK}>Stock</SelectItem>
+                              {options.map(item => (
+                                <SelectItem key={item.id} value={String(item.id)}>
+                                  {item.name}{item.grade ? ` • ${item.grade}` : ''}{item.manufacturer ? ` • ${item.manufacturer}` : ''}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </div>
+                      {!readOnly && !loadingItems && options.length === 0 && (
+                        <span className="text-xs text-muted-foreground shrink-0">Aucun composant compatible</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-6">
+        {/* Total */}
+        <Card className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2"><ShoppingCart className="w-4 h-4 text-primary" /> Coût des changements</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <p className="text-xs sm:text-sm text-muted-foreground">Total</p>
+                <p className="text-sm sm:text-base font-bold text-primary">{formatAuec(total)}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs sm:text-sm text-muted-foreground">Composants changés</p>
+                <p className="text-sm sm:text-base font-bold text-primary">{lines.length} / {slots.length}</p>
+              </div>
+            </div>
+            {unpriced > 0 && (
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3 text-amber-400" /> {unpriced} composant(s) sans prix connu
+              </p>
+            )}
+            {lines.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {lines.map(line => (
+                  <li key={line.slot.key} className="flex justify-between gap-2">
+                    <span className="truncate">{line.item.name}{line.slot.count > 1 ? ` × ${line.slot.count}` : ''}</span>
+                    <span className="font-mono text-xs text-muted-foreground shrink-0">
+                      {line.unitPrice === null ? '—' : formatAuec(line.unitPrice * line.slot.count)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Where to buy */}
+        {lines.length > 0 && (
+          <Card className="bg-card/60 border-border/50">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2"><MapPin className="w-4 h-4 text-primary" /> Où acheter</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {loadingOffers ? (
+                <Skeleton className="h-24 w-full" />
+              ) : !plan ? (
+                <p className="text-sm text-muted-foreground">Aucun terminal connu pour ces composants</p>
+              ) : (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    {plan.system} • {plan.stops.length} arrêt(s) • {formatAuec(plan.total)}
+                  </p>
+                  {plan.stops.map(stop => (
+                    <div key={stop.terminal.id} className="space-y-1 border-l border-border/40 pl-3">
+                      <Link to={`/terminals/${stop.terminal.slug}`} className="text-sm font-medium hover:text-primary hover:underline">
+                        {stop.terminal.name}
+                      </Link>
+                      <p className="text-xs text-muted-foreground">{formatTerminalLocation(stop.terminal)}</p>
+                      <ul className="text-xs space-y-0.5">
+                        {stop.lines.map(line => (
+                          <li key={line.entry.itemId}>{line.entry.name} × {line.entry.quantity}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                  {plan.missing.length > 0 && (
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3 text-amber-400" />
+                      Introuvable dans {plan.system} : {plan.missing.map(entry => entry.name).join(', ')}
+                    </p>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Save */}
+        {!readOnly && (
+          <Card className="bg-card/60 border-border/50">
+            <CardContent className="pt-6 space-y-3">
+              {canSave ? (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="loadout-name">Nom</Label>
+                    <Input id="loadout-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="PvP, minage, course..." className="bg-background/50" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="loadout-description">Notes</Label>
+                    <Textarea
+                      id="loadout-description"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      rows={2}
+                      className="bg-background/50"
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch id="loadout-public" checked={isPublic} onCheckedChange={setIsPublic} />
+                    <Label htmlFor="loadout-public">{isPublic ? 'Loadout public' : 'Loadout privé'}</Label>
+                  </div>
+                  <Button onClick={handleSave} disabled={!name.trim() || saving} className="gap-2 w-full">
+                    <Save className="w-4 h-4" /> Enregistrer
+                  </Button>
+                </>
+              ) : (
+                <Link to="/auth"><Button variant="outline" className="w-full">Se connecter pour enregistrer</Button></Link>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
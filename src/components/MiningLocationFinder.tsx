@@ -0,0 +1,123 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent } from '@/components/ui/card';
+import { MapPin, Factory, Coins } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+import { useRefineryCommodities, useRefineryTerminals, useSellOffers } from '@/hooks/useRefineryData';
+import { getRefinedCommodity } from '@/lib/refinery';
+import { rankMiningLocations, type SellOffer } from '@/lib/miningLocations';
+
+interface MiningLocationFinderProps {
+  resources: Tables<'mining_resources'>[];
+  yields: Tables<'refinery_yields'>[];
+}
+
+const RARITY_LABEL: Record<string, string> = { common: 'Commun', uncommon: 'Peu commun', rare: 'Rare', very_rare: 'Très rare' };
+
+export function MiningLocationFinder({ resources, yields }: MiningLocationFinderProps) {
+  const [commodityId, setCommodityId] = useState<string>('');
+
+  const { data: commodities } = useRefineryCommodities();
+  const { data: refineries } = useRefineryTerminals();
+
+  const ores = useMemo(() => {
+    if (!commodities) return [];
+    const known = new Set(resources.map(r => r.commodity_id));
+    return commodities.filter(c => known.has(c.id));
+  }, [commodities, resources]);
+
+  const refined = useMemo(() => {
+    const raw = commodities?.find(c => c.id === Number(commodityId));
+    return raw && commodities ? getRefinedCommodity(raw, commodities) : null;
+  }, [commodities, commodityId]);
+
+  const { data: offers, isLoading: loadingOffers } = useSellOffers(refined?.id ?? null);
+
+  const ranked = useMemo(() => {
+    if (!commodityId || !refineries) return [];
+    const sellOffers: SellOffer[] = (offers ?? [])
+      .filter(o => o.terminals)
+      .map(o => ({ price: Number(o.price_sell), terminal: o.terminals! }));
+    return rankMiningLocations(Number(commodityId), resources, refineries, yields, sellOffers);
+  }, [commodityId, resources, refineries, yields, offers]);
+
+  const scoreColor = (score: number) =>
+    score >= 70 ? 'bg-green-600/20 text-green-400 border-green-600/30'
+      : score >= 40 ? 'bg-amber-600/20 text-amber-400 border-amber-600/30'
+        : 'bg-muted text-muted-foreground';
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="p-4 space-y-2">
+          <Label>Ressource recherchée</Label>
+          <Select value={commodityId} onValueChange={setCommodityId}>
+            <SelectTrigger className="w-full md:w-[320px] bg-background/50"><SelectValue placeholder="Choisir une ressource" /></SelectTrigger>
+            <SelectContent>
+              {ores.map(c => <SelectItem key={c.id} value={String(c.id)}>{c.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Classement sur la concentration, la fréquence du gisement, la raffinerie la plus proche et le meilleur acheteur du produit raffiné
+            {refined && refined.id !== Number(commodityId) && <> ({refined.name})</>}.
+          </p>
+        </CardContent>
+      </Card>
+
+      {!commodityId ? null : loadingOffers ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => <div key={i} className="h-28 bg-muted/30 rounded animate-pulse" />)}
+        </div>
+      ) : ranked.length === 0 ? (
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-8 text-center text-muted-foreground">Aucun gisement connu pour cette ressource.</CardContent>
+        </Card>
+      ) : (
+        ranked.map((location, index) => (
+          <Card key={location.resource.id} className="bg-card/60 border-border/50">
+            <CardContent className="p-4 space-y-3">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                <div className="flex items-center gap-3">
+                  <span className="text-lg font-bold text-muted-foreground">#{index + 1}</span>
+                  <div>
+                    <p className="font-medium flex items-center gap-2">
+                      <MapPin className="w-4 h-4 text-primary" />
+                      {location.body || location.resource.star_system || '—'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {[location.resource.star_system, location.resource.location_type].filter(Boolean).join(' • ')}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {location.resource.rarity && (
+                    <Badge variant="outline" className="text-xs">{RARITY_LABEL[location.resource.rarity] ?? location.resource.rarity}</Badge>
+                  )}
+                  <Badge className={scoreColor(location.score)}>{location.score}/100</Badge>
+                </div>
+              </div>
+              <ul className="text-sm text-muted-foreground list-disc pl-5 space-y-0.5">
+                {location.reasons.map(reason => <li key={reason}>{reason}</li>)}
+              </ul>
+              <div className="flex flex-wrap gap-4 text-xs">
+                {location.refinery && (
+                  <Link to={`/terminals/${location.refinery.slug}`} className="flex items-center gap-1 hover:text-primary hover:underline">
+                    <Factory className="w-3 h-3" /> {location.refinery.name}
+                  </Link>
+                )}
+                {location.sell && (
+                  <Link to={`/terminals/${location.sell.terminal.slug}`} className="flex items-center gap-1 hover:text-primary hover:underline">
+                    <Coins className="w-3 h-3" /> {location.sell.terminal.name}
+                  </Link>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
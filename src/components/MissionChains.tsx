@@ -0,0 +1,72 @@
+import { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Link2, FileCode, AlertTriangle } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+import { groupMissionChains, getMissionBlueprints } from '@/lib/missionChains';
+
+interface MissionChainsProps {
+  missions: Tables<'missions'>[];
+}
+
+export function MissionChains({ missions }: MissionChainsProps) {
+  const chains = useMemo(() => groupMissionChains(missions), [missions]);
+
+  if (chains.length === 0) {
+    return (
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="py-12 text-center text-muted-foreground">Aucune chaîne de missions pour ces filtres.</CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      {chains.map(chain => (
+        <Card key={chain.id} className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2 min-w-0">
+                <Link2 className="w-4 h-4 text-primary shrink-0" />
+                <span className="truncate">{chain.faction || chain.missions[0].title}</span>
+              </span>
+              <Badge variant="outline" className="text-xs shrink-0">{chain.missions.length}/{chain.length} étapes</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <ol className="space-y-2">
+              {chain.missions.map((mission, index) => (
+                <li key={mission.id} className="flex items-start justify-between gap-3 text-sm">
+                  <div className="flex items-start gap-2 min-w-0">
+                    <span className="text-xs font-mono text-muted-foreground mt-0.5">{mission.chain_step ?? index + 1}.</span>
+                    <div className="min-w-0">
+                      <p className="truncate flex items-center gap-1">
+                        {mission.title}
+                        {mission.is_illegal && <AlertTriangle className="w-3 h-3 text-destructive shrink-0" />}
+                      </p>
+                      {getMissionBlueprints(mission).length > 0 && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                          <FileCode className="w-3 h-3" /> {getMissionBlueprints(mission).join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <span className="font-mono text-xs text-accent shrink-0">
+                    {mission.reward_auec ? `${mission.reward_auec.toLocaleString()} aUEC` : '—'}
+                  </span>
+                </li>
+              ))}
+            </ol>
+            {!chain.complete && (
+              <p className="text-xs text-muted-foreground">Certaines étapes ne sont pas encore dans les données.</p>
+            )}
+            <div className="flex items-center justify-between border-t border-border/50 pt-2 text-sm">
+              <span className="text-muted-foreground">Total{chain.totalXp > 0 && <> • {chain.totalXp.toLocaleString()} XP</>}</span>
+              <span className="font-mono font-bold text-accent">{chain.totalReward.toLocaleString()} aUEC</span>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Save, X } from 'lucide-react';
+import { useShipRoles, type NewOperation, type NewPosition } from '@/hooks/useOperations';
+import { OP_TYPES } from '@/lib/operations';
+
+export type OperationFormValues = NewOperation & { positions: NewPosition[] };
+
+interface OperationFormProps {
+  initial?: NewOperation;
+  /** Positions are only edited here on creation, afterwards they are managed on the op page */
+  withPositions?: boolean;
+  submitLabel: string;
+  pending: boolean;
+  onSubmit: (values: OperationFormValues) => void;
+  onCancel?: () => void;
+}
+
+// <input type="datetime-local"> works in local time without a timezone
+function toLocalInput(iso: string | null | undefined) {
+  return iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : '';
+}
+
+function fromLocalInput(value: string) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+export function PositionPicker({ onAdd, disabled }: { onAdd: (position: NewPosition) => void; disabled?: boolean }) {
+  const { data: roles } = useShipRoles();
+  const [role, setRole] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [label, setLabel] = useState('');
+
+  const handleAdd = () => {
+    if (!role) return;
+    onAdd({ ship_role: role, quantity: Math.max(1, Number(quantity) || 1), label: label.trim() || null });
+    setRole('');
+    setQuantity('1');
+    setLabel('');
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-[1fr_5rem_1fr_auto] gap-2">
+      <Select value={role} onValueChange={setRole}>
+        <SelectTrigger className="bg-background/50"><SelectValue placeholder="Rôle de vaisseau" /></SelectTrigger>
+        <SelectContent>
+          {(roles ?? []).map((r) => (
+            <SelectItem key={r} value={r}>{r}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input type="number" min={1} value={quantity} onChange={(e) => setQuantity(e.target.value)} className="bg-background/50" aria-label="Nombre" />
+      <Input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Libellé (optionnel)" className="bg-background/50" />
+      <Button type="button" variant="outline" className="gap-2" onClick={handleAdd} disabled={!role || disabled}>
+        <Plus className="w-4 h-4" /> Poste
+      </Button>
+    </div>
+  );
+}
+
+export function OperationForm({ initial, withPositions, submitLabel, pending, onSubmit, onCancel }: OperationFormProps) {
+  const [title, setTitle] = useState(initial?.title ?? '');
+  const [opType, setOpType] = useState(initial?.op_type ?? 'mining');
+  const [startsAt, setStartsAt] = useState(toLocalInput(initial?.starts_at));
+  const [endsAt, setEndsAt] = useState(toLocalInput(initial?.ends_at));
+  const [starSystem, setStarSystem] = useState(initial?.star_system ?? '');
+  const [crewSlots, setCrewSlots] = useState(String(initial?.crew_slots ?? 0));
+  const [objective, setObjective] = useState(initial?.objective_md ?? '');
+  const [positions, setPositions] = useState<NewPosition[]>([]);
+
+  const endsBeforeStart = !!startsAt && !!endsAt && endsAt <= startsAt;
+
+  const handleSubmit = () => {
+    if (!title.trim() || !startsAt || endsBeforeStart) return;
+    onSubmit({
+      title: title.trim(),
+      op_type: opType,
+      starts_at: fromLocalInput(startsAt)!,
+      ends_at: fromLocalInput(endsAt),
+      star_system: starSystem.trim() || null,
+      crew_slots: Math.max(0, Number(crewSlots) || 0),
+      objective_md: objective.trim() || null,
+      positions,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="op-title">Titre</Label>
+          <Input id="op-title" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Convoi Stanton → Pyro" className="bg-background/50" />
+        </div>
+        <div className="space-y-2">
+          <Label>Type</Label>
+          <Select value={opType} onValueChange={setOpType}>
+            <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {OP_TYPES.map((type) => (
+                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="op-start">Début</Label>
+          <Input id="op-start" type="datetime-local" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} className="bg-background/50" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="op-end">Fin (optionnelle)</Label>
+          <Input id="op-end" type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} className="bg-background/50" />
+          {endsBeforeStart && <p className="text-xs text-destructive">La fin doit être après le début</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="op-system">Système</Label>
+          <Input id="op-system" value={starSystem} onChange={(e) => setStarSystem(e.target.value)} placeholder="Stanton" className="bg-background/50" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="op-crew">Places d'équipage</Label>
+          <Input id="op-crew" type="number" min={0} value={crewSlots} onChange={(e) => setCrewSlots(e.target.value)} className="bg-background/50" />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="op-objective">Objectif (Markdown)</Label>
+        <Textarea id="op-objective" value={objective} onChange={(e) => setObjective(e.target.value)} rows={3} className="bg-background/50" />
+      </div>
+
+      {withPositions && (
+        <div className="space-y-2">
+          <Label>Vaisseaux requis</Label>
+          {positions.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {positions.map((position, i) => (
+                <Badge key={i} variant="secondary" className="gap-1">
+                  {position.quantity} × {position.ship_role}{position.label && <> • {position.label}</>}
+                  <button type="button" onClick={() => setPositions(positions.filter((_, j) => j !== i))} aria-label="Retirer le poste">
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          <PositionPicker onAdd={(position) => setPositions([...positions, position])} />
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={handleSubmit} disabled={!title.trim() || !startsAt || endsBeforeStart || pending} className="gap-2">
+          <Save className="w-4 h-4" /> {submitLabel}
+        </Button>
+        {onCancel && <Button variant="ghost" onClick={onCancel}>Annuler</Button>}
+      </div>
+    </div>
+  );
+}
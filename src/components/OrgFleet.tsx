@@ -0,0 +1,83 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useOrgFleet } from '@/hooks/useOrganizations';
+import { fleetTotals } from '@/lib/hangar';
+
+interface OrgFleetProps {
+  orgId: number;
+  /** Non-members only see the ships of members with a public hangar */
+  isMember: boolean;
+}
+
+export function OrgFleet({ orgId, isMember }: OrgFleetProps) {
+  const { data: fleet, isLoading } = useOrgFleet(orgId);
+  const totals = useMemo(() => fleetTotals(fleet ?? []), [fleet]);
+
+  if (isLoading) return <Skeleton className="h-40 w-full" />;
+
+  if (!fleet || fleet.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">Aucun vaisseau dans les hangars des membres</p>;
+  }
+
+  const tiles = [
+    { label: 'Vaisseaux', value: totals.ships.toLocaleString() },
+    { label: 'Modèles différents', value: fleet.length.toLocaleString() },
+    { label: 'Cargo total', value: `${totals.cargo.toLocaleString()} SCU` },
+    { label: "Places d'équipage", value: totals.crewSeats.toLocaleString() },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {!isMember && (
+        <p className="text-xs text-muted-foreground">Seuls les hangars publics des membres sont comptés.</p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {tiles.map((tile) => (
+          <div key={tile.label} className="space-y-1">
+            <p className="text-xs sm:text-sm text-muted-foreground">{tile.label}</p>
+            <p className="text-sm sm:text-base font-bold text-primary">{tile.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs sm:text-sm text-muted-foreground">Couverture des rôles</p>
+        <div className="flex flex-wrap gap-2">
+          {totals.roles.map((r) => (
+            <Badge key={r.role} variant="secondary" className="text-xs">
+              {r.role} × {r.count}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {fleet.map((row) => row.ships && (
+          <div key={row.ships.id} className="flex gap-3 border border-border rounded-lg p-3">
+            <img
+              src={row.ships.image_url || `${import.meta.env.BASE_URL}placeholder.svg`}
+              alt={row.ships.name}
+              className="w-24 h-16 object-cover rounded-md bg-muted shrink-0"
+              loading="lazy"
+            />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-start justify-between gap-2">
+                <Link to={`/ships/${row.ships.slug}`} className="font-semibold text-sm hover:text-primary hover:underline">
+                  {row.ships.name}
+                </Link>
+                <Badge className="shrink-0">× {row.count}</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {[row.ships.manufacturer, row.ships.role].filter(Boolean).join(' • ')}
+              </p>
+              <p className="text-xs text-muted-foreground">{row.owners} propriétaire(s)</p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { format, isPast } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CalendarDays, CalendarPlus, MapPin, Plus, Users } from 'lucide-react';
+import { useOrgOperations } from '@/hooks/useOperations';
+import { OperationForm } from '@/components/OperationForm';
+import { OP_STATUSES, OP_TYPES, RSVP_STATUSES, operationUrl, operationsToIcs } from '@/lib/operations';
+import { downloadFile } from '@/lib/utils';
+
+interface OrgOperationsProps {
+  org: { id: number; slug: string; name: string };
+  userId: string;
+  isOfficer: boolean;
+}
+
+export function OrgOperations({ org, userId, isOfficer }: OrgOperationsProps) {
+  const navigate = useNavigate();
+  const { operations, isLoading, createOperation } = useOrgOperations(org.id, userId);
+  const [creating, setCreating] = useState(false);
+
+  const isOver = (op: (typeof operations)[number]) =>
+    op.status === 'completed' || op.status === 'cancelled' || isPast(new Date(op.ends_at ?? op.starts_at));
+  const upcoming = operations.filter((op) => !isOver(op));
+  const past = operations.filter(isOver).reverse();
+
+  const exportCalendar = () => {
+    const ics = operationsToIcs(upcoming, org.name, (op) => operationUrl(org.slug, op.id));
+    downloadFile(`${org.slug}-operations.ics`, ics, 'text/calendar;charset=utf-8');
+  };
+
+  const renderOperation = (op: (typeof operations)[number]) => {
+    const going = op.org_operation_rsvps.filter((r) => r.status === 'going').length;
+    const mine = op.org_operation_rsvps.find((r) => r.user_id === userId);
+    return (
+      <Link
+        key={op.id}
+        to={`/orgs/${org.slug}/ops/${op.id}`}
+        className="flex flex-wrap items-center gap-3 border border-border rounded-lg p-3 hover:border-primary/50 transition-colors"
+      >
+        <div className="text-center w-14 shrink-0">
+          <p className="text-xs uppercase text-muted-foreground">{format(new Date(op.starts_at), 'MMM', { locale: fr })}</p>
+          <p className="text-xl font-bold">{format(new Date(op.starts_at), 'd')}</p>
+        </div>
+        <div className="flex-1 min-w-0 space-y-1">
+          <p className="font-semibold text-sm truncate">{op.title}</p>
+          <p className="text-xs text-muted-foreground flex flex-wrap items-center gap-x-3">
+            <span className="flex items-center gap-1"><CalendarDays className="w-3 h-3" /> {format(new Date(op.starts_at), 'EEEE HH:mm', { locale: fr })}</span>
+            {op.star_system && <span className="flex items-center gap-1"><MapPin className="w-3 h-3" /> {op.star_system}</span>}
+            <span className="flex items-center gap-1"><Users className="w-3 h-3" /> {going} présent(s)</span>
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          <Badge variant="outline" className="text-xs">{OP_TYPES.find((t) => t.value === op.op_type)?.label ?? op.op_type}</Badge>
+          {op.status !== 'planned' && (
+            <Badge variant="secondary" className="text-xs">{OP_STATUSES.find((s) => s.value === op.status)?.label ?? op.status}</Badge>
+          )}
+          {mine && <Badge className="text-xs">{RSVP_STATUSES.find((s) => s.value === mine.status)?.label}</Badge>}
+        </div>
+      </Link>
+    );
+  };
+
+  if (isLoading) return <Skeleton className="h-40 w-full" />;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        {isOfficer && !creating && (
+          <Button size="sm" className="gap-2" onClick={() => setCreating(true)}>
+            <Plus className="w-4 h-4" /> Planifier une opération
+          </Button>
+        )}
+        <Button variant="outline" size="sm" className="gap-2" onClick={exportCalendar} disabled={upcoming.length === 0}>
+          <CalendarPlus className="w-4 h-4" /> Exporter le calendrier (.ics)
+        </Button>
+      </div>
+
+      {creating && (
+        <div className="border border-border rounded-lg p-4">
+          <OperationForm
+            withPositions
+            submitLabel="Planifier"
+            pending={createOperation.isPending}
+            onCancel={() => setCreating(false)}
+            onSubmit={(values) => createOperation.mutate(values, { onSuccess: (id) => navigate(`/orgs/${org.slug}/ops/${id}`) })}
+          />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-xs sm:text-sm text-muted-foreground">À venir</p>
+        {upcoming.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Aucune opération planifiée</p>
+        ) : (
+          <div className="space-y-2">{upcoming.map(renderOperation)}</div>
+        )}
+      </div>
+
+      {past.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs sm:text-sm text-muted-foreground">Passées</p>
+          <div className="space-y-2 opacity-80">{past.map(renderOperation)}</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Save } from 'lucide-react';
+import type { NewOrganization } from '@/hooks/useOrganizations';
+
+interface OrganizationFormProps {
+  initial?: NewOrganization;
+  submitLabel: string;
+  pending: boolean;
+  onSubmit: (values: NewOrganization) => void;
+  onCancel?: () => void;
+}
+
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+function toSlug(name: string) {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function OrganizationForm({ initial, submitLabel, pending, onSubmit, onCancel }: OrganizationFormProps) {
+  const [name, setName] = useState(initial?.name ?? '');
+  // The slug follows the name until it is edited by hand
+  const [slug, setSlug] = useState(initial?.slug ?? '');
+  const [slugEdited, setSlugEdited] = useState(!!initial);
+  const [logoUrl, setLogoUrl] = useState(initial?.logo_url ?? '');
+  const [description, setDescription] = useState(initial?.description_md ?? '');
+
+  const slugValid = SLUG_PATTERN.test(slug);
+
+  const handleSubmit = () => {
+    if (!name.trim() || !slugValid) return;
+    onSubmit({
+      name: name.trim(),
+      slug,
+      logo_url: logoUrl.trim() || null,
+      description_md: description.trim() || null,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="org-name">Nom</Label>
+          <Input
+            id="org-name"
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              if (!slugEdited) setSlug(toSlug(e.target.value));
+            }}
+            className="bg-background/50"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="org-slug">Slug</Label>
+          <Input
+            id="org-slug"
+            value={slug}
+            onChange={(e) => { setSlug(e.target.value.toLowerCase()); setSlugEdited(true); }}
+            placeholder="mon-orga"
+            className="bg-background/50"
+          />
+          {slug && !slugValid && (
+            <p className="text-xs text-destructive">Lettres minuscules, chiffres et tirets uniquement</p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="org-logo">URL du logo</Label>
+        <Input id="org-logo" value={logoUrl} onChange={(e) => setLogoUrl(e.target.value)} placeholder="https://..." className="bg-background/50" />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="org-description">Description (Markdown)</Label>
+        <Textarea
+          id="org-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={4}
+          className="bg-background/50"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={handleSubmit} disabled={!name.trim() || !slugValid || pending} className="gap-2">
+          <Save className="w-4 h-4" /> {submitLabel}
+        </Button>
+        {onCancel && <Button variant="ghost" onClick={onCancel}>Annuler</Button>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useTranslation } from 'react-i18next';
+import type { Json } from '@/integrations/supabase/types';
+
+// Shape of profiles.stats, kept up to date from the mission log by refresh_profile_mission_stats()
+interface PilotStatsData {
+  missions_completed?: number;
+  total_earnings?: number;
+  hours_logged?: number;
+  auec_per_hour?: number;
+  top_category?: string | null;
+  top_faction?: string | null;
+}
+
+interface PilotStatsProps {
+  stats: Json | null;
+}
+
+export function PilotStats({ stats }: PilotStatsProps) {
+  const { t } = useTranslation();
+  const data = (stats && typeof stats === 'object' && !Array.isArray(stats) ? stats : {}) as PilotStatsData;
+  const number = (value: number | undefined) => Number(value ?? 0).toLocaleString();
+  const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+  const tiles = [
+    { label: t('profile.pilotStats.missionsCompleted'), value: number(data.missions_completed) },
+    { label: t('profile.pilotStats.totalEarnings'), value: `${number(data.total_earnings)} aUEC` },
+    { label: t('profile.pilotStats.hoursLogged'), value: `${Number(data.hours_logged ?? 0).toFixed(1)}h` },
+    { label: t('profile.pilotStats.auecPerHour'), value: number(data.auec_per_hour) },
+    { label: t('profile.pilotStats.topCategory'), value: data.top_category ? capitalize(data.top_category.replace(/_/g, ' ')) : '—' },
+    { label: t('profile.pilotStats.topFaction'), value: data.top_faction || '—' },
+  ];
+
+  if (!data.missions_completed) {
+    return <p className="text-sm text-muted-foreground text-center py-4">{t('profile.pilotStats.empty')}</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+      {tiles.map((tile) => (
+        <div key={tile.label} className="space-y-1">
+          <p className="text-xs sm:text-sm text-muted-foreground">{tile.label}</p>
+          <p className="text-sm sm:text-base font-bold text-primary">{tile.value}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { Line, LineChart, YAxis } from 'recharts';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { getTrendPercent } from '@/hooks/useCommodityPriceHistory';
+
+interface PriceSparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+}
+
+export function PriceSparkline({ values, width = 96, height = 28 }: PriceSparklineProps) {
+  const points = values.filter((v) => v > 0);
+  if (points.length < 2) {
+    return <span className="text-xs text-muted-foreground">—</span>;
+  }
+
+  const trend = getTrendPercent(points) ?? 0;
+  const color = trend > 0.5 ? 'hsl(142 71% 45%)' : trend < -0.5 ? 'hsl(var(--destructive))' : 'hsl(var(--muted-foreground))';
+  const TrendIcon = trend > 0.5 ? TrendingUp : trend < -0.5 ? TrendingDown : Minus;
+
+  return (
+    <div className="flex items-center gap-2">
+      <LineChart width={width} height={height} data={points.map((value, i) => ({ i, value }))}>
+        <YAxis hide domain={['dataMin', 'dataMax']} />
+        <Line type="monotone" dataKey="value" stroke={color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+      </LineChart>
+      <span className="flex items-center gap-0.5 text-xs font-mono" style={{ color }}>
+        <TrendIcon className="w-3 h-3" />
+        {trend > 0 ? '+' : ''}{trend.toFixed(1)}%
+      </span>
+    </div>
+  );
+}
@@ -20,7 +20,6 @@ interface ProfileEditDialogProps {
     handle: string;
     bio_md: string | null;
     avatar_url: string | null;
-    stats?: any;
   };
 }
 
@@ -36,19 +35,6 @@ export function ProfileEditDialog({ profile }: ProfileEditDialogProps) {
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [cropperOpen, setCropperOpen] = useState(false);
   const [imageToCrop, setImageToCrop] = useState<string | null>(null);
-  const [stats, setStats] = useState({
-    space_combat: Math.min(profile.stats?.space_combat || 0, 10),
-    fps_combat: Math.min(profile.stats?.fps_combat || 0, 10),
-    piloting: Math.min(profile.stats?.piloting || 0, 10),
-    exploration: Math.min(profile.stats?.exploration || 0, 10),
-    trading: Math.min(profile.stats?.trading || 0, 10),
-    mining: Math.min(profile.stats?.mining || 0, 10),
-    search_rescue: Math.min(profile.stats?.search_rescue || 0, 10),
-    reputation: Math.min(profile.stats?.reputation || 0, 10),
-    flight_hours: profile.stats?.flight_hours || 0,
-    kd_ratio: profile.stats?.kd_ratio || 0,
-    events_completed: profile.stats?.events_completed || 0,
-  });
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -167,7 +153,6 @@ export function ProfileEditDialog({ profile }: ProfileEditDialogProps) {
           handle: handle.trim(),
           bio_md: bio.trim() || null,
           avatar_url: finalAvatarUrl,
-          stats: stats,
         })
         .eq('id', profile.id);
 
@@ -289,132 +274,6 @@ export function ProfileEditDialog({ profile }: ProfileEditDialogProps) {
             </p>
           </div>
 
-          {/* Stats */}
-          <div className="space-y-4">
-            <Label>Stats & Skills (0-10 scale)</Label>
-            <div className="grid grid-cols-2 gap-3">
-              <div className="space-y-1">
-                <Label htmlFor="space_combat" className="text-xs text-muted-foreground">Space Combat (0-10)</Label>
-                <Input
-                  id="space_combat"
-                  type="number"
-                  min="0"
-                  max="10"
-                  value={stats.space_combat}
-                  onChange={(e) => setStats({...stats, space_combat: Math.min(parseInt(e.target.value) || 0, 10)})}
-                />
-              </div>
-              <div className="space-y-1">
-                <Label htmlFor="fps_combat" className="text-xs text-muted-foreground">FPS Combat (0-10)</Label>
-                <Input
-                  id="fps_combat"
-                  type="number"
-                  min="0"
-                  max="10"
-                  value={stats.fps_combat}
-                  onChange={(e) => setStats({...stats, fps_combat: Math.min(parseInt(e.target.value) || 0, 10)})}
-                />
-              </div>
-              <div className="space-y-1">
-                <Label htmlFor="piloting" className="text-xs text-muted-foreground">Piloting (0-10)</Label>
-                <Input
-                  id="piloting"
-                  type="number"
-                  min="0"
-                  max="10"
-                  value={stats.piloting}
-                  onChange={(e) => setStats({...stats, piloting: Math.min(parseInt(e.target.value) || 0, 10)})}
-                />
-              </div>
-              <div className="space-y-1">
-                <Label htmlFor="exploration" className="text-xs text-muted-foreground">Exploration (0-10)</Label>
-                <Input
-                  id="exploration"
-                  type="number"
-                  min="0"
-                  max="10"
-                  value={stats.exploration}
-                  onChange={(e) => setStats({...stats, exploration: Math.min(parseInt(e.target.value) || 0, 10)})}
-                />
-              </div>
-              <div className="space-y-1">
-                <Label htmlFor="trading" className="text-xs text-muted-foreground">Trading (0-10)</Label>
-                <Input
-                  id="trading"
-                  type="number"
-                  min="0"
-                  max="10"
-                  value={stats.trading}
-                  onChange={(e) => setStats({...stats, trading: Math.min(parseInt(e.target.value) || 0, 10)})}
-                />
-              </div>
-              <div className="space-y-1">
-                <Label htmlFor="mining" className="text-xs text-muted-foreground">Mining (0-10)</Label>
-                <Input
-                  id="mining"
-                  type="number"
-                  min="0"
-                  max="10"
-                  value={stats.mining}
-                  onChange={(e) => setStats({...stats, mining: Math.min(parseInt(e.target.value) || 0, 10)})}
-                />
-              </div>
-              <div className="space-y-1">
-                <Label htmlFor="search_rescue" className="text-xs text-muted-foreground">Search & Rescue (0-10)</Label>
-                <Input
-                  id="search_rescue"
-                  type="number"
-                  min="0"
-                  max="10"
-                  value={stats.search_rescue}
-                  onChange={(e) => setStats({...stats, search_rescue: Math.min(parseInt(e.target.value) || 0, 10)})}
-                />
-              </div>
-              <div className="space-y-1">
-                <Label htmlFor="reputation" className="text-xs text-muted-foreground">Reputation (0-10)</Label>
-                <Input
-                  id="reputation"
-                  type="number"
-                  min="0"
-                  max="10"
-                  value={stats.reputation}
-                  onChange={(e) => setStats({...stats, reputation: Math.min(parseInt(e.target.value) || 0, 10)})}
-                />
-              </div>
-              <div className="space-y-1">
-                <Label htmlFor="flight_hours" className="text-xs text-muted-foreground">Flight Hours</Label>
-                <Input
-                  id="flight_hours"
-                  type="number"
-                  min="0"
-                  value={stats.flight_hours}
-                  onChange={(e) => setStats({...stats, flight_hours: parseInt(e.target.value) || 0})}
-                />
-              </div>
-              <div className="space-y-1">
-                <Label htmlFor="kd_ratio" className="text-xs text-muted-foreground">K/D Ratio</Label>
-                <Input
-                  id="kd_ratio"
-                  type="number"
-                  min="0"
-                  step="0.1"
-                  value={stats.kd_ratio}
-                  onChange={(e) => setStats({...stats, kd_ratio: parseFloat(e.target.value) || 0})}
-                />
-              </div>
-              <div className="space-y-1">
-                <Label htmlFor="events_completed" className="text-xs text-muted-foreground">Events Completed</Label>
-                <Input
-                  id="events_completed"
-                  type="number"
-                  min="0"
-                  value={stats.events_completed}
-                  onChange={(e) => setStats({...stats, events_completed: parseInt(e.target.value) || 0})}
-                />
-              </div>
-            </div>
-          </div>
-
           {/* Actions */}
           <div className="flex gap-3 justify-end">
             <Button
@@ -0,0 +1,226 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Plus, Trash2, Trophy, FlaskConical } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+import { useRefineryCommodities, useRefineryTerminals, useBestSellPrices } from '@/hooks/useRefineryData';
+import { estimateRefineryJobs, formatDuration, getRefinedCommodity, type RefineryLoadEntry } from '@/lib/refinery';
+
+interface RefineryCalculatorProps {
+  methods: Tables<'refinery_methods'>[];
+  yields: Tables<'refinery_yields'>[];
+}
+
+export function RefineryCalculator({ methods, yields }: RefineryCalculatorProps) {
+  const [load, setLoad] = useState<RefineryLoadEntry[]>([{ commodityId: 0, quantity: 0 }]);
+  const [terminalFilter, setTerminalFilter] = useState<string>('all');
+
+  const { data: commodities } = useRefineryCommodities();
+  const { data: refineries } = useRefineryTerminals();
+
+  // Raw ores plus anything UEX reports refinery yields for
+  const oreOptions = useMemo(() => {
+    if (!commodities) return [];
+    const yieldCommodities = new Set(yields.map(y => y.commodity_id));
+    return commodities.filter(c => c.is_raw || yieldCommodities.has(c.id));
+  }, [commodities, yields]);
+
+  const refinedIds = useMemo(() => {
+    if (!commodities) return [];
+    const ids = load
+      .map(e => commodities.find(c => c.id === e.commodityId))
+      .filter(Boolean)
+      .map(c => getRefinedCommodity(c!, commodities).id);
+    return Array.from(new Set(ids)).sort((a, b) => a - b);
+  }, [load, commodities]);
+
+  const { data: bestSells } = useBestSellPrices(refinedIds);
+
+  const estimates = useMemo(() => {
+    if (!commodities || !refineries) return [];
+    const terminalIds = terminalFilter === 'all' ? refineries.map(r => r.id) : [Number(terminalFilter)];
+    const sellPrices = new Map(Array.from(bestSells?.entries() ?? []).map(([id, p]) => [id, Number(p.price_sell)]));
+    return estimateRefineryJobs(load, terminalIds, methods, yields, commodities, sellPrices);
+  }, [load, terminalFilter, refineries, methods, yields, commodities, bestSells]);
+
+  const best = estimates[0];
+  const refineryById = useMemo(() => new Map((refineries || []).map(r => [r.id, r])), [refineries]);
+
+  const updateEntry = (index: number, patch: Partial<RefineryLoadEntry>) => {
+    setLoad(prev => prev.map((e, i) => i === index ? { ...e, ...patch } : e));
+  };
+
+  const formatAuec = (value: number) => `${Math.round(value).toLocaleString()} aUEC`;
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex flex-col md:flex-row gap-3 md:items-end">
+            <div className="space-y-2 flex-1">
+              <Label>Raffinerie</Label>
+              <Select value={terminalFilter} onValueChange={setTerminalFilter}>
+                <SelectTrigger className="bg-background/50"><SelectValue placeholder="Raffinerie" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Comparer toutes les raffineries</SelectItem>
+                  {refineries?.map(r => (
+                    <SelectItem key={r.id} value={String(r.id)}>{r.name}{r.star_system ? ` (${r.star_system})` : ''}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setLoad(prev => [...prev, { commodityId: 0, quantity: 0 }])} className="gap-1">
+              <Plus className="w-3 h-3" /> Ajouter un minerai
+            </Button>
+          </div>
+
+          {load.map((entry, i) => (
+            <div key={i} className="flex gap-2 items-center">
+              <Select value={entry.commodityId ? String(entry.commodityId) : ''} onValueChange={(v) => updateEntry(i, { commodityId: Number(v) })}>
+                <SelectTrigger className="flex-1 bg-background/50"><SelectValue placeholder="Minerai brut" /></SelectTrigger>
+                <SelectContent>
+                  {oreOptions.map(c => <SelectItem key={c.id} value={String(c.id)}>{c.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                placeholder="SCU"
+                value={entry.quantity || ''}
+                onChange={(e) => updateEntry(i, { quantity: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-28 bg-background/50"
+              />
+              <Button variant="ghost" size="icon" onClick={() => setLoad(prev => prev.filter((_, idx) => idx !== i))} disabled={load.length === 1}>
+                <Trash2 className="w-4 h-4 text-muted-foreground" />
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {methods.length === 0 ? (
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-12 text-center text-muted-foreground">Aucune méthode. Lance la sync mining.</CardContent>
+        </Card>
+      ) : !best ? (
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Indique au moins un minerai et sa quantité pour estimer les jobs de raffinage.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Best combination */}
+          <Card className="bg-card/60 border-primary/40">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex flex-wrap items-center gap-2">
+                <Trophy className="w-4 h-4 text-amber-400" />
+                {best.method.name} à{' '}
+                {refineryById.get(best.terminalId) ? (
+                  <Link to={`/terminals/${refineryById.get(best.terminalId)!.slug}`} className="hover:text-primary hover:underline">
+                    {refineryById.get(best.terminalId)!.name}
+                  </Link>
+                ) : `#${best.terminalId}`}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div><p className="text-xs text-muted-foreground">Valeur raffinée</p><p className="font-mono font-bold">{formatAuec(best.value)}</p></div>
+                <div><p className="text-xs text-muted-foreground">Coût</p><p className="font-mono font-bold text-destructive">{formatAuec(best.cost)}</p></div>
+                <div><p className="text-xs text-muted-foreground">Durée</p><p className="font-mono font-bold">{formatDuration(best.durationSeconds)}</p></div>
+                <div><p className="text-xs text-muted-foreground">Profit</p><p className={`font-mono font-bold ${best.profit > 0 ? 'text-green-400' : 'text-destructive'}`}>{formatAuec(best.profit)}</p></div>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow className="hover:bg-transparent border-border/50">
+                    <TableHead>Produit</TableHead>
+                    <TableHead className="text-right">Brut</TableHead>
+                    <TableHead className="text-right">Raffiné</TableHead>
+                    <TableHead className="text-right">Meilleure vente</TableHead>
+                    <TableHead className="text-right">Valeur</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {best.lines.map((line, i) => {
+                    const sell = bestSells?.get(line.refined.id);
+                    return (
+                      <TableRow key={`${line.rawCommodityId}-${i}`} className="border-border/30 hover:bg-muted/20">
+                        <TableCell className="text-sm">
+                          {line.refined.name}
+                          {line.terminalBonusPct !== 0 && (
+                            <Badge variant="outline" className="text-xs ml-2">{line.terminalBonusPct > 0 ? '+' : ''}{line.terminalBonusPct}%</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-sm">{line.rawScu.toLocaleString()} SCU</TableCell>
+                        <TableCell className="text-right font-mono text-sm">{line.refinedScu.toFixed(1)} SCU</TableCell>
+                        <TableCell className="text-right text-sm">
+                          <span className="font-mono text-accent">{line.unitPrice ? formatAuec(line.unitPrice) : '—'}</span>
+                          {sell?.terminals && (
+                            <div className="text-xs text-muted-foreground">
+                              <Link to={`/terminals/${sell.terminals.slug}`} className="hover:text-primary hover:underline">{sell.terminals.name}</Link>
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-sm">{formatAuec(line.value)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* All combinations */}
+          <Card className="bg-card/60 border-border/50 overflow-hidden">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="hover:bg-transparent border-border/50">
+                    <TableHead>Raffinerie</TableHead>
+                    <TableHead>Méthode</TableHead>
+                    <TableHead className="text-right">Raffiné</TableHead>
+                    <TableHead className="text-right">Coût</TableHead>
+                    <TableHead className="text-right">Durée</TableHead>
+                    <TableHead className="text-right">Profit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {estimates.slice(0, 30).map(estimate => (
+                    <TableRow key={`${estimate.terminalId}-${estimate.method.id}`} className="border-border/30 hover:bg-muted/20">
+                      <TableCell className="text-sm">
+                        {refineryById.get(estimate.terminalId)?.name || `#${estimate.terminalId}`}
+                        <div className="text-xs text-muted-foreground">{refineryById.get(estimate.terminalId)?.star_system || '—'}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div className="flex items-center gap-2"><FlaskConical className="w-3 h-3 text-accent" />{estimate.method.name}</div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        {estimate.lines.reduce((sum, l) => sum + l.refinedScu, 0).toFixed(1)} SCU
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatAuec(estimate.cost)}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatDuration(estimate.durationSeconds)}</TableCell>
+                      <TableCell className={`text-right font-mono text-sm ${estimate.profit > 0 ? 'text-green-400' : 'text-destructive'}`}>
+                        {formatAuec(estimate.profit)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {estimates.length > 30 && (
+              <div className="p-4 text-center text-sm text-muted-foreground border-t border-border/30">
+                Affichage des 30 meilleures combinaisons sur {estimates.length}
+              </div>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useRefineryJobs, type RefineryJob } from '@/hooks/useRefineryJobs';
+
+// setTimeout overflows past ~24.8 days; longer jobs are picked up on a later visit
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Watches the signed-in user's refinery jobs and announces each one once it completes,
+ * with a toast and a browser notification when permission was granted.
+ */
+export function RefineryJobNotifier() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { jobs, updateJob } = useRefineryJobs(user?.id);
+  // mutate is stable, unlike the mutation object which changes on every state update
+  const { mutate: updateJobMutate } = updateJob;
+
+  useEffect(() => {
+    const notify = (job: RefineryJob) => {
+      const title = 'Job de raffinage terminé';
+      const description = [
+        job.terminals?.name,
+        job.refinery_job_items.map(i => i.commodities?.name).filter(Boolean).join(', '),
+      ].filter(Boolean).join(' • ');
+
+      toast({ title, description });
+      if ('Notification' in window && Notification.permission === 'granted') {
+        new Notification(title, { body: description });
+      }
+      updateJobMutate({ id: job.id, changes: { notified_at: new Date().toISOString() } });
+    };
+
+    const timers = jobs
+      .filter(job => job.status === 'processing' && !job.notified_at)
+      .map(job => {
+        const delay = new Date(job.completes_at).getTime() - Date.now();
+        return delay <= MAX_TIMER_MS ? window.setTimeout(() => notify(job), Math.max(0, delay)) : null;
+      });
+
+    return () => timers.forEach(timer => timer != null && window.clearTimeout(timer));
+  }, [jobs, toast, updateJobMutate]);
+
+  return null;
+}
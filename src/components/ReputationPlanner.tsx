@@ -0,0 +1,194 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Save, X, TrendingUp, AlertTriangle } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+import { BASE_RANK, getFactionRanks, planReputation, rankOrder } from '@/lib/reputation';
+import { useFactionStandings } from '@/hooks/useFactionStandings';
+
+interface ReputationPlannerProps {
+  missions: Tables<'missions'>[];
+}
+
+export function ReputationPlanner({ missions }: ReputationPlannerProps) {
+  const { user } = useAuth();
+  const { standings, standingByFaction, saveStanding, removeStanding } = useFactionStandings(user?.id);
+  const [faction, setFaction] = useState('');
+  const [currentRank, setCurrentRank] = useState(BASE_RANK);
+  const [currentXp, setCurrentXp] = useState('');
+  const [targetRank, setTargetRank] = useState('');
+
+  const factions = useMemo(
+    () => Array.from(new Set(missions.map(m => m.faction).filter(Boolean))).sort() as string[],
+    [missions],
+  );
+  const ranks = useMemo(() => (faction ? getFactionRanks(missions, faction) : []), [missions, faction]);
+  const targets = ranks.filter(r => rankOrder(r) > rankOrder(currentRank));
+  const target = targets.includes(targetRank) ? targetRank : targets[targets.length - 1] ?? '';
+
+  const plan = useMemo(
+    () => (faction && target ? planReputation(missions, faction, currentRank, target, Number(currentXp) || 0) : null),
+    [missions, faction, currentRank, target, currentXp],
+  );
+
+  const selectFaction = (value: string) => {
+    const standing = standingByFaction.get(value);
+    setFaction(value);
+    setCurrentRank(standing?.rank ?? BASE_RANK);
+    setCurrentXp(standing?.xp ? String(standing.xp) : '');
+    setTargetRank('');
+  };
+
+  const formatAuec = (value: number) => `${value.toLocaleString()} aUEC`;
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="space-y-2">
+              <Label>Faction</Label>
+              <Select value={faction} onValueChange={selectFaction}>
+                <SelectTrigger className="bg-background/50"><SelectValue placeholder="Choisir une faction" /></SelectTrigger>
+                <SelectContent>
+                  {factions.map(f => <SelectItem key={f} value={f}>{f}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Rang actuel</Label>
+              <Select value={currentRank} onValueChange={setCurrentRank} disabled={!faction}>
+                <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(ranks.length ? ranks : [BASE_RANK]).map(r => <SelectItem key={r} value={r}>{r}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Réputation déjà acquise</Label>
+              <Input
+                type="number"
+                min={0}
+                placeholder="0"
+                value={currentXp}
+                onChange={(e) => setCurrentXp(e.target.value)}
+                className="bg-background/50"
+                disabled={!faction}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Objectif</Label>
+              <Select value={target} onValueChange={setTargetRank} disabled={targets.length === 0}>
+                <SelectTrigger className="bg-background/50"><SelectValue placeholder="Rang max atteint" /></SelectTrigger>
+                <SelectContent>
+                  {targets.map(r => <SelectItem key={r} value={r}>{r}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              Paliers de réputation estimés par la communauté • Seules les missions répétables sont proposées
+            </p>
+            {user ? (
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-2"
+                disabled={!faction || saveStanding.isPending}
+                onClick={() => saveStanding.mutate({ faction, rank: currentRank, xp: Number(currentXp) || 0 })}
+              >
+                <Save className="w-4 h-4" /> Enregistrer sur mon profil
+              </Button>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                <Link to="/auth" className="hover:text-primary hover:underline">Connecte-toi</Link> pour enregistrer ta réputation
+              </p>
+            )}
+          </div>
+          {standings.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {standings.map(s => (
+                <Badge key={s.faction} variant="secondary" className="gap-1 text-xs">
+                  <button type="button" onClick={() => selectFaction(s.faction)} className="hover:text-primary">
+                    {s.faction} • {s.rank}
+                  </button>
+                  <button type="button" onClick={() => removeStanding.mutate(s.faction)} aria-label={`Retirer ${s.faction}`}>
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {!faction ? null : plan && !plan.reachable && plan.steps.length === 0 ? (
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-8 text-center text-muted-foreground">
+            Le rang {currentRank} n'existe pas chez {faction}, choisis ton rang actuel dans la liste.
+          </CardContent>
+        </Card>
+      ) : !plan || plan.steps.length === 0 ? (
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-8 text-center text-muted-foreground">
+            Rang maximum connu atteint pour {faction}.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="bg-card/60 border-border/50 overflow-hidden">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <TrendingUp className="w-4 h-4 text-primary" /> Progression {faction}
+            </CardTitle>
+          </CardHeader>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent border-border/50">
+                  <TableHead>Palier</TableHead>
+                  <TableHead>Mission</TableHead>
+                  <TableHead className="text-right">Rép. / mission</TableHead>
+                  <TableHead className="text-right">Missions</TableHead>
+                  <TableHead className="text-right">Paiement</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.steps.map(step => (
+                  <TableRow key={step.toRank} className="border-border/30 hover:bg-muted/20">
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {step.fromRank} → {step.toRank}
+                      <div className="text-xs text-muted-foreground">{step.xpNeeded.toLocaleString()} rép.</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {step.mission ? step.mission.title : (
+                        <span className="flex items-center gap-1 text-muted-foreground">
+                          <AlertTriangle className="w-3 h-3 text-destructive" /> Aucune mission répétable ne donne de réputation
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-sm">{step.mission?.base_xp?.toLocaleString() ?? '—'}</TableCell>
+                    <TableCell className="text-right font-mono text-sm">{step.mission ? `×${step.count}` : '—'}</TableCell>
+                    <TableCell className="text-right font-mono text-sm text-accent">{step.mission ? formatAuec(step.payout) : '—'}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="border-border/50 hover:bg-transparent font-bold">
+                  <TableCell colSpan={3}>Total{!plan.reachable && ' (jusqu\'au premier blocage)'}</TableCell>
+                  <TableCell className="text-right font-mono">×{plan.totalMissions}</TableCell>
+                  <TableCell className="text-right font-mono text-accent">{formatAuec(plan.totalPayout)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
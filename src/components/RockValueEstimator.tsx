@@ -0,0 +1,259 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent } from '@/components/ui/card';
+import { Plus, Trash2, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+import { useRefineryCommodities, useRefineryTerminals, useBestSellPrices } from '@/hooks/useRefineryData';
+import { getRefinedCommodity } from '@/lib/refinery';
+import { estimateRock, ROCK_KG_PER_SCU, type RockComponent } from '@/lib/rockValue';
+
+interface RockValueEstimatorProps {
+  methods: Tables<'refinery_methods'>[];
+  yields: Tables<'refinery_yields'>[];
+  resources: Tables<'mining_resources'>[];
+}
+
+export function RockValueEstimator({ methods, yields, resources }: RockValueEstimatorProps) {
+  const [location, setLocation] = useState<string>('all');
+  const [mass, setMass] = useState('');
+  const [components, setComponents] = useState<RockComponent[]>([{ commodityId: 0, percent: 0 }]);
+  const [shipSlug, setShipSlug] = useState<string>('');
+  const [customCapacity, setCustomCapacity] = useState('32');
+  const [minProfit, setMinProfit] = useState('2000');
+
+  const { data: commodities } = useRefineryCommodities();
+  const { data: refineries } = useRefineryTerminals();
+
+  const { data: miningShips } = useQuery({
+    queryKey: ['mining-ships'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ships')
+        .select('id, name, slug, cargo_scu')
+        .ilike('role', '%mining%')
+        .gt('cargo_scu', 0)
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const locations = useMemo(() => {
+    return Array.from(new Set(resources.map(r => r.moon || r.planet).filter(Boolean))).sort() as string[];
+  }, [resources]);
+
+  // Ores known at the selected location, every raw commodity when nothing is known there
+  const oreOptions = useMemo(() => {
+    if (!commodities) return [];
+    const known = new Set(resources
+      .filter(r => location === 'all' || r.moon === location || r.planet === location)
+      .map(r => r.commodity_id));
+    const options = commodities.filter(c => known.has(c.id) || /inert/i.test(c.name));
+    return options.length > 0 ? options : commodities.filter(c => c.is_raw);
+  }, [commodities, resources, location]);
+
+  const refinedIds = useMemo(() => {
+    if (!commodities) return [];
+    const ids = components
+      .map(c => commodities.find(co => co.id === c.commodityId))
+      .filter(Boolean)
+      .map(c => getRefinedCommodity(c!, commodities).id);
+    return Array.from(new Set(ids)).sort((a, b) => a - b);
+  }, [components, commodities]);
+
+  const { data: bestSells } = useBestSellPrices(refinedIds);
+
+  const ship = miningShips?.find(s => s.slug === shipSlug) ?? null;
+  const capacity = ship ? Number(ship.cargo_scu) : Number(customCapacity) || 0;
+  const listedPercent = components.reduce((sum, c) => sum + (c.commodityId ? c.percent : 0), 0);
+
+  const estimate = useMemo(() => {
+    if (!commodities || !refineries || !(Number(mass) > 0)) return null;
+    const sellPrices = new Map(Array.from(bestSells?.entries() ?? []).map(([id, p]) => [id, Number(p.price_sell)]));
+    return estimateRock(
+      Number(mass),
+      components,
+      { terminalIds: refineries.map(r => r.id), methods, yields, commodities, sellPrices },
+      capacity,
+      Number(minProfit) || 0,
+    );
+  }, [commodities, refineries, mass, bestSells, components, methods, yields, capacity, minProfit]);
+
+  const updateComponent = (index: number, patch: Partial<RockComponent>) => {
+    setComponents(prev => prev.map((c, i) => i === index ? { ...c, ...patch } : c));
+  };
+
+  const formatAuec = (value: number) => `${Math.round(value).toLocaleString()} aUEC`;
+  const bestRefinery = estimate?.bestJob ? refineries?.find(r => r.id === estimate.bestJob!.terminalId) : null;
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="space-y-2">
+              <Label>Lieu</Label>
+              <Select value={location} onValueChange={setLocation}>
+                <SelectTrigger className="bg-background/50"><SelectValue placeholder="Lieu" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Tous les lieux</SelectItem>
+                  {locations.map(l => <SelectItem key={l} value={l}>{l}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Masse du rocher (kg)</Label>
+              <Input type="number" min={0} value={mass} onChange={(e) => setMass(e.target.value)} placeholder="ex. 8500" className="bg-background/50" />
+            </div>
+            <div className="space-y-2">
+              <Label>Vaisseau</Label>
+              <Select value={shipSlug || 'custom'} onValueChange={(v) => setShipSlug(v === 'custom' ? '' : v)}>
+                <SelectTrigger className="bg-background/50"><SelectValue placeholder="Vaisseau" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="custom">Capacité personnalisée</SelectItem>
+                  {miningShips?.map(s => <SelectItem key={s.id} value={s.slug}>{s.name} ({s.cargo_scu} SCU)</SelectItem>)}
+                </SelectContent>
+              </Select>
+              {!ship && (
+                <Input type="number" min={0} value={customCapacity} onChange={(e) => setCustomCapacity(e.target.value)} placeholder="SCU" className="bg-background/50" />
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Profit minimum / SCU (aUEC)</Label>
+              <Input type="number" min={0} value={minProfit} onChange={(e) => setMinProfit(e.target.value)} className="bg-background/50" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Composition (%)</Label>
+              <Button variant="outline" size="sm" onClick={() => setComponents(prev => [...prev, { commodityId: 0, percent: 0 }])} className="gap-1">
+                <Plus className="w-3 h-3" /> Ajouter
+              </Button>
+            </div>
+            {components.map((component, i) => (
+              <div key={i} className="flex gap-2 items-center">
+                <Select value={component.commodityId ? String(component.commodityId) : ''} onValueChange={(v) => updateComponent(i, { commodityId: Number(v) })}>
+                  <SelectTrigger className="flex-1 bg-background/50"><SelectValue placeholder="Minerai" /></SelectTrigger>
+                  <SelectContent>
+                    {oreOptions.map(c => <SelectItem key={c.id} value={String(c.id)}>{c.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  placeholder="%"
+                  value={component.percent || ''}
+                  onChange={(e) => updateComponent(i, { percent: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+                  className="w-24 bg-background/50"
+                />
+                <Button variant="ghost" size="icon" onClick={() => setComponents(prev => prev.filter((_, idx) => idx !== i))} disabled={components.length === 1}>
+                  <Trash2 className="w-4 h-4 text-muted-foreground" />
+                </Button>
+              </div>
+            ))}
+            {listedPercent > 100 ? (
+              <p className="text-xs text-destructive">La composition dépasse 100 % ({listedPercent.toFixed(2)} %).</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">Reste non listé compté comme inerte : {(100 - listedPercent).toFixed(2)} %</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {!estimate ? (
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Saisis la masse et la composition relevées au scanner pour estimer la valeur du rocher.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card className={`bg-card/60 ${estimate.worthIt ? 'border-green-600/40' : 'border-destructive/40'}`}>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center gap-2 font-semibold">
+                {estimate.worthIt
+                  ? <><CheckCircle2 className="w-5 h-5 text-green-400" /> Ça vaut le coup de le casser</>
+                  : <><XCircle className="w-5 h-5 text-destructive" /> Pas rentable pour ce seuil</>}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div><p className="text-xs text-muted-foreground">Volume estimé</p><p className="font-mono font-bold">{estimate.totalScu.toFixed(1)} SCU</p></div>
+                <div><p className="text-xs text-muted-foreground">Valeur raffinée</p><p className="font-mono font-bold">{formatAuec(estimate.bestJob?.value ?? 0)}</p></div>
+                <div><p className="text-xs text-muted-foreground">Profit / SCU</p><p className="font-mono font-bold">{formatAuec(estimate.profitPerScu)}</p></div>
+                <div><p className="text-xs text-muted-foreground">Profit emporté</p><p className="font-mono font-bold text-green-400">{formatAuec(estimate.carriedProfit)}</p></div>
+              </div>
+              {estimate.carriedShare < 1 && capacity > 0 && (
+                <p className="text-xs text-amber-400 flex items-center gap-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  Le rocher dépasse la capacité ({capacity} SCU) : seuls {Math.round(estimate.carriedShare * 100)} % tiennent en un voyage.
+                </p>
+              )}
+              {estimate.bestJob && (
+                <p className="text-xs text-muted-foreground">
+                  Meilleur raffinage : {estimate.bestJob.method.name} à{' '}
+                  {bestRefinery ? (
+                    <Link to={`/terminals/${bestRefinery.slug}`} className="text-primary hover:underline">{bestRefinery.name}</Link>
+                  ) : '—'}
+                  {' '}• coût {formatAuec(estimate.bestJob.cost)}
+                </p>
+              )}
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Inerte</span><span>{estimate.inertPercent.toFixed(1)} %</span>
+                </div>
+                <Progress value={Math.min(100, estimate.inertPercent)} className="h-2" />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-card/60 border-border/50 overflow-hidden">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="hover:bg-transparent border-border/50">
+                    <TableHead>Composant</TableHead>
+                    <TableHead className="text-right">%</TableHead>
+                    <TableHead className="text-right">Volume</TableHead>
+                    <TableHead className="text-right">Valeur raffinée</TableHead>
+                    <TableHead className="text-right">aUEC / SCU</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {estimate.fractions.map((fraction, i) => (
+                    <TableRow key={i} className={`border-border/30 hover:bg-muted/20 ${fraction.lowValue ? 'bg-amber-600/5' : ''}`}>
+                      <TableCell className="text-sm">
+                        {fraction.commodity?.name || '—'}
+                        {fraction.inert
+                          ? <Badge variant="outline" className="text-xs ml-2">Inerte</Badge>
+                          : fraction.lowValue && <Badge className="text-xs ml-2 bg-amber-600/20 text-amber-400 border-amber-600/30">Faible valeur</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">{fraction.percent.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">{fraction.scu.toFixed(2)} SCU</TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatAuec(fraction.value)}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatAuec(fraction.valuePerScu)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </Card>
+
+          <p className="text-xs text-muted-foreground text-center">
+            Estimation : {ROCK_KG_PER_SCU} kg par SCU, meilleure raffinerie et meilleur prix de vente actuels
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
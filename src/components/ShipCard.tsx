@@ -1,8 +1,11 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
 import type { Tables } from '@/integrations/supabase/types';
-import { Sparkles, Rocket, Hammer, Lightbulb } from 'lucide-react';
+import { useShipCompare, MAX_COMPARED_SHIPS } from '@/hooks/useShipCompare';
+import { Sparkles, Rocket, Hammer, Lightbulb, GitCompare, Check } from 'lucide-react';
 
 type Ship = Tables<'ships'>;
 
@@ -73,6 +76,9 @@ function getProductionStatusInfo(status: string | null): {
 }
 
 export function ShipCard({ ship }: ShipCardProps) {
+  const { t } = useTranslation();
+  const compare = useShipCompare();
+  const inCompare = compare.has(ship.slug);
   const isNew = isRecentlyNew(ship);
   const statusInfo = getProductionStatusInfo(ship.production_status);
   const StatusIcon = statusInfo.icon;
@@ -146,6 +152,22 @@ export function ShipCard({ ship }: ShipCardProps) {
               </div>
             )}
           </div>
+          <Button
+            variant={inCompare ? 'secondary' : 'outline'}
+            size="sm"
+            className="w-full gap-2"
+            disabled={!inCompare && compare.isFull}
+            title={!inCompare && compare.isFull ? t('ships.compareFull', { max: MAX_COMPARED_SHIPS }) : undefined}
+            onClick={(e) => {
+              // The whole card is a link to the ship page
+              e.preventDefault();
+              e.stopPropagation();
+              compare.toggle(ship.slug);
+            }}
+          >
+            {inCompare ? <Check className="h-4 w-4" /> : <GitCompare className="h-4 w-4" />}
+            {inCompare ? t('ships.inCompare') : t('ships.addToCompare')}
+          </Button>
         </CardContent>
       </Card>
     </Link>
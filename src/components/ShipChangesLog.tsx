@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowRight } from 'lucide-react';
+import { useRecentShipChanges } from '@/hooks/useShipVersions';
+import { fieldLabel, formatChangeValue, getChanges } from '@/lib/shipHistory';
+
+const PERIODS = [1, 7, 30, 90];
+
+export function ShipChangesLog() {
+  const [days, setDays] = useState(7);
+  const { data: versions, isLoading } = useRecentShipChanges(days);
+
+  // One row per changed field
+  const rows = (versions ?? []).flatMap(version =>
+    getChanges(version.changes).map(change => ({ version, change }))
+  );
+  const shipCount = new Set((versions ?? []).map(v => v.ship_slug)).size;
+
+  return (
+    <Card className="bg-card/50 backdrop-blur-sm">
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Ship Changes</CardTitle>
+          <CardDescription>
+            Field changes recorded by ships-sync: {rows.length} change(s) on {shipCount} ship(s)
+          </CardDescription>
+        </div>
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map(p => (
+              <SelectItem key={p} value={String(p)}>Last {p} day{p > 1 ? 's' : ''}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : rows.length === 0 ? (
+          <p className="text-muted-foreground text-sm text-center py-8">No ship data changed in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Ship</TableHead>
+                <TableHead>Field</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Source</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ version, change }) => (
+                <TableRow key={`${version.id}-${change.field}`}>
+                  <TableCell className="whitespace-nowrap text-muted-foreground">
+                    {format(new Date(version.recorded_at), 'PPp')}
+                  </TableCell>
+                  <TableCell>
+                    <Link to={`/ships/${version.ship_slug}`} className="font-medium hover:text-primary hover:underline">
+                      {version.ships?.name || version.ship_slug}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{fieldLabel(change.field)}</TableCell>
+                  <TableCell className="max-w-md">
+                    <span className="flex items-center gap-2 break-all">
+                      <span className="text-muted-foreground">{formatChangeValue(change.old)}</span>
+                      <ArrowRight className="h-3 w-3 shrink-0" />
+                      <span className="text-green-400">{formatChangeValue(change.new)}</span>
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {version.source && <Badge variant="outline" className="text-xs">{version.source}</Badge>}
+                      {version.sync_job_id && <Badge variant="secondary" className="text-xs">#{version.sync_job_id}</Badge>}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
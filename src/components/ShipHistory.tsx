@@ -0,0 +1,97 @@
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { History, ArrowRight } from "lucide-react";
+import { useShipVersions } from "@/hooks/useShipVersions";
+import { fieldLabel, formatChangeValue, getChanges, type ShipFieldChange } from "@/lib/shipHistory";
+
+interface ShipHistoryProps {
+  shipId: number;
+}
+
+export function ShipChangeTable({ changes }: { changes: ShipFieldChange[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-48">Field</TableHead>
+          <TableHead>Old</TableHead>
+          <TableHead className="w-8" />
+          <TableHead>New</TableHead>
+          <TableHead className="w-32">Source</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {changes.map((change) => (
+          <TableRow key={change.field}>
+            <TableCell className="font-medium">{fieldLabel(change.field)}</TableCell>
+            <TableCell className="text-muted-foreground line-through decoration-red-400/60 break-all">
+              {formatChangeValue(change.old)}
+            </TableCell>
+            <TableCell>
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+            </TableCell>
+            <TableCell className="text-green-400 break-all">{formatChangeValue(change.new)}</TableCell>
+            <TableCell className="text-xs text-muted-foreground">{change.source ?? "—"}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function ShipHistory({ shipId }: ShipHistoryProps) {
+  const { data: versions, isLoading } = useShipVersions(shipId);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-40 w-full" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  const changed = (versions ?? []).filter((v) => getChanges(v.changes).length > 0);
+  const first = versions?.find((v) => !v.previous_hash);
+
+  if (changed.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          No data change recorded for this ship yet
+          {first && <> (tracked since {format(new Date(first.recorded_at), "PP")})</>}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {changed.map((version) => (
+        <Card key={version.id}>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex flex-wrap items-center gap-2 text-base">
+              <History className="h-4 w-4 text-primary" />
+              {format(new Date(version.recorded_at), "PPp")}
+              {version.source && <Badge variant="outline" className="text-xs">{version.source}</Badge>}
+              {version.sync_job_id && (
+                <Badge variant="secondary" className="text-xs">Sync #{version.sync_job_id}</Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <ShipChangeTable changes={getChanges(version.changes)} />
+          </CardContent>
+        </Card>
+      ))}
+      {first && (
+        <p className="text-sm text-muted-foreground text-center">
+          First recorded on {format(new Date(first.recorded_at), "PP")}
+        </p>
+      )}
+    </div>
+  );
+}
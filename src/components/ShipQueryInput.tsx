@@ -0,0 +1,85 @@
+import { useMemo, useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Search } from 'lucide-react';
+import { querySuggestions } from '@/lib/shipQuery';
+
+interface ShipQueryInputProps {
+  value: string;
+  onChange: (query: string) => void;
+  /** Known values of the text fields, see queryValues() */
+  values: Record<string, string[]>;
+  placeholder?: string;
+}
+
+export function ShipQueryInput({ value, onChange, values, placeholder }: ShipQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [focused, setFocused] = useState(false);
+  const [active, setActive] = useState(0);
+  // Tab only completes a suggestion picked with the arrows, otherwise it moves the focus as usual
+  const [picked, setPicked] = useState(false);
+
+  const suggestions = useMemo(() => querySuggestions(value, values), [value, values]);
+  const open = focused && suggestions.length > 0;
+
+  const change = (query: string) => {
+    onChange(query);
+    setActive(0);
+    setPicked(false);
+    setFocused(true);
+  };
+
+  const apply = (query: string) => {
+    change(query);
+    inputRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActive(current => (current + step + suggestions.length) % suggestions.length);
+      setPicked(true);
+    } else if (e.key === 'Enter' || (e.key === 'Tab' && picked)) {
+      e.preventDefault();
+      apply(suggestions[Math.min(active, suggestions.length - 1)].query);
+    } else if (e.key === 'Escape') {
+      setFocused(false);
+      setPicked(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => change(e.target.value)}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        onKeyDown={handleKeyDown}
+        className="pl-10 font-mono text-sm"
+        spellCheck={false}
+        autoComplete="off"
+      />
+      {open && (
+        <div className="absolute z-10 mt-1 w-full rounded-md border border-border bg-popover shadow-md">
+          {suggestions.map((suggestion, i) => (
+            <button
+              key={suggestion.label}
+              type="button"
+              // Keep the focus in the input, blur would close the list before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => apply(suggestion.query)}
+              className={`w-full text-left px-3 py-2 text-sm font-mono hover:bg-muted/50 ${i === active ? 'bg-muted/50' : ''}`}
+            >
+              {suggestion.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowRight, Repeat, X } from 'lucide-react';
+import type { MarketPrice } from '@/hooks/useCommodityMarket';
+import { findTradeLoops, type LegalityPreference } from '@/lib/tradeRoutes';
+
+interface TradeLoopsPanelProps {
+  market: MarketPrice[];
+  cargoScu: number;
+  budget: number;
+  system: string | null;
+  legality: LegalityPreference;
+}
+
+export function TradeLoopsPanel({ market, cargoScu, budget, system, legality }: TradeLoopsPanelProps) {
+  const [maxLegs, setMaxLegs] = useState('3');
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+
+  const terminals = useMemo(() => {
+    const map = new Map<number, string>();
+    for (const p of market) {
+      if (p.terminals && p.terminals.star_system === system) map.set(p.terminal_id, p.terminals.name);
+    }
+    return Array.from(map.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [market, system]);
+
+  const loops = useMemo(() => {
+    if (!system) return [];
+    return findTradeLoops(market, {
+      cargoScu,
+      budget,
+      system,
+      maxLegs: Number(maxLegs),
+      legality,
+      excludedTerminalIds: excluded,
+    });
+  }, [market, cargoScu, budget, system, maxLegs, legality, excluded]);
+
+  const toggleExcluded = (id: number) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const formatAuec = (value: number) => `${Math.round(value).toLocaleString()} aUEC`;
+  const terminalName = (id: number) => terminals.find(([tid]) => tid === id)?.[1] ?? `#${id}`;
+
+  if (!system) {
+    return (
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="py-12 text-center text-muted-foreground">
+          Choisis un système de départ : les boucles sont calculées à l'intérieur d'un seul système.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="space-y-2 md:w-[160px]">
+              <Label>Étapes max</Label>
+              <Select value={maxLegs} onValueChange={setMaxLegs}>
+                <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="2">2 étapes</SelectItem>
+                  <SelectItem value="3">3 étapes</SelectItem>
+                  <SelectItem value="4">4 étapes</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label>Exclure un terminal</Label>
+              <Select value="" onValueChange={(v) => toggleExcluded(Number(v))}>
+                <SelectTrigger className="bg-background/50"><SelectValue placeholder="Ajouter un terminal à exclure" /></SelectTrigger>
+                <SelectContent>
+                  {terminals.filter(([id]) => !excluded.has(id)).map(([id, name]) => (
+                    <SelectItem key={id} value={String(id)}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {excluded.size > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {Array.from(excluded).map(id => (
+                <Badge key={id} variant="secondary" className="gap-1 cursor-pointer" onClick={() => toggleExcluded(id)}>
+                  {terminalName(id)} <X className="w-3 h-3" />
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {loops.length === 0 ? (
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Aucune boucle rentable trouvée dans {system} avec ces paramètres.
+          </CardContent>
+        </Card>
+      ) : (
+        loops.map((loop, i) => (
+          <Card key={loop.legs.map(l => l.buy.terminal_id).join('-')} className="bg-card/60 border-border/50 overflow-hidden">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm flex flex-wrap items-center justify-between gap-2">
+                <span className="flex items-center gap-2">
+                  <Repeat className="w-4 h-4 text-primary" />
+                  #{i + 1} • {loop.legs.length} étapes
+                </span>
+                <span className="font-mono">
+                  <span className="text-muted-foreground font-normal">mise {formatAuec(loop.totalSpend)} • </span>
+                  <span className="text-green-400">+{formatAuec(loop.totalProfit)}</span>
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="hover:bg-transparent border-border/50">
+                    <TableHead>Étape</TableHead>
+                    <TableHead>Commodité</TableHead>
+                    <TableHead className="text-right">Quantité</TableHead>
+                    <TableHead className="text-right">Dépense</TableHead>
+                    <TableHead className="text-right">Profit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loop.legs.map((leg) => (
+                    <TableRow key={`${leg.buy.id}-${leg.sell.id}`} className="border-border/30 hover:bg-muted/20">
+                      <TableCell className="text-sm">
+                        <Link to={`/terminals/${leg.buy.terminals?.slug}`} className="hover:text-primary hover:underline">{leg.buy.terminals?.name}</Link>
+                        {' '}<ArrowRight className="w-3 h-3 inline text-muted-foreground" />{' '}
+                        <Link to={`/terminals/${leg.sell.terminals?.slug}`} className="hover:text-primary hover:underline">{leg.sell.terminals?.name}</Link>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <Link to={`/commodities/${leg.commodity.slug}`} className="hover:text-primary hover:underline">{leg.commodity.name}</Link>
+                        {leg.commodity.is_illegal && <Badge variant="destructive" className="text-xs ml-2">Illégal</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        {leg.quantity.toLocaleString()} SCU
+                        {leg.stockLimited && <div className="text-xs text-amber-400">limité par le stock</div>}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatAuec(leg.investment)}</TableCell>
+                      <TableCell className="text-right font-mono text-sm text-green-400">+{formatAuec(leg.profit)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * Blueprints a pilot has marked as collected, with a toggle for the signed-in owner.
+ */
+export function useCollectedBlueprints(userId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["user-blueprints", userId];
+
+  const { data = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("user_blueprints")
+        .select("blueprint, collected_at")
+        .eq("user_id", userId!)
+        .order("blueprint");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId,
+  });
+
+  const toggleBlueprint = useMutation({
+    mutationFn: async ({ blueprint, collected }: { blueprint: string; collected: boolean }) => {
+      if (!userId) throw new Error("User must be logged in");
+
+      if (collected) {
+        const { error } = await supabase.from("user_blueprints").insert({ user_id: userId, blueprint });
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("user_blueprints")
+          .delete()
+          .eq("user_id", userId)
+          .eq("blueprint", blueprint);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de mettre à jour tes blueprints", variant: "destructive" });
+      console.error("Error toggling blueprint:", error);
+    },
+  });
+
+  return {
+    blueprints: data,
+    collected: new Set(data.map((b) => b.blueprint)),
+    isLoading,
+    toggleBlueprint,
+  };
+}
@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchAllRows } from "@/lib/supabasePaging";
+
+const MARKET_SELECT = `
+  id, commodity_id, terminal_id, price_buy, price_sell, scu_buy, scu_sell, updated_at,
+  commodities(id, name, slug, code, is_illegal),
+  terminals(id, name, slug, type, star_system, planet, moon, space_station)
+`;
+
+async function fetchMarketPage(from: number, to: number) {
+  const { data, error } = await supabase
+    .from("commodity_prices")
+    .select(MARKET_SELECT)
+    .order("id")
+    .range(from, to);
+  if (error) throw error;
+  return data;
+}
+
+export type MarketPrice = Awaited<ReturnType<typeof fetchMarketPage>>[number];
+
+/**
+ * Every commodity price row joined with its commodity and terminal.
+ */
+export function useCommodityMarket() {
+  return useQuery({
+    queryKey: ["commodity-market"],
+    queryFn: () => fetchAllRows(fetchMarketPage),
+  });
+}
@@ -0,0 +1,69 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export type PriceHistoryRange = 7 | 30 | 90;
+
+export interface CommoditySparkline {
+  buyPrices: number[];
+  sellPrices: number[];
+}
+
+/**
+ * Daily average prices per commodity over the last `days` days, keyed by commodity id.
+ * Backed by the get_commodity_sparklines RPC so the table gets one row per commodity.
+ */
+export function useCommoditySparklines(days = 30) {
+  return useQuery({
+    queryKey: ["commodity-sparklines", days],
+    queryFn: async (): Promise<Map<number, CommoditySparkline>> => {
+      const { data, error } = await supabase.rpc("get_commodity_sparklines", { p_days: days });
+      if (error) throw error;
+
+      const map = new Map<number, CommoditySparkline>();
+      for (const row of data || []) {
+        map.set(row.commodity_id, {
+          buyPrices: (row.buy_prices || []).map(Number),
+          sellPrices: (row.sell_prices || []).map(Number),
+        });
+      }
+      return map;
+    },
+  });
+}
+
+/**
+ * Daily price history for a single commodity: UEX averages plus the best
+ * (lowest buy / highest sell) terminal price recorded that day.
+ */
+export function useCommodityPriceHistory(commodityId: number | undefined, days: PriceHistoryRange) {
+  return useQuery({
+    queryKey: ["commodity-price-history", commodityId, days],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_commodity_price_history", {
+        p_commodity_id: commodityId!,
+        p_days: days,
+      });
+      if (error) throw error;
+      return (data || []).map((row) => ({
+        day: row.day,
+        buy: row.buy_price_avg != null ? Number(row.buy_price_avg) : null,
+        sell: row.sell_price_avg != null ? Number(row.sell_price_avg) : null,
+        bestBuy: row.buy_price_min != null ? Number(row.buy_price_min) : null,
+        bestSell: row.sell_price_max != null ? Number(row.sell_price_max) : null,
+      }));
+    },
+    enabled: !!commodityId,
+  });
+}
+
+/**
+ * Percentage change between the first and last non-zero values of a series.
+ * Returns null when there are fewer than two data points.
+ */
+export function getTrendPercent(values: number[]): number | null {
+  const points = values.filter((v) => v > 0);
+  if (points.length < 2) return null;
+  const first = points[0];
+  const last = points[points.length - 1];
+  return ((last - first) / first) * 100;
+}
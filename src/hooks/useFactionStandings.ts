@@ -0,0 +1,80 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * A pilot's saved rank with each mission faction, with save/remove for the signed-in owner.
+ */
+export function useFactionStandings(userId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["faction-standings", userId];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("user_faction_standings")
+        .select("faction, rank, xp, updated_at")
+        .eq("user_id", userId!)
+        .order("faction");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId,
+  });
+
+  const saveStanding = useMutation({
+    mutationFn: async ({ faction, rank, xp }: { faction: string; rank: string; xp: number }) => {
+      if (!userId) throw new Error("User must be logged in");
+
+      const { error } = await supabase
+        .from("user_faction_standings")
+        .upsert(
+          { user_id: userId, faction, rank, xp, updated_at: new Date().toISOString() },
+          { onConflict: "user_id,faction" }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Réputation enregistrée" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible d'enregistrer ta réputation", variant: "destructive" });
+      console.error("Error saving faction standing:", error);
+    },
+  });
+
+  const removeStanding = useMutation({
+    mutationFn: async (faction: string) => {
+      if (!userId) throw new Error("User must be logged in");
+
+      const { error } = await supabase
+        .from("user_faction_standings")
+        .delete()
+        .eq("user_id", userId)
+        .eq("faction", faction);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de supprimer ta réputation", variant: "destructive" });
+      console.error("Error removing faction standing:", error);
+    },
+  });
+
+  // Memoised so pages can filter on it without recomputing on every render
+  const standingByFaction = useMemo(() => new Map((data ?? []).map((s) => [s.faction, s])), [data]);
+
+  return {
+    standings: data ?? [],
+    standingByFaction,
+    isLoading,
+    saveStanding,
+    removeStanding,
+  };
+}
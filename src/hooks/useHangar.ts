@@ -0,0 +1,119 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+
+export type NewHangarShip = Omit<TablesInsert<"user_ships">, "user_id">;
+
+/**
+ * A pilot's owned ships with the ship specs needed for fleet totals. Other pilots only get rows
+ * back when the owner's hangar is public (RLS on user_ships).
+ */
+export function useHangar(userId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["hangar", userId];
+
+  const hangarQuery = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("user_ships")
+        .select("*, ships(id, slug, name, manufacturer, role, size, cargo_scu, crew_min, crew_max, prices, image_url), ship_loadouts(id, name)")
+        .eq("user_id", userId!)
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId,
+  });
+
+  const addShip = useMutation({
+    mutationFn: async (entry: NewHangarShip) => {
+      if (!userId) throw new Error("User must be logged in");
+
+      const { error } = await supabase.from("user_ships").insert({ ...entry, user_id: userId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Vaisseau ajouté au hangar" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible d'ajouter le vaisseau", variant: "destructive" });
+      console.error("Error adding hangar ship:", error);
+    },
+  });
+
+  const importShips = useMutation({
+    mutationFn: async (entries: NewHangarShip[]) => {
+      if (!userId) throw new Error("User must be logged in");
+
+      const { error } = await supabase.from("user_ships").insert(entries.map((entry) => ({ ...entry, user_id: userId })));
+      if (error) throw error;
+      return entries.length;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Import terminé", description: `${count} vaisseau(x) ajouté(s) au hangar` });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible d'importer la flotte", variant: "destructive" });
+      console.error("Error importing hangar ships:", error);
+    },
+  });
+
+  const updateShip = useMutation({
+    mutationFn: async ({ id, ...changes }: Omit<TablesUpdate<"user_ships">, "id"> & { id: number }) => {
+      const { error } = await supabase.from("user_ships").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Vaisseau mis à jour" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de modifier le vaisseau", variant: "destructive" });
+      console.error("Error updating hangar ship:", error);
+    },
+  });
+
+  const removeShip = useMutation({
+    mutationFn: async (id: number) => {
+      const { error } = await supabase.from("user_ships").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de retirer le vaisseau", variant: "destructive" });
+      console.error("Error removing hangar ship:", error);
+    },
+  });
+
+  const setHangarPublic = useMutation({
+    mutationFn: async (hangarPublic: boolean) => {
+      if (!userId) throw new Error("User must be logged in");
+
+      const { error } = await supabase.from("profiles").update({ hangar_public: hangarPublic }).eq("id", userId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["profile", userId] });
+      queryClient.invalidateQueries({ queryKey: ["pilot-profile"] });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de changer la visibilité du hangar", variant: "destructive" });
+      console.error("Error updating hangar visibility:", error);
+    },
+  });
+
+  return {
+    ships: hangarQuery.data ?? [],
+    isLoading: hangarQuery.isLoading,
+    addShip,
+    importShips,
+    updateShip,
+    removeShip,
+    setHangarPublic,
+  };
+}
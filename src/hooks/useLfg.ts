@@ -0,0 +1,125 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { TablesInsert } from "@/integrations/supabase/types";
+
+export type NewLfgListing = Omit<TablesInsert<"lfg_listings">, "user_id">;
+
+const PROFILE_FIELDS = "id, handle, display_name, avatar_url";
+
+/**
+ * Open listings that have not expired yet. Requests come back filtered by RLS: accepted crew for
+ * everyone, plus the pilot's own requests and every request on the pilot's own listings.
+ */
+export function useLfg(userId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["lfg-listings", userId];
+
+  const listingsQuery = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("lfg_listings")
+        .select(
+          `*, profiles!lfg_listings_user_id_fkey(${PROFILE_FIELDS}), ships(id, slug, name, manufacturer, crew_min, crew_max, image_url), missions(id, title), lfg_requests(id, user_id, status, message, created_at, profiles!lfg_requests_user_id_fkey(${PROFILE_FIELDS}))`,
+        )
+        .eq("is_closed", false)
+        .gt("expires_at", new Date().toISOString())
+        .order("starts_at");
+      if (error) throw error;
+      return data;
+    },
+    // Expired listings drop off without a reload
+    refetchInterval: 60 * 1000,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["lfg-listings"] });
+
+  const createListing = useMutation({
+    mutationFn: async (listing: NewLfgListing) => {
+      if (!userId) throw new Error("User must be logged in");
+
+      const { error } = await supabase.from("lfg_listings").insert({ ...listing, user_id: userId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Annonce publiée" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de publier l'annonce", variant: "destructive" });
+      console.error("Error creating LFG listing:", error);
+    },
+  });
+
+  const closeListing = useMutation({
+    mutationFn: async (listingId: number) => {
+      const { error } = await supabase.from("lfg_listings").update({ is_closed: true }).eq("id", listingId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Annonce fermée" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de fermer l'annonce", variant: "destructive" });
+      console.error("Error closing LFG listing:", error);
+    },
+  });
+
+  const requestSeat = useMutation({
+    mutationFn: async ({ listingId, message }: { listingId: number; message: string | null }) => {
+      if (!userId) throw new Error("User must be logged in");
+
+      const { error } = await supabase.from("lfg_requests").insert({ listing_id: listingId, user_id: userId, message });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Demande envoyée", description: "Le pilote doit l'accepter" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible d'envoyer la demande", variant: "destructive" });
+      console.error("Error requesting LFG seat:", error);
+    },
+  });
+
+  const withdrawRequest = useMutation({
+    mutationFn: async (requestId: number) => {
+      const { error } = await supabase.from("lfg_requests").delete().eq("id", requestId);
+      if (error) throw error;
+    },
+    onSuccess: () => invalidate(),
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de retirer la demande", variant: "destructive" });
+      console.error("Error withdrawing LFG request:", error);
+    },
+  });
+
+  const answerRequest = useMutation({
+    mutationFn: async ({ requestId, accept }: { requestId: number; accept: boolean }) => {
+      const { error } = await supabase
+        .from("lfg_requests")
+        .update({ status: accept ? "accepted" : "declined" })
+        .eq("id", requestId);
+      if (error) throw error;
+    },
+    onSuccess: () => invalidate(),
+    onError: (error) => {
+      // check_lfg_seats() refuses to go over the seats of the listing
+      toast({ title: "Erreur", description: "Impossible de répondre à la demande (équipage complet ?)", variant: "destructive" });
+      console.error("Error answering LFG request:", error);
+    },
+  });
+
+  return {
+    listings: listingsQuery.data ?? [],
+    isLoading: listingsQuery.isLoading,
+    createListing,
+    closeListing,
+    requestSeat,
+    withdrawRequest,
+    answerRequest,
+  };
+}
@@ -0,0 +1,150 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import { fetchAllRows } from "@/lib/supabasePaging";
+import { HARDPOINT_GROUPS, matchesGroup } from "@/lib/loadout";
+
+export type LoadoutInput = Omit<TablesInsert<"ship_loadouts">, "user_id">;
+
+const LOADOUT_FIELDS =
+  "*, ships(id, slug, name, manufacturer, image_url), profiles!ship_loadouts_user_id_fkey(id, handle, display_name)";
+
+/** Public loadouts plus the pilot's private ones (RLS), optionally for one hull, latest first */
+export function useLoadouts(shipId?: number) {
+  const loadoutsQuery = useQuery({
+    queryKey: ["ship-loadouts", shipId ?? null],
+    queryFn: async () => {
+      let query = supabase.from("ship_loadouts").select(LOADOUT_FIELDS).order("updated_at", { ascending: false });
+      if (shipId) query = query.eq("ship_id", shipId);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  return {
+    loadouts: loadoutsQuery.data ?? [],
+    isLoading: loadoutsQuery.isLoading,
+  };
+}
+
+/** One loadout, saving inserts it the first time and returns its id for the permalink */
+export function useLoadout(loadoutId?: number, userId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["ship-loadout", loadoutId];
+
+  const loadoutQuery = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase.from("ship_loadouts").select(LOADOUT_FIELDS).eq("id", loadoutId!).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!loadoutId,
+  });
+
+  const saveLoadout = useMutation({
+    mutationFn: async (loadout: LoadoutInput) => {
+      if (!userId) throw new Error("User must be logged in");
+
+      if (loadoutId) {
+        const { error } = await supabase.from("ship_loadouts").update(loadout).eq("id", loadoutId);
+        if (error) throw error;
+        return loadoutId;
+      }
+
+      const { data, error } = await supabase
+        .from("ship_loadouts")
+        .insert({ ...loadout, user_id: userId })
+        .select("id")
+        .single();
+      if (error) throw error;
+      return data.id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["ship-loadouts"] });
+      toast({ title: "Loadout enregistré" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible d'enregistrer le loadout", variant: "destructive" });
+      console.error("Error saving loadout:", error);
+    },
+  });
+
+  const deleteLoadout = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from("ship_loadouts").delete().eq("id", loadoutId!);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["ship-loadouts"] });
+      // Hangar ships lose the loadout (ON DELETE SET NULL)
+      queryClient.invalidateQueries({ queryKey: ["hangar", userId] });
+      toast({ title: "Loadout supprimé" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de supprimer le loadout", variant: "destructive" });
+      console.error("Error deleting loadout:", error);
+    },
+  });
+
+  return {
+    loadout: loadoutQuery.data ?? null,
+    isLoading: loadoutQuery.isLoading && !!loadoutId,
+    saveLoadout,
+    deleteLoadout,
+  };
+}
+
+/** Every game item that fits one of the hardpoint groups */
+export function useLoadoutItems() {
+  const itemsQuery = useQuery({
+    queryKey: ["loadout-items"],
+    queryFn: async () => {
+      const items = await fetchAllRows(async (from, to) => {
+        const { data, error } = await supabase
+          .from("game_items")
+          .select("id, slug, name, category, sub_category, size, grade, manufacturer, buy_price_avg")
+          .order("id")
+          .range(from, to);
+        if (error) throw error;
+        return data;
+      });
+      return items.filter((item) => HARDPOINT_GROUPS.some((group) => matchesGroup(item, group)));
+    },
+    staleTime: 10 * 60 * 1000,
+  });
+
+  return {
+    items: itemsQuery.data ?? [],
+    isLoading: itemsQuery.isLoading,
+  };
+}
+
+/** Shop prices of the components picked in a loadout */
+export function useLoadoutOffers(itemIds: number[]) {
+  const offersQuery = useQuery({
+    queryKey: ["loadout-offers", itemIds],
+    queryFn: () =>
+      fetchAllRows(async (from, to) => {
+        const { data, error } = await supabase
+          .from("item_prices")
+          .select("item_id, terminal_id, price_buy, terminals(id, name, slug, star_system, planet, moon, space_station)")
+          .in("item_id", itemIds)
+          .gt("price_buy", 0)
+          .order("id")
+          .range(from, to);
+        if (error) throw error;
+        return data;
+      }),
+    enabled: itemIds.length > 0,
+  });
+
+  return {
+    offers: itemIds.length > 0 ? offersQuery.data ?? [] : [],
+    isLoading: offersQuery.isLoading && itemIds.length > 0,
+  };
+}
@@ -0,0 +1,72 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { TablesInsert } from "@/integrations/supabase/types";
+
+export type NewMissionLog = Omit<TablesInsert<"mission_logs">, "user_id">;
+
+/**
+ * The signed-in pilot's completed missions, newest first. Adding or removing an entry also refreshes
+ * profiles.stats (a database trigger recomputes it), so the cached profile is invalidated with it.
+ */
+export function useMissionLogs(userId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["mission-logs", userId];
+
+  const logsQuery = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("mission_logs")
+        .select("*")
+        .eq("user_id", userId!)
+        .order("completed_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["profile", userId] });
+    queryClient.invalidateQueries({ queryKey: ["pilot-profile"] });
+  };
+
+  const addLog = useMutation({
+    mutationFn: async (log: NewMissionLog) => {
+      if (!userId) throw new Error("User must be logged in");
+
+      const { error } = await supabase.from("mission_logs").insert({ ...log, user_id: userId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Mission ajoutée au journal" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible d'enregistrer la mission", variant: "destructive" });
+      console.error("Error adding mission log:", error);
+    },
+  });
+
+  const deleteLog = useMutation({
+    mutationFn: async (id: number) => {
+      const { error } = await supabase.from("mission_logs").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de supprimer la mission", variant: "destructive" });
+      console.error("Error deleting mission log:", error);
+    },
+  });
+
+  return {
+    logs: logsQuery.data ?? [],
+    isLoading: logsQuery.isLoading,
+    addLog,
+    deleteLog,
+  };
+}
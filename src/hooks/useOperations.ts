@@ -0,0 +1,272 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { splitRoles } from "@/lib/hangar";
+
+export type NewOperation = Omit<TablesInsert<"org_operations">, "org_id" | "created_by">;
+export type NewPosition = Omit<TablesInsert<"org_operation_positions">, "operation_id">;
+export type RsvpInput = Pick<TablesInsert<"org_operation_rsvps">, "status" | "user_ship_id" | "notes">;
+
+/** The org's operations, soonest first. Only org members get rows back (RLS). */
+export function useOrgOperations(orgId?: number, userId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["org-operations", orgId];
+
+  const operationsQuery = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("org_operations")
+        .select("*, org_operation_rsvps(user_id, status)")
+        .eq("org_id", orgId!)
+        .order("starts_at");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!orgId && !!userId,
+  });
+
+  const createOperation = useMutation({
+    mutationFn: async ({ positions, ...operation }: NewOperation & { positions: NewPosition[] }) => {
+      if (!userId) throw new Error("User must be logged in");
+
+      const { data, error } = await supabase
+        .from("org_operations")
+        .insert({ ...operation, org_id: orgId!, created_by: userId })
+        .select("id")
+        .single();
+      if (error) throw error;
+
+      if (positions.length > 0) {
+        const { error: positionsError } = await supabase
+          .from("org_operation_positions")
+          .insert(positions.map((position) => ({ ...position, operation_id: data.id })));
+        if (positionsError) {
+          // Don't leave an operation without the positions it was planned with
+          await supabase.from("org_operations").delete().eq("id", data.id);
+          throw positionsError;
+        }
+      }
+      return data.id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Opération planifiée" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de créer l'opération", variant: "destructive" });
+      console.error("Error creating operation:", error);
+    },
+  });
+
+  return {
+    operations: operationsQuery.data ?? [],
+    isLoading: operationsQuery.isLoading,
+    createOperation,
+  };
+}
+
+/**
+ * One operation with its positions and the live roster: RSVP changes from other pilots come in
+ * through a realtime subscription.
+ */
+export function useOperation(operationId?: number, userId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const operationKey = ["org-operation", operationId];
+  const positionsKey = ["org-operation-positions", operationId];
+  const rosterKey = ["org-operation-roster", operationId];
+
+  const operationQuery = useQuery({
+    queryKey: operationKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("org_operations")
+        .select("*, organizations(id, slug, name)")
+        .eq("id", operationId!)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!operationId,
+  });
+
+  const positionsQuery = useQuery({
+    queryKey: positionsKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("org_operation_positions")
+        .select("*")
+        .eq("operation_id", operationId!)
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!operationId,
+  });
+
+  const rosterQuery = useQuery({
+    queryKey: rosterKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("org_operation_rsvps")
+        .select(
+          "*, profiles!org_operation_rsvps_user_id_fkey(id, handle, display_name, avatar_url), user_ships(id, nickname, ships(slug, name, role, crew_min, crew_max, cargo_scu))",
+        )
+        .eq("operation_id", operationId!)
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!operationId,
+  });
+
+  useEffect(() => {
+    if (!operationId) return;
+    const channel = supabase
+      .channel(`org-operation-roster-${operationId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "org_operation_rsvps",
+          filter: `operation_id=eq.${operationId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["org-operation-roster", operationId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [operationId, queryClient]);
+
+  const invalidateLists = () => {
+    const orgId = operationQuery.data?.org_id;
+    queryClient.invalidateQueries({ queryKey: ["org-operations", orgId] });
+  };
+
+  const updateOperation = useMutation({
+    mutationFn: async (changes: Omit<TablesUpdate<"org_operations">, "id" | "org_id">) => {
+      const { error } = await supabase.from("org_operations").update(changes).eq("id", operationId!);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: operationKey });
+      invalidateLists();
+      toast({ title: "Opération mise à jour" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de modifier l'opération", variant: "destructive" });
+      console.error("Error updating operation:", error);
+    },
+  });
+
+  const deleteOperation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from("org_operations").delete().eq("id", operationId!);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateLists();
+      toast({ title: "Opération supprimée" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de supprimer l'opération", variant: "destructive" });
+      console.error("Error deleting operation:", error);
+    },
+  });
+
+  const addPosition = useMutation({
+    mutationFn: async (position: NewPosition) => {
+      const { error } = await supabase.from("org_operation_positions").insert({ ...position, operation_id: operationId! });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: positionsKey }),
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible d'ajouter le poste", variant: "destructive" });
+      console.error("Error adding operation position:", error);
+    },
+  });
+
+  const removePosition = useMutation({
+    mutationFn: async (positionId: number) => {
+      const { error } = await supabase.from("org_operation_positions").delete().eq("id", positionId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: positionsKey });
+      queryClient.invalidateQueries({ queryKey: rosterKey });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de retirer le poste", variant: "destructive" });
+      console.error("Error removing operation position:", error);
+    },
+  });
+
+  const rsvp = useMutation({
+    mutationFn: async (input: RsvpInput) => {
+      if (!userId) throw new Error("User must be logged in");
+
+      const { error } = await supabase
+        .from("org_operation_rsvps")
+        .upsert({ ...input, operation_id: operationId!, user_id: userId }, { onConflict: "operation_id,user_id" });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rosterKey });
+      invalidateLists();
+      toast({ title: "Réponse enregistrée" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible d'enregistrer ta réponse", variant: "destructive" });
+      console.error("Error saving RSVP:", error);
+    },
+  });
+
+  // Officer side: position assignment and payout share
+  const updateRsvp = useMutation({
+    mutationFn: async ({ id, ...changes }: Pick<TablesUpdate<"org_operation_rsvps">, "position_id" | "payout_share"> & { id: number }) => {
+      const { error } = await supabase.from("org_operation_rsvps").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: rosterKey }),
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de modifier le roster", variant: "destructive" });
+      console.error("Error updating RSVP:", error);
+    },
+  });
+
+  return {
+    operation: operationQuery.data ?? null,
+    isLoading: operationQuery.isLoading,
+    positions: positionsQuery.data ?? [],
+    roster: rosterQuery.data ?? [],
+    rosterLoading: rosterQuery.isLoading,
+    updateOperation,
+    deleteOperation,
+    addPosition,
+    removePosition,
+    rsvp,
+    updateRsvp,
+  };
+}
+
+/** Distinct roles found in ships.role, used to pick the positions of an op */
+export function useShipRoles() {
+  return useQuery({
+    queryKey: ["ship-roles"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("ships").select("role").not("role", "is", null);
+      if (error) throw error;
+      return Array.from(new Set(data.flatMap((ship) => splitRoles(ship.role)))).sort();
+    },
+    staleTime: 60 * 60 * 1000,
+  });
+}
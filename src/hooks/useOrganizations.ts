@@ -0,0 +1,292 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Database, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+
+export type OrgRole = Database["public"]["Enums"]["org_role"];
+export type NewOrganization = Omit<TablesInsert<"organizations">, "created_by">;
+
+const PROFILE_FIELDS = "id, handle, display_name, avatar_url";
+
+/** Unique violation on organizations.slug */
+function isDuplicateSlug(error: unknown) {
+  return (error as { code?: string } | null)?.code === "23505";
+}
+
+export function useOrganizations(userId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const listQuery = useQuery({
+    queryKey: ["organizations"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("organizations")
+        .select("*, organization_members(count)")
+        .order("name");
+      if (error) throw error;
+      return data.map(({ organization_members, ...org }) => ({ ...org, member_count: organization_members[0]?.count ?? 0 }));
+    },
+  });
+
+  const myOrgsQuery = useQuery({
+    queryKey: ["my-organizations", userId],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("organization_members").select("org_id, role").eq("user_id", userId!);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId,
+  });
+
+  const createOrganization = useMutation({
+    mutationFn: async (org: NewOrganization) => {
+      if (!userId) throw new Error("User must be logged in");
+
+      const { data, error } = await supabase
+        .from("organizations")
+        .insert({ ...org, created_by: userId })
+        .select("slug")
+        .single();
+      if (error) throw error;
+      return data.slug;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["organizations"] });
+      queryClient.invalidateQueries({ queryKey: ["my-organizations", userId] });
+      toast({ title: "Organisation créée" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: isDuplicateSlug(error) ? "Ce slug est déjà utilisé" : "Impossible de créer l'organisation",
+        variant: "destructive",
+      });
+      console.error("Error creating organization:", error);
+    },
+  });
+
+  return {
+    organizations: listQuery.data ?? [],
+    isLoading: listQuery.isLoading,
+    myMemberships: myOrgsQuery.data ?? [],
+    createOrganization,
+  };
+}
+
+/**
+ * One org with its members and pending join requests. RLS only returns every pending request to
+ * officers, other pilots just get their own.
+ */
+export function useOrganization(slug?: string, userId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const orgQuery = useQuery({
+    queryKey: ["organization", slug],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("organizations").select("*").eq("slug", slug!).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!slug,
+  });
+
+  const orgId = orgQuery.data?.id;
+  const membersKey = ["organization-members", orgId];
+  const requestsKey = ["organization-requests", orgId, userId];
+
+  const membersQuery = useQuery({
+    queryKey: membersKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("organization_members")
+        .select(`id, user_id, role, joined_at, profiles!organization_members_user_id_fkey(${PROFILE_FIELDS})`)
+        .eq("org_id", orgId!)
+        .order("joined_at");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!orgId,
+  });
+
+  const requestsQuery = useQuery({
+    queryKey: requestsKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("organization_join_requests")
+        .select(`id, user_id, message, created_at, profiles!organization_join_requests_user_id_fkey(${PROFILE_FIELDS})`)
+        .eq("org_id", orgId!)
+        .eq("status", "pending")
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!orgId && !!userId,
+  });
+
+  const members = membersQuery.data ?? [];
+  const requests = requestsQuery.data ?? [];
+  const myRole = members.find((m) => m.user_id === userId)?.role ?? null;
+
+  const invalidateMembership = () => {
+    queryClient.invalidateQueries({ queryKey: membersKey });
+    queryClient.invalidateQueries({ queryKey: ["organization-requests", orgId] });
+    queryClient.invalidateQueries({ queryKey: ["org-fleet", orgId] });
+    queryClient.invalidateQueries({ queryKey: ["organizations"] });
+    queryClient.invalidateQueries({ queryKey: ["my-organizations"] });
+  };
+
+  const updateOrganization = useMutation({
+    mutationFn: async (changes: Omit<TablesUpdate<"organizations">, "id" | "created_by">) => {
+      const { data, error } = await supabase
+        .from("organizations")
+        .update(changes)
+        .eq("id", orgId!)
+        .select("slug")
+        .single();
+      if (error) throw error;
+      return data.slug;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["organization"] });
+      queryClient.invalidateQueries({ queryKey: ["organizations"] });
+      toast({ title: "Organisation mise à jour" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: isDuplicateSlug(error) ? "Ce slug est déjà utilisé" : "Impossible de modifier l'organisation",
+        variant: "destructive",
+      });
+      console.error("Error updating organization:", error);
+    },
+  });
+
+  const deleteOrganization = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from("organizations").delete().eq("id", orgId!);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["organizations"] });
+      queryClient.invalidateQueries({ queryKey: ["my-organizations"] });
+      toast({ title: "Organisation supprimée" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de supprimer l'organisation", variant: "destructive" });
+      console.error("Error deleting organization:", error);
+    },
+  });
+
+  const requestJoin = useMutation({
+    mutationFn: async (message: string | null) => {
+      if (!userId) throw new Error("User must be logged in");
+
+      const { error } = await supabase.from("organization_join_requests").insert({ org_id: orgId!, user_id: userId, message });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: requestsKey });
+      toast({ title: "Demande envoyée", description: "Un officier de l'organisation doit l'accepter" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible d'envoyer la demande", variant: "destructive" });
+      console.error("Error requesting to join organization:", error);
+    },
+  });
+
+  const cancelRequest = useMutation({
+    mutationFn: async (requestId: number) => {
+      const { error } = await supabase.from("organization_join_requests").delete().eq("id", requestId);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: requestsKey }),
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible d'annuler la demande", variant: "destructive" });
+      console.error("Error cancelling join request:", error);
+    },
+  });
+
+  const reviewRequest = useMutation({
+    mutationFn: async ({ requestId, accept }: { requestId: number; accept: boolean }) => {
+      const { error } = await supabase.rpc("review_org_join_request", { _request_id: requestId, _accept: accept });
+      if (error) throw error;
+      return accept;
+    },
+    onSuccess: (accept) => {
+      invalidateMembership();
+      toast({ title: accept ? "Membre ajouté" : "Demande refusée" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de traiter la demande", variant: "destructive" });
+      console.error("Error reviewing join request:", error);
+    },
+  });
+
+  const changeRole = useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: number; role: OrgRole }) => {
+      const { error } = await supabase.from("organization_members").update({ role }).eq("id", memberId);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: membersKey }),
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de changer le rôle", variant: "destructive" });
+      console.error("Error changing org role:", error);
+    },
+  });
+
+  // Used both to kick a member and to leave the org
+  const removeMember = useMutation({
+    mutationFn: async (memberId: number) => {
+      const { error } = await supabase.from("organization_members").delete().eq("id", memberId);
+      if (error) throw error;
+    },
+    onSuccess: () => invalidateMembership(),
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de retirer le membre", variant: "destructive" });
+      console.error("Error removing org member:", error);
+    },
+  });
+
+  return {
+    organization: orgQuery.data ?? null,
+    isLoading: orgQuery.isLoading,
+    members,
+    membersLoading: membersQuery.isLoading,
+    requests,
+    myRole,
+    myRequest: requests.find((r) => r.user_id === userId) ?? null,
+    updateOrganization,
+    deleteOrganization,
+    requestJoin,
+    cancelRequest,
+    reviewRequest,
+    changeRole,
+    removeMember,
+  };
+}
+
+/** Ship counts across the members' hangars, joined with the ship specs for the fleet totals */
+export function useOrgFleet(orgId?: number) {
+  return useQuery({
+    queryKey: ["org-fleet", orgId],
+    queryFn: async () => {
+      const { data: counts, error } = await supabase.rpc("get_org_fleet", { _org_id: orgId! });
+      if (error) throw error;
+      if (counts.length === 0) return [];
+
+      const { data: ships, error: shipsError } = await supabase
+        .from("ships")
+        .select("id, slug, name, manufacturer, role, size, cargo_scu, crew_min, crew_max, prices, image_url")
+        .in("id", counts.map((c) => c.ship_id));
+      if (shipsError) throw shipsError;
+
+      const byId = new Map(ships.map((ship) => [ship.id, ship]));
+      return counts
+        .map((c) => ({ ships: byId.get(c.ship_id) ?? null, count: c.ship_count, owners: c.owner_count }))
+        .sort((a, b) => b.count - a.count || (a.ships?.name ?? "").localeCompare(b.ships?.name ?? ""));
+    },
+    enabled: !!orgId,
+  });
+}
@@ -0,0 +1,115 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Refining methods with their UEX yield/cost/speed ratings.
+ */
+export function useRefineryMethods() {
+  return useQuery({
+    queryKey: ["refinery-methods"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("refinery_methods")
+        .select("*")
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+/**
+ * Per-terminal refinery yields, best first.
+ */
+export function useRefineryYields() {
+  return useQuery({
+    queryKey: ["refinery-yields"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("refinery_yields")
+        .select("*, commodities(name), refinery_methods(name), terminals(name, slug, star_system)")
+        .order("yield_pct", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+/**
+ * Commodities with their raw flag, used to map ores to refined products.
+ */
+export function useRefineryCommodities() {
+  return useQuery({
+    queryKey: ["refinery-commodities"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("commodities")
+        .select("id, name, slug, is_raw")
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+/**
+ * Terminals flagged as refineries.
+ */
+export function useRefineryTerminals() {
+  return useQuery({
+    queryKey: ["refinery-terminals"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("terminals")
+        .select("id, name, slug, star_system, planet, moon")
+        .eq("is_refinery", true)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+/**
+ * Highest sell offer per commodity among `commodityIds`, with the terminal that pays it.
+ */
+export function useBestSellPrices(commodityIds: number[]) {
+  return useQuery({
+    queryKey: ["refinery-best-sells", commodityIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("commodity_prices")
+        .select("commodity_id, price_sell, terminals(name, slug)")
+        .in("commodity_id", commodityIds)
+        .gt("price_sell", 0);
+      if (error) throw error;
+      const best = new Map<number, (typeof data)[number]>();
+      for (const p of data) {
+        const current = best.get(p.commodity_id);
+        if (!current || Number(p.price_sell) > Number(current.price_sell)) best.set(p.commodity_id, p);
+      }
+      return best;
+    },
+    enabled: commodityIds.length > 0,
+  });
+}
+
+/**
+ * Every terminal buying `commodityId`, best price first, with its location.
+ */
+export function useSellOffers(commodityId: number | null) {
+  return useQuery({
+    queryKey: ["commodity-sell-offers", commodityId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("commodity_prices")
+        .select("price_sell, terminals(id, name, slug, star_system, planet, moon)")
+        .eq("commodity_id", commodityId!)
+        .gt("price_sell", 0)
+        .order("price_sell", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!commodityId,
+  });
+}
@@ -0,0 +1,127 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+
+const JOB_SELECT = `
+  *,
+  terminals(name, slug, star_system),
+  refinery_methods(name),
+  refinery_job_items(id, commodity_id, quantity_scu, expected_scu, commodities(name, slug))
+`;
+
+async function fetchRefineryJobs(userId: string) {
+  const { data, error } = await supabase
+    .from("refinery_jobs")
+    .select(JOB_SELECT)
+    .eq("user_id", userId)
+    .order("started_at", { ascending: false });
+  if (error) throw error;
+  return data;
+}
+
+export type RefineryJob = Awaited<ReturnType<typeof fetchRefineryJobs>>[number];
+
+export interface NewRefineryJob {
+  terminalId: number;
+  methodId: number;
+  startedAt: string;
+  completesAt: string;
+  costAuec: number | null;
+  estimatedValue: number | null;
+  notes: string | null;
+  items: { commodityId: number; quantityScu: number; expectedScu: number | null }[];
+}
+
+export function useRefineryJobs(userId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["refinery-jobs", userId];
+
+  const jobsQuery = useQuery({
+    queryKey,
+    queryFn: () => fetchRefineryJobs(userId!),
+    enabled: !!userId,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey });
+
+  const createJob = useMutation({
+    mutationFn: async (job: NewRefineryJob) => {
+      if (!userId) throw new Error("User must be logged in");
+
+      const { data, error } = await supabase
+        .from("refinery_jobs")
+        .insert({
+          user_id: userId,
+          terminal_id: job.terminalId,
+          method_id: job.methodId,
+          started_at: job.startedAt,
+          completes_at: job.completesAt,
+          cost_auec: job.costAuec,
+          estimated_value: job.estimatedValue,
+          notes: job.notes,
+        })
+        .select("id")
+        .single();
+      if (error) throw error;
+
+      const { error: itemsError } = await supabase.from("refinery_job_items").insert(
+        job.items.map((item) => ({
+          job_id: data.id,
+          commodity_id: item.commodityId,
+          quantity_scu: item.quantityScu,
+          expected_scu: item.expectedScu,
+        }))
+      );
+      if (itemsError) {
+        // Don't leave a job without its load behind
+        await supabase.from("refinery_jobs").delete().eq("id", data.id);
+        throw itemsError;
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Job ajouté", description: "Tu seras prévenu quand il sera terminé" });
+    },
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible d'enregistrer le job", variant: "destructive" });
+      console.error("Error creating refinery job:", error);
+    },
+  });
+
+  const updateJob = useMutation({
+    mutationFn: async ({ id, changes }: { id: number; changes: TablesUpdate<"refinery_jobs"> }) => {
+      const { error } = await supabase
+        .from("refinery_jobs")
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de mettre à jour le job", variant: "destructive" });
+      console.error("Error updating refinery job:", error);
+    },
+  });
+
+  const deleteJob = useMutation({
+    mutationFn: async (id: number) => {
+      const { error } = await supabase.from("refinery_jobs").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: "Erreur", description: "Impossible de supprimer le job", variant: "destructive" });
+      console.error("Error deleting refinery job:", error);
+    },
+  });
+
+  return {
+    jobs: jobsQuery.data ?? [],
+    isLoading: jobsQuery.isLoading,
+    createJob,
+    updateJob,
+    deleteJob,
+  };
+}
@@ -0,0 +1,78 @@
+import { useSyncExternalStore } from "react";
+
+const STORAGE_KEY = "ship-compare";
+export const MAX_COMPARED_SHIPS = 4;
+
+// Module-level store so every ShipCard and the compare page share the same selection
+const listeners = new Set<() => void>();
+
+function read(): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(saved) ? saved.filter((s) => typeof s === "string").slice(0, MAX_COMPARED_SHIPS) : [];
+  } catch {
+    return [];
+  }
+}
+
+let slugs = read();
+
+function write(next: string[]) {
+  slugs = next.slice(0, MAX_COMPARED_SHIPS);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(slugs));
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  // Keep other tabs in sync
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    slugs = read();
+    listener();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+function add(slug: string) {
+  if (!slugs.includes(slug)) write([...slugs, slug]);
+}
+
+function remove(slug: string) {
+  write(slugs.filter((s) => s !== slug));
+}
+
+function toggle(slug: string) {
+  if (slugs.includes(slug)) remove(slug);
+  else add(slug);
+}
+
+function set(next: string[]) {
+  write(Array.from(new Set(next)));
+}
+
+function clear() {
+  write([]);
+}
+
+/**
+ * Ships picked for /ships/compare, persisted in localStorage (up to MAX_COMPARED_SHIPS).
+ */
+export function useShipCompare() {
+  const selected = useSyncExternalStore(subscribe, () => slugs);
+
+  return {
+    slugs: selected,
+    isFull: selected.length >= MAX_COMPARED_SHIPS,
+    has: (slug: string) => selected.includes(slug),
+    add,
+    remove,
+    toggle,
+    set,
+    clear,
+  };
+}
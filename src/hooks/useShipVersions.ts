@@ -0,0 +1,43 @@
+import { useQuery } from "@tanstack/react-query";
+import { subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Versions of one ship recorded by ships-sync, newest first.
+ */
+export function useShipVersions(shipId?: number) {
+  return useQuery({
+    queryKey: ["ship-versions", shipId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("ship_versions")
+        .select("id, recorded_at, source, sync_job_id, changes, hash, previous_hash")
+        .eq("ship_id", shipId!)
+        .order("recorded_at", { ascending: false })
+        .limit(100);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!shipId,
+  });
+}
+
+/**
+ * Versions of every ship that changed at least one tracked field in the last `days` days.
+ */
+export function useRecentShipChanges(days: number) {
+  return useQuery({
+    queryKey: ["ship-changes", days],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("ship_versions")
+        .select("id, ship_slug, recorded_at, source, sync_job_id, changes, ships(name)")
+        .gte("recorded_at", subDays(new Date(), days).toISOString())
+        .neq("changes", "[]")
+        .order("recorded_at", { ascending: false })
+        .limit(500);
+      if (error) throw error;
+      return data;
+    },
+  });
+}
@@ -89,6 +89,54 @@ export type Database = {
         }
         Relationships: []
       }
+      commodity_price_history: {
+        Row: {
+          commodity_id: number
+          id: number
+          price_buy: number | null
+          price_sell: number | null
+          recorded_at: string
+          scu_buy: number | null
+          scu_sell: number | null
+          terminal_id: number | null
+        }
+        Insert: {
+          commodity_id: number
+          id?: never
+          price_buy?: number | null
+          price_sell?: number | null
+          recorded_at?: string
+          scu_buy?: number | null
+          scu_sell?: number | null
+          terminal_id?: number | null
+        }
+        Update: {
+          commodity_id?: number
+          id?: never
+          price_buy?: number | null
+          price_sell?: number | null
+          recorded_at?: string
+          scu_buy?: number | null
+          scu_sell?: number | null
+          terminal_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commodity_price_history_commodity_id_fkey"
+            columns: ["commodity_id"]
+            isOneToOne: false
+            referencedRelation: "commodities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commodity_price_history_terminal_id_fkey"
+            columns: ["terminal_id"]
+            isOneToOne: false
+            referencedRelation: "terminals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       commodity_prices: {
         Row: {
           commodity_id: number
@@ -376,6 +424,169 @@ export type Database = {
         }
         Relationships: []
       }
+      item_prices: {
+        Row: {
+          created_at: string | null
+          id: number
+          item_id: number
+          price_buy: number | null
+          price_sell: number | null
+          terminal_id: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: never
+          item_id: number
+          price_buy?: number | null
+          price_sell?: number | null
+          terminal_id: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: never
+          item_id?: number
+          price_buy?: number | null
+          price_sell?: number | null
+          terminal_id?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "item_prices_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "game_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "item_prices_terminal_id_fkey"
+            columns: ["terminal_id"]
+            isOneToOne: false
+            referencedRelation: "terminals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lfg_listings: {
+        Row: {
+          activity: string
+          created_at: string | null
+          description: string | null
+          expires_at: string
+          id: number
+          is_closed: boolean
+          language: string
+          mission_id: number | null
+          seats_needed: number
+          ship_id: number
+          star_system: string | null
+          starts_at: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          activity: string
+          created_at?: string | null
+          description?: string | null
+          expires_at: string
+          id?: never
+          is_closed?: boolean
+          language?: string
+          mission_id?: number | null
+          seats_needed: number
+          ship_id: number
+          star_system?: string | null
+          starts_at: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          activity?: string
+          created_at?: string | null
+          description?: string | null
+          expires_at?: string
+          id?: never
+          is_closed?: boolean
+          language?: string
+          mission_id?: number | null
+          seats_needed?: number
+          ship_id?: number
+          star_system?: string | null
+          starts_at?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lfg_listings_mission_id_fkey"
+            columns: ["mission_id"]
+            isOneToOne: false
+            referencedRelation: "missions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lfg_listings_ship_id_fkey"
+            columns: ["ship_id"]
+            isOneToOne: false
+            referencedRelation: "ships"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lfg_listings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lfg_requests: {
+        Row: {
+          created_at: string
+          id: number
+          listing_id: number
+          message: string | null
+          status: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          listing_id: number
+          message?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          listing_id?: number
+          message?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lfg_requests_listing_id_fkey"
+            columns: ["listing_id"]
+            isOneToOne: false
+            referencedRelation: "lfg_listings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lfg_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       logs: {
         Row: {
           body_md: string
@@ -471,17 +682,85 @@ export type Database = {
           },
         ]
       }
+      mission_logs: {
+        Row: {
+          category: string | null
+          completed_at: string
+          created_at: string | null
+          crew_size: number
+          duration_minutes: number | null
+          faction: string | null
+          id: number
+          mission_id: number | null
+          notes: string | null
+          payout_auec: number
+          title: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          category?: string | null
+          completed_at?: string
+          created_at?: string | null
+          crew_size?: number
+          duration_minutes?: number | null
+          faction?: string | null
+          id?: never
+          mission_id?: number | null
+          notes?: string | null
+          payout_auec?: number
+          title: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          category?: string | null
+          completed_at?: string
+          created_at?: string | null
+          crew_size?: number
+          duration_minutes?: number | null
+          faction?: string | null
+          id?: never
+          mission_id?: number | null
+          notes?: string | null
+          payout_auec?: number
+          title?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mission_logs_mission_id_fkey"
+            columns: ["mission_id"]
+            isOneToOne: false
+            referencedRelation: "missions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mission_logs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       missions: {
         Row: {
           base_xp: number | null
           blueprint_reward: string | null
+          blueprint_rewards: string[]
           category: string | null
+          chain_id: string | null
           chain_length: number | null
+          chain_step: number | null
           combat_threat: string | null
           created_at: string | null
           description: string | null
           faction: string | null
+          game_version: string | null
           id: number
+          is_active: boolean
           is_chain: boolean | null
           is_illegal: boolean | null
           is_repeatable: boolean | null
@@ -489,6 +768,7 @@ export type Database = {
           is_unique: boolean | null
           mission_type: string | null
           rank_required: string | null
+          retired_at: string | null
           reward_auec: number | null
           source_id: string | null
           star_system: string | null
@@ -498,13 +778,18 @@ export type Database = {
         Insert: {
           base_xp?: number | null
           blueprint_reward?: string | null
+          blueprint_rewards?: string[]
           category?: string | null
+          chain_id?: string | null
           chain_length?: number | null
+          chain_step?: number | null
           combat_threat?: string | null
           created_at?: string | null
           description?: string | null
           faction?: string | null
+          game_version?: string | null
           id?: never
+          is_active?: boolean
           is_chain?: boolean | null
           is_illegal?: boolean | null
           is_repeatable?: boolean | null
@@ -512,6 +797,7 @@ export type Database = {
           is_unique?: boolean | null
           mission_type?: string | null
           rank_required?: string | null
+          retired_at?: string | null
           reward_auec?: number | null
           source_id?: string | null
           star_system?: string | null
@@ -521,13 +807,18 @@ export type Database = {
         Update: {
           base_xp?: number | null
           blueprint_reward?: string | null
+          blueprint_rewards?: string[]
           category?: string | null
+          chain_id?: string | null
           chain_length?: number | null
+          chain_step?: number | null
           combat_threat?: string | null
           created_at?: string | null
           description?: string | null
           faction?: string | null
+          game_version?: string | null
           id?: never
+          is_active?: boolean
           is_chain?: boolean | null
           is_illegal?: boolean | null
           is_repeatable?: boolean | null
@@ -535,6 +826,7 @@ export type Database = {
           is_unique?: boolean | null
           mission_type?: string | null
           rank_required?: string | null
+          retired_at?: string | null
           reward_auec?: number | null
           source_id?: string | null
           star_system?: string | null
@@ -700,10 +992,314 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "news_views_news_id_fkey"
-            columns: ["news_id"]
+            foreignKeyName: "news_views_news_id_fkey"
+            columns: ["news_id"]
+            isOneToOne: false
+            referencedRelation: "news"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      org_operation_positions: {
+        Row: {
+          created_at: string
+          id: number
+          label: string | null
+          operation_id: number
+          quantity: number
+          ship_role: string
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          label?: string | null
+          operation_id: number
+          quantity?: number
+          ship_role: string
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          label?: string | null
+          operation_id?: number
+          quantity?: number
+          ship_role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "org_operation_positions_operation_id_fkey"
+            columns: ["operation_id"]
+            isOneToOne: false
+            referencedRelation: "org_operations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      org_operation_rsvps: {
+        Row: {
+          created_at: string | null
+          id: number
+          notes: string | null
+          operation_id: number
+          payout_share: number
+          position_id: number | null
+          status: string
+          updated_at: string | null
+          user_id: string
+          user_ship_id: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: never
+          notes?: string | null
+          operation_id: number
+          payout_share?: number
+          position_id?: number | null
+          status?: string
+          updated_at?: string | null
+          user_id: string
+          user_ship_id?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: never
+          notes?: string | null
+          operation_id?: number
+          payout_share?: number
+          position_id?: number | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+          user_ship_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "org_operation_rsvps_operation_id_fkey"
+            columns: ["operation_id"]
+            isOneToOne: false
+            referencedRelation: "org_operations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "org_operation_rsvps_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: false
+            referencedRelation: "org_operation_positions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "org_operation_rsvps_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "org_operation_rsvps_user_ship_id_fkey"
+            columns: ["user_ship_id"]
+            isOneToOne: false
+            referencedRelation: "user_ships"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      org_operations: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          crew_slots: number
+          ends_at: string | null
+          id: number
+          objective_md: string | null
+          op_type: string
+          org_id: number
+          payout_total: number | null
+          star_system: string | null
+          starts_at: string
+          status: string
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          crew_slots?: number
+          ends_at?: string | null
+          id?: never
+          objective_md?: string | null
+          op_type?: string
+          org_id: number
+          payout_total?: number | null
+          star_system?: string | null
+          starts_at: string
+          status?: string
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          crew_slots?: number
+          ends_at?: string | null
+          id?: never
+          objective_md?: string | null
+          op_type?: string
+          org_id?: number
+          payout_total?: number | null
+          star_system?: string | null
+          starts_at?: string
+          status?: string
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "org_operations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "org_operations_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_join_requests: {
+        Row: {
+          created_at: string
+          id: number
+          message: string | null
+          org_id: number
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          message?: string | null
+          org_id: number
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          message?: string | null
+          org_id?: number
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_join_requests_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_join_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_join_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          id: number
+          joined_at: string
+          org_id: number
+          role: Database["public"]["Enums"]["org_role"]
+          user_id: string
+        }
+        Insert: {
+          id?: never
+          joined_at?: string
+          org_id: number
+          role?: Database["public"]["Enums"]["org_role"]
+          user_id: string
+        }
+        Update: {
+          id?: never
+          joined_at?: string
+          org_id?: number
+          role?: Database["public"]["Enums"]["org_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string | null
+          created_by: string
+          description_md: string | null
+          id: number
+          logo_url: string | null
+          name: string
+          slug: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by: string
+          description_md?: string | null
+          id?: never
+          logo_url?: string | null
+          name: string
+          slug: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string
+          description_md?: string | null
+          id?: never
+          logo_url?: string | null
+          name?: string
+          slug?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organizations_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "news"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
@@ -718,6 +1314,7 @@ export type Database = {
           created_at: string | null
           display_name: string
           handle: string
+          hangar_public: boolean
           id: string
           stats: Json | null
           updated_at: string | null
@@ -731,6 +1328,7 @@ export type Database = {
           created_at?: string | null
           display_name: string
           handle: string
+          hangar_public?: boolean
           id: string
           stats?: Json | null
           updated_at?: string | null
@@ -744,12 +1342,128 @@ export type Database = {
           created_at?: string | null
           display_name?: string
           handle?: string
+          hangar_public?: boolean
           id?: string
           stats?: Json | null
           updated_at?: string | null
         }
         Relationships: []
       }
+      refinery_job_items: {
+        Row: {
+          commodity_id: number
+          expected_scu: number | null
+          id: number
+          job_id: number
+          quantity_scu: number
+        }
+        Insert: {
+          commodity_id: number
+          expected_scu?: number | null
+          id?: never
+          job_id: number
+          quantity_scu: number
+        }
+        Update: {
+          commodity_id?: number
+          expected_scu?: number | null
+          id?: never
+          job_id?: number
+          quantity_scu?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refinery_job_items_commodity_id_fkey"
+            columns: ["commodity_id"]
+            isOneToOne: false
+            referencedRelation: "commodities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refinery_job_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "refinery_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refinery_jobs: {
+        Row: {
+          collected_at: string | null
+          completes_at: string
+          cost_auec: number | null
+          created_at: string | null
+          estimated_value: number | null
+          final_value: number | null
+          id: number
+          method_id: number | null
+          notes: string | null
+          notified_at: string | null
+          started_at: string
+          status: string
+          terminal_id: number | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          collected_at?: string | null
+          completes_at: string
+          cost_auec?: number | null
+          created_at?: string | null
+          estimated_value?: number | null
+          final_value?: number | null
+          id?: never
+          method_id?: number | null
+          notes?: string | null
+          notified_at?: string | null
+          started_at?: string
+          status?: string
+          terminal_id?: number | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          collected_at?: string | null
+          completes_at?: string
+          cost_auec?: number | null
+          created_at?: string | null
+          estimated_value?: number | null
+          final_value?: number | null
+          id?: never
+          method_id?: number | null
+          notes?: string | null
+          notified_at?: string | null
+          started_at?: string
+          status?: string
+          terminal_id?: number | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refinery_jobs_method_id_fkey"
+            columns: ["method_id"]
+            isOneToOne: false
+            referencedRelation: "refinery_methods"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refinery_jobs_terminal_id_fkey"
+            columns: ["terminal_id"]
+            isOneToOne: false
+            referencedRelation: "terminals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refinery_jobs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       refinery_methods: {
         Row: {
           cost_modifier: number | null
@@ -921,6 +1635,57 @@ export type Database = {
           },
         ]
       }
+      ship_loadouts: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: number
+          is_public: boolean
+          name: string
+          ship_id: number
+          slots: Json
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: never
+          is_public?: boolean
+          name: string
+          ship_id: number
+          slots?: Json
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: never
+          is_public?: boolean
+          name?: string
+          ship_id?: number
+          slots?: Json
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ship_loadouts_ship_id_fkey"
+            columns: ["ship_id"]
+            isOneToOne: false
+            referencedRelation: "ships"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ship_loadouts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ship_rumors: {
         Row: {
           codename: string
@@ -1025,6 +1790,60 @@ export type Database = {
         }
         Relationships: []
       }
+      ship_versions: {
+        Row: {
+          changes: Json
+          hash: string
+          id: number
+          previous_hash: string | null
+          recorded_at: string
+          ship_id: number
+          ship_slug: string
+          snapshot: Json
+          source: string | null
+          sync_job_id: number | null
+        }
+        Insert: {
+          changes?: Json
+          hash: string
+          id?: never
+          previous_hash?: string | null
+          recorded_at?: string
+          ship_id: number
+          ship_slug: string
+          snapshot?: Json
+          source?: string | null
+          sync_job_id?: number | null
+        }
+        Update: {
+          changes?: Json
+          hash?: string
+          id?: never
+          previous_hash?: string | null
+          recorded_at?: string
+          ship_id?: number
+          ship_slug?: string
+          snapshot?: Json
+          source?: string | null
+          sync_job_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ship_versions_ship_id_fkey"
+            columns: ["ship_id"]
+            isOneToOne: false
+            referencedRelation: "ships"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ship_versions_sync_job_id_fkey"
+            columns: ["sync_job_id"]
+            isOneToOne: false
+            referencedRelation: "cron_job_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ships: {
         Row: {
           armament: Json | null
@@ -1262,6 +2081,70 @@ export type Database = {
         }
         Relationships: []
       }
+      user_blueprints: {
+        Row: {
+          blueprint: string
+          collected_at: string | null
+          id: number
+          user_id: string
+        }
+        Insert: {
+          blueprint: string
+          collected_at?: string | null
+          id?: never
+          user_id: string
+        }
+        Update: {
+          blueprint?: string
+          collected_at?: string | null
+          id?: never
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_blueprints_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_faction_standings: {
+        Row: {
+          faction: string
+          id: number
+          rank: string
+          updated_at: string | null
+          user_id: string
+          xp: number
+        }
+        Insert: {
+          faction: string
+          id?: never
+          rank: string
+          updated_at?: string | null
+          user_id: string
+          xp?: number
+        }
+        Update: {
+          faction?: string
+          id?: never
+          rank?: string
+          updated_at?: string | null
+          user_id?: string
+          xp?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_faction_standings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -1283,6 +2166,67 @@ export type Database = {
         }
         Relationships: []
       }
+      user_ships: {
+        Row: {
+          acquisition: string
+          created_at: string | null
+          id: number
+          insurance: string | null
+          loadout_id: number | null
+          loadout_notes: string | null
+          nickname: string | null
+          ship_id: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          acquisition?: string
+          created_at?: string | null
+          id?: never
+          insurance?: string | null
+          loadout_id?: number | null
+          loadout_notes?: string | null
+          nickname?: string | null
+          ship_id: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          acquisition?: string
+          created_at?: string | null
+          id?: never
+          insurance?: string | null
+          loadout_id?: number | null
+          loadout_notes?: string | null
+          nickname?: string | null
+          ship_id?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_ships_ship_id_fkey"
+            columns: ["ship_id"]
+            isOneToOne: false
+            referencedRelation: "ships"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_ships_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_ships_loadout_id_fkey"
+            columns: ["loadout_id"]
+            isOneToOne: false
+            referencedRelation: "ship_loadouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       active_users_30d: {
@@ -1304,7 +2248,26 @@ export type Database = {
       }
       approve_user: { Args: { target_user_id: string }; Returns: undefined }
       cleanup_zombie_sync_jobs: { Args: never; Returns: undefined }
+      delete_expired_lfg_listings: { Args: never; Returns: undefined }
       delete_old_news: { Args: never; Returns: undefined }
+      get_commodity_price_history: {
+        Args: { p_commodity_id: number; p_days?: number }
+        Returns: {
+          buy_price_avg: number
+          buy_price_min: number
+          day: string
+          sell_price_avg: number
+          sell_price_max: number
+        }[]
+      }
+      get_commodity_sparklines: {
+        Args: { p_days?: number }
+        Returns: {
+          buy_prices: number[]
+          commodity_id: number
+          sell_prices: number[]
+        }[]
+      }
       get_latest_sync_progress: {
         Args: { p_function_name: string }
         Returns: {
@@ -1324,6 +2287,14 @@ export type Database = {
           updated_at: string
         }[]
       }
+      get_org_fleet: {
+        Args: { _org_id: number }
+        Returns: {
+          owner_count: number
+          ship_count: number
+          ship_id: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1331,14 +2302,47 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_org_officer: {
+        Args: { _org_id: number; _user_id: string }
+        Returns: boolean
+      }
+      lfg_listing_is_open: {
+        Args: { _listing_id: number }
+        Returns: boolean
+      }
+      lfg_listing_owner: {
+        Args: { _listing_id: number }
+        Returns: string
+      }
+      operation_org_id: {
+        Args: { _operation_id: number }
+        Returns: number
+      }
+      org_role_of: {
+        Args: { _org_id: number; _user_id: string }
+        Returns: Database["public"]["Enums"]["org_role"]
+      }
       refresh_active_users_30d: { Args: never; Returns: undefined }
+      refresh_profile_mission_stats: {
+        Args: { _user_id: string }
+        Returns: undefined
+      }
       release_function_lock: {
         Args: { p_function_name: string }
         Returns: undefined
       }
+      review_org_join_request: {
+        Args: { _accept: boolean; _request_id: number }
+        Returns: undefined
+      }
+      user_ship_on_org_roster: {
+        Args: { _user_id: string; _user_ship_id: number }
+        Returns: boolean
+      }
     }
     Enums: {
       app_role: "user" | "admin"
+      org_role: "founder" | "officer" | "member"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -1467,6 +2471,7 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["user", "admin"],
+      org_role: ["founder", "officer", "member"],
     },
   },
 } as const
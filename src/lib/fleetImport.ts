@@ -0,0 +1,228 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ShipRef = Pick<Tables<'ships'>, 'id' | 'slug' | 'name' | 'manufacturer' | 'fleetyards_slug_used'>;
+type SlugMapping = Pick<Tables<'ship_slug_mappings'>, 'wiki_title' | 'fleetyards_slug'>;
+
+export interface ImportedShip {
+  name: string;
+  /** FleetYards model slug when the export has one */
+  slug: string | null;
+  manufacturer: string | null;
+  nickname: string | null;
+  acquisition: 'pledged' | 'ingame';
+  insurance: string | null;
+  loadout_notes: string | null;
+  /** FleetYards wishlist entries, not owned */
+  wanted: boolean;
+}
+
+export type MatchMethod = 'fleetyards' | 'mapping' | 'slug' | 'name' | 'fuzzy';
+
+export interface ImportMatch {
+  entry: ImportedShip;
+  ship: ShipRef | null;
+  /** null when nothing matched, 'fuzzy' matches should be reviewed before saving */
+  method: MatchMethod | null;
+}
+
+export interface ExportedShip {
+  name: string;
+  slug: string;
+  manufacturer: string | null;
+  nickname: string | null;
+  acquisition: string;
+  insurance: string | null;
+  loadout_notes: string | null;
+}
+
+const CSV_COLUMNS: (keyof ExportedShip)[] = ['name', 'slug', 'manufacturer', 'nickname', 'acquisition', 'insurance', 'loadout_notes'];
+
+const FUZZY_THRESHOLD = 3;
+
+type Raw = Record<string, unknown>;
+
+function text(value: unknown): string | null {
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed || null;
+}
+
+function pick(obj: Raw, ...keys: string[]): unknown {
+  for (const key of keys) {
+    const value = key.split('.').reduce<unknown>((cur, k) => (cur && typeof cur === 'object' ? (cur as Raw)[k] : undefined), obj);
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+}
+
+function truthy(value: unknown): boolean {
+  if (typeof value === 'string') return ['true', 'yes', 'oui', '1'].includes(value.trim().toLowerCase());
+  return value === true || value === 1;
+}
+
+function normalizeAcquisition(value: unknown): 'pledged' | 'ingame' {
+  const v = String(value ?? '').toLowerCase().replace(/[^a-z]/g, '');
+  return ['ingame', 'purchasedingame', 'auec', 'bought'].includes(v) ? 'ingame' : 'pledged';
+}
+
+// Accepts FleetYards hangar exports ({ model: { slug, name }, shipName }), flat FleetYards-style rows
+// ({ slug, name, manufacturerName }) and our own export
+function fromRecord(row: Raw): ImportedShip | null {
+  // With a nested model, the top-level name is the pilot's nickname for the hull
+  const hasModel = !!row.model && typeof row.model === 'object';
+  const name = text(pick(row, ...(hasModel ? ['model.name', 'modelName'] : ['modelName', 'ship', 'name'])));
+  const slug = text(pick(row, 'model.slug', 'modelSlug', 'slug'));
+  if (!name && !slug) return null;
+
+  const lti = truthy(pick(row, 'lti'));
+  return {
+    name: name ?? slug!,
+    slug: slug?.toLowerCase() ?? null,
+    manufacturer: text(pick(row, 'model.manufacturer.name', 'manufacturerName', 'manufacturer.name', 'manufacturer')),
+    nickname: text(pick(row, ...(hasModel ? ['shipName', 'nickname', 'name'] : ['shipName', 'nickname']))),
+    acquisition: normalizeAcquisition(pick(row, 'acquisition')),
+    insurance: text(pick(row, 'insurance')) ?? (lti ? 'LTI' : null),
+    loadout_notes: text(pick(row, 'loadout_notes', 'loadoutNotes', 'notes')),
+    wanted: truthy(pick(row, 'wanted')),
+  };
+}
+
+export function parseFleetJson(content: string): ImportedShip[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('Fichier JSON invalide');
+  }
+  const rows = Array.isArray(data) ? data : pick((data ?? {}) as Raw, 'vehicles', 'ships', 'fleet', 'hangar');
+  if (!Array.isArray(rows)) throw new Error('Aucune liste de vaisseaux trouvée dans le JSON');
+  return rows.flatMap(row => (row && typeof row === 'object' ? fromRecord(row as Raw) ?? [] : []));
+}
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, commas or semicolons
+function readCsv(content: string): string[][] {
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const separator = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+export function parseFleetCsv(content: string): ImportedShip[] {
+  const [header, ...rows] = readCsv(content.replace(/^\uFEFF/, ''));
+  if (!header) throw new Error('Fichier CSV vide');
+  const keys = header.map(h => h.trim().replace(/\s+(\w)/g, (_, c: string) => c.toUpperCase()).replace(/^\w/, c => c.toLowerCase()));
+  if (!keys.some(k => ['name', 'slug', 'model', 'ship', 'modelName', 'modelSlug'].includes(k))) {
+    throw new Error('Colonne "name" ou "slug" manquante dans le CSV');
+  }
+  return rows.flatMap(cells => {
+    const record: Raw = Object.fromEntries(keys.map((key, i) => [key === 'model' ? 'modelName' : key, cells[i] ?? '']));
+    return fromRecord(record) ?? [];
+  });
+}
+
+export function parseFleetFile(fileName: string, content: string): ImportedShip[] {
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(content);
+  return isJson ? parseFleetJson(content) : parseFleetCsv(content);
+}
+
+function simplify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = a[i - 1] === b[j - 1] ? diagonal : Math.min(diagonal, previous[j - 1], above) + 1;
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * Matches imported entries to ships: FleetYards slug used by the sync, admin slug mappings, our own slug,
+ * exact name (with or without the manufacturer), then fuzzy name.
+ */
+export function matchImportedShips(entries: ImportedShip[], ships: ShipRef[], mappings: SlugMapping[]): ImportMatch[] {
+  const byFleetYardsSlug = new Map(ships.filter(s => s.fleetyards_slug_used).map(s => [s.fleetyards_slug_used!.toLowerCase(), s]));
+  const bySlug = new Map(ships.map(s => [s.slug.toLowerCase(), s]));
+  const byName = new Map(ships.map(s => [simplify(s.name), s]));
+  const titleBySlug = new Map(mappings.map(m => [m.fleetyards_slug.toLowerCase(), simplify(m.wiki_title)]));
+
+  return entries.map(entry => {
+    if (entry.slug) {
+      const fleetyards = byFleetYardsSlug.get(entry.slug);
+      if (fleetyards) return { entry, ship: fleetyards, method: 'fleetyards' as const };
+      const title = titleBySlug.get(entry.slug);
+      const mapped = title ? byName.get(title) : undefined;
+      if (mapped) return { entry, ship: mapped, method: 'mapping' as const };
+      const own = bySlug.get(entry.slug);
+      if (own) return { entry, ship: own, method: 'slug' as const };
+    }
+
+    const name = simplify(entry.name);
+    const manufacturer = entry.manufacturer ? simplify(entry.manufacturer) : '';
+    const withoutManufacturer = manufacturer && name.startsWith(manufacturer) ? name.slice(manufacturer.length) : name;
+    const exact = byName.get(name) ?? byName.get(withoutManufacturer) ?? (manufacturer ? byName.get(manufacturer + name) : undefined);
+    if (exact) return { entry, ship: exact, method: 'name' as const };
+
+    let best: ShipRef | null = null;
+    let bestDistance = FUZZY_THRESHOLD + 1;
+    for (const ship of ships) {
+      const distance = levenshtein(withoutManufacturer, simplify(ship.name));
+      if (distance < bestDistance) {
+        best = ship;
+        bestDistance = distance;
+      }
+    }
+    return best ? { entry, ship: best, method: 'fuzzy' as const } : { entry, ship: null, method: null };
+  });
+}
+
+function csvCell(value: string | null): string {
+  if (value === null) return '';
+  return /[",\n\r;]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function hangarToCsv(ships: ExportedShip[]): string {
+  const lines = ships.map(ship => CSV_COLUMNS.map(column => csvCell(ship[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\n');
+}
+
+export function hangarToJson(ships: ExportedShip[]): string {
+  return JSON.stringify(ships, null, 2);
+}
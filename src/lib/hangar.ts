@@ -0,0 +1,104 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { getShipPrices } from '@/lib/shipCompare';
+
+type HangarShip = Pick<Tables<'ships'>, 'role' | 'cargo_scu' | 'crew_min' | 'crew_max' | 'prices'>;
+
+export interface HangarEntry {
+  acquisition: string;
+  ships: HangarShip | null;
+}
+
+export interface HangarTotals {
+  ships: number;
+  pledged: number;
+  ingame: number;
+  cargo: number;
+  /** Max crew of every hull, falling back to min crew */
+  crewSeats: number;
+  /** USD pledge value of the pledged hulls */
+  pledgeValue: number;
+  /** aUEC value of the hulls bought in game */
+  ingameValue: number;
+  roles: { role: string; count: number }[];
+}
+
+export interface FleetShipCount {
+  ships: HangarShip | null;
+  count: number;
+}
+
+export interface FleetTotals {
+  ships: number;
+  cargo: number;
+  crewSeats: number;
+  roles: { role: string; count: number }[];
+}
+
+export const ACQUISITIONS = [
+  { value: 'pledged', label: 'Pledged' },
+  { value: 'ingame', label: 'In-game' },
+];
+
+export const INSURANCE_OPTIONS = ['LTI', '120 months', '72 months', '24 months', '6 months', '3 months', '2 months', 'None'];
+
+function priceOf(ship: HangarShip, currency: string, type: string): number {
+  const prices = getShipPrices(ship).filter(p => (p.currency || 'USD') === currency);
+  const price = prices.find(p => p.type === type) ?? prices[0];
+  const amount = Number(price?.amount);
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+// "Light Fighter / Interdiction" counts for both roles
+export function splitRoles(role: string | null): string[] {
+  if (!role) return [];
+  return role
+    .split('/')
+    .map(r => r.trim())
+    .filter(Boolean)
+    .map(r => r.charAt(0).toUpperCase() + r.slice(1).toLowerCase());
+}
+
+function sortedRoles(roles: Map<string, number>) {
+  return Array.from(roles, ([role, count]) => ({ role, count })).sort((a, b) => b.count - a.count || a.role.localeCompare(b.role));
+}
+
+export function hangarTotals(entries: HangarEntry[]): HangarTotals {
+  const roles = new Map<string, number>();
+  const totals: HangarTotals = { ships: 0, pledged: 0, ingame: 0, cargo: 0, crewSeats: 0, pledgeValue: 0, ingameValue: 0, roles: [] };
+
+  for (const entry of entries) {
+    const ship = entry.ships;
+    if (!ship) continue;
+    totals.ships++;
+    totals.cargo += Number(ship.cargo_scu ?? 0);
+    totals.crewSeats += ship.crew_max ?? ship.crew_min ?? 0;
+    if (entry.acquisition === 'ingame') {
+      totals.ingame++;
+      totals.ingameValue += priceOf(ship, 'aUEC', 'ingame');
+    } else {
+      totals.pledged++;
+      totals.pledgeValue += priceOf(ship, 'USD', 'pledge');
+    }
+    for (const role of splitRoles(ship.role)) roles.set(role, (roles.get(role) ?? 0) + 1);
+  }
+
+  totals.roles = sortedRoles(roles);
+  return totals;
+}
+
+/** Same totals over grouped counts (org fleet), without the per-hull acquisition split */
+export function fleetTotals(rows: FleetShipCount[]): FleetTotals {
+  const roles = new Map<string, number>();
+  const totals: FleetTotals = { ships: 0, cargo: 0, crewSeats: 0, roles: [] };
+
+  for (const { ships: ship, count } of rows) {
+    if (!ship) continue;
+    totals.ships += count;
+    totals.cargo += Number(ship.cargo_scu ?? 0) * count;
+    totals.crewSeats += (ship.crew_max ?? ship.crew_min ?? 0) * count;
+    for (const role of splitRoles(ship.role)) roles.set(role, (roles.get(role) ?? 0) + count);
+  }
+
+  totals.roles = sortedRoles(roles);
+  return totals;
+}
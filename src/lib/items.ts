@@ -0,0 +1,52 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+type ComparableItem = Pick<Tables<'game_items'>, 'id' | 'name' | 'category' | 'sub_category' | 'size' | 'grade' | 'buy_price_avg'>;
+
+export type ItemSort = 'grade' | 'price';
+
+/** "Grade A", "A" or "1" -> 1 for the best grade, null when the item has none */
+export function gradeRank(grade: string | null): number | null {
+  const token = grade?.trim().split(/\s+/).pop()?.toUpperCase();
+  if (!token) return null;
+  if (/^\d+$/.test(token)) return Number(token);
+  if (/^[A-Z]$/.test(token)) return token.charCodeAt(0) - 64;
+  return null;
+}
+
+/** UEX category when there is one ("Shield Generators"), the section otherwise */
+export function itemCompareCategory(item: Pick<ComparableItem, 'category' | 'sub_category'>): string | null {
+  return item.sub_category || item.category;
+}
+
+export function itemCompareUrl(item: Pick<ComparableItem, 'category' | 'sub_category' | 'size'>): string {
+  const params = new URLSearchParams();
+  const category = itemCompareCategory(item);
+  if (category) params.set('category', category);
+  if (item.size) params.set('size', item.size);
+  return `/items/compare?${params}`;
+}
+
+/** Shop price when a terminal sells it, the UEX average otherwise */
+export function itemPrice(item: Pick<ComparableItem, 'id' | 'buy_price_avg'>, prices: Map<number, number>): number | null {
+  return prices.get(item.id) ?? (Number(item.buy_price_avg) || null);
+}
+
+/**
+ * Items of one category and size, best first: by grade then price, or by price then grade.
+ * Items without a grade or a price go last.
+ */
+export function compareItems<T extends ComparableItem>(
+  items: T[],
+  category: string,
+  size: string | null,
+  prices: Map<number, number>,
+  sort: ItemSort,
+): T[] {
+  const byGrade = (a: T, b: T) => (gradeRank(a.grade) ?? Infinity) - (gradeRank(b.grade) ?? Infinity);
+  const byPrice = (a: T, b: T) => (itemPrice(a, prices) ?? Infinity) - (itemPrice(b, prices) ?? Infinity);
+  const [first, second] = sort === 'grade' ? [byGrade, byPrice] : [byPrice, byGrade];
+
+  return items
+    .filter(item => itemCompareCategory(item) === category && (!size || item.size === size))
+    .sort((a, b) => first(a, b) || second(a, b) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,55 @@
+import { addHours } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+type CrewShip = Pick<Tables<'ships'>, 'crew_min'>;
+
+export interface LfgFilters {
+  activity: string;
+  system: string;
+  language: string;
+}
+
+export const ALL = 'all';
+
+export const LFG_ACTIVITIES = [
+  { value: 'mining', label: 'Minage' },
+  { value: 'bounty', label: 'Chasse aux primes' },
+  { value: 'cargo', label: 'Cargo' },
+  { value: 'mission', label: 'Mission' },
+  { value: 'combat', label: 'Combat' },
+  { value: 'salvage', label: 'Récupération' },
+  { value: 'exploration', label: 'Exploration' },
+  { value: 'other', label: 'Autre' },
+];
+
+/** How long after the start time a listing stays on the board */
+export const LFG_DURATIONS = [
+  { hours: 1, label: '1 h' },
+  { hours: 2, label: '2 h' },
+  { hours: 4, label: '4 h' },
+  { hours: 8, label: '8 h' },
+];
+
+// Ships that cannot fly at full capability alone
+export function isMulticrew(ship: CrewShip): boolean {
+  return (ship.crew_min ?? 0) > 1;
+}
+
+export function listingExpiry(startsAt: Date, hours: number): string {
+  return addHours(startsAt, hours).toISOString();
+}
+
+export function acceptedCount(requests: { status: string }[]): number {
+  return requests.filter(r => r.status === 'accepted').length;
+}
+
+export function filterListings<T extends Pick<Tables<'lfg_listings'>, 'activity' | 'star_system' | 'language'>>(
+  listings: T[],
+  filters: LfgFilters,
+): T[] {
+  return listings.filter(listing =>
+    (filters.activity === ALL || listing.activity === filters.activity) &&
+    (filters.system === ALL || listing.star_system === filters.system) &&
+    (filters.language === ALL || listing.language === filters.language),
+  );
+}
@@ -0,0 +1,150 @@
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { ItemOffer, ShoppingListEntry } from '@/lib/shoppingList';
+
+export type LoadoutItem = Pick<Tables<'game_items'>, 'id' | 'slug' | 'name' | 'category' | 'sub_category' | 'size' | 'grade' | 'manufacturer' | 'buy_price_avg'>;
+
+/** Slot key -> game_items id, stock slots are left out */
+export type LoadoutSelection = Record<string, number>;
+
+export interface HardpointGroup {
+  key: string;
+  label: string;
+  /** Where ships-sync stores the group in `armament` / `systems` */
+  path: ['armament' | 'systems', ...string[]];
+  /** Matched against the UEX section and category of game_items */
+  keywords: string[];
+  exclude?: string[];
+}
+
+export interface LoadoutSlot {
+  key: string;
+  group: HardpointGroup;
+  sizeLabel: string;
+  /** null when the hardpoint has no numeric size (vehicle bays...), any size fits */
+  size: number | null;
+  stock: string;
+  count: number;
+}
+
+export interface LoadoutLine {
+  slot: LoadoutSlot;
+  item: LoadoutItem;
+  unitPrice: number | null;
+}
+
+// Only hardpoints whose components are sold in shops, thrusters and fuel tanks come with the hull
+export const HARDPOINT_GROUPS: HardpointGroup[] = [
+  { key: 'weapons', label: 'Armes', path: ['armament', 'weapons'], keywords: ['gun'], exclude: ['personal'] },
+  { key: 'turrets', label: 'Tourelles', path: ['armament', 'turrets'], keywords: ['turret'] },
+  { key: 'missiles', label: 'Lance-missiles', path: ['armament', 'missiles'], keywords: ['missile rack'] },
+  { key: 'utility', label: 'Utilitaires', path: ['armament', 'utility'], keywords: ['mining laser', 'tractor', 'salvage'] },
+  { key: 'power_plants', label: 'Générateurs', path: ['systems', 'power', 'power_plants'], keywords: ['power plant'] },
+  { key: 'coolers', label: 'Refroidisseurs', path: ['systems', 'power', 'coolers'], keywords: ['cooler'] },
+  { key: 'shield_generators', label: 'Boucliers', path: ['systems', 'power', 'shield_generators'], keywords: ['shield'], exclude: ['personal'] },
+  { key: 'quantum_drives', label: 'Moteurs quantiques', path: ['systems', 'propulsion', 'quantum_drives'], keywords: ['quantum drive'] },
+  { key: 'jump_modules', label: 'Modules de saut', path: ['systems', 'propulsion', 'jump_modules'], keywords: ['jump'] },
+  { key: 'radar', label: 'Radars', path: ['systems', 'avionics', 'radar'], keywords: ['radar'] },
+];
+
+// FleetYards size labels without a number
+const LETTER_SIZES: Record<string, number> = { S: 1, M: 2, L: 3, C: 4 };
+
+/** "S3 Badger Repeater (x2)" -> size label, size, component name and count, as written by ships-sync */
+export function parseHardpoint(entry: string): Pick<LoadoutSlot, 'sizeLabel' | 'size' | 'stock' | 'count'> {
+  const match = entry.match(/^(?:(S\d+|[SMLCV])\s+)?(.*?)(?:\s+\(x(\d+)\))?$/);
+  const sizeLabel = match?.[1] ?? '';
+  const size = sizeLabel.length > 1 ? Number(sizeLabel.slice(1)) : LETTER_SIZES[sizeLabel] ?? null;
+  return {
+    sizeLabel,
+    size,
+    stock: match?.[2] || entry,
+    count: match?.[3] ? Number(match[3]) : 1,
+  };
+}
+
+function groupEntries(ship: Pick<Tables<'ships'>, 'armament' | 'systems'>, group: HardpointGroup): string[] {
+  const [root, ...path] = group.path;
+  let current: Json | undefined = ship[root];
+  for (const key of path) {
+    if (!current || typeof current !== 'object' || Array.isArray(current)) return [];
+    current = current[key];
+  }
+  return Array.isArray(current) ? current.filter((entry): entry is string => typeof entry === 'string') : [];
+}
+
+export function shipSlots(ship: Pick<Tables<'ships'>, 'armament' | 'systems'>): LoadoutSlot[] {
+  return HARDPOINT_GROUPS.flatMap(group =>
+    groupEntries(ship, group).map((entry, index) => ({ key: `${group.key}-${index}`, group, ...parseHardpoint(entry) })),
+  );
+}
+
+export function itemSize(item: Pick<LoadoutItem, 'size'>): number | null {
+  const match = item.size?.match(/\d+/);
+  return match ? Number(match[0]) : null;
+}
+
+export function matchesGroup(item: LoadoutItem, group: HardpointGroup): boolean {
+  const text = `${item.category ?? ''} ${item.sub_category ?? ''}`.toLowerCase();
+  return group.keywords.some(k => text.includes(k)) && !group.exclude?.some(k => text.includes(k));
+}
+
+export function fitsSlot(item: LoadoutItem, slot: LoadoutSlot): boolean {
+  return matchesGroup(item, slot.group) && (slot.size === null || itemSize(item) === slot.size);
+}
+
+/** Hardpoints of the ship that take the item */
+export function fittingSlots(ship: Pick<Tables<'ships'>, 'armament' | 'systems'>, item: LoadoutItem): LoadoutSlot[] {
+  return shipSlots(ship).filter(slot => fitsSlot(item, slot));
+}
+
+/** Reads the `slots` column back, dropping anything that is not a slot -> item id pair */
+export function parseSelection(slots: Json): LoadoutSelection {
+  if (!slots || typeof slots !== 'object' || Array.isArray(slots)) return {};
+  return Object.fromEntries(
+    Object.entries(slots).filter((entry): entry is [string, number] => typeof entry[1] === 'number'),
+  );
+}
+
+/** Cheapest known shop price of each item */
+export function cheapestPrices(offers: Pick<ItemOffer, 'item_id' | 'price_buy'>[]): Map<number, number> {
+  const prices = new Map<number, number>();
+  for (const offer of offers) {
+    const price = Number(offer.price_buy);
+    const current = prices.get(offer.item_id);
+    if (price > 0 && (current === undefined || price < current)) prices.set(offer.item_id, price);
+  }
+  return prices;
+}
+
+/** Swapped slots with their unit price, the UEX average standing in when no terminal price is known */
+export function loadoutLines(
+  slots: LoadoutSlot[],
+  selection: LoadoutSelection,
+  items: Map<number, LoadoutItem>,
+  prices: Map<number, number>,
+): LoadoutLine[] {
+  return slots.flatMap(slot => {
+    const item = items.get(selection[slot.key]);
+    if (!item) return [];
+    return [{ slot, item, unitPrice: prices.get(item.id) ?? (Number(item.buy_price_avg) || null) }];
+  });
+}
+
+export function loadoutTotal(lines: LoadoutLine[]): number {
+  return lines.reduce((sum, line) => sum + (line.unitPrice ?? 0) * line.slot.count, 0);
+}
+
+/** One shopping list entry per component, hardpoints sharing it add up */
+export function loadoutShoppingList(lines: LoadoutLine[]): ShoppingListEntry[] {
+  const entries = new Map<number, ShoppingListEntry>();
+  for (const { slot, item } of lines) {
+    const entry = entries.get(item.id);
+    if (entry) entry.quantity += slot.count;
+    else entries.set(item.id, { itemId: item.id, name: item.name, quantity: slot.count });
+  }
+  return [...entries.values()];
+}
+
+export function loadoutUrl(loadoutId: number): string {
+  return `${window.location.origin}${import.meta.env.BASE_URL}loadouts/${loadoutId}`;
+}
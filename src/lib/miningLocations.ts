@@ -0,0 +1,146 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+type Resource = Pick<Tables<'mining_resources'>, 'id' | 'commodity_id' | 'star_system' | 'planet' | 'moon' | 'location_type' | 'rarity' | 'concentration_pct'>;
+type Place = Pick<Tables<'terminals'>, 'id' | 'name' | 'slug' | 'star_system' | 'planet' | 'moon'>;
+type RefineryYield = Pick<Tables<'refinery_yields'>, 'commodity_id' | 'terminal_id' | 'yield_pct'>;
+
+export interface SellOffer {
+  price: number;
+  terminal: Place;
+}
+
+export type Proximity = 'body' | 'system' | 'none';
+
+export interface RankedLocation {
+  resource: Resource;
+  /** Moon or planet the deposit is on */
+  body: string;
+  score: number;
+  refinery: Place | null;
+  refineryProximity: Proximity;
+  refineryBonusPct: number;
+  sell: SellOffer | null;
+  sellProximity: Proximity;
+  reasons: string[];
+}
+
+// Points for each criterion; the score is out of 100
+const CONCENTRATION_POINTS = 40;
+const RARITY_POINTS = 20;
+const REFINERY_POINTS = 20;
+const SELL_POINTS = 20;
+
+// Rarer deposits show up less often, so they take longer to find
+const RARITY_FACTOR: Record<string, number> = { common: 1, uncommon: 0.75, rare: 0.5, very_rare: 0.25 };
+const RARITY_LABEL: Record<string, string> = { common: 'commun', uncommon: 'peu commun', rare: 'rare', very_rare: 'très rare' };
+
+const PROXIMITY_FACTOR: Record<Proximity, number> = { body: 1, system: 0.5, none: 0 };
+// Selling in another system still works, it just costs a jump
+const SELL_PROXIMITY_FACTOR: Record<Proximity, number> = { body: 1, system: 0.75, none: 0.25 };
+
+const bodyOf = (place: { planet: string | null; moon: string | null }) => place.moon || place.planet || '';
+
+function proximity(resource: Resource, place: Place): Proximity {
+  const body = bodyOf(resource);
+  if (body && bodyOf(place) === body) return 'body';
+  return resource.star_system && place.star_system === resource.star_system ? 'system' : 'none';
+}
+
+const formatPrice = (value: number) => `${Math.round(value).toLocaleString()} aUEC`;
+
+/**
+ * Ranks the known deposits of one ore. Each location scores on its concentration (relative to the richest
+ * deposit), how common it is, the closest refinery (same body, then same system, with its yield bonus as a
+ * tie-breaker) and the best place to sell the refined product from there.
+ */
+export function rankMiningLocations(
+  commodityId: number,
+  resources: Resource[],
+  refineries: Place[],
+  yields: RefineryYield[],
+  sellOffers: SellOffer[],
+): RankedLocation[] {
+  const deposits = resources.filter(r => r.commodity_id === commodityId);
+  if (deposits.length === 0) return [];
+
+  const maxConcentration = Math.max(...deposits.map(r => Number(r.concentration_pct) || 0));
+  const bestPrice = Math.max(0, ...sellOffers.map(o => o.price));
+  const bonusByTerminal = new Map(
+    yields.filter(y => y.commodity_id === commodityId && y.terminal_id != null).map(y => [y.terminal_id!, Number(y.yield_pct) || 0]),
+  );
+
+  const ranked = deposits.map(resource => {
+    const reasons: string[] = [];
+    let score = 0;
+
+    const concentration = Number(resource.concentration_pct) || 0;
+    if (maxConcentration > 0) {
+      score += CONCENTRATION_POINTS * (concentration / maxConcentration);
+      reasons.push(concentration === maxConcentration
+        ? `Meilleure concentration connue (${concentration}%)`
+        : `Concentration ${concentration}%`);
+    }
+
+    const rarityFactor = RARITY_FACTOR[resource.rarity ?? ''] ?? 0.5;
+    score += RARITY_POINTS * rarityFactor;
+    if (resource.rarity) reasons.push(`Gisement ${RARITY_LABEL[resource.rarity] ?? resource.rarity}`);
+
+    // Closest refinery first, the best yield bonus among equally close ones
+    let refinery: Place | null = null;
+    let refineryProximity: Proximity = 'none';
+    let refineryBonusPct = 0;
+    for (const candidate of refineries) {
+      const p = proximity(resource, candidate);
+      if (p === 'none') continue;
+      const bonus = bonusByTerminal.get(candidate.id) ?? 0;
+      const closer = PROXIMITY_FACTOR[p] > PROXIMITY_FACTOR[refineryProximity];
+      if (closer || (p === refineryProximity && bonus > refineryBonusPct)) {
+        refinery = candidate;
+        refineryProximity = p;
+        refineryBonusPct = bonus;
+      }
+    }
+    score += REFINERY_POINTS * PROXIMITY_FACTOR[refineryProximity];
+    if (refinery) {
+      reasons.push(`Raffinerie ${refineryProximity === 'body' ? 'sur place' : 'dans le système'} : ${refinery.name}`
+        + (refineryBonusPct ? ` (${refineryBonusPct > 0 ? '+' : ''}${refineryBonusPct}%)` : ''));
+    } else {
+      reasons.push('Aucune raffinerie dans le système');
+    }
+
+    // Best price reachable from here, weighted by how far the buyer is
+    let sell: SellOffer | null = null;
+    let sellProximity: Proximity = 'none';
+    let sellScore = 0;
+    for (const offer of sellOffers) {
+      const p = proximity(resource, offer.terminal);
+      const s = bestPrice > 0 ? (offer.price / bestPrice) * SELL_PROXIMITY_FACTOR[p] : 0;
+      if (s > sellScore) {
+        sell = offer;
+        sellProximity = p;
+        sellScore = s;
+      }
+    }
+    score += SELL_POINTS * sellScore;
+    if (sell) {
+      const where = sellProximity === 'body' ? 'sur place' : sellProximity === 'system' ? 'dans le système' : `en ${sell.terminal.star_system ?? '?'}`;
+      reasons.push(`Revente ${where} : ${sell.terminal.name} à ${formatPrice(sell.price)}/SCU`);
+    } else {
+      reasons.push('Aucun acheteur connu pour le produit raffiné');
+    }
+
+    return {
+      resource,
+      body: bodyOf(resource),
+      score: Math.round(score),
+      refinery,
+      refineryProximity,
+      refineryBonusPct,
+      sell,
+      sellProximity,
+      reasons,
+    };
+  });
+
+  return ranked.sort((a, b) => b.score - a.score || (Number(b.resource.concentration_pct) || 0) - (Number(a.resource.concentration_pct) || 0));
+}
@@ -0,0 +1,80 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+type Mission = Tables<'missions'>;
+
+export interface MissionChain {
+  id: string;
+  faction: string | null;
+  missions: Mission[];
+  /** Step count announced by the dump, the number of known steps otherwise */
+  length: number;
+  /** False when some steps are missing from the data */
+  complete: boolean;
+  totalReward: number;
+  totalXp: number;
+  blueprints: string[];
+}
+
+export interface BlueprintSource {
+  name: string;
+  missions: Mission[];
+  factions: string[];
+}
+
+/**
+ * Blueprints a mission rewards. Rows synced before blueprint_rewards existed only have the display string.
+ */
+export function getMissionBlueprints(mission: Pick<Mission, 'blueprint_rewards' | 'blueprint_reward'>): string[] {
+  if (mission.blueprint_rewards?.length) return mission.blueprint_rewards;
+  return mission.blueprint_reward ? mission.blueprint_reward.split(',').map(b => b.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Groups chained missions by chain id, each chain ordered by step. Chains with the most reward come first.
+ */
+export function groupMissionChains(missions: Mission[]): MissionChain[] {
+  const byChain = new Map<string, Mission[]>();
+  for (const mission of missions) {
+    if (!mission.is_chain) continue;
+    // Without a chain id there is nothing to group on; the mission stands as its own chain
+    const key = mission.chain_id ?? `mission-${mission.id}`;
+    byChain.set(key, [...(byChain.get(key) ?? []), mission]);
+  }
+
+  return Array.from(byChain.entries())
+    .map(([id, steps]) => {
+      const ordered = [...steps].sort((a, b) => (a.chain_step ?? Infinity) - (b.chain_step ?? Infinity));
+      const length = Math.max(ordered.length, ...ordered.map(m => m.chain_length ?? 0));
+      return {
+        id,
+        faction: ordered.find(m => m.faction)?.faction ?? null,
+        missions: ordered,
+        length,
+        complete: ordered.length >= length,
+        totalReward: ordered.reduce((sum, m) => sum + (m.reward_auec ?? 0), 0),
+        totalXp: ordered.reduce((sum, m) => sum + (m.base_xp ?? 0), 0),
+        blueprints: Array.from(new Set(ordered.flatMap(getMissionBlueprints))),
+      };
+    })
+    .sort((a, b) => b.totalReward - a.totalReward);
+}
+
+/**
+ * Every blueprint rewarded by `missions`, with the missions and factions that award it.
+ */
+export function buildBlueprintIndex(missions: Mission[]): BlueprintSource[] {
+  const byName = new Map<string, Mission[]>();
+  for (const mission of missions) {
+    for (const name of getMissionBlueprints(mission)) {
+      byName.set(name, [...(byName.get(name) ?? []), mission]);
+    }
+  }
+
+  return Array.from(byName.entries())
+    .map(([name, sources]) => ({
+      name,
+      missions: sources,
+      factions: Array.from(new Set(sources.map(m => m.faction).filter(Boolean))).sort() as string[],
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
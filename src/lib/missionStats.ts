@@ -0,0 +1,72 @@
+import { startOfWeek, subWeeks, format } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+type MissionLog = Pick<Tables<'mission_logs'>, 'category' | 'faction' | 'payout_auec' | 'duration_minutes' | 'completed_at'>;
+
+export interface EarningsGroup {
+  key: string;
+  count: number;
+  earnings: number;
+  /** Minutes over the entries that have a duration */
+  minutes: number;
+  /** aUEC per hour over the timed entries, null when none has a duration */
+  perHour: number | null;
+}
+
+export interface WeeklyEarnings {
+  week: string;
+  earnings: number;
+  count: number;
+}
+
+function groupBy(logs: MissionLog[], keyOf: (log: MissionLog) => string | null): EarningsGroup[] {
+  const groups = new Map<string, EarningsGroup & { timedEarnings: number }>();
+  for (const log of logs) {
+    const key = keyOf(log) || 'autre';
+    const group = groups.get(key) ?? { key, count: 0, earnings: 0, minutes: 0, perHour: null, timedEarnings: 0 };
+    group.count++;
+    group.earnings += log.payout_auec;
+    if (log.duration_minutes) {
+      group.minutes += log.duration_minutes;
+      group.timedEarnings += log.payout_auec;
+    }
+    groups.set(key, group);
+  }
+  return Array.from(groups.values()).map(({ timedEarnings, ...group }) => ({
+    ...group,
+    perHour: group.minutes > 0 ? Math.round(timedEarnings * 60 / group.minutes) : null,
+  }));
+}
+
+/**
+ * Earnings per mission category, best aUEC/hour first (untimed categories last).
+ */
+export function earningsByCategory(logs: MissionLog[]): EarningsGroup[] {
+  return groupBy(logs, l => l.category).sort((a, b) => (b.perHour ?? -1) - (a.perHour ?? -1) || b.earnings - a.earnings);
+}
+
+/**
+ * Earnings per faction, best paying first.
+ */
+export function earningsByFaction(logs: MissionLog[]): EarningsGroup[] {
+  return groupBy(logs, l => l.faction).sort((a, b) => b.earnings - a.earnings);
+}
+
+/**
+ * Earnings of the last `weeks` weeks (Monday based), oldest first, including empty weeks.
+ */
+export function weeklyEarnings(logs: MissionLog[], weeks = 12, now = new Date()): WeeklyEarnings[] {
+  const current = startOfWeek(now, { weekStartsOn: 1 });
+  const buckets = new Map<string, WeeklyEarnings>();
+  for (let i = weeks - 1; i >= 0; i--) {
+    const week = format(subWeeks(current, i), 'yyyy-MM-dd');
+    buckets.set(week, { week, earnings: 0, count: 0 });
+  }
+  for (const log of logs) {
+    const bucket = buckets.get(format(startOfWeek(new Date(log.completed_at), { weekStartsOn: 1 }), 'yyyy-MM-dd'));
+    if (!bucket) continue;
+    bucket.earnings += log.payout_auec;
+    bucket.count++;
+  }
+  return Array.from(buckets.values());
+}
@@ -0,0 +1,171 @@
+import { addHours } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { splitRoles } from '@/lib/hangar';
+
+type Operation = Pick<Tables<'org_operations'>, 'id' | 'title' | 'op_type' | 'starts_at' | 'ends_at' | 'star_system' | 'objective_md' | 'crew_slots'>;
+type Position = Pick<Tables<'org_operation_positions'>, 'id' | 'ship_role' | 'label' | 'quantity'>;
+type RosterShip = Pick<Tables<'ships'>, 'role' | 'crew_min' | 'crew_max'>;
+
+export interface RosterEntry {
+  id: number;
+  status: string;
+  position_id: number | null;
+  payout_share: number;
+  user_ships: { ships: RosterShip | null } | null;
+}
+
+export interface PositionCoverage {
+  position: Position;
+  assigned: number;
+  /** Pilots going with a matching ship who are not assigned anywhere yet */
+  candidates: number;
+  missing: number;
+}
+
+export interface OperationCoverage {
+  positions: PositionCoverage[];
+  going: number;
+  maybe: number;
+  /** Seats on the ships pilots are bringing (max crew, falling back to min crew) */
+  crewSeats: number;
+  crewMissing: number;
+}
+
+export const OP_TYPES = [
+  { value: 'mining', label: 'Minage' },
+  { value: 'cargo', label: 'Convoi cargo' },
+  { value: 'bounty', label: 'Chasse aux primes' },
+  { value: 'combat', label: 'Combat' },
+  { value: 'exploration', label: 'Exploration' },
+  { value: 'salvage', label: 'Récupération' },
+  { value: 'other', label: 'Autre' },
+];
+
+export const OP_STATUSES = [
+  { value: 'planned', label: 'Planifiée' },
+  { value: 'in_progress', label: 'En cours' },
+  { value: 'completed', label: 'Terminée' },
+  { value: 'cancelled', label: 'Annulée' },
+];
+
+export const RSVP_STATUSES = [
+  { value: 'going', label: 'Présent' },
+  { value: 'maybe', label: 'Peut-être' },
+  { value: 'declined', label: 'Absent' },
+];
+
+// Ops without an end time show up as two hours in calendars
+const DEFAULT_DURATION_HOURS = 2;
+
+export function shipMatchesRole(ship: Pick<Tables<'ships'>, 'role'> | null, role: string): boolean {
+  const wanted = role.toLowerCase();
+  return !!ship && splitRoles(ship.role).some(r => r.toLowerCase() === wanted);
+}
+
+export function operationCoverage(op: Pick<Operation, 'crew_slots'>, positions: Position[], roster: RosterEntry[]): OperationCoverage {
+  const going = roster.filter(r => r.status === 'going');
+  const unassigned = going.filter(r => r.position_id === null);
+
+  return {
+    positions: positions.map(position => {
+      const assigned = going.filter(r => r.position_id === position.id).length;
+      return {
+        position,
+        assigned,
+        candidates: unassigned.filter(r => shipMatchesRole(r.user_ships?.ships ?? null, position.ship_role)).length,
+        missing: Math.max(0, position.quantity - assigned),
+      };
+    }),
+    going: going.length,
+    maybe: roster.filter(r => r.status === 'maybe').length,
+    crewSeats: going.reduce((sum, r) => sum + (r.user_ships?.ships?.crew_max ?? r.user_ships?.ships?.crew_min ?? 0), 0),
+    crewMissing: Math.max(0, op.crew_slots - going.length),
+  };
+}
+
+/**
+ * Splits the payout between the pilots marked as going, weighted by their share. Amounts are
+ * rounded down to the aUEC, the leftover is returned separately.
+ */
+export function payoutSplit(total: number, roster: Pick<RosterEntry, 'id' | 'status' | 'payout_share'>[]) {
+  const paid = roster.filter(r => r.status === 'going' && Number(r.payout_share) > 0);
+  const totalShares = paid.reduce((sum, r) => sum + Number(r.payout_share), 0);
+  const amounts = new Map<number, number>();
+  if (totalShares === 0 || total <= 0) return { amounts, remainder: Math.max(0, total) };
+
+  let distributed = 0;
+  for (const r of paid) {
+    const amount = Math.floor((total * Number(r.payout_share)) / totalShares);
+    amounts.set(r.id, amount);
+    distributed += amount;
+  }
+  return { amounts, remainder: total - distributed };
+}
+
+/** Absolute link to an op page, for calendar entries */
+export function operationUrl(orgSlug: string, operationId: number): string {
+  return `${window.location.origin}${import.meta.env.BASE_URL}orgs/${orgSlug}/ops/${operationId}`;
+}
+
+function icsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// RFC 5545 text escaping
+function icsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+const utf8 = new TextEncoder();
+
+// Content lines are folded at 75 octets of UTF-8, continuation lines start with a space that counts
+// towards them. Iterating the string yields whole code points, so a character is never split.
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+}
+
+/** One VEVENT per operation, `url` builds the link back to each op page */
+export function operationsToIcs(operations: Operation[], orgName: string, url: (op: Operation) => string): string {
+  const stamp = icsDate(new Date());
+  const events = operations.flatMap(op => {
+    const start = new Date(op.starts_at);
+    const end = op.ends_at ? new Date(op.ends_at) : addHours(start, DEFAULT_DURATION_HOURS);
+    const type = OP_TYPES.find(t => t.value === op.op_type)?.label ?? op.op_type;
+    const description = [`${orgName} • ${type}`, op.objective_md, url(op)].filter(Boolean).join('\n\n');
+    return [
+      'BEGIN:VEVENT',
+      `UID:org-operation-${op.id}@nebula-shipyard`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDate(start)}`,
+      `DTEND:${icsDate(end)}`,
+      `SUMMARY:${icsText(`[${orgName}] ${op.title}`)}`,
+      ...(op.star_system ? [`LOCATION:${icsText(op.star_system)}`] : []),
+      `DESCRIPTION:${icsText(description)}`,
+      `URL:${url(op)}`,
+      'END:VEVENT',
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SC Recorder//Org operations//FR',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n');
+}
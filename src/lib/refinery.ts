@@ -0,0 +1,132 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+type RefineryMethod = Pick<Tables<'refinery_methods'>, 'id' | 'name' | 'yield_modifier' | 'cost_modifier' | 'duration_modifier'>;
+type RefineryYield = Pick<Tables<'refinery_yields'>, 'commodity_id' | 'terminal_id' | 'yield_pct' | 'cost_auec' | 'duration_seconds'>;
+type Commodity = Pick<Tables<'commodities'>, 'id' | 'name' | 'is_raw'>;
+
+// UEX rates every method from 1 to 3 stars on each axis (mining-sync stores the rating as the "modifier").
+// These are the factors each rating stands for.
+const YIELD_BY_RATING: Record<number, number> = { 1: 0.8, 2: 0.9, 3: 1 };
+const COST_BY_RATING: Record<number, number> = { 1: 0.5, 2: 1, 3: 1.5 };
+const DURATION_BY_RATING: Record<number, number> = { 1: 2, 2: 1, 3: 0.5 };
+
+// Baseline per raw SCU, used when a terminal has no cost/duration of its own in refinery_yields
+export const BASE_REFINING_COST_PER_SCU = 150;
+export const BASE_REFINING_SECONDS_PER_SCU = 90;
+
+export interface RefineryLoadEntry {
+  commodityId: number;
+  quantity: number;
+}
+
+export interface RefinedLine {
+  rawCommodityId: number;
+  refined: Commodity;
+  rawScu: number;
+  refinedScu: number;
+  /** Terminal yield bonus in percent (0 when UEX has none for that terminal/commodity) */
+  terminalBonusPct: number;
+  unitPrice: number;
+  value: number;
+}
+
+export interface RefineryJobEstimate {
+  terminalId: number;
+  method: RefineryMethod;
+  lines: RefinedLine[];
+  cost: number;
+  durationSeconds: number;
+  value: number;
+  profit: number;
+}
+
+const ratingFactor = (table: Record<number, number>, rating: number | null) =>
+  table[Math.min(3, Math.max(1, Math.round(Number(rating) || 2)))];
+
+/**
+ * Refined commodity an ore turns into: "Agricium (Ore)" → "Agricium".
+ * Non-raw commodities and ores without a refined counterpart map to themselves.
+ */
+export function getRefinedCommodity(raw: Commodity, commodities: Commodity[]): Commodity {
+  if (!raw.is_raw) return raw;
+  const baseName = raw.name.replace(/\s*\((ore|raw)\)\s*$/i, '').trim().toLowerCase();
+  return commodities.find(c => !c.is_raw && c.name.toLowerCase() === baseName) ?? raw;
+}
+
+/**
+ * Estimated output, cost and duration of refining `load` at every refinery with every method.
+ * Terminal yields are method independent (mining-sync files them under a single method), so the
+ * terminal bonus from refinery_yields is applied on top of the method's own yield.
+ * Results are sorted by profit, best first.
+ */
+export function estimateRefineryJobs(
+  load: RefineryLoadEntry[],
+  terminalIds: number[],
+  methods: RefineryMethod[],
+  yields: RefineryYield[],
+  commodities: Commodity[],
+  sellPrices: Map<number, number>,
+): RefineryJobEstimate[] {
+  const entries = load.filter(e => e.commodityId && e.quantity > 0);
+  if (entries.length === 0) return [];
+
+  const commodityById = new Map(commodities.map(c => [c.id, c]));
+  const yieldByKey = new Map<string, RefineryYield>();
+  for (const y of yields) {
+    if (y.terminal_id != null) yieldByKey.set(`${y.terminal_id}:${y.commodity_id}`, y);
+  }
+
+  const estimates: RefineryJobEstimate[] = [];
+  for (const terminalId of terminalIds) {
+    for (const method of methods) {
+      const methodYield = ratingFactor(YIELD_BY_RATING, method.yield_modifier);
+      const costFactor = ratingFactor(COST_BY_RATING, method.cost_modifier);
+      const durationFactor = ratingFactor(DURATION_BY_RATING, method.duration_modifier);
+
+      const lines: RefinedLine[] = [];
+      let cost = 0;
+      let durationSeconds = 0;
+      for (const entry of entries) {
+        const raw = commodityById.get(entry.commodityId);
+        if (!raw) continue;
+        const refined = getRefinedCommodity(raw, commodities);
+        const terminalYield = yieldByKey.get(`${terminalId}:${entry.commodityId}`);
+        const terminalBonusPct = Number(terminalYield?.yield_pct) || 0;
+        const refinedScu = entry.quantity * methodYield * (1 + terminalBonusPct / 100);
+        const unitPrice = sellPrices.get(refined.id) ?? 0;
+
+        lines.push({
+          rawCommodityId: entry.commodityId,
+          refined,
+          rawScu: entry.quantity,
+          refinedScu,
+          terminalBonusPct,
+          unitPrice,
+          value: refinedScu * unitPrice,
+        });
+        cost += entry.quantity * (Number(terminalYield?.cost_auec) || BASE_REFINING_COST_PER_SCU) * costFactor;
+        durationSeconds += entry.quantity * (Number(terminalYield?.duration_seconds) || BASE_REFINING_SECONDS_PER_SCU) * durationFactor;
+      }
+
+      const value = lines.reduce((sum, l) => sum + l.value, 0);
+      estimates.push({ terminalId, method, lines, cost, durationSeconds, value, profit: value - cost });
+    }
+  }
+
+  return estimates.sort((a, b) => b.profit - a.profit || a.durationSeconds - b.durationSeconds);
+}
+
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds / 60);
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  return hours > 0 ? `${hours}h${String(minutes).padStart(2, '0')}` : `${minutes} min`;
+}
+
+export function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `${h > 0 ? `${h}h ` : ''}${String(m).padStart(2, '0')}m ${String(s).padStart(2, '0')}s`;
+}
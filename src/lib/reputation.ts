@@ -0,0 +1,119 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+type Mission = Pick<Tables<'missions'>, 'id' | 'title' | 'faction' | 'rank_required' | 'base_xp' | 'reward_auec' | 'is_repeatable'>;
+
+// Named standings used by the game, lowest first. "Tier N" ranks sort by their number.
+const NAMED_RANKS = ['none', 'neutral', 'applicant', 'junior', 'member', 'senior', 'experienced', 'veteran', 'master'];
+
+// Reputation needed to climb from each rank to the next, by rank order. The game does not expose these,
+// so they are community estimates; ranks past the end of the table reuse the last value.
+const XP_TO_NEXT_RANK = [1000, 2500, 5000, 10000, 20000, 35000, 50000];
+
+// Ranks no mission asks for are still climbed through, so their reputation counts too
+const xpBetween = (fromOrder: number, toOrder: number) => {
+  let xp = 0;
+  for (let order = fromOrder; order < toOrder; order++) xp += XP_TO_NEXT_RANK[Math.min(order, XP_TO_NEXT_RANK.length - 1)];
+  return xp;
+};
+
+export const BASE_RANK = 'None';
+
+export interface ReputationStep {
+  fromRank: string;
+  toRank: string;
+  xpNeeded: number;
+  /** Best repeatable mission available at `fromRank`, null when none gives reputation */
+  mission: Mission | null;
+  count: number;
+  payout: number;
+}
+
+export interface ReputationPlan {
+  steps: ReputationStep[];
+  totalMissions: number;
+  totalPayout: number;
+  /**
+   * False when a step has no mission giving reputation (later steps are then left out), or when the
+   * current or target rank is not one of the faction's ranks
+   */
+  reachable: boolean;
+}
+
+/**
+ * Sort key of a rank name: 0 for no requirement, the tier number for "Tier N", the position in the game's
+ * named standings otherwise.
+ */
+export function rankOrder(rank: string | null | undefined): number {
+  if (!rank) return 0;
+  const tier = rank.match(/(\d+)/);
+  if (tier) return Number(tier[1]);
+  const named = NAMED_RANKS.indexOf(rank.trim().toLowerCase());
+  return named === -1 ? 0 : Math.max(0, named - 1);
+}
+
+/**
+ * Identity of a rank: "Tier 2" and "Junior" sort the same but are different ranks.
+ */
+export function rankKey(rank: string | null | undefined): string {
+  if (!rank) return BASE_RANK.toLowerCase();
+  const tier = rank.match(/(\d+)/);
+  return tier ? `tier ${Number(tier[1])}` : rank.trim().toLowerCase();
+}
+
+/**
+ * Ranks a faction's missions require, lowest first, starting at the no-requirement rank.
+ */
+export function getFactionRanks(missions: Mission[], faction: string): string[] {
+  const ranks = new Map<string, string>([[rankKey(BASE_RANK), BASE_RANK]]);
+  for (const mission of missions) {
+    if (mission.faction !== faction || !mission.rank_required) continue;
+    const key = rankKey(mission.rank_required);
+    if (!ranks.has(key)) ranks.set(key, mission.rank_required);
+  }
+  return Array.from(ranks.values()).sort((a, b) => rankOrder(a) - rankOrder(b) || a.localeCompare(b));
+}
+
+/**
+ * Whether a pilot at `rank` with the faction can take `mission`.
+ */
+export function canTakeMission(mission: Pick<Mission, 'rank_required'>, rank: string | null | undefined): boolean {
+  return rankOrder(mission.rank_required) <= rankOrder(rank);
+}
+
+/**
+ * Repeatable missions to run, rank after rank, from `currentRank` up to `targetRank`. At each rung the
+ * mission with the most reputation per run is picked (the best payout breaks ties); `currentXp` is the
+ * progress already made towards the next rank.
+ */
+export function planReputation(
+  missions: Mission[],
+  faction: string,
+  currentRank: string,
+  targetRank: string,
+  currentXp = 0,
+): ReputationPlan {
+  const ranks = getFactionRanks(missions, faction);
+  const from = ranks.findIndex(r => rankKey(r) === rankKey(currentRank));
+  const to = ranks.findIndex(r => rankKey(r) === rankKey(targetRank));
+  const candidates = missions.filter(m => m.faction === faction && m.is_repeatable !== false && (m.base_xp ?? 0) > 0);
+
+  const steps: ReputationStep[] = [];
+  if (from === -1 || to === -1) return { steps: [], totalMissions: 0, totalPayout: 0, reachable: false };
+
+  for (let i = from; i < to; i++) {
+    const xpNeeded = Math.max(0, xpBetween(rankOrder(ranks[i]), rankOrder(ranks[i + 1])) - (i === from ? currentXp : 0));
+    const mission = candidates
+      .filter(m => canTakeMission(m, ranks[i]))
+      .sort((a, b) => (b.base_xp ?? 0) - (a.base_xp ?? 0) || (b.reward_auec ?? 0) - (a.reward_auec ?? 0))[0] ?? null;
+    const count = mission ? Math.ceil(xpNeeded / mission.base_xp!) : 0;
+    steps.push({ fromRank: ranks[i], toRank: ranks[i + 1], xpNeeded, mission, count, payout: count * (mission?.reward_auec ?? 0) });
+    if (!mission) break;
+  }
+
+  return {
+    steps,
+    totalMissions: steps.reduce((sum, s) => sum + s.count, 0),
+    totalPayout: steps.reduce((sum, s) => sum + s.payout, 0),
+    reachable: steps.every(s => s.mission),
+  };
+}
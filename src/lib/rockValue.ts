@@ -0,0 +1,106 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { estimateRefineryJobs, type RefineryJobEstimate } from '@/lib/refinery';
+
+type Commodity = Pick<Tables<'commodities'>, 'id' | 'name' | 'is_raw'>;
+
+// Average mass of one SCU of mined material; the scanner gives mass, ore pods are sized in SCU
+export const ROCK_KG_PER_SCU = 250;
+
+// A fraction is flagged as low value when it is worth less than this share of the rock's average per SCU
+const LOW_VALUE_RATIO = 0.25;
+
+export interface RockComponent {
+  commodityId: number;
+  percent: number;
+}
+
+export interface RockFraction {
+  commodity: Commodity | null;
+  percent: number;
+  scu: number;
+  value: number;
+  valuePerScu: number;
+  inert: boolean;
+  lowValue: boolean;
+}
+
+export interface RockEstimate {
+  totalScu: number;
+  fractions: RockFraction[];
+  /** Unlisted remainder of the composition plus components named "inert" */
+  inertPercent: number;
+  /** Most profitable refinery/method for the whole rock, null when nothing in it has a price */
+  bestJob: RefineryJobEstimate | null;
+  /** Share of the rock that fits in the ship (1 when it all fits) */
+  carriedShare: number;
+  carriedProfit: number;
+  /** Refined profit per SCU of pod space the rock takes up */
+  profitPerScu: number;
+  worthIt: boolean;
+}
+
+export interface RockContext {
+  terminalIds: number[];
+  methods: Parameters<typeof estimateRefineryJobs>[2];
+  yields: Parameters<typeof estimateRefineryJobs>[3];
+  commodities: Commodity[];
+  sellPrices: Map<number, number>;
+}
+
+const isInertCommodity = (commodity: Commodity | null | undefined) => !!commodity && /inert/i.test(commodity.name);
+
+/**
+ * Refined value of a scanned rock for a ship with `capacityScu` of ore storage.
+ * The whole rock goes into the pods (inert included), so it is worth breaking when its refined
+ * profit per SCU of pod space reaches `minProfitPerScu`. When it does not fit, only the carried share counts.
+ */
+export function estimateRock(
+  massKg: number,
+  components: RockComponent[],
+  context: RockContext,
+  capacityScu: number,
+  minProfitPerScu: number,
+): RockEstimate {
+  const totalScu = Math.max(0, massKg) / ROCK_KG_PER_SCU;
+  const commodityById = new Map(context.commodities.map(c => [c.id, c]));
+  const listed = components.filter(c => c.commodityId && c.percent > 0);
+  const listedPercent = listed.reduce((sum, c) => sum + c.percent, 0);
+
+  const valuable = listed.filter(c => !isInertCommodity(commodityById.get(c.commodityId)));
+  const jobs = estimateRefineryJobs(
+    valuable.map(c => ({ commodityId: c.commodityId, quantity: totalScu * c.percent / 100 })),
+    context.terminalIds,
+    context.methods,
+    context.yields,
+    context.commodities,
+    context.sellPrices,
+  );
+  const bestJob = jobs.find(j => j.value > 0) ?? null;
+
+  const rockValue = bestJob?.value ?? 0;
+  const averagePerScu = totalScu > 0 ? rockValue / totalScu : 0;
+  const fractions: RockFraction[] = listed.map(c => {
+    const commodity = commodityById.get(c.commodityId) ?? null;
+    const scu = totalScu * c.percent / 100;
+    const value = bestJob?.lines.find(l => l.rawCommodityId === c.commodityId)?.value ?? 0;
+    const valuePerScu = scu > 0 ? value / scu : 0;
+    const inert = isInertCommodity(commodity);
+    return { commodity, percent: c.percent, scu, value, valuePerScu, inert, lowValue: inert || valuePerScu < averagePerScu * LOW_VALUE_RATIO };
+  });
+
+  const inertPercent = Math.max(0, 100 - listedPercent) + fractions.filter(f => f.inert).reduce((sum, f) => sum + f.percent, 0);
+  const carriedShare = totalScu > 0 && capacityScu > 0 ? Math.min(1, capacityScu / totalScu) : 0;
+  const carriedProfit = (bestJob?.profit ?? 0) * carriedShare;
+  const profitPerScu = totalScu > 0 ? (bestJob?.profit ?? 0) / totalScu : 0;
+
+  return {
+    totalScu,
+    fractions,
+    inertPercent,
+    bestJob,
+    carriedShare,
+    carriedProfit,
+    profitPerScu,
+    worthIt: !!bestJob && profitPerScu >= minProfitPerScu,
+  };
+}
@@ -0,0 +1,149 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+type Ship = Tables<'ships'>;
+
+export type CompareValue = number | string | null;
+
+export interface CompareRow {
+  key: string;
+  /** i18n key of the row label */
+  labelKey: string;
+  unit?: string;
+  /** Custom rendering of numeric values, defaults to `<value> <unit>` */
+  format?: (value: number) => string;
+  /** Which end of the row wins, null for rows that are only informative (dimensions, role...) */
+  better: 'higher' | 'lower' | null;
+  get: (ship: Ship) => CompareValue;
+}
+
+export interface CompareSection {
+  titleKey: string;
+  rows: CompareRow[];
+}
+
+interface ShipPrice {
+  type?: string;
+  amount?: number | string;
+  currency?: string;
+}
+
+function getPath(obj: unknown, ...path: string[]): unknown {
+  let cur = obj;
+  for (const key of path) {
+    if (!cur || typeof cur !== 'object') return undefined;
+    cur = (cur as Record<string, unknown>)[key];
+  }
+  return cur;
+}
+
+// Hardpoints are stored as arrays of item labels, the comparison only counts them
+function countItems(obj: unknown, ...path: string[]): number | null {
+  const value = getPath(obj, ...path);
+  return Array.isArray(value) ? value.length : null;
+}
+
+function countSystems(ship: Ship, ...paths: [string, string][]): number | null {
+  const counts = paths.map(([group, key]) => countItems(ship.systems, group, key));
+  if (counts.every(c => c === null)) return null;
+  return counts.reduce<number>((sum, c) => sum + (c ?? 0), 0);
+}
+
+export function getShipPrices(ship: Pick<Ship, 'prices'>): ShipPrice[] {
+  return Array.isArray(ship.prices) ? (ship.prices as ShipPrice[]) : [];
+}
+
+export function lowestPrice(ship: Pick<Ship, 'prices'>, currency: string): number | null {
+  const amounts = getShipPrices(ship)
+    .filter(p => (p.currency || 'USD') === currency)
+    .map(p => Number(p.amount))
+    .filter(a => Number.isFinite(a) && a > 0);
+  return amounts.length > 0 ? Math.min(...amounts) : null;
+}
+
+export const COMPARE_SECTIONS: CompareSection[] = [
+  {
+    titleKey: 'ships.specifications',
+    rows: [
+      { key: 'manufacturer', labelKey: 'ships.manufacturer', better: null, get: s => s.manufacturer },
+      { key: 'role', labelKey: 'ships.role', better: null, get: s => s.role },
+      { key: 'size', labelKey: 'ships.size', better: null, get: s => s.size },
+      { key: 'production_status', labelKey: 'ships.productionStatus', better: null, get: s => s.production_status },
+      { key: 'price_usd', labelKey: 'ships.price', better: 'lower', format: v => `$${v.toLocaleString()}`, get: s => lowestPrice(s, 'USD') },
+    ],
+  },
+  {
+    titleKey: 'ships.technicalSpecs',
+    rows: [
+      { key: 'length_m', labelKey: 'ships.length', unit: 'm', better: null, get: s => s.length_m },
+      { key: 'beam_m', labelKey: 'ships.beam', unit: 'm', better: null, get: s => s.beam_m },
+      { key: 'height_m', labelKey: 'ships.height', unit: 'm', better: null, get: s => s.height_m },
+      { key: 'crew_min', labelKey: 'ships.crewMin', better: null, get: s => s.crew_min },
+      { key: 'crew_max', labelKey: 'ships.crewMax', better: null, get: s => s.crew_max },
+      { key: 'cargo_scu', labelKey: 'ships.cargo', unit: 'SCU', better: 'higher', get: s => s.cargo_scu },
+      { key: 'scm_speed', labelKey: 'ships.scm', unit: 'm/s', better: 'higher', get: s => s.scm_speed },
+      { key: 'max_speed', labelKey: 'ships.max', unit: 'm/s', better: 'higher', get: s => s.max_speed },
+    ],
+  },
+  {
+    titleKey: 'ships.armament',
+    rows: [
+      { key: 'weapons', labelKey: 'ships.weapons', better: 'higher', get: s => countItems(s.armament, 'weapons') },
+      { key: 'turrets', labelKey: 'ships.turrets', better: 'higher', get: s => countItems(s.armament, 'turrets') },
+      { key: 'missiles', labelKey: 'ships.missiles', better: 'higher', get: s => countItems(s.armament, 'missiles') },
+      { key: 'utility', labelKey: 'ships.utilityItems', better: 'higher', get: s => countItems(s.armament, 'utility') },
+      { key: 'countermeasures', labelKey: 'ships.countermeasures', better: 'higher', get: s => countItems(s.armament, 'countermeasures') },
+    ],
+  },
+  {
+    titleKey: 'ships.hardpoints',
+    rows: [
+      {
+        key: 'avionics',
+        labelKey: 'ships.avionics',
+        better: 'higher',
+        get: s => countSystems(s, ['avionics', 'radar'], ['avionics', 'computer'], ['avionics', 'scanner'], ['avionics', 'ping']),
+      },
+      {
+        key: 'propulsion',
+        labelKey: 'ships.propulsion',
+        better: 'higher',
+        get: s => countSystems(
+          s,
+          ['propulsion', 'quantum_drives'],
+          ['propulsion', 'fuel_intakes'],
+          ['propulsion', 'fuel_tanks'],
+          ['propulsion', 'quantum_fuel_tanks'],
+          ['propulsion', 'jump_modules'],
+        ),
+      },
+      {
+        key: 'thrusters',
+        labelKey: 'ships.thrusters',
+        better: 'higher',
+        get: s => countSystems(s, ['thrusters', 'main'], ['thrusters', 'maneuvering'], ['thrusters', 'retro'], ['thrusters', 'vtol']),
+      },
+      {
+        key: 'power',
+        labelKey: 'ships.powerSystems',
+        better: 'higher',
+        get: s => countSystems(s, ['power', 'power_plants'], ['power', 'coolers'], ['power', 'shield_generators']),
+      },
+    ],
+  },
+];
+
+/**
+ * Indexes of the ships holding the best value of a row. Nothing is highlighted for informative rows,
+ * when fewer than two ships have a value, or when every ship ties.
+ */
+export function bestIndexes(row: CompareRow, values: CompareValue[]): Set<number> {
+  if (!row.better) return new Set();
+  const numbers = values.map(v => (typeof v === 'number' && Number.isFinite(v) ? v : null));
+  const present = numbers.filter((v): v is number => v !== null);
+  if (present.length < 2) return new Set();
+
+  const best = row.better === 'higher' ? Math.max(...present) : Math.min(...present);
+  if (present.every(v => v === best)) return new Set();
+
+  return new Set(numbers.flatMap((v, i) => (v === best ? [i] : [])));
+}
@@ -0,0 +1,63 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// Mirrors ShipFieldChange in supabase/functions/ships-sync/diff.ts
+export interface ShipFieldChange {
+  field: string;
+  old: Json;
+  new: Json;
+  /** wiki_api_v2, fleetyards, wiki_html or uex, "+" joined; missing on versions recorded before it was tracked */
+  source?: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  manufacturer: 'Manufacturer',
+  role: 'Role',
+  size: 'Size',
+  production_status: 'Production status',
+  patch: 'Patch',
+  crew_min: 'Min crew',
+  crew_max: 'Max crew',
+  cargo_scu: 'Cargo (SCU)',
+  length_m: 'Length (m)',
+  beam_m: 'Beam (m)',
+  height_m: 'Height (m)',
+  scm_speed: 'SCM speed (m/s)',
+  max_speed: 'Max speed (m/s)',
+  prices: 'Prices',
+};
+
+export function getChanges(changes: Json): ShipFieldChange[] {
+  return Array.isArray(changes) ? (changes as unknown as ShipFieldChange[]) : [];
+}
+
+/**
+ * Readable label for a diff field, nested groups read as "Armament › weapons".
+ */
+export function fieldLabel(field: string): string {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  const [group, key] = field.split('.');
+  const title = (value: string) => value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, ' ');
+  return key ? `${title(group)} › ${key.replace(/_/g, ' ')}` : title(group);
+}
+
+export function formatChangeValue(value: Json | undefined): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'string' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    // Prices are { amount, currency, type } entries
+    if (value.every(v => v && typeof v === 'object' && !Array.isArray(v) && 'amount' in v)) {
+      return value
+        .map(v => {
+          const price = v as { amount?: Json; currency?: Json; type?: Json };
+          return `${price.type ? `${price.type}: ` : ''}${price.amount} ${price.currency ?? ''}`.trim();
+        })
+        .join(', ');
+    }
+    if (value.every(v => typeof v === 'string' || typeof v === 'number')) return value.join(', ');
+  }
+  const json = JSON.stringify(value);
+  return json.length > 160 ? `${json.slice(0, 157)}...` : json;
+}
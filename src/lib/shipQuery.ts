@@ -0,0 +1,267 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { splitRoles } from '@/lib/hangar';
+import { lowestPrice } from '@/lib/shipCompare';
+
+type Ship = Tables<'ships'>;
+
+export type QueryOperator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export interface QueryField {
+  key: string;
+  type: 'number' | 'text';
+  /** Other names accepted in queries, usually the column name */
+  aliases?: string[];
+  get: (ship: Ship) => number | string | null;
+  /** Other spellings of a text value that match too */
+  synonyms?: (value: string) => string[];
+}
+
+export interface QueryCondition {
+  field: QueryField;
+  op: QueryOperator;
+  value: string;
+  negate: boolean;
+}
+
+export interface QueryError {
+  token: string;
+  /** i18n key under ships.queryErrors */
+  reason: 'unknownField' | 'notANumber' | 'badOperator';
+}
+
+export interface ParsedShipQuery {
+  conditions: QueryCondition[];
+  /** Free words, all of them must appear in the ship name */
+  words: string[];
+  sort: { field: QueryField; desc: boolean } | null;
+  errors: QueryError[];
+}
+
+export interface QuerySuggestion {
+  label: string;
+  /** The whole query once the suggestion is applied */
+  query: string;
+}
+
+export const PRODUCTION_STATUSES = ['flight-ready', 'in-production', 'concept'];
+
+// Normalize production status for filtering
+export function normalizeProductionStatus(status: string | null): string {
+  if (!status) return 'unknown';
+  const lower = status.toLowerCase();
+  if (lower.includes('flight ready') || lower.includes('flyable') || lower.includes('released')) {
+    return 'flight-ready';
+  }
+  if (lower.includes('in production') || lower.includes('production')) {
+    return 'in-production';
+  }
+  if (lower.includes('concept') || lower.includes('announced')) {
+    return 'concept';
+  }
+  return 'unknown';
+}
+
+// Short codes used in game and on the RSI site -> names stored in ships.manufacturer
+const MANUFACTURER_CODES: Record<string, string> = {
+  AEGS: 'Aegis Dynamics',
+  ANVL: 'Anvil Aerospace',
+  AOPO: 'Aopoa',
+  ARGO: 'Argo Astronautics',
+  BANU: 'Banu',
+  CNOU: 'Consolidated Outland',
+  CRUS: 'Crusader Industries',
+  DRAK: 'Drake Interplanetary',
+  ESPR: 'Esperia',
+  GAMA: 'Gatac Manufacture',
+  GRIN: 'Greycat Industrial',
+  KRIG: 'Kruger Intergalactic',
+  MISC: 'Musashi Industrial & Starflight Concern',
+  MRAI: 'Mirai',
+  ORIG: 'Origin Jumpworks',
+  RSI: 'Roberts Space Industries',
+  TMBL: 'Tumbril Land Systems',
+  VNCL: 'Vanduul',
+};
+
+const manufacturerNames = (value: string) => {
+  const name = MANUFACTURER_CODES[value.toUpperCase()];
+  return name ? [name] : [];
+};
+
+export const QUERY_FIELDS: QueryField[] = [
+  { key: 'name', type: 'text', get: s => s.name },
+  { key: 'manufacturer', type: 'text', aliases: ['maker'], get: s => s.manufacturer, synonyms: manufacturerNames },
+  { key: 'role', type: 'text', get: s => s.role },
+  { key: 'size', type: 'text', get: s => s.size?.trim() || null },
+  { key: 'status', type: 'text', aliases: ['production_status'], get: s => normalizeProductionStatus(s.production_status) },
+  { key: 'patch', type: 'text', get: s => s.patch },
+  { key: 'cargo', type: 'number', aliases: ['cargo_scu', 'scu'], get: s => s.cargo_scu },
+  { key: 'crew', type: 'number', aliases: ['crew_min'], get: s => s.crew_min },
+  { key: 'crew_max', type: 'number', get: s => s.crew_max },
+  { key: 'scm_speed', type: 'number', aliases: ['scm'], get: s => s.scm_speed },
+  { key: 'max_speed', type: 'number', aliases: ['speed'], get: s => s.max_speed },
+  { key: 'length', type: 'number', aliases: ['length_m'], get: s => s.length_m },
+  { key: 'beam', type: 'number', aliases: ['beam_m'], get: s => s.beam_m },
+  { key: 'height', type: 'number', aliases: ['height_m'], get: s => s.height_m },
+  { key: 'price', type: 'number', aliases: ['price_usd'], get: s => lowestPrice(s, 'USD') },
+];
+
+const SORT_KEY = 'sort';
+const TEXT_OPERATORS: QueryOperator[] = [':', '=', '!='];
+
+// field + operator + value (quoted or not), a quoted phrase, or a bare word
+const TOKEN = /(-?)([a-z_]+)(>=|<=|!=|:|=|>|<)("[^"]*"?|[^\s"]*)|"([^"]*)"?|(\S+)/gi;
+// Last token of the query while it is being typed, an open quote may contain spaces
+const TRAILING_TOKEN = /(-?[a-z_]+(?:>=|<=|!=|:|=|>|<)"[^"]*|\S*)$/i;
+const FIELD_TOKEN = /^(-?)([a-z_]+)(>=|<=|!=|:|=|>|<)(.*)$/i;
+
+export function findQueryField(name: string): QueryField | undefined {
+  const lower = name.toLowerCase();
+  return QUERY_FIELDS.find(f => f.key === lower || f.aliases?.includes(lower));
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"/, '').replace(/"$/, '');
+}
+
+function quote(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+/**
+ * `cargo>=96 role:mining crew<=2 manufacturer:"MISC" status:flight-ready sort:-scm_speed`.
+ * Conditions missing their value are skipped so the query can be applied while it is typed.
+ */
+export function parseShipQuery(query: string): ParsedShipQuery {
+  const parsed: ParsedShipQuery = { conditions: [], words: [], sort: null, errors: [] };
+
+  for (const match of query.matchAll(TOKEN)) {
+    const [token, negate, name, op, rawValue, phrase, word] = match;
+    if (phrase !== undefined || word !== undefined) {
+      const text = (phrase ?? word).trim().toLowerCase();
+      if (text) parsed.words.push(text);
+      continue;
+    }
+
+    const value = unquote(rawValue).trim();
+    if (!value) continue;
+
+    if (name.toLowerCase() === SORT_KEY) {
+      const desc = value.startsWith('-');
+      const field = findQueryField(desc ? value.slice(1) : value);
+      if (field) parsed.sort = { field, desc };
+      else parsed.errors.push({ token, reason: 'unknownField' });
+      continue;
+    }
+
+    const field = findQueryField(name);
+    if (!field) {
+      parsed.errors.push({ token, reason: 'unknownField' });
+    } else if (field.type === 'text' && !TEXT_OPERATORS.includes(op as QueryOperator)) {
+      parsed.errors.push({ token, reason: 'badOperator' });
+    } else if (field.type === 'number' && !Number.isFinite(Number(value))) {
+      parsed.errors.push({ token, reason: 'notANumber' });
+    } else {
+      parsed.conditions.push({ field, op: op as QueryOperator, value, negate: negate === '-' });
+    }
+  }
+
+  return parsed;
+}
+
+function matchesCondition(ship: Ship, { field, op, value }: QueryCondition): boolean {
+  const actual = field.get(ship);
+  if (actual === null || actual === '') return op === '!=';
+
+  if (field.type === 'text') {
+    const text = String(actual).toLowerCase();
+    const expected = [value, ...(field.synonyms?.(value) ?? [])].map(v => v.toLowerCase());
+    if (op === ':') return expected.some(v => text.includes(v));
+    if (op === '=') return expected.includes(text);
+    return !expected.includes(text);
+  }
+
+  const number = Number(actual);
+  const expected = Number(value);
+  switch (op) {
+    case '>': return number > expected;
+    case '>=': return number >= expected;
+    case '<': return number < expected;
+    case '<=': return number <= expected;
+    case '!=': return number !== expected;
+    default: return number === expected;
+  }
+}
+
+export function matchesShipQuery(ship: Ship, parsed: ParsedShipQuery): boolean {
+  const name = ship.name.toLowerCase();
+  return parsed.words.every(w => name.includes(w)) &&
+    parsed.conditions.every(c => matchesCondition(ship, c) !== c.negate);
+}
+
+/** Sorted copy, ships without a value for the sort field go last either way */
+export function sortShips(ships: Ship[], sort: ParsedShipQuery['sort']): Ship[] {
+  if (!sort) return ships;
+  const { field, desc } = sort;
+  return [...ships].sort((a, b) => {
+    const va = field.get(a);
+    const vb = field.get(b);
+    if (va === null || vb === null) return Number(va === null) - Number(vb === null);
+    const diff = field.type === 'number' ? Number(va) - Number(vb) : String(va).localeCompare(String(vb));
+    return desc ? -diff : diff;
+  });
+}
+
+/** Known values of the text fields, offered while typing `field:` */
+export function queryValues(ships: Ship[]): Record<string, string[]> {
+  const unique = (values: (string | null)[]) => Array.from(new Set(values.filter((v): v is string => !!v))).sort();
+  const manufacturers = unique(ships.map(s => s.manufacturer));
+  const known = new Set(manufacturers.map(m => m.toLowerCase()));
+  const codes = Object.keys(MANUFACTURER_CODES).filter(code => known.has(MANUFACTURER_CODES[code].toLowerCase()));
+  return {
+    manufacturer: [...codes, ...manufacturers],
+    role: unique(ships.flatMap(s => splitRoles(s.role))),
+    size: unique(ships.map(s => s.size?.trim() || null)),
+    status: PRODUCTION_STATUSES,
+    patch: unique(ships.map(s => s.patch)),
+  };
+}
+
+/** Completions for the token under the cursor, which is always the end of the query */
+export function querySuggestions(query: string, values: Record<string, string[]>, limit = 8): QuerySuggestion[] {
+  const token = query.match(TRAILING_TOKEN)?.[0] ?? '';
+  if (!token) return [];
+  const prefix = query.slice(0, query.length - token.length);
+  const fieldToken = token.match(FIELD_TOKEN);
+
+  if (!fieldToken) {
+    const typed = token.replace(/^-/, '').toLowerCase();
+    const negate = token.startsWith('-') ? '-' : '';
+    const fields = QUERY_FIELDS
+      .filter(f => f.key.startsWith(typed) || f.aliases?.some(a => a.startsWith(typed)))
+      .map(f => `${negate}${f.key}${f.type === 'number' ? '>=' : ':'}`);
+    if (!negate && SORT_KEY.startsWith(typed)) fields.push(`${SORT_KEY}:`);
+    return fields.slice(0, limit).map(text => ({ label: text, query: prefix + text }));
+  }
+
+  const [, negate, name, op, rawValue] = fieldToken;
+  const typed = unquote(rawValue).toLowerCase();
+
+  if (name.toLowerCase() === SORT_KEY) {
+    const desc = typed.startsWith('-') ? '-' : '';
+    return QUERY_FIELDS
+      .filter(f => f.key.startsWith(typed.replace(/^-/, '')))
+      .slice(0, limit)
+      .map(f => ({ label: `${SORT_KEY}:${desc}${f.key}`, query: `${prefix}${SORT_KEY}:${desc}${f.key} ` }));
+  }
+
+  const field = findQueryField(name);
+  if (!field || field.type !== 'text') return [];
+  return (values[field.key] ?? [])
+    .filter(v => v.toLowerCase().includes(typed) && v.toLowerCase() !== typed)
+    .slice(0, limit)
+    .map(v => {
+      const text = `${negate}${field.key}${op}${quote(v)}`;
+      return { label: text, query: `${prefix}${text} ` };
+    });
+}
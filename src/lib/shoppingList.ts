@@ -0,0 +1,133 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+type TerminalSummary = Pick<Tables<'terminals'>, 'id' | 'name' | 'slug' | 'star_system' | 'planet' | 'moon' | 'space_station'>;
+
+export interface ShoppingListEntry {
+  itemId: number;
+  name: string;
+  quantity: number;
+}
+
+export interface ItemOffer {
+  item_id: number;
+  terminal_id: number;
+  price_buy: number | null;
+  terminals: TerminalSummary | null;
+}
+
+export interface ShoppingStopLine {
+  entry: ShoppingListEntry;
+  unitPrice: number;
+  subtotal: number;
+}
+
+export interface ShoppingStop {
+  terminal: TerminalSummary;
+  lines: ShoppingStopLine[];
+  subtotal: number;
+}
+
+export interface ShoppingPlan {
+  system: string;
+  stops: ShoppingStop[];
+  total: number;
+  /** Entries no terminal of the system sells */
+  missing: ShoppingListEntry[];
+}
+
+/**
+ * Cheapest way to buy every entry inside one star system, each stop counting as `stopPenalty` aUEC.
+ * Starts from every entry at its cheapest terminal, then improves the set of stops with
+ * drop / swap / merge-two-into-one moves until none lowers the penalised total.
+ */
+function planForSystem(entries: ShoppingListEntry[], offers: ItemOffer[], system: string, stopPenalty: number): ShoppingPlan {
+  // itemId -> terminalId -> unit price
+  const prices = new Map<number, Map<number, number>>();
+  const terminals = new Map<number, TerminalSummary>();
+  for (const offer of offers) {
+    if (!offer.terminals || offer.terminals.star_system !== system || !(Number(offer.price_buy) > 0)) continue;
+    terminals.set(offer.terminal_id, offer.terminals);
+    if (!prices.has(offer.item_id)) prices.set(offer.item_id, new Map());
+    prices.get(offer.item_id)!.set(offer.terminal_id, Number(offer.price_buy));
+  }
+
+  const buyable = entries.filter(e => prices.has(e.itemId));
+  const missing = entries.filter(e => !prices.has(e.itemId));
+
+  // Each entry at its cheapest terminal among `allowed`, null if one of them can't be bought there
+  const assign = (allowed: Set<number> | null) => {
+    const assignment = new Map<number, { terminalId: number; price: number }>();
+    let cost = 0;
+    for (const entry of buyable) {
+      let best: { terminalId: number; price: number } | undefined;
+      for (const [terminalId, price] of prices.get(entry.itemId)!) {
+        if (allowed && !allowed.has(terminalId)) continue;
+        if (!best || price < best.price) best = { terminalId, price };
+      }
+      if (!best) return null;
+      assignment.set(entry.itemId, best);
+      cost += best.price * entry.quantity;
+    }
+    const stops = new Set(Array.from(assignment.values()).map(a => a.terminalId));
+    return { assignment, stops, cost, score: cost + stops.size * stopPenalty };
+  };
+
+  let current = assign(null)!;
+  for (;;) {
+    const used = Array.from(current.stops);
+    const others = Array.from(terminals.keys()).filter(id => !current.stops.has(id));
+    const removals = [
+      ...used.map(a => [a]),
+      ...used.flatMap((a, i) => used.slice(i + 1).map(b => [a, b])),
+    ];
+    let best = current;
+    for (const removed of removals) {
+      // Dropping two stops only makes sense when another terminal takes over
+      const additions = removed.length === 1 ? [null, ...others] : others;
+      for (const added of additions) {
+        const allowed = new Set(used.filter(id => !removed.includes(id)));
+        if (added != null) allowed.add(added);
+        const candidate = assign(allowed);
+        if (candidate && candidate.score < best.score) best = candidate;
+      }
+    }
+    if (best === current) break;
+    current = best;
+  }
+  const { assignment, cost } = current;
+
+  const byTerminal = new Map<number, ShoppingStop>();
+  for (const entry of buyable) {
+    const { terminalId, price } = assignment.get(entry.itemId)!;
+    if (!byTerminal.has(terminalId)) byTerminal.set(terminalId, { terminal: terminals.get(terminalId)!, lines: [], subtotal: 0 });
+    const stop = byTerminal.get(terminalId)!;
+    stop.lines.push({ entry, unitPrice: price, subtotal: price * entry.quantity });
+    stop.subtotal += price * entry.quantity;
+  }
+
+  return {
+    system,
+    stops: Array.from(byTerminal.values()).sort((a, b) => b.lines.length - a.lines.length || b.subtotal - a.subtotal),
+    total: cost,
+    missing,
+  };
+}
+
+/**
+ * One plan per star system that sells at least one entry, best first:
+ * fewest missing entries, then lowest total once each stop is counted as `stopPenalty` aUEC.
+ */
+export function planShoppingList(entries: ShoppingListEntry[], offers: ItemOffer[], stopPenalty: number): ShoppingPlan[] {
+  if (entries.length === 0) return [];
+  const wanted = new Set(entries.map(e => e.itemId));
+  const systems = new Set<string>();
+  for (const offer of offers) {
+    if (wanted.has(offer.item_id) && offer.terminals?.star_system && Number(offer.price_buy) > 0) systems.add(offer.terminals.star_system);
+  }
+
+  return Array.from(systems)
+    .map(system => planForSystem(entries, offers, system, stopPenalty))
+    .sort((a, b) =>
+      a.missing.length - b.missing.length ||
+      (a.total + a.stops.length * stopPenalty) - (b.total + b.stops.length * stopPenalty));
+}
@@ -0,0 +1,15 @@
+export const SUPABASE_PAGE_SIZE = 1000;
+
+/**
+ * Read every row of a query whose result can exceed PostgREST's 1000 row cap.
+ * `fetchPage` receives inclusive `from`/`to` offsets for `.range()` and must use a stable order.
+ */
+export async function fetchAllRows<T>(fetchPage: (from: number, to: number) => Promise<T[]>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const page = await fetchPage(from, from + SUPABASE_PAGE_SIZE - 1);
+    rows.push(...page);
+    if (page.length < SUPABASE_PAGE_SIZE) break;
+  }
+  return rows;
+}
@@ -0,0 +1,36 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+type TerminalLocation = Pick<Tables<'terminals'>, 'star_system' | 'planet' | 'moon' | 'space_station'>;
+
+export type LocationLevel = 'star_system' | 'planet' | 'moon' | 'space_station';
+
+export const LOCATION_LEVEL_LABELS: Record<LocationLevel, string> = {
+  star_system: 'Système',
+  planet: 'Planète',
+  moon: 'Lune',
+  space_station: 'Station',
+};
+
+/**
+ * Human readable location path for a terminal, e.g. "Stanton › Hurston › Arial".
+ * Empty levels are skipped.
+ */
+export function formatTerminalLocation(terminal: TerminalLocation | null | undefined): string {
+  if (!terminal) return '—';
+  const parts = [terminal.star_system, terminal.planet, terminal.moon, terminal.space_station].filter(Boolean);
+  return parts.length > 0 ? parts.join(' › ') : '—';
+}
+
+/**
+ * Key used to group terminals at a given location level. Levels below the
+ * requested one are ignored, levels above are kept so "Lune" groups stay unique per planet.
+ */
+export function getLocationGroupKey(terminal: TerminalLocation | null | undefined, level: LocationLevel): string {
+  if (!terminal) return '—';
+  const order: LocationLevel[] = ['star_system', 'planet', 'moon', 'space_station'];
+  const parts = order
+    .slice(0, order.indexOf(level) + 1)
+    .map((l) => terminal[l])
+    .filter(Boolean);
+  return parts.length > 0 ? parts.join(' › ') : 'Non localisé';
+}
@@ -0,0 +1,234 @@
+import type { MarketPrice } from '@/hooks/useCommodityMarket';
+
+export type LegalityPreference = 'legal' | 'all' | 'illegal';
+
+export interface TradeRouteOptions {
+  cargoScu: number;
+  budget: number;
+  startSystem: string | null;
+  sameSystemOnly: boolean;
+  legality: LegalityPreference;
+  excludedTerminalIds?: Set<number>;
+  limit?: number;
+}
+
+export interface TradeRoute {
+  commodity: NonNullable<MarketPrice['commodities']>;
+  buy: MarketPrice;
+  sell: MarketPrice;
+  quantity: number;
+  investment: number;
+  revenue: number;
+  profit: number;
+  profitPerScu: number;
+  /** Quantity was capped by the stock at the buy terminal or the demand at the sell terminal */
+  stockLimited: boolean;
+  /** UEX did not report stock/demand for one of the terminals, so it was not used as a limit */
+  stockUnknown: boolean;
+}
+
+export function matchesLegality(isIllegal: boolean | null | undefined, legality: LegalityPreference): boolean {
+  if (legality === 'legal') return !isIllegal;
+  if (legality === 'illegal') return !!isIllegal;
+  return true;
+}
+
+/**
+ * Index market rows by commodity, keeping only buy offers (price_buy > 0) and
+ * sell offers (price_sell > 0) that are allowed by the options.
+ */
+export function indexMarket(prices: MarketPrice[], options: Pick<TradeRouteOptions, 'legality' | 'excludedTerminalIds'>) {
+  const byCommodity = new Map<number, { buys: MarketPrice[]; sells: MarketPrice[] }>();
+  for (const p of prices) {
+    if (!p.commodities || !p.terminals) continue;
+    if (!matchesLegality(p.commodities.is_illegal, options.legality)) continue;
+    if (options.excludedTerminalIds?.has(p.terminal_id)) continue;
+    if (!byCommodity.has(p.commodity_id)) byCommodity.set(p.commodity_id, { buys: [], sells: [] });
+    const entry = byCommodity.get(p.commodity_id)!;
+    if (Number(p.price_buy) > 0) entry.buys.push(p);
+    if (Number(p.price_sell) > 0) entry.sells.push(p);
+  }
+  return byCommodity;
+}
+
+/**
+ * Largest quantity that can be bought at `buy` and sold at `sell` with the given
+ * cargo space and budget. Unknown (null) stock figures are not treated as limits.
+ */
+export function computeTradeQuantity(buy: MarketPrice, sell: MarketPrice, cargoScu: number, budget: number) {
+  const price = Number(buy.price_buy);
+  const affordable = Math.floor(budget / price);
+  const limits = [cargoScu, affordable];
+  if (buy.scu_buy != null) limits.push(buy.scu_buy);
+  if (sell.scu_sell != null) limits.push(sell.scu_sell);
+  const quantity = Math.max(0, Math.min(...limits));
+  return {
+    quantity,
+    stockLimited: quantity < Math.min(cargoScu, affordable),
+    stockUnknown: buy.scu_buy == null || sell.scu_sell == null,
+  };
+}
+
+/**
+ * Single-hop buy terminal → sell terminal routes ranked by total profit for one cargo load.
+ */
+export function findTradeRoutes(prices: MarketPrice[], options: TradeRouteOptions): TradeRoute[] {
+  const { cargoScu, budget, startSystem, sameSystemOnly, limit = 25 } = options;
+  if (cargoScu <= 0 || budget <= 0) return [];
+
+  const routes: TradeRoute[] = [];
+  for (const { buys, sells } of indexMarket(prices, options).values()) {
+    for (const buy of buys) {
+      if (startSystem && buy.terminals!.star_system !== startSystem) continue;
+      for (const sell of sells) {
+        if (sell.terminal_id === buy.terminal_id) continue;
+        if (sameSystemOnly && sell.terminals!.star_system !== buy.terminals!.star_system) continue;
+
+        const margin = Number(sell.price_sell) - Number(buy.price_buy);
+        if (margin <= 0) continue;
+
+        const { quantity, stockLimited, stockUnknown } = computeTradeQuantity(buy, sell, cargoScu, budget);
+        if (quantity <= 0) continue;
+
+        const investment = quantity * Number(buy.price_buy);
+        const revenue = quantity * Number(sell.price_sell);
+        routes.push({
+          commodity: buy.commodities!,
+          buy,
+          sell,
+          quantity,
+          investment,
+          revenue,
+          profit: revenue - investment,
+          profitPerScu: margin,
+          stockLimited,
+          stockUnknown,
+        });
+      }
+    }
+  }
+
+  return routes
+    .sort((a, b) => b.profit - a.profit || b.profitPerScu - a.profitPerScu)
+    .slice(0, limit);
+}
+
+export interface TradeLoopOptions {
+  cargoScu: number;
+  budget: number;
+  system: string;
+  maxLegs: number;
+  legality: LegalityPreference;
+  excludedTerminalIds?: Set<number>;
+  limit?: number;
+}
+
+export type TradeLoopLeg = Omit<TradeRoute, 'revenue' | 'profitPerScu'>;
+
+export interface TradeLoop {
+  legs: TradeLoopLeg[];
+  totalSpend: number;
+  totalProfit: number;
+}
+
+// Outgoing legs explored per terminal during the loop search; the closing leg is always looked up exactly
+const LOOP_BRANCHING = 8;
+
+/**
+ * Best single-leg trade for every ordered pair of terminals inside one system,
+ * keyed by "buyTerminalId>sellTerminalId".
+ */
+function buildLegGraph(prices: MarketPrice[], options: TradeLoopOptions) {
+  const legs = new Map<string, TradeLoopLeg>();
+  for (const { buys, sells } of indexMarket(prices, options).values()) {
+    for (const buy of buys) {
+      if (buy.terminals!.star_system !== options.system) continue;
+      for (const sell of sells) {
+        if (sell.terminal_id === buy.terminal_id || sell.terminals!.star_system !== options.system) continue;
+        const margin = Number(sell.price_sell) - Number(buy.price_buy);
+        if (margin <= 0) continue;
+
+        const { quantity, stockLimited, stockUnknown } = computeTradeQuantity(buy, sell, options.cargoScu, options.budget);
+        if (quantity <= 0) continue;
+
+        const profit = quantity * margin;
+        const key = `${buy.terminal_id}>${sell.terminal_id}`;
+        const current = legs.get(key);
+        if (!current || profit > current.profit) {
+          legs.set(key, {
+            commodity: buy.commodities!,
+            buy,
+            sell,
+            quantity,
+            investment: quantity * Number(buy.price_buy),
+            profit,
+            stockLimited,
+            stockUnknown,
+          });
+        }
+      }
+    }
+  }
+  return legs;
+}
+
+/**
+ * Circuits A → B → … → A of 2 to `maxLegs` legs inside one system where every
+ * leg carries the most profitable cargo between its two terminals.
+ * Terminals are visited at most once per loop; rotations of the same circuit are reported once.
+ */
+export function findTradeLoops(prices: MarketPrice[], options: TradeLoopOptions): TradeLoop[] {
+  const { cargoScu, budget, limit = 15 } = options;
+  const maxLegs = Math.min(Math.max(options.maxLegs, 2), 4);
+  if (cargoScu <= 0 || budget <= 0) return [];
+
+  const legs = buildLegGraph(prices, options);
+  const outgoing = new Map<number, TradeLoopLeg[]>();
+  for (const leg of legs.values()) {
+    if (!outgoing.has(leg.buy.terminal_id)) outgoing.set(leg.buy.terminal_id, []);
+    outgoing.get(leg.buy.terminal_id)!.push(leg);
+  }
+  for (const list of outgoing.values()) {
+    list.sort((a, b) => b.profit - a.profit);
+    list.splice(LOOP_BRANCHING);
+  }
+
+  const loops = new Map<string, TradeLoop>();
+  const record = (path: TradeLoopLeg[]) => {
+    const ids = path.map(l => l.buy.terminal_id);
+    // Canonical key: rotation starting at the smallest terminal id
+    const start = ids.indexOf(Math.min(...ids));
+    const key = [...ids.slice(start), ...ids.slice(0, start)].join('>');
+    const totalProfit = path.reduce((sum, l) => sum + l.profit, 0);
+    if ((loops.get(key)?.totalProfit ?? -Infinity) >= totalProfit) return;
+    loops.set(key, {
+      legs: [...path.slice(start), ...path.slice(0, start)],
+      totalSpend: path.reduce((sum, l) => sum + l.investment, 0),
+      totalProfit,
+    });
+  };
+
+  const walk = (origin: number, path: TradeLoopLeg[], visited: Set<number>) => {
+    const current = path[path.length - 1].sell.terminal_id;
+    const closing = legs.get(`${current}>${origin}`);
+    if (closing) record([...path, closing]);
+    if (path.length + 1 >= maxLegs) return;
+    for (const next of outgoing.get(current) ?? []) {
+      const to = next.sell.terminal_id;
+      if (to === origin || visited.has(to)) continue;
+      visited.add(to);
+      walk(origin, [...path, next], visited);
+      visited.delete(to);
+    }
+  };
+
+  for (const [origin, list] of outgoing) {
+    for (const first of list) {
+      walk(origin, [first], new Set([origin, first.sell.terminal_id]));
+    }
+  }
+
+  return Array.from(loops.values())
+    .sort((a, b) => b.totalProfit - a.totalProfit)
+    .slice(0, limit);
+}
@@ -15,6 +15,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { SyncProgressMonitor } from '@/components/SyncProgressMonitor';
 import { SlugMappingManager } from '@/components/SlugMappingManager';
 import { ShipRumorsTracker } from '@/components/ShipRumorsTracker';
+import { ShipChangesLog } from '@/components/ShipChangesLog';
 
 export default function Admin() {
   const { user, isAdmin, loading: authLoading } = useAuth();
@@ -608,11 +609,12 @@ export default function Admin() {
       </div>
 
       <Tabs defaultValue="sync" className="w-full">
-        <TabsList className="grid w-full grid-cols-7">
+        <TabsList className="grid w-full grid-cols-8">
           <TabsTrigger value="sync">Synchronization</TabsTrigger>
           <TabsTrigger value="rumors">Ship Rumors</TabsTrigger>
           <TabsTrigger value="slugmapping">Slug Mapping</TabsTrigger>
           <TabsTrigger value="shipdata">Ship Data</TabsTrigger>
+          <TabsTrigger value="shipchanges">Ship Changes</TabsTrigger>
           <TabsTrigger value="autosync">Auto-Sync Status</TabsTrigger>
           <TabsTrigger value="users">Users</TabsTrigger>
           <TabsTrigger value="audit">Audit Logs</TabsTrigger>
@@ -814,7 +816,7 @@ export default function Admin() {
                 <Target className="w-5 h-5 text-primary" />
                 Missions Synchronization
               </CardTitle>
-              <CardDescription>Sync missions data from UEX API 2.0</CardDescription>
+              <CardDescription>Sync missions from the scunpacked contract dump and retire removed ones</CardDescription>
             </CardHeader>
             <CardContent>
               <Button 
@@ -857,6 +859,10 @@ export default function Admin() {
           <ShipDataComparison />
         </TabsContent>
 
+        <TabsContent value="shipchanges" className="space-y-4">
+          <ShipChangesLog />
+        </TabsContent>
+
         <TabsContent value="autosync" className="space-y-4">
           <SyncProgressMonitor functionName="ships-sync" />
           
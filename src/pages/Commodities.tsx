@@ -1,5 +1,6 @@
 import { useState, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
@@ -7,11 +8,17 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Search, TrendingUp, TrendingDown, Package, Filter, ArrowUpDown, Gem, Flame, Leaf, AlertTriangle } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Search, TrendingUp, TrendingDown, Package, Filter, ArrowUpDown, Gem, Flame, Leaf, AlertTriangle, LineChart } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
+import { PriceSparkline } from '@/components/PriceSparkline';
+import { CommodityPriceChart } from '@/components/CommodityPriceChart';
+import { useCommoditySparklines } from '@/hooks/useCommodityPriceHistory';
+import type { Tables } from '@/integrations/supabase/types';
 
 type SortField = 'name' | 'category' | 'buy_price_avg' | 'sell_price_avg' | 'profit';
 type SortDir = 'asc' | 'desc';
+type Commodity = Tables<'commodities'>;
 
 export default function Commodities() {
   const { t } = useTranslation();
@@ -20,6 +27,7 @@ export default function Commodities() {
   const [showIllegal, setShowIllegal] = useState<string>('all');
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortDir, setSortDir] = useState<SortDir>('asc');
+  const [chartCommodity, setChartCommodity] = useState<Commodity | null>(null);
 
   const { data: commodities, isLoading } = useQuery({
     queryKey: ['commodities'],
@@ -33,6 +41,8 @@ export default function Commodities() {
     },
   });
 
+  const { data: sparklines } = useCommoditySparklines(30);
+
   const categories = useMemo(() => {
     if (!commodities) return [];
     const cats = new Set(commodities.map(c => c.category).filter(Boolean));
@@ -229,6 +239,7 @@ export default function Commodities() {
                     Profit/SCU <ArrowUpDown className="w-3 h-3" />
                   </Button>
                 </TableHead>
+                <TableHead>Tendance 30j</TableHead>
                 <TableHead>Tags</TableHead>
               </TableRow>
             </TableHeader>
@@ -236,14 +247,14 @@ export default function Commodities() {
               {isLoading ? (
                 Array.from({ length: 10 }).map((_, i) => (
                   <TableRow key={i} className="border-border/30">
-                    <TableCell colSpan={6}>
+                    <TableCell colSpan={7}>
                       <div className="h-6 bg-muted/30 rounded animate-pulse" />
                     </TableCell>
                   </TableRow>
                 ))
               ) : filtered.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground py-12">
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-12">
                     {commodities?.length === 0 
                       ? "Aucune donnée. Lance une sync depuis le panel admin." 
                       : "Aucun résultat pour ces filtres."}
@@ -252,12 +263,15 @@ export default function Commodities() {
               ) : (
                 filtered.map((commodity) => {
                   const profit = (Number(commodity.sell_price_avg) || 0) - (Number(commodity.buy_price_avg) || 0);
+                  const sparkline = sparklines?.get(commodity.id);
                   return (
                     <TableRow key={commodity.id} className="border-border/30 hover:bg-muted/20">
                       <TableCell className="font-medium">
                         <div className="flex items-center gap-2">
                           {getCategoryIcon(commodity.category)}
-                          <span>{commodity.name}</span>
+                          <Link to={`/commodities/${commodity.slug}`} className="hover:text-primary hover:underline">
+                            {commodity.name}
+                          </Link>
                           {commodity.code && (
                             <span className="text-xs text-muted-foreground">({commodity.code})</span>
                           )}
@@ -286,6 +300,17 @@ export default function Commodities() {
                           </span>
                         ) : '—'}
                       </TableCell>
+                      <TableCell>
+                        <button
+                          type="button"
+                          onClick={() => setChartCommodity(commodity)}
+                          className="flex items-center gap-1 rounded hover:bg-muted/40 px-1 -mx-1"
+                          title="Voir l'historique des prix"
+                        >
+                          <PriceSparkline values={sparkline?.sellPrices.some(v => v > 0) ? sparkline.sellPrices : sparkline?.buyPrices ?? []} />
+                          <LineChart className="w-3 h-3 text-muted-foreground" />
+                        </button>
+                      </TableCell>
                       <TableCell>
                         <div className="flex gap-1 flex-wrap">
                           {commodity.is_illegal && (
@@ -308,6 +333,18 @@ export default function Commodities() {
         </div>
       </Card>
 
+      <Dialog open={!!chartCommodity} onOpenChange={(open) => !open && setChartCommodity(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{chartCommodity?.name} — Historique des prix</DialogTitle>
+            <DialogDescription>
+              Moyennes UEX et meilleurs prix terminaux relevés à chaque synchronisation
+            </DialogDescription>
+          </DialogHeader>
+          {chartCommodity && <CommodityPriceChart commodityId={chartCommodity.id} />}
+        </DialogContent>
+      </Dialog>
+
       <p className="text-xs text-muted-foreground text-center">
         Données fournies par UEX Corp • Les prix sont des moyennes communautaires
       </p>
@@ -0,0 +1,287 @@
+import { useState, useMemo } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, MapPin, TrendingUp, TrendingDown, Package, LineChart } from 'lucide-react';
+import { CommodityPriceChart } from '@/components/CommodityPriceChart';
+import { formatTerminalLocation, getLocationGroupKey, LOCATION_LEVEL_LABELS, type LocationLevel } from '@/lib/terminalUtils';
+
+type SortMode = 'best_buy' | 'best_sell' | 'scu_buy' | 'scu_sell';
+type GroupMode = 'none' | LocationLevel;
+
+const SORT_LABELS: Record<SortMode, string> = {
+  best_buy: 'Meilleur achat',
+  best_sell: 'Meilleure vente',
+  scu_buy: 'Stock disponible',
+  scu_sell: 'Demande (SCU)',
+};
+
+export default function CommodityDetail() {
+  const { slug } = useParams<{ slug: string }>();
+  const [sortMode, setSortMode] = useState<SortMode>('best_sell');
+  const [groupMode, setGroupMode] = useState<GroupMode>('star_system');
+
+  const { data: commodity, isLoading } = useQuery({
+    queryKey: ['commodity', slug],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('commodities')
+        .select('*')
+        .eq('slug', slug!)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!slug,
+  });
+
+  const { data: prices, isLoading: loadingPrices } = useQuery({
+    queryKey: ['commodity-prices', commodity?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('commodity_prices')
+        .select('*, terminals(id, name, slug, type, star_system, planet, moon, space_station)')
+        .eq('commodity_id', commodity!.id);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!commodity,
+  });
+
+  const sorted = useMemo(() => {
+    if (!prices) return [];
+    const value = (p: (typeof prices)[number]) => {
+      switch (sortMode) {
+        case 'best_buy': return Number(p.price_buy) || null;
+        case 'best_sell': return Number(p.price_sell) || null;
+        case 'scu_buy': return p.scu_buy || null;
+        case 'scu_sell': return p.scu_sell || null;
+      }
+    };
+    // Best buy is the lowest price, everything else is "higher is better"; empty values always go last
+    const ascending = sortMode === 'best_buy';
+    return [...prices].sort((a, b) => {
+      const valA = value(a);
+      const valB = value(b);
+      if (valA == null && valB == null) return (a.terminals?.name || '').localeCompare(b.terminals?.name || '');
+      if (valA == null) return 1;
+      if (valB == null) return -1;
+      return ascending ? valA - valB : valB - valA;
+    });
+  }, [prices, sortMode]);
+
+  // Groups keep the order of their best-ranked terminal
+  const groups = useMemo(() => {
+    if (groupMode === 'none') return [{ key: 'all', rows: sorted }];
+    const map = new Map<string, typeof sorted>();
+    for (const row of sorted) {
+      const key = getLocationGroupKey(row.terminals, groupMode);
+      if (!map.has(key)) map.set(key, []);
+      map.get(key)!.push(row);
+    }
+    return Array.from(map.entries()).map(([key, rows]) => ({ key, rows }));
+  }, [sorted, groupMode]);
+
+  const summary = useMemo(() => {
+    if (!prices) return null;
+    const buys = prices.filter(p => Number(p.price_buy) > 0);
+    const sells = prices.filter(p => Number(p.price_sell) > 0);
+    const bestBuy = buys.reduce<(typeof prices)[number] | null>((best, p) => !best || Number(p.price_buy) < Number(best.price_buy) ? p : best, null);
+    const bestSell = sells.reduce<(typeof prices)[number] | null>((best, p) => !best || Number(p.price_sell) > Number(best.price_sell) ? p : best, null);
+    return {
+      bestBuy,
+      bestSell,
+      totalStock: buys.reduce((sum, p) => sum + (p.scu_buy || 0), 0),
+      terminals: prices.length,
+    };
+  }, [prices]);
+
+  const formatPrice = (price: number | null) => {
+    if (!price) return '—';
+    return `${Number(price).toLocaleString()} aUEC`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-10 w-48" />
+        <Skeleton className="h-64 w-full" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (!commodity) {
+    return (
+      <div className="space-y-6">
+        <Link to="/commodities">
+          <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> Retour aux commodités</Button>
+        </Link>
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-12 text-center text-muted-foreground">Commodité introuvable.</CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const margin = summary?.bestBuy && summary?.bestSell
+    ? Number(summary.bestSell.price_sell) - Number(summary.bestBuy.price_buy)
+    : null;
+
+  return (
+    <div className="space-y-6">
+      <Link to="/commodities">
+        <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> Retour aux commodités</Button>
+      </Link>
+
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          {commodity.name} {commodity.code && <span className="text-lg text-muted-foreground">({commodity.code})</span>}
+        </h1>
+        <div className="flex gap-1 flex-wrap">
+          {commodity.category && <Badge variant="secondary" className="text-xs">{commodity.category}</Badge>}
+          {commodity.is_illegal && <Badge variant="destructive" className="text-xs">Illégal</Badge>}
+          {commodity.is_raw && <Badge className="text-xs bg-amber-600/20 text-amber-400 border-amber-600/30">Brut</Badge>}
+          {commodity.is_harvestable && <Badge className="text-xs bg-green-600/20 text-green-400 border-green-600/30">Récoltable</Badge>}
+        </div>
+      </div>
+
+      {/* Summary cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground flex items-center gap-1"><TrendingDown className="w-3 h-3" /> Meilleur achat</p>
+            <p className="text-lg font-bold font-mono text-green-400">{formatPrice(Number(summary?.bestBuy?.price_buy))}</p>
+            <p className="text-xs text-muted-foreground truncate">{summary?.bestBuy?.terminals?.name || '—'}</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground flex items-center gap-1"><TrendingUp className="w-3 h-3" /> Meilleure vente</p>
+            <p className="text-lg font-bold font-mono text-accent">{formatPrice(Number(summary?.bestSell?.price_sell))}</p>
+            <p className="text-xs text-muted-foreground truncate">{summary?.bestSell?.terminals?.name || '—'}</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground">Marge max / SCU</p>
+            <p className={`text-lg font-bold font-mono ${margin != null && margin > 0 ? 'text-green-400' : 'text-destructive'}`}>
+              {margin != null ? `${margin > 0 ? '+' : ''}${margin.toLocaleString()} aUEC` : '—'}
+            </p>
+          </CardContent>
+        </Card>
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground flex items-center gap-1"><Package className="w-3 h-3" /> Stock total</p>
+            <p className="text-lg font-bold font-mono">{(summary?.totalStock || 0).toLocaleString()} SCU</p>
+            <p className="text-xs text-muted-foreground">{summary?.terminals || 0} terminaux</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Price history */}
+      <Card className="bg-card/60 border-border/50">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2"><LineChart className="w-4 h-4 text-primary" /> Historique des prix</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CommodityPriceChart commodityId={commodity.id} />
+        </CardContent>
+      </Card>
+
+      {/* Controls */}
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="p-4">
+          <div className="flex flex-col md:flex-row gap-3">
+            <Select value={sortMode} onValueChange={(v) => setSortMode(v as SortMode)}>
+              <SelectTrigger className="w-full md:w-[200px] bg-background/50"><SelectValue placeholder="Trier par" /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SORT_LABELS) as SortMode[]).map(mode => (
+                  <SelectItem key={mode} value={mode}>{SORT_LABELS[mode]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={groupMode} onValueChange={(v) => setGroupMode(v as GroupMode)}>
+              <SelectTrigger className="w-full md:w-[200px] bg-background/50"><SelectValue placeholder="Grouper par" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Sans regroupement</SelectItem>
+                {(Object.keys(LOCATION_LEVEL_LABELS) as LocationLevel[]).map(level => (
+                  <SelectItem key={level} value={level}>Par {LOCATION_LEVEL_LABELS[level].toLowerCase()}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Terminals table */}
+      <Card className="bg-card/60 border-border/50 overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent border-border/50">
+                <TableHead>Terminal</TableHead>
+                <TableHead>Localisation</TableHead>
+                <TableHead className="text-right">Prix Achat</TableHead>
+                <TableHead className="text-right">Stock (SCU)</TableHead>
+                <TableHead className="text-right">Prix Vente</TableHead>
+                <TableHead className="text-right">Demande (SCU)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loadingPrices ? (
+                Array.from({ length: 6 }).map((_, i) => (
+                  <TableRow key={i} className="border-border/30">
+                    <TableCell colSpan={6}><div className="h-6 bg-muted/30 rounded animate-pulse" /></TableCell>
+                  </TableRow>
+                ))
+              ) : sorted.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-12">
+                    Aucun terminal ne traite cette commodité.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                groups.map(group => [
+                  groupMode !== 'none' && (
+                    <TableRow key={`group-${group.key}`} className="bg-muted/20 hover:bg-muted/20 border-border/50">
+                      <TableCell colSpan={6} className="py-2 text-xs font-semibold text-primary">
+                        <MapPin className="w-3 h-3 inline mr-1" />{group.key}
+                        <span className="text-muted-foreground font-normal ml-2">({group.rows.length})</span>
+                      </TableCell>
+                    </TableRow>
+                  ),
+                  ...group.rows.map(p => (
+                    <TableRow key={p.id} className="border-border/30 hover:bg-muted/20">
+                      <TableCell className="font-medium">
+                        {p.terminals ? (
+                          <Link to={`/terminals/${p.terminals.slug}`} className="hover:text-primary hover:underline">{p.terminals.name}</Link>
+                        ) : '—'}
+                        {p.terminals?.type && <Badge variant="outline" className="text-xs ml-2">{p.terminals.type}</Badge>}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-sm">{formatTerminalLocation(p.terminals)}</TableCell>
+                      <TableCell className="text-right font-mono text-sm text-green-400">{formatPrice(Number(p.price_buy))}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">{p.scu_buy ? p.scu_buy.toLocaleString() : '—'}</TableCell>
+                      <TableCell className="text-right font-mono text-sm text-accent">{formatPrice(Number(p.price_sell))}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">{p.scu_sell ? p.scu_sell.toLocaleString() : '—'}</TableCell>
+                    </TableRow>
+                  )),
+                ])
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      <p className="text-xs text-muted-foreground text-center">
+        Données fournies par UEX Corp • Prix relevés par la communauté, mis à jour à chaque sync
+      </p>
+    </div>
+  );
+}
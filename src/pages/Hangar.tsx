@@ -0,0 +1,284 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Plus, Save, Search, X, Warehouse, Wrench } from 'lucide-react';
+import { useHangar } from '@/hooks/useHangar';
+import { useLoadouts } from '@/hooks/useLoadouts';
+import { HangarOverview } from '@/components/HangarOverview';
+import { FleetImportExport } from '@/components/FleetImportExport';
+import { INSURANCE_OPTIONS } from '@/lib/hangar';
+
+type ShipOption = { id: number; slug: string; name: string; manufacturer: string | null };
+type HangarRow = ReturnType<typeof useHangar>['ships'][number];
+
+const NO_INSURANCE = 'unknown';
+const NO_LOADOUT = 'none';
+
+export default function Hangar() {
+  const { user } = useAuth();
+  const { ships, isLoading, addShip, importShips, updateShip, removeShip, setHangarPublic } = useHangar(user?.id);
+
+  const [search, setSearch] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [ship, setShip] = useState<ShipOption | null>(null);
+  const [acquisition, setAcquisition] = useState('pledged');
+  const [insurance, setInsurance] = useState(NO_INSURANCE);
+  const [nickname, setNickname] = useState('');
+  const [loadoutNotes, setLoadoutNotes] = useState('');
+  const [loadoutId, setLoadoutId] = useState(NO_LOADOUT);
+
+  const { data: profile } = useQuery({
+    queryKey: ['profile', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('profiles').select('*').eq('id', user!.id).single();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const { data: shipOptions } = useQuery({
+    // Not the shared 'ships-list' key: that one is cached without the id
+    queryKey: ['ship-options'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('ships').select('id, slug, name, manufacturer').order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // The pilot's own loadouts for the hull, then the public ones
+  const { loadouts } = useLoadouts(ship?.id);
+  const loadoutOptions = useMemo(
+    () => [...loadouts].sort((a, b) => Number(b.user_id === user?.id) - Number(a.user_id === user?.id)),
+    [loadouts, user?.id],
+  );
+
+  const suggestions = useMemo(() => {
+    if (!shipOptions || search.length < 2) return [];
+    const q = search.toLowerCase();
+    return shipOptions.filter(s => s.name.toLowerCase().includes(q) || s.manufacturer?.toLowerCase().includes(q)).slice(0, 8);
+  }, [shipOptions, search]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setShip(null);
+    setAcquisition('pledged');
+    setInsurance(NO_INSURANCE);
+    setNickname('');
+    setLoadoutNotes('');
+    setLoadoutId(NO_LOADOUT);
+    setSearch('');
+  };
+
+  const startEdit = (entry: HangarRow) => {
+    setEditingId(entry.id);
+    setShip(entry.ships ? { id: entry.ships.id, slug: entry.ships.slug, name: entry.ships.name, manufacturer: entry.ships.manufacturer } : null);
+    setAcquisition(entry.acquisition);
+    setInsurance(entry.insurance || NO_INSURANCE);
+    setNickname(entry.nickname || '');
+    setLoadoutNotes(entry.loadout_notes || '');
+    setLoadoutId(entry.loadout_id ? String(entry.loadout_id) : NO_LOADOUT);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleSubmit = () => {
+    if (!ship) return;
+    const values = {
+      ship_id: ship.id,
+      acquisition,
+      insurance: insurance === NO_INSURANCE ? null : insurance,
+      nickname: nickname.trim() || null,
+      loadout_notes: loadoutNotes.trim() || null,
+      loadout_id: loadoutId === NO_LOADOUT ? null : Number(loadoutId),
+    };
+    if (editingId) updateShip.mutate({ id: editingId, ...values }, { onSuccess: resetForm });
+    else addShip.mutate(values, { onSuccess: resetForm });
+  };
+
+  if (!user) {
+    return (
+      <div className="space-y-6">
+        <Link to="/ships">
+          <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> Retour aux vaisseaux</Button>
+        </Link>
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-12 text-center text-muted-foreground space-y-4">
+            <p>Connecte-toi pour gérer ton hangar.</p>
+            <Link to="/auth"><Button>Se connecter</Button></Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link to="/profile">
+        <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> Retour au profil</Button>
+      </Link>
+
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-accent to-secondary bg-clip-text text-transparent">
+            Mon hangar
+          </h1>
+          <p className="text-muted-foreground text-sm">
+            Les vaisseaux que tu possèdes, achetés en pledge ou en jeu • Ton hangar apparaît sur ton profil pilote
+          </p>
+        </div>
+        {profile && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="hangar-public"
+              checked={profile.hangar_public}
+              onCheckedChange={(checked) => setHangarPublic.mutate(checked)}
+            />
+            <Label htmlFor="hangar-public">{profile.hangar_public ? 'Hangar public' : 'Hangar privé'}</Label>
+          </div>
+        )}
+      </div>
+
+      {/* Add / edit */}
+      <Card className="bg-card/60 border-border/50">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Plus className="w-4 h-4 text-primary" /> {editingId ? 'Modifier le vaisseau' : 'Ajouter un vaisseau'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {ship ? (
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant="secondary" className="gap-1">
+                {ship.name}{ship.manufacturer && <> • {ship.manufacturer}</>}
+                <button type="button" onClick={() => { setShip(null); setLoadoutId(NO_LOADOUT); }} aria-label="Retirer le vaisseau"><X className="w-3 h-3" /></button>
+              </Badge>
+            </div>
+          ) : (
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Chercher un vaisseau..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10 bg-background/50"
+              />
+              {suggestions.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full rounded-md border border-border bg-popover shadow-md">
+                  {suggestions.map(option => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => { setShip(option); setSearch(''); }}
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-muted/50 flex justify-between gap-2"
+                    >
+                      <span className="truncate">{option.name}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">{option.manufacturer || ''}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label>Acquisition</Label>
+              <Select value={acquisition} onValueChange={setAcquisition}>
+                <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pledged">Pledge</SelectItem>
+                  <SelectItem value="ingame">Acheté en jeu</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Assurance</Label>
+              <Select value={insurance} onValueChange={setInsurance}>
+                <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_INSURANCE}>Non renseignée</SelectItem>
+                  {INSURANCE_OPTIONS.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Surnom</Label>
+              <Input value={nickname} onChange={(e) => setNickname(e.target.value)} placeholder="Optionnel" className="bg-background/50" />
+            </div>
+          </div>
+
+          {ship && (
+            <div className="space-y-2">
+              <Label>Loadout</Label>
+              <div className="flex gap-2">
+                <Select value={loadoutId} onValueChange={setLoadoutId}>
+                  <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_LOADOUT}>Aucun</SelectItem>
+                    {loadoutOptions.map(loadout => (
+                      <SelectItem key={loadout.id} value={String(loadout.id)}>
+                        {loadout.name}{loadout.user_id !== user.id && loadout.profiles ? ` • ${loadout.profiles.display_name}` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Link to={`/loadouts/new?ship=${ship.slug}`}>
+                  <Button variant="outline" className="gap-2"><Wrench className="w-4 h-4" /> Composer</Button>
+                </Link>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Notes de loadout</Label>
+            <Textarea
+              value={loadoutNotes}
+              onChange={(e) => setLoadoutNotes(e.target.value)}
+              placeholder="Armes, composants, modules..."
+              className="bg-background/50"
+              rows={2}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleSubmit} disabled={!ship || addShip.isPending || updateShip.isPending} className="gap-2">
+              {editingId ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+              {editingId ? 'Enregistrer' : 'Ajouter au hangar'}
+            </Button>
+            {editingId && <Button variant="ghost" onClick={resetForm}>Annuler</Button>}
+          </div>
+        </CardContent>
+      </Card>
+
+      <FleetImportExport entries={ships} importShips={importShips} />
+
+      {/* Fleet */}
+      <Card className="bg-card/60 border-border/50">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2"><Warehouse className="w-4 h-4 text-primary" /> Flotte ({ships.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-40 w-full" />
+          ) : (
+            <HangarOverview entries={ships} onEdit={startEdit} onRemove={(entry) => removeShip.mutate(entry.id)} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent } from '@/components/ui/card';
+import { ArrowLeft } from 'lucide-react';
+import { fetchAllRows } from '@/lib/supabasePaging';
+import { cheapestPrices } from '@/lib/loadout';
+import { compareItems, itemCompareCategory, type ItemSort } from '@/lib/items';
+
+const ALL_SIZES = 'all';
+
+/** /items/compare?category=&size=&sort= lines up every item of a category and size */
+export default function ItemCompare() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const category = searchParams.get('category') ?? '';
+  const size = searchParams.get('size');
+  const sort: ItemSort = searchParams.get('sort') === 'price' ? 'price' : 'grade';
+
+  const { data: items, isLoading } = useQuery({
+    queryKey: ['item-compare-items'],
+    queryFn: () => fetchAllRows(async (from, to) => {
+      const { data, error } = await supabase
+        .from('game_items')
+        .select('id, slug, name, category, sub_category, size, grade, manufacturer, buy_price_avg, sell_price_avg')
+        .order('id')
+        .range(from, to);
+      if (error) throw error;
+      return data;
+    }),
+  });
+
+  // Only categories where sizes make a comparison meaningful
+  const categories = useMemo(
+    () => Array.from(new Set((items || []).filter(i => i.size).map(itemCompareCategory).filter(Boolean))).sort() as string[],
+    [items],
+  );
+
+  const sizes = useMemo(
+    () => Array.from(new Set((items || []).filter(i => itemCompareCategory(i) === category && i.size).map(i => i.size!)))
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
+    [items, category],
+  );
+
+  const candidates = useMemo(() => compareItems(items || [], category, size, new Map(), sort), [items, category, size, sort]);
+  const itemIds = useMemo(() => candidates.map(i => i.id).sort((a, b) => a - b), [candidates]);
+
+  const { data: offers } = useQuery({
+    queryKey: ['item-compare-offers', itemIds],
+    queryFn: () => fetchAllRows(async (from, to) => {
+      const { data, error } = await supabase
+        .from('item_prices')
+        .select('item_id, price_buy')
+        .in('item_id', itemIds)
+        .gt('price_buy', 0)
+        .order('id')
+        .range(from, to);
+      if (error) throw error;
+      return data;
+    }),
+    enabled: itemIds.length > 0,
+  });
+
+  const prices = useMemo(() => cheapestPrices(offers || []), [offers]);
+  const rows = useMemo(() => compareItems(candidates, category, size, prices, sort), [candidates, category, size, prices, sort]);
+  const cheapest = useMemo(() => Math.min(...rows.map(i => prices.get(i.id) ?? Infinity)), [rows, prices]);
+
+  const setParam = (key: string, value: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(key, value);
+    else next.delete(key);
+    if (key === 'category') next.delete('size');
+    setSearchParams(next, { replace: true });
+  };
+
+  const formatPrice = (price: number | null) => {
+    if (!price) return '—';
+    return `${Number(price).toLocaleString()} aUEC`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link to="/items">
+        <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> Retour aux objets</Button>
+      </Link>
+
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-secondary to-primary bg-clip-text text-transparent">
+          Comparateur d'objets
+        </h1>
+        <p className="text-muted-foreground text-sm">
+          Tous les objets d'une catégorie et d'une taille, classés par grade ou par prix • Données UEX
+        </p>
+      </div>
+
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="p-4 flex flex-col md:flex-row gap-3">
+          <Select value={category || undefined} onValueChange={(value) => setParam('category', value)}>
+            <SelectTrigger className="w-full md:w-[240px] bg-background/50"><SelectValue placeholder="Catégorie" /></SelectTrigger>
+            <SelectContent>
+              {categories.map(cat => <SelectItem key={cat} value={cat}>{cat}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={size ?? ALL_SIZES} onValueChange={(value) => setParam('size', value === ALL_SIZES ? null : value)} disabled={!category}>
+            <SelectTrigger className="w-full md:w-[160px] bg-background/50"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_SIZES}>Toutes tailles</SelectItem>
+              {sizes.map(s => <SelectItem key={s} value={s}>Taille {s}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <div className="flex gap-2">
+            <Button variant={sort === 'grade' ? 'default' : 'ghost'} size="sm" onClick={() => setParam('sort', null)}>Par grade</Button>
+            <Button variant={sort === 'price' ? 'default' : 'ghost'} size="sm" onClick={() => setParam('sort', 'price')}>Par prix</Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card/60 border-border/50 overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent border-border/50">
+                <TableHead>Nom</TableHead>
+                <TableHead>Fabricant</TableHead>
+                <TableHead>Taille</TableHead>
+                <TableHead>Grade</TableHead>
+                <TableHead className="text-right">Meilleur prix</TableHead>
+                <TableHead className="text-right">Prix moyen</TableHead>
+                <TableHead className="text-right">Revente</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                Array.from({ length: 6 }).map((_, i) => (
+                  <TableRow key={i} className="border-border/30">
+                    <TableCell colSpan={7}><div className="h-6 bg-muted/30 rounded animate-pulse" /></TableCell>
+                  </TableRow>
+                ))
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-12">
+                    {category ? 'Aucun objet pour cette taille.' : 'Choisis une catégorie à comparer.'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map(item => {
+                  const price = prices.get(item.id) ?? null;
+                  return (
+                    <TableRow key={item.id} className="border-border/30 hover:bg-muted/20">
+                      <TableCell className="font-medium">
+                        <Link to={`/items/${item.slug}`} className="hover:text-primary hover:underline">{item.name}</Link>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-sm">{item.manufacturer || '—'}</TableCell>
+                      <TableCell>{item.size && <Badge variant="outline" className="text-xs">{item.size}</Badge>}</TableCell>
+                      <TableCell>{item.grade && <Badge variant="outline" className="text-xs">{item.grade}</Badge>}</TableCell>
+                      <TableCell className="text-right font-mono text-sm text-green-400">
+                        {price !== null && price === cheapest && <Badge className="text-[10px] mr-2">Le moins cher</Badge>}
+                        {formatPrice(price)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatPrice(Number(item.buy_price_avg))}</TableCell>
+                      <TableCell className="text-right font-mono text-sm text-accent">{formatPrice(Number(item.sell_price_avg))}</TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, MapPin, Rocket, Scale, Wrench } from 'lucide-react';
+import { ItemWhereToBuy } from '@/components/ItemWhereToBuy';
+import { HARDPOINT_GROUPS, fittingSlots, matchesGroup } from '@/lib/loadout';
+import { itemCompareUrl } from '@/lib/items';
+
+export default function ItemDetail() {
+  const { slug } = useParams<{ slug: string }>();
+
+  const { data: item, isLoading } = useQuery({
+    queryKey: ['game-item', slug],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('game_items').select('*').eq('slug', slug!).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!slug,
+  });
+
+  // Only ship components have hardpoints to look for
+  const isComponent = !!item && HARDPOINT_GROUPS.some(group => matchesGroup(item, group));
+
+  const { data: ships, isLoading: loadingShips } = useQuery({
+    queryKey: ['ship-hardpoints'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ships')
+        .select('id, slug, name, manufacturer, image_url, armament, systems')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: isComponent,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const fittingShips = useMemo(() => {
+    if (!item || !ships) return [];
+    return ships.flatMap(ship => {
+      const slots = fittingSlots(ship, item);
+      return slots.length > 0 ? [{ ship, slots: slots.reduce((sum, slot) => sum + slot.count, 0) }] : [];
+    });
+  }, [item, ships]);
+
+  const formatPrice = (price: number | null) => {
+    if (!price) return '—';
+    return `${Number(price).toLocaleString()} aUEC`;
+  };
+
+  const back = (
+    <Link to="/items">
+      <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> Retour aux objets</Button>
+    </Link>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        {back}
+        <Skeleton className="h-10 w-1/3" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  if (!item) {
+    return (
+      <div className="space-y-6">
+        {back}
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-12 text-center text-muted-foreground">Objet introuvable</CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const tiles = [
+    { label: 'Section', value: item.category || '—' },
+    { label: 'Catégorie', value: item.sub_category || '—' },
+    { label: 'Taille', value: item.size || '—' },
+    { label: 'Grade', value: item.grade || '—' },
+    { label: 'Fabricant', value: item.manufacturer || '—' },
+    { label: 'Prix achat moyen', value: formatPrice(Number(item.buy_price_avg)) },
+    { label: 'Prix vente moyen', value: formatPrice(Number(item.sell_price_avg)) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {back}
+
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-secondary to-primary bg-clip-text text-transparent">
+            {item.name}
+          </h1>
+          <div className="flex flex-wrap gap-1">
+            {item.category && <Badge variant="secondary" className="text-xs">{item.category}</Badge>}
+            {item.sub_category && item.sub_category !== item.category && <Badge variant="outline" className="text-xs">{item.sub_category}</Badge>}
+            {item.size && <Badge variant="outline" className="text-xs">{item.size}</Badge>}
+            {item.grade && <Badge variant="outline" className="text-xs">{item.grade}</Badge>}
+          </div>
+        </div>
+        <Link to={itemCompareUrl(item)}>
+          <Button variant="outline" size="sm" className="gap-2"><Scale className="w-4 h-4" /> Comparer avec la même taille</Button>
+        </Link>
+      </div>
+
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+            {tiles.map(tile => (
+              <div key={tile.label} className="space-y-1">
+                <p className="text-xs sm:text-sm text-muted-foreground">{tile.label}</p>
+                <p className="text-sm sm:text-base font-bold text-primary break-words">{tile.value}</p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card/60 border-border/50">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2"><MapPin className="w-4 h-4 text-primary" /> Où acheter</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ItemWhereToBuy itemId={item.id} />
+        </CardContent>
+      </Card>
+
+      {isComponent && (
+        <Card className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Rocket className="w-4 h-4 text-primary" /> Vaisseaux compatibles ({fittingShips.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loadingShips ? (
+              <Skeleton className="h-24 w-full" />
+            ) : fittingShips.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Aucun emplacement de vaisseau connu n'accepte cet objet</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                {fittingShips.map(({ ship, slots }) => (
+                  <div key={ship.id} className="flex items-center gap-3 border border-border rounded-lg p-2">
+                    <img
+                      src={ship.image_url || `${import.meta.env.BASE_URL}placeholder.svg`}
+                      alt={ship.name}
+                      className="w-16 h-10 object-cover rounded bg-muted shrink-0"
+                      loading="lazy"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <Link to={`/ships/${ship.slug}`} className="text-sm font-medium hover:text-primary hover:underline truncate block">{ship.name}</Link>
+                      <p className="text-xs text-muted-foreground">{slots} emplacement(s)</p>
+                    </div>
+                    <Link to={`/loadouts/new?ship=${ship.slug}`} aria-label="Composer un loadout">
+                      <Button variant="ghost" size="icon" className="h-8 w-8"><Wrench className="w-4 h-4" /></Button>
+                    </Link>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Input } from '@/components/ui/input';
@@ -7,9 +8,13 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Card, CardContent } from '@/components/ui/card';
-import { Search, ArrowUpDown, Sword, Shield, Cpu, Apple, Pill, Wrench, Package } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Search, ArrowUpDown, Sword, Shield, Cpu, Apple, Pill, Wrench, Package, MapPin, ShoppingCart, Scale } from 'lucide-react';
+import { ItemWhereToBuy } from '@/components/ItemWhereToBuy';
+import type { Tables } from '@/integrations/supabase/types';
 
 type SortField = 'name' | 'category' | 'manufacturer' | 'buy_price_avg' | 'sell_price_avg';
+type GameItem = Tables<'game_items'>;
 
 export default function Items() {
   const [search, setSearch] = useState('');
@@ -17,6 +22,7 @@ export default function Items() {
   const [manufacturerFilter, setManufacturerFilter] = useState<string>('all');
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('asc');
+  const [shopItem, setShopItem] = useState<GameItem | null>(null);
 
   const { data: items, isLoading } = useQuery({
     queryKey: ['game-items'],
@@ -91,13 +97,23 @@ export default function Items() {
 
   return (
     <div className="space-y-6">
-      <div className="flex flex-col gap-2">
-        <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-secondary to-primary bg-clip-text text-transparent">
-          Items Database
-        </h1>
-        <p className="text-muted-foreground text-sm">
-          Armes, armures, composants et équipements Star Citizen • Données UEX
-        </p>
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-2">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-secondary to-primary bg-clip-text text-transparent">
+            Items Database
+          </h1>
+          <p className="text-muted-foreground text-sm">
+            Armes, armures, composants et équipements Star Citizen • Données UEX
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link to="/items/compare">
+            <Button variant="outline" size="sm" className="gap-2"><Scale className="w-4 h-4" /> Comparer</Button>
+          </Link>
+          <Link to="/items/shopping-list">
+            <Button variant="outline" size="sm" className="gap-2"><ShoppingCart className="w-4 h-4" /> Liste d'achats</Button>
+          </Link>
+        </div>
       </div>
 
       {/* Stats */}
@@ -180,18 +196,19 @@ export default function Items() {
                     Prix Vente <ArrowUpDown className="w-3 h-3" />
                   </Button>
                 </TableHead>
+                <TableHead className="text-right">Où acheter</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {isLoading ? (
                 Array.from({ length: 10 }).map((_, i) => (
                   <TableRow key={i} className="border-border/30">
-                    <TableCell colSpan={6}><div className="h-6 bg-muted/30 rounded animate-pulse" /></TableCell>
+                    <TableCell colSpan={7}><div className="h-6 bg-muted/30 rounded animate-pulse" /></TableCell>
                   </TableRow>
                 ))
               ) : filtered.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground py-12">
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-12">
                     {items?.length === 0 ? "Aucun objet. Lance la sync items depuis l'admin." : "Aucun résultat."}
                   </TableCell>
                 </TableRow>
@@ -201,7 +218,7 @@ export default function Items() {
                     <TableCell className="font-medium">
                       <div className="flex items-center gap-2">
                         {getCategoryIcon(item.category)}
-                        <span className="truncate max-w-[250px]">{item.name}</span>
+                        <Link to={`/items/${item.slug}`} className="truncate max-w-[250px] hover:text-primary hover:underline">{item.name}</Link>
                       </div>
                     </TableCell>
                     <TableCell>
@@ -221,6 +238,11 @@ export default function Items() {
                     <TableCell className="text-right font-mono text-sm text-accent">
                       {formatPrice(Number(item.sell_price_avg))}
                     </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => setShopItem(item)} className="gap-1 text-xs">
+                        <MapPin className="w-3 h-3" /> Terminaux
+                      </Button>
+                    </TableCell>
                   </TableRow>
                 ))
               )}
@@ -234,6 +256,18 @@ export default function Items() {
         )}
       </Card>
 
+      <Dialog open={!!shopItem} onOpenChange={(open) => !open && setShopItem(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{shopItem?.name} — Où acheter</DialogTitle>
+            <DialogDescription>
+              Terminaux qui vendent ou rachètent cet objet, avec le dernier prix relevé
+            </DialogDescription>
+          </DialogHeader>
+          {shopItem && <ItemWhereToBuy itemId={shopItem.id} />}
+        </DialogContent>
+      </Dialog>
+
       <p className="text-xs text-muted-foreground text-center">
         Données fournies par UEX Corp • Les prix sont des moyennes communautaires
       </p>
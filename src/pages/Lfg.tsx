@@ -0,0 +1,125 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Plus } from 'lucide-react';
+import { languages } from '@/i18n/languages';
+import { useLfg } from '@/hooks/useLfg';
+import { LfgListingCard } from '@/components/LfgListingCard';
+import { LfgListingForm } from '@/components/LfgListingForm';
+import { ALL, LFG_ACTIVITIES, filterListings, type LfgFilters } from '@/lib/lfg';
+
+export default function Lfg() {
+  const { user } = useAuth();
+  const { listings, isLoading, createListing, closeListing, requestSeat, withdrawRequest, answerRequest } = useLfg(user?.id);
+  const [creating, setCreating] = useState(false);
+  const [filters, setFilters] = useState<LfgFilters>({ activity: ALL, system: ALL, language: ALL });
+
+  const systems = useMemo(
+    () => Array.from(new Set(listings.map(l => l.star_system).filter(Boolean))).sort() as string[],
+    [listings],
+  );
+  const filtered = useMemo(() => filterListings(listings, filters), [listings, filters]);
+
+  const setFilter = (key: keyof LfgFilters) => (value: string) => setFilters(current => ({ ...current, [key]: value }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-accent to-secondary bg-clip-text text-transparent">
+            Recherche d'équipage
+          </h1>
+          <p className="text-muted-foreground text-sm">
+            Des places libres sur des vaisseaux multi-équipage • Les annonces expirent d'elles-mêmes peu après le départ
+          </p>
+        </div>
+        {user ? (
+          !creating && (
+            <Button className="gap-2" onClick={() => setCreating(true)}>
+              <Plus className="w-4 h-4" /> Chercher un équipage
+            </Button>
+          )
+        ) : (
+          <Link to="/auth"><Button variant="outline">Se connecter pour participer</Button></Link>
+        )}
+      </div>
+
+      {creating && user && (
+        <Card className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2"><Plus className="w-4 h-4 text-primary" /> Nouvelle annonce</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <LfgListingForm
+              userId={user.id}
+              pending={createListing.isPending}
+              onCancel={() => setCreating(false)}
+              onSubmit={(listing) => createListing.mutate(listing, { onSuccess: () => setCreating(false) })}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <Select value={filters.activity} onValueChange={setFilter('activity')}>
+          <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Toutes les activités</SelectItem>
+            {LFG_ACTIVITIES.map(a => (
+              <SelectItem key={a.value} value={a.value}>{a.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.system} onValueChange={setFilter('system')}>
+          <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Tous les systèmes</SelectItem>
+            {systems.map(system => (
+              <SelectItem key={system} value={system}>{system}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.language} onValueChange={setFilter('language')}>
+          <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Toutes les langues</SelectItem>
+            {languages.map(l => (
+              <SelectItem key={l.code} value={l.code}>{l.flag} {l.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="text-sm text-muted-foreground">{filtered.length} annonce(s)</div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {[...Array(4)].map((_, i) => <Skeleton key={i} className="h-48 w-full" />)}
+        </div>
+      ) : filtered.length === 0 ? (
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-12 text-center text-muted-foreground">Aucune annonce pour le moment</CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {filtered.map(listing => (
+            <LfgListingCard
+              key={listing.id}
+              listing={listing}
+              userId={user?.id}
+              requestSeat={requestSeat}
+              withdrawRequest={withdrawRequest}
+              answerRequest={answerRequest}
+              closeListing={closeListing}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
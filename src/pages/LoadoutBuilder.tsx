@@ -0,0 +1,214 @@
+import { useMemo, useState } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Link2, Search, Trash2 } from 'lucide-react';
+import { useLoadout } from '@/hooks/useLoadouts';
+import { LoadoutEditor } from '@/components/LoadoutEditor';
+import { loadoutUrl } from '@/lib/loadout';
+
+const SHIP_FIELDS = 'id, slug, name, manufacturer, image_url, armament, systems';
+
+/** /loadouts/new?ship=<slug> starts a loadout, /loadouts/:id opens a saved one (the permalink) */
+export default function LoadoutBuilder() {
+  const { id } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [search, setSearch] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const loadoutId = id ? Number(id) : undefined;
+  const { loadout, isLoading: loadingLoadout, saveLoadout, deleteLoadout } = useLoadout(loadoutId, user?.id);
+  const shipSlug = searchParams.get('ship');
+
+  const { data: ship, isLoading: loadingShip } = useQuery({
+    queryKey: ['loadout-ship', loadout?.ship_id ?? shipSlug],
+    queryFn: async () => {
+      const query = supabase.from('ships').select(SHIP_FIELDS);
+      const { data, error } = await (loadout ? query.eq('id', loadout.ship_id) : query.eq('slug', shipSlug!)).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: loadoutId ? !!loadout : !!shipSlug,
+  });
+
+  const { data: shipOptions } = useQuery({
+    queryKey: ['ship-options'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('ships').select('id, slug, name, manufacturer').order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !loadoutId,
+  });
+
+  const suggestions = useMemo(() => {
+    if (!shipOptions || search.length < 2) return [];
+    const q = search.toLowerCase();
+    return shipOptions.filter(s => s.name.toLowerCase().includes(q) || s.manufacturer?.toLowerCase().includes(q)).slice(0, 8);
+  }, [shipOptions, search]);
+
+  const isOwner = !!loadout && loadout.user_id === user?.id;
+  const readOnly = !!loadout && !isOwner;
+
+  const copyLink = async () => {
+    if (!loadoutId) return;
+    try {
+      await navigator.clipboard.writeText(loadoutUrl(loadoutId));
+      toast({ title: 'Lien copié' });
+    } catch {
+      toast({ title: 'Erreur', description: loadoutUrl(loadoutId), variant: 'destructive' });
+    }
+  };
+
+  const back = (
+    <Link to="/loadouts">
+      <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> Retour aux loadouts</Button>
+    </Link>
+  );
+
+  if (loadingLoadout || (loadingShip && (!!loadout || !!shipSlug))) {
+    return (
+      <div className="space-y-6">
+        {back}
+        <Skeleton className="h-10 w-1/3" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (loadoutId && !loadout) {
+    return (
+      <div className="space-y-6">
+        {back}
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-12 text-center text-muted-foreground">Loadout introuvable ou privé</CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {back}
+
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-secondary to-primary bg-clip-text text-transparent">
+            {loadout ? loadout.name : 'Nouveau loadout'}
+          </h1>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            {ship && (
+              <Link to={`/ships/${ship.slug}`} className="text-foreground hover:text-primary hover:underline">{ship.name}</Link>
+            )}
+            {loadout?.profiles && (
+              <span>
+                par <Link to={`/pilots/${loadout.profiles.handle}`} className="text-foreground hover:text-primary hover:underline">{loadout.profiles.display_name}</Link>
+              </span>
+            )}
+            {loadout && !loadout.is_public && <Badge variant="outline" className="text-xs">Privé</Badge>}
+          </div>
+          {loadout?.description && <p className="text-sm whitespace-pre-line">{loadout.description}</p>}
+        </div>
+        {loadout && (
+          <div className="flex gap-2">
+            {loadout.is_public && (
+              <Button variant="outline" size="sm" className="gap-2" onClick={copyLink}>
+                <Link2 className="w-4 h-4" /> Copier le lien
+              </Button>
+            )}
+            {isOwner && (
+              <Button variant="ghost" size="sm" className="gap-2 text-destructive" onClick={() => setConfirmDelete(true)}>
+                <Trash2 className="w-4 h-4" /> Supprimer
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {!ship ? (
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="pt-6 space-y-2">
+            {shipSlug && <p className="text-sm text-muted-foreground">Vaisseau introuvable</p>}
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Choisir un vaisseau..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10 bg-background/50"
+              />
+              {suggestions.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full rounded-md border border-border bg-popover shadow-md">
+                  {suggestions.map(option => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => { setSearchParams({ ship: option.slug }); setSearch(''); }}
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-muted/50 flex justify-between gap-2"
+                    >
+                      <span className="truncate">{option.name}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">{option.manufacturer || ''}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <LoadoutEditor
+          // A fresh editor per loadout and hull, so the pickers start from the saved slots
+          key={`${ship.id}-${loadout?.id ?? 'new'}`}
+          ship={ship}
+          loadout={loadout}
+          readOnly={readOnly}
+          canSave={!!user}
+          saving={saveLoadout.isPending}
+          onSave={(input) => saveLoadout.mutate(input, {
+            onSuccess: (savedId) => { if (savedId !== loadoutId) navigate(`/loadouts/${savedId}`, { replace: true }); },
+          })}
+        />
+      )}
+
+      {loadout && (
+        <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Supprimer {loadout.name} ?</AlertDialogTitle>
+              <AlertDialogDescription>Les vaisseaux du hangar qui l'utilisent n'auront plus de loadout.</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Annuler</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => deleteLoadout.mutate(undefined, { onSuccess: () => navigate('/loadouts') })}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Supprimer
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { useAuth } from '@/contexts/AuthContext';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent } from '@/components/ui/card';
+import { Plus, Search } from 'lucide-react';
+import { useLoadouts } from '@/hooks/useLoadouts';
+import { parseSelection } from '@/lib/loadout';
+
+export default function Loadouts() {
+  const { user } = useAuth();
+  const { loadouts, isLoading } = useLoadouts();
+  const [search, setSearch] = useState('');
+  const [mineOnly, setMineOnly] = useState(false);
+
+  const filtered = useMemo(() => {
+    const q = search.toLowerCase();
+    return loadouts.filter(l =>
+      (!mineOnly || l.user_id === user?.id) &&
+      (!q || l.name.toLowerCase().includes(q) || l.ships?.name.toLowerCase().includes(q)),
+    );
+  }, [loadouts, search, mineOnly, user?.id]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-secondary to-primary bg-clip-text text-transparent">
+            Loadouts
+          </h1>
+          <p className="text-muted-foreground text-sm">
+            Change les composants de chaque emplacement, vois le prix et où les acheter • Données FleetYards et UEX
+          </p>
+        </div>
+        <Link to="/loadouts/new">
+          <Button className="gap-2"><Plus className="w-4 h-4" /> Nouveau loadout</Button>
+        </Link>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Chercher un loadout ou un vaisseau..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-10 bg-background/50"
+          />
+        </div>
+        {user && (
+          <div className="flex gap-2">
+            <Button variant={mineOnly ? 'ghost' : 'default'} size="sm" onClick={() => setMineOnly(false)}>Tous</Button>
+            <Button variant={mineOnly ? 'default' : 'ghost'} size="sm" onClick={() => setMineOnly(true)}>Les miens</Button>
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {[...Array(6)].map((_, i) => <Skeleton key={i} className="h-28 w-full" />)}
+        </div>
+      ) : filtered.length === 0 ? (
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-12 text-center text-muted-foreground">Aucun loadout pour le moment</CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {filtered.map(loadout => (
+            <Link key={loadout.id} to={`/loadouts/${loadout.id}`}>
+              <Card className="bg-card/60 border-border/50 h-full hover:border-primary/50 transition-colors">
+                <CardContent className="p-3 flex gap-3">
+                  <img
+                    src={loadout.ships?.image_url || `${import.meta.env.BASE_URL}placeholder.svg`}
+                    alt={loadout.ships?.name ?? ''}
+                    className="w-24 h-16 object-cover rounded-md bg-muted shrink-0"
+                    loading="lazy"
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className="font-semibold text-sm truncate">{loadout.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">{loadout.ships?.name}</p>
+                    <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                      <Badge variant="outline" className="text-xs">{Object.keys(parseSelection(loadout.slots)).length} changement(s)</Badge>
+                      {!loadout.is_public && <Badge variant="outline" className="text-xs">Privé</Badge>}
+                      {loadout.profiles?.display_name}
+                      {loadout.updated_at && <> • {formatDistanceToNow(new Date(loadout.updated_at), { addSuffix: true, locale: fr })}</>}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
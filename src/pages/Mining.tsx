@@ -1,4 +1,5 @@
 import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Input } from '@/components/ui/input';
@@ -7,13 +8,17 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Card, CardContent } from '@/components/ui/card';
-import { Search, ArrowUpDown, Gem, Factory, Mountain, Droplets, FlaskConical, Timer, Coins } from 'lucide-react';
+import { Search, ArrowUpDown, Gem, Factory, Mountain, Droplets, FlaskConical, Timer, Coins, Calculator, ScanLine, MapPin } from 'lucide-react';
+import { RefineryCalculator } from '@/components/RefineryCalculator';
+import { RockValueEstimator } from '@/components/RockValueEstimator';
+import { MiningLocationFinder } from '@/components/MiningLocationFinder';
+import { useRefineryMethods, useRefineryYields } from '@/hooks/useRefineryData';
 
 export default function Mining() {
   const [search, setSearch] = useState('');
   const [rarityFilter, setRarityFilter] = useState<string>('all');
   const [systemFilter, setSystemFilter] = useState<string>('all');
-  const [activeTab, setActiveTab] = useState<'resources' | 'methods' | 'yields'>('resources');
+  const [activeTab, setActiveTab] = useState<'resources' | 'methods' | 'yields' | 'calculator' | 'rock' | 'finder'>('resources');
 
   const { data: miningResources, isLoading: loadingResources } = useQuery({
     queryKey: ['mining-resources'],
@@ -27,29 +32,8 @@ export default function Mining() {
     },
   });
 
-  const { data: refineryMethods } = useQuery({
-    queryKey: ['refinery-methods'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('refinery_methods')
-        .select('*')
-        .order('name');
-      if (error) throw error;
-      return data;
-    },
-  });
-
-  const { data: refineryYields, isLoading: loadingYields } = useQuery({
-    queryKey: ['refinery-yields'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('refinery_yields')
-        .select('*, commodities(name), refinery_methods(name), terminals(name, star_system)')
-        .order('yield_pct', { ascending: false });
-      if (error) throw error;
-      return data;
-    },
-  });
+  const { data: refineryMethods } = useRefineryMethods();
+  const { data: refineryYields, isLoading: loadingYields } = useRefineryYields();
 
   const systems = useMemo(() => {
     if (!miningResources) return [];
@@ -88,17 +72,22 @@ export default function Mining() {
 
   return (
     <div className="space-y-6">
-      <div className="flex flex-col gap-2">
-        <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-amber-400 to-primary bg-clip-text text-transparent">
-          Mining & Raffinage
-        </h1>
-        <p className="text-muted-foreground text-sm">
-          Ressources minières, méthodes de raffinage et rendements • Données UEX
-        </p>
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-2">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-amber-400 to-primary bg-clip-text text-transparent">
+            Mining & Raffinage
+          </h1>
+          <p className="text-muted-foreground text-sm">
+            Ressources minières, méthodes de raffinage et rendements • Données UEX
+          </p>
+        </div>
+        <Link to="/mining/jobs">
+          <Button variant="outline" size="sm" className="gap-2"><Timer className="w-4 h-4" /> Mes jobs</Button>
+        </Link>
       </div>
 
       {/* Tab bar */}
-      <div className="flex gap-2 border-b border-border pb-2">
+      <div className="flex flex-wrap gap-2 border-b border-border pb-2">
         <Button variant={activeTab === 'resources' ? 'default' : 'ghost'} size="sm" onClick={() => setActiveTab('resources')} className="gap-2">
           <Mountain className="w-4 h-4" /> Ressources
         </Button>
@@ -108,6 +97,15 @@ export default function Mining() {
         <Button variant={activeTab === 'yields' ? 'default' : 'ghost'} size="sm" onClick={() => setActiveTab('yields')} className="gap-2">
           <Factory className="w-4 h-4" /> Rendements
         </Button>
+        <Button variant={activeTab === 'calculator' ? 'default' : 'ghost'} size="sm" onClick={() => setActiveTab('calculator')} className="gap-2">
+          <Calculator className="w-4 h-4" /> Calculateur
+        </Button>
+        <Button variant={activeTab === 'rock' ? 'default' : 'ghost'} size="sm" onClick={() => setActiveTab('rock')} className="gap-2">
+          <ScanLine className="w-4 h-4" /> Rocher
+        </Button>
+        <Button variant={activeTab === 'finder' ? 'default' : 'ghost'} size="sm" onClick={() => setActiveTab('finder')} className="gap-2">
+          <MapPin className="w-4 h-4" /> Où miner
+        </Button>
       </div>
 
       {activeTab === 'resources' && (
@@ -261,7 +259,11 @@ export default function Mining() {
                   refineryYields.slice(0, 100).map((y) => (
                     <TableRow key={y.id} className="border-border/30 hover:bg-muted/20">
                       <TableCell className="font-medium">{(y.commodities as any)?.name || '—'}</TableCell>
-                      <TableCell>{(y.terminals as any)?.name || '—'}</TableCell>
+                      <TableCell>
+                        {y.terminals ? (
+                          <Link to={`/terminals/${y.terminals.slug}`} className="hover:text-primary hover:underline">{y.terminals.name}</Link>
+                        ) : '—'}
+                      </TableCell>
                       <TableCell className="text-muted-foreground">{(y.terminals as any)?.star_system || '—'}</TableCell>
                       <TableCell className="text-right font-mono text-accent">
                         {y.yield_pct != null ? `${y.yield_pct}%` : '—'}
@@ -275,6 +277,18 @@ export default function Mining() {
         </Card>
       )}
 
+      {activeTab === 'calculator' && (
+        <RefineryCalculator methods={refineryMethods || []} yields={refineryYields || []} />
+      )}
+
+      {activeTab === 'rock' && (
+        <RockValueEstimator methods={refineryMethods || []} yields={refineryYields || []} resources={miningResources || []} />
+      )}
+
+      {activeTab === 'finder' && (
+        <MiningLocationFinder resources={miningResources || []} yields={refineryYields || []} />
+      )}
+
       <p className="text-xs text-muted-foreground text-center">
         Données fournies par UEX Corp • Les rendements sont des moyennes communautaires
       </p>
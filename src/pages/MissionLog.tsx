@@ -0,0 +1,363 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { ArrowLeft, Plus, Trash2, Search, X, Clock, Coins, Trophy, BarChart3 } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+import { useMissionLogs } from '@/hooks/useMissionLogs';
+import { earningsByCategory, earningsByFaction, weeklyEarnings } from '@/lib/missionStats';
+
+type MissionOption = Pick<Tables<'missions'>, 'id' | 'title' | 'category' | 'faction' | 'reward_auec'>;
+
+const chartConfig = {
+  earnings: { label: 'Gains', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+const toLocalInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+const formatAuec = (value: number) => `${Math.round(value).toLocaleString()} aUEC`;
+
+export default function MissionLog() {
+  const { user } = useAuth();
+  const { logs, isLoading, addLog, deleteLog } = useMissionLogs(user?.id);
+
+  const [search, setSearch] = useState('');
+  const [mission, setMission] = useState<MissionOption | null>(null);
+  const [title, setTitle] = useState('');
+  const [payout, setPayout] = useState('');
+  const [duration, setDuration] = useState('');
+  const [crewSize, setCrewSize] = useState('1');
+  const [completedAt, setCompletedAt] = useState(() => toLocalInput(new Date()));
+  const [notes, setNotes] = useState('');
+
+  const { data: missions } = useQuery({
+    queryKey: ['mission-options'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('missions')
+        .select('id, title, category, faction, reward_auec')
+        .eq('is_active', true)
+        .order('title');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const suggestions = useMemo(() => {
+    if (!missions || search.length < 2) return [];
+    const q = search.toLowerCase();
+    return missions.filter(m => m.title.toLowerCase().includes(q) || m.faction?.toLowerCase().includes(q)).slice(0, 8);
+  }, [missions, search]);
+
+  const categories = useMemo(() => earningsByCategory(logs), [logs]);
+  const factions = useMemo(() => earningsByFaction(logs).slice(0, 5), [logs]);
+  const weeks = useMemo(() => weeklyEarnings(logs), [logs]);
+  const totals = useMemo(() => {
+    const timed = logs.filter(l => l.duration_minutes);
+    const minutes = timed.reduce((sum, l) => sum + (l.duration_minutes ?? 0), 0);
+    return {
+      earnings: logs.reduce((sum, l) => sum + l.payout_auec, 0),
+      hours: minutes / 60,
+      perHour: minutes > 0 ? timed.reduce((sum, l) => sum + l.payout_auec, 0) * 60 / minutes : 0,
+    };
+  }, [logs]);
+
+  const pickMission = (option: MissionOption) => {
+    setMission(option);
+    setTitle(option.title);
+    setPayout(option.reward_auec ? String(option.reward_auec) : '');
+    setSearch('');
+  };
+
+  const resetForm = () => {
+    setMission(null);
+    setTitle('');
+    setPayout('');
+    setDuration('');
+    setCrewSize('1');
+    setNotes('');
+    setCompletedAt(toLocalInput(new Date()));
+  };
+
+  const handleSubmit = () => {
+    if (!title.trim()) return;
+    addLog.mutate(
+      {
+        mission_id: mission?.id ?? null,
+        title: title.trim(),
+        category: mission?.category ?? null,
+        faction: mission?.faction ?? null,
+        payout_auec: Math.max(0, Math.round(Number(payout) || 0)),
+        duration_minutes: Number(duration) > 0 ? Math.round(Number(duration)) : null,
+        crew_size: Math.max(1, Math.round(Number(crewSize) || 1)),
+        completed_at: new Date(completedAt).toISOString(),
+        notes: notes.trim() || null,
+      },
+      { onSuccess: resetForm },
+    );
+  };
+
+  if (!user) {
+    return (
+      <div className="space-y-6">
+        <Link to="/missions">
+          <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> Retour aux missions</Button>
+        </Link>
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-12 text-center text-muted-foreground space-y-4">
+            <p>Connecte-toi pour tenir ton journal de missions.</p>
+            <Link to="/auth"><Button>Se connecter</Button></Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link to="/missions">
+        <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> Retour aux missions</Button>
+      </Link>
+
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-accent to-secondary bg-clip-text text-transparent">
+          Journal de missions
+        </h1>
+        <p className="text-muted-foreground text-sm">
+          Note tes missions terminées et ce qu'elles ont vraiment rapporté • Tes totaux apparaissent sur ton profil
+        </p>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="p-4 flex items-center gap-3">
+            <Trophy className="w-8 h-8 text-primary" />
+            <div><p className="text-2xl font-bold">{logs.length}</p><p className="text-xs text-muted-foreground">Missions</p></div>
+          </CardContent>
+        </Card>
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="p-4 flex items-center gap-3">
+            <Coins className="w-8 h-8 text-accent" />
+            <div><p className="text-lg font-bold font-mono">{formatAuec(totals.earnings)}</p><p className="text-xs text-muted-foreground">Gains</p></div>
+          </CardContent>
+        </Card>
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="p-4 flex items-center gap-3">
+            <Clock className="w-8 h-8 text-blue-400" />
+            <div><p className="text-2xl font-bold">{totals.hours.toFixed(1)}h</p><p className="text-xs text-muted-foreground">Temps chronométré</p></div>
+          </CardContent>
+        </Card>
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="p-4 flex items-center gap-3">
+            <BarChart3 className="w-8 h-8 text-green-400" />
+            <div><p className="text-lg font-bold font-mono">{formatAuec(totals.perHour)}</p><p className="text-xs text-muted-foreground">Par heure</p></div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* New entry */}
+      <Card className="bg-card/60 border-border/50">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2"><Plus className="w-4 h-4 text-primary" /> Mission terminée</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {mission ? (
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant="secondary" className="gap-1">
+                {mission.title}{mission.faction && <> • {mission.faction}</>}
+                <button type="button" onClick={() => setMission(null)} aria-label="Retirer la mission"><X className="w-3 h-3" /></button>
+              </Badge>
+            </div>
+          ) : (
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Chercher la mission dans la base (ou remplis le titre à la main)..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10 bg-background/50"
+              />
+              {suggestions.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full rounded-md border border-border bg-popover shadow-md">
+                  {suggestions.map(option => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => pickMission(option)}
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-muted/50 flex justify-between gap-2"
+                    >
+                      <span className="truncate">{option.title}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">{option.faction || option.category || ''}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <div className="space-y-2 md:col-span-2">
+              <Label>Titre</Label>
+              <Input value={title} onChange={(e) => setTitle(e.target.value)} className="bg-background/50" />
+            </div>
+            <div className="space-y-2">
+              <Label>Paiement reçu (aUEC)</Label>
+              <Input type="number" min={0} value={payout} onChange={(e) => setPayout(e.target.value)} className="bg-background/50" />
+            </div>
+            <div className="space-y-2">
+              <Label>Durée (min)</Label>
+              <Input type="number" min={1} placeholder="optionnel" value={duration} onChange={(e) => setDuration(e.target.value)} className="bg-background/50" />
+            </div>
+            <div className="space-y-2">
+              <Label>Équipage</Label>
+              <Input type="number" min={1} value={crewSize} onChange={(e) => setCrewSize(e.target.value)} className="bg-background/50" />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <div className="space-y-2">
+              <Label>Terminée le</Label>
+              <Input type="datetime-local" value={completedAt} onChange={(e) => setCompletedAt(e.target.value)} className="bg-background/50" />
+            </div>
+            <div className="space-y-2 md:col-span-3">
+              <Label>Notes</Label>
+              <Input placeholder="optionnel" value={notes} onChange={(e) => setNotes(e.target.value)} className="bg-background/50" />
+            </div>
+            <div className="flex items-end">
+              <Button onClick={handleSubmit} disabled={!title.trim() || addLog.isPending} className="w-full gap-2">
+                <Plus className="w-4 h-4" /> Ajouter
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Card className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Gains par semaine</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-[240px] w-full aspect-auto">
+              <BarChart data={weeks} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="week" tickLine={false} axisLine={false} tickFormatter={(d: string) => format(new Date(d), 'dd/MM')} />
+                <YAxis tickLine={false} axisLine={false} width={64} tickFormatter={(v: number) => v.toLocaleString()} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(d: string) => `Semaine du ${format(new Date(d), 'd MMM', { locale: fr })}`} />} />
+                <Bar dataKey="earnings" fill="var(--color-earnings)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Factions les plus rentables</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {factions.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">Aucune mission enregistrée.</p>
+            ) : factions.map(f => (
+              <div key={f.key} className="flex items-center justify-between text-sm">
+                <span>{f.key} <span className="text-xs text-muted-foreground">×{f.count}</span></span>
+                <span className="font-mono text-accent">{formatAuec(f.earnings)}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-card/60 border-border/50 overflow-hidden">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Rentabilité par catégorie</CardTitle>
+        </CardHeader>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent border-border/50">
+                <TableHead>Catégorie</TableHead>
+                <TableHead className="text-right">Missions</TableHead>
+                <TableHead className="text-right">Gains</TableHead>
+                <TableHead className="text-right">aUEC / heure</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {categories.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground py-8">Aucune mission enregistrée.</TableCell>
+                </TableRow>
+              ) : categories.map(c => (
+                <TableRow key={c.key} className="border-border/30 hover:bg-muted/20">
+                  <TableCell className="capitalize">{c.key.replace(/_/g, ' ')}</TableCell>
+                  <TableCell className="text-right font-mono">{c.count}</TableCell>
+                  <TableCell className="text-right font-mono">{formatAuec(c.earnings)}</TableCell>
+                  <TableCell className="text-right font-mono text-green-400">{c.perHour != null ? formatAuec(c.perHour) : '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      {/* Log */}
+      <Card className="bg-card/60 border-border/50 overflow-hidden">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Historique</CardTitle>
+        </CardHeader>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent border-border/50">
+                <TableHead>Date</TableHead>
+                <TableHead>Mission</TableHead>
+                <TableHead className="text-right">Paiement</TableHead>
+                <TableHead className="text-right">Durée</TableHead>
+                <TableHead className="text-right">Équipage</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                [...Array(3)].map((_, i) => (
+                  <TableRow key={i}><TableCell colSpan={6}><div className="h-6 bg-muted/30 rounded animate-pulse" /></TableCell></TableRow>
+                ))
+              ) : logs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">Ton journal est vide.</TableCell>
+                </TableRow>
+              ) : logs.map(log => (
+                <TableRow key={log.id} className="border-border/30 hover:bg-muted/20">
+                  <TableCell className="text-sm whitespace-nowrap">{format(new Date(log.completed_at), 'd MMM yyyy', { locale: fr })}</TableCell>
+                  <TableCell>
+                    <div className="text-sm">{log.title}</div>
+                    <div className="text-xs text-muted-foreground">{[log.faction, log.category, log.notes].filter(Boolean).join(' • ')}</div>
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm text-accent">{formatAuec(log.payout_auec)}</TableCell>
+                  <TableCell className="text-right font-mono text-sm">{log.duration_minutes ? `${log.duration_minutes} min` : '—'}</TableCell>
+                  <TableCell className="text-right font-mono text-sm">{log.crew_size}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => deleteLog.mutate(log.id)}>
+                      <Trash2 className="w-4 h-4 text-muted-foreground" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Input } from '@/components/ui/input';
@@ -6,26 +7,41 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Search, Target, Truck, Pickaxe, Shield, Wrench, Eye, Swords, ArrowUpDown, AlertTriangle, Users, Star, Repeat } from 'lucide-react';
+import { MissionChains } from '@/components/MissionChains';
+import { BlueprintExplorer } from '@/components/BlueprintExplorer';
+import { ReputationPlanner } from '@/components/ReputationPlanner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useFactionStandings } from '@/hooks/useFactionStandings';
+import { canTakeMission } from '@/lib/reputation';
+import { fetchAllRows } from '@/lib/supabasePaging';
+import { Search, Target, Truck, Pickaxe, Shield, Wrench, Eye, Swords, ArrowUpDown, AlertTriangle, Users, Star, Repeat, Link2, FileCode, List, TrendingUp, NotebookPen } from 'lucide-react';
 
 export default function Missions() {
+  const { user } = useAuth();
+  const { standingByFaction } = useFactionStandings(user?.id);
   const [search, setSearch] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
   const [legalityFilter, setLegalityFilter] = useState<string>('all');
   const [threatFilter, setThreatFilter] = useState<string>('all');
+  const [accessFilter, setAccessFilter] = useState<string>('all');
   const [sortField, setSortField] = useState<'title' | 'reward_auec' | 'combat_threat'>('reward_auec');
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('desc');
+  const [activeTab, setActiveTab] = useState<'list' | 'chains' | 'blueprints' | 'reputation'>('list');
 
   const { data: missions, isLoading } = useQuery({
     queryKey: ['missions'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('missions')
-        .select('*')
-        .order('reward_auec', { ascending: false });
-      if (error) throw error;
-      return data;
-    },
+    queryFn: () =>
+      fetchAllRows(async (from, to) => {
+        const { data, error } = await supabase
+          .from('missions')
+          .select('*')
+          .eq('is_active', true)
+          .order('reward_auec', { ascending: false })
+          .order('id')
+          .range(from, to);
+        if (error) throw error;
+        return data;
+      }),
   });
 
   const categories = useMemo(() => {
@@ -44,6 +60,8 @@ export default function Missions() {
     if (legalityFilter === 'legal') result = result.filter(m => !m.is_illegal);
     else if (legalityFilter === 'illegal') result = result.filter(m => m.is_illegal);
     if (threatFilter !== 'all') result = result.filter(m => m.combat_threat === threatFilter);
+    // Factions without a saved standing only offer their unranked missions
+    if (accessFilter === 'available') result = result.filter(m => canTakeMission(m, m.faction ? standingByFaction.get(m.faction)?.rank : null));
 
     result = [...result].sort((a, b) => {
       const valA = a[sortField] ?? '';
@@ -52,7 +70,7 @@ export default function Missions() {
       return sortDir === 'asc' ? Number(valA) - Number(valB) : Number(valB) - Number(valA);
     });
     return result;
-  }, [missions, search, categoryFilter, legalityFilter, threatFilter, sortField, sortDir]);
+  }, [missions, search, categoryFilter, legalityFilter, threatFilter, accessFilter, standingByFaction, sortField, sortDir]);
 
   const getCategoryIcon = (cat: string | null) => {
     switch (cat) {
@@ -97,6 +115,8 @@ export default function Missions() {
     return <Badge className={`text-xs ${colors[threat] || 'bg-muted text-muted-foreground'}`}>{threat.replace('_', ' ')}</Badge>;
   };
 
+  const gameVersion = useMemo(() => missions?.find(m => m.game_version)?.game_version ?? null, [missions]);
+
   const stats = useMemo(() => {
     if (!missions) return { total: 0, bounty: 0, delivery: 0, illegal: 0 };
     return {
@@ -109,13 +129,19 @@ export default function Missions() {
 
   return (
     <div className="space-y-6">
-      <div className="flex flex-col gap-2">
-        <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-accent to-secondary bg-clip-text text-transparent">
-          Missions Database
-        </h1>
-        <p className="text-muted-foreground text-sm">
-          Base de données des missions Star Citizen • Types, récompenses, factions
-        </p>
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-2">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-accent to-secondary bg-clip-text text-transparent">
+            Missions Database
+          </h1>
+          <p className="text-muted-foreground text-sm">
+            Base de données des missions Star Citizen • Types, récompenses, factions
+            {gameVersion && <> • Version {gameVersion}</>}
+          </p>
+        </div>
+        <Link to="/missions/log">
+          <Button variant="outline" size="sm" className="gap-2"><NotebookPen className="w-4 h-4" /> Mon journal</Button>
+        </Link>
       </div>
 
       {/* Stats */}
@@ -146,44 +172,71 @@ export default function Missions() {
         </Card>
       </div>
 
+      {/* Tab bar */}
+      <div className="flex flex-wrap gap-2 border-b border-border pb-2">
+        <Button variant={activeTab === 'list' ? 'default' : 'ghost'} size="sm" onClick={() => setActiveTab('list')} className="gap-2">
+          <List className="w-4 h-4" /> Missions
+        </Button>
+        <Button variant={activeTab === 'chains' ? 'default' : 'ghost'} size="sm" onClick={() => setActiveTab('chains')} className="gap-2">
+          <Link2 className="w-4 h-4" /> Chaînes
+        </Button>
+        <Button variant={activeTab === 'blueprints' ? 'default' : 'ghost'} size="sm" onClick={() => setActiveTab('blueprints')} className="gap-2">
+          <FileCode className="w-4 h-4" /> Blueprints
+        </Button>
+        <Button variant={activeTab === 'reputation' ? 'default' : 'ghost'} size="sm" onClick={() => setActiveTab('reputation')} className="gap-2">
+          <TrendingUp className="w-4 h-4" /> Réputation
+        </Button>
+      </div>
+
       {/* Filters */}
-      <Card className="bg-card/60 border-border/50">
-        <CardContent className="p-4">
-          <div className="flex flex-col md:flex-row gap-3">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-              <Input placeholder="Rechercher une mission ou faction..." value={search} onChange={(e) => setSearch(e.target.value)} className="pl-10 bg-background/50" />
+      {(activeTab === 'list' || activeTab === 'chains') && (
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="p-4">
+            <div className="flex flex-col md:flex-row gap-3">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input placeholder="Rechercher une mission ou faction..." value={search} onChange={(e) => setSearch(e.target.value)} className="pl-10 bg-background/50" />
+              </div>
+              <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                <SelectTrigger className="w-full md:w-[170px] bg-background/50"><SelectValue placeholder="Catégorie" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Toutes catégories</SelectItem>
+                  {categories.map(cat => <SelectItem key={cat} value={cat!}>{cat}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Select value={legalityFilter} onValueChange={setLegalityFilter}>
+                <SelectTrigger className="w-full md:w-[140px] bg-background/50"><SelectValue placeholder="Légalité" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Toutes</SelectItem>
+                  <SelectItem value="legal">Légales</SelectItem>
+                  <SelectItem value="illegal">Illégales</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={threatFilter} onValueChange={setThreatFilter}>
+                <SelectTrigger className="w-full md:w-[160px] bg-background/50"><SelectValue placeholder="Menace" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Toute menace</SelectItem>
+                  <SelectItem value="very_low">Très faible</SelectItem>
+                  <SelectItem value="low">Faible</SelectItem>
+                  <SelectItem value="medium">Moyenne</SelectItem>
+                  <SelectItem value="high">Haute</SelectItem>
+                  <SelectItem value="very_high">Très haute</SelectItem>
+                  <SelectItem value="extreme">Extrême</SelectItem>
+                </SelectContent>
+              </Select>
+              {user && (
+                <Select value={accessFilter} onValueChange={setAccessFilter}>
+                  <SelectTrigger className="w-full md:w-[170px] bg-background/50"><SelectValue placeholder="Accès" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Tous rangs</SelectItem>
+                    <SelectItem value="available">Accessibles pour moi</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
             </div>
-            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
-              <SelectTrigger className="w-full md:w-[170px] bg-background/50"><SelectValue placeholder="Catégorie" /></SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">Toutes catégories</SelectItem>
-                {categories.map(cat => <SelectItem key={cat} value={cat!}>{cat}</SelectItem>)}
-              </SelectContent>
-            </Select>
-            <Select value={legalityFilter} onValueChange={setLegalityFilter}>
-              <SelectTrigger className="w-full md:w-[140px] bg-background/50"><SelectValue placeholder="Légalité" /></SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">Toutes</SelectItem>
-                <SelectItem value="legal">Légales</SelectItem>
-                <SelectItem value="illegal">Illégales</SelectItem>
-              </SelectContent>
-            </Select>
-            <Select value={threatFilter} onValueChange={setThreatFilter}>
-              <SelectTrigger className="w-full md:w-[160px] bg-background/50"><SelectValue placeholder="Menace" /></SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">Toute menace</SelectItem>
-                <SelectItem value="very_low">Très faible</SelectItem>
-                <SelectItem value="low">Faible</SelectItem>
-                <SelectItem value="medium">Moyenne</SelectItem>
-                <SelectItem value="high">Haute</SelectItem>
-                <SelectItem value="very_high">Très haute</SelectItem>
-                <SelectItem value="extreme">Extrême</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Mission cards grid */}
       {isLoading ? (
@@ -194,6 +247,12 @@ export default function Missions() {
             </Card>
           ))}
         </div>
+      ) : activeTab === 'chains' ? (
+        <MissionChains missions={filtered} />
+      ) : activeTab === 'blueprints' ? (
+        <BlueprintExplorer missions={missions || []} />
+      ) : activeTab === 'reputation' ? (
+        <ReputationPlanner missions={missions || []} />
       ) : filtered.length === 0 ? (
         <Card className="bg-card/60 border-border/50">
           <CardContent className="py-12 text-center text-muted-foreground">
@@ -219,6 +278,11 @@ export default function Missions() {
                   {mission.rank_required && mission.rank_required !== 'None' && (
                     <Badge variant="outline" className="text-xs">{mission.rank_required}</Badge>
                   )}
+                  {mission.is_chain && (
+                    <Badge variant="outline" className="text-xs gap-1">
+                      <Link2 className="w-3 h-3" /> Chaîne {mission.chain_step && mission.chain_length ? `${mission.chain_step}/${mission.chain_length}` : ''}
+                    </Badge>
+                  )}
                 </div>
 
                 <div className="flex items-center justify-between text-sm">
@@ -228,6 +292,12 @@ export default function Missions() {
                   </span>
                 </div>
 
+                {mission.blueprint_rewards.length > 0 && (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <FileCode className="w-3 h-3 text-primary" /> Blueprints : {mission.blueprint_rewards.join(', ')}
+                  </p>
+                )}
+
                 <div className="flex gap-3 text-xs text-muted-foreground">
                   <span className="flex items-center gap-1">📍 {mission.star_system || '—'}</span>
                   {mission.is_shareable && <span className="flex items-center gap-1"><Users className="w-3 h-3" /> Partageable</span>}
@@ -0,0 +1,478 @@
+import { useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import ReactMarkdown from 'react-markdown';
+import rehypeSanitize from 'rehype-sanitize';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { useAuth } from '@/contexts/AuthContext';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, CalendarPlus, Coins, ListChecks, MapPin, Pencil, Save, Trash2, Users, X } from 'lucide-react';
+import { useOperation } from '@/hooks/useOperations';
+import { useOrganization } from '@/hooks/useOrganizations';
+import { useHangar } from '@/hooks/useHangar';
+import { OperationForm, PositionPicker } from '@/components/OperationForm';
+import { OP_STATUSES, OP_TYPES, RSVP_STATUSES, operationCoverage, operationUrl, operationsToIcs, payoutSplit, shipMatchesRole } from '@/lib/operations';
+import { downloadFile } from '@/lib/utils';
+
+const NO_SHIP = 'none';
+const UNASSIGNED = 'unassigned';
+
+export default function OperationDetail() {
+  const { slug, id } = useParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const operationId = Number(id) || undefined;
+
+  const { organization: org, myRole } = useOrganization(slug, user?.id);
+  const {
+    operation: op,
+    isLoading,
+    positions,
+    roster,
+    rosterLoading,
+    updateOperation,
+    deleteOperation,
+    addPosition,
+    removePosition,
+    rsvp,
+    updateRsvp,
+  } = useOperation(operationId, user?.id);
+  const { ships: myShips } = useHangar(user?.id);
+
+  const isOfficer = myRole === 'founder' || myRole === 'officer';
+  const myRsvp = roster.find((r) => r.user_id === user?.id);
+
+  const [editing, setEditing] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  // RSVP form, null until the pilot touches it so it follows the saved RSVP
+  const [rsvpStatus, setRsvpStatus] = useState<string | null>(null);
+  const [rsvpShip, setRsvpShip] = useState<string | null>(null);
+  const [rsvpNotes, setRsvpNotes] = useState<string | null>(null);
+  const [payoutTotal, setPayoutTotal] = useState<string | null>(null);
+
+  const coverage = useMemo(() => (op ? operationCoverage(op, positions, roster) : null), [op, positions, roster]);
+  const payout = useMemo(() => payoutSplit(Number(op?.payout_total ?? 0), roster), [op, roster]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-32" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  if (!op || !org) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground mb-4">Opération introuvable ou réservée aux membres de l'organisation</p>
+        <Button onClick={() => navigate(slug ? `/orgs/${slug}` : '/orgs')}>Retour à l'organisation</Button>
+      </div>
+    );
+  }
+
+  const status = rsvpStatus ?? myRsvp?.status ?? 'going';
+  const shipValue = rsvpShip ?? (myRsvp?.user_ship_id ? String(myRsvp.user_ship_id) : NO_SHIP);
+  const notes = rsvpNotes ?? myRsvp?.notes ?? '';
+  const going = roster.filter((r) => r.status === 'going');
+
+  const positionLabel = (positionId: number | null) => {
+    const position = positions.find((p) => p.id === positionId);
+    return position ? position.label || position.ship_role : '—';
+  };
+
+  const saveRsvp = () => {
+    rsvp.mutate(
+      { status, user_ship_id: shipValue === NO_SHIP ? null : Number(shipValue), notes: notes.trim() || null },
+      { onSuccess: () => { setRsvpStatus(null); setRsvpShip(null); setRsvpNotes(null); } },
+    );
+  };
+
+  const exportIcs = () => {
+    downloadFile(`operation-${op.id}.ics`, operationsToIcs([op], org.name, () => operationUrl(org.slug, op.id)), 'text/calendar;charset=utf-8');
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link to={`/orgs/${org.slug}`}>
+        <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> {org.name}</Button>
+      </Link>
+
+      {/* Header */}
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="pt-6 space-y-4">
+          {editing ? (
+            <OperationForm
+              initial={{
+                title: op.title,
+                op_type: op.op_type,
+                starts_at: op.starts_at,
+                ends_at: op.ends_at,
+                star_system: op.star_system,
+                crew_slots: op.crew_slots,
+                objective_md: op.objective_md,
+              }}
+              submitLabel="Enregistrer"
+              pending={updateOperation.isPending}
+              onCancel={() => setEditing(false)}
+              onSubmit={({ positions: _positions, ...values }) => updateOperation.mutate(values, { onSuccess: () => setEditing(false) })}
+            />
+          ) : (
+            <>
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div className="space-y-2 min-w-0">
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="outline">{OP_TYPES.find((t) => t.value === op.op_type)?.label ?? op.op_type}</Badge>
+                    <Badge variant="secondary">{OP_STATUSES.find((s) => s.value === op.status)?.label ?? op.status}</Badge>
+                  </div>
+                  <h1 className="text-2xl md:text-3xl font-bold">{op.title}</h1>
+                  <p className="text-sm text-muted-foreground flex flex-wrap gap-x-4">
+                    <span>
+                      {format(new Date(op.starts_at), "EEEE d MMMM yyyy 'à' HH:mm", { locale: fr })}
+                      {op.ends_at && <> → {format(new Date(op.ends_at), 'HH:mm', { locale: fr })}</>}
+                    </span>
+                    {op.star_system && <span className="flex items-center gap-1"><MapPin className="w-3 h-3" /> {op.star_system}</span>}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" className="gap-2" onClick={exportIcs}>
+                    <CalendarPlus className="w-4 h-4" /> Ajouter au calendrier
+                  </Button>
+                  {isOfficer && (
+                    <>
+                      <Select value={op.status} onValueChange={(value) => updateOperation.mutate({ status: value })}>
+                        <SelectTrigger className="h-9 w-36 bg-background/50"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {OP_STATUSES.map((s) => (
+                            <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button variant="outline" size="sm" className="gap-2" onClick={() => setEditing(true)}>
+                        <Pencil className="w-4 h-4" /> Modifier
+                      </Button>
+                      <Button variant="outline" size="sm" className="gap-2 text-destructive" onClick={() => setConfirmDelete(true)}>
+                        <Trash2 className="w-4 h-4" /> Supprimer
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {op.objective_md && (
+                <div className="prose prose-invert max-w-none text-sm">
+                  <ReactMarkdown rehypePlugins={[rehypeSanitize]}>{op.objective_md}</ReactMarkdown>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* My RSVP */}
+      {myRole && (
+        <Card className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Ma participation</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>Réponse</Label>
+                <Select value={status} onValueChange={setRsvpStatus}>
+                  <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {RSVP_STATUSES.map((s) => (
+                      <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Vaisseau</Label>
+                <Select value={shipValue} onValueChange={setRsvpShip} disabled={status === 'declined'}>
+                  <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SHIP}>Équipage (sans vaisseau)</SelectItem>
+                    {myShips.map((entry) => (
+                      <SelectItem key={entry.id} value={String(entry.id)}>
+                        {entry.nickname ? `${entry.nickname} (${entry.ships?.name})` : entry.ships?.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rsvp-notes">Notes</Label>
+                <Input id="rsvp-notes" value={notes} onChange={(e) => setRsvpNotes(e.target.value)} placeholder="Dispo à partir de 21h..." className="bg-background/50" />
+              </div>
+            </div>
+            {myShips.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Ajoute tes vaisseaux dans ton <Link to="/hangar" className="text-primary hover:underline">hangar</Link> pour venir avec.
+              </p>
+            )}
+            <Button onClick={saveRsvp} disabled={rsvp.isPending} className="gap-2">
+              <Save className="w-4 h-4" /> {myRsvp ? 'Mettre à jour' : 'Répondre'}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Coverage */}
+      {coverage && (
+        <Card className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2"><ListChecks className="w-4 h-4 text-primary" /> Couverture</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-1">
+                <p className="text-xs sm:text-sm text-muted-foreground">Présents</p>
+                <p className="text-sm sm:text-base font-bold text-primary">{coverage.going}{op.crew_slots > 0 && <> / {op.crew_slots}</>}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs sm:text-sm text-muted-foreground">Peut-être</p>
+                <p className="text-sm sm:text-base font-bold text-primary">{coverage.maybe}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs sm:text-sm text-muted-foreground">Places à bord</p>
+                <p className="text-sm sm:text-base font-bold text-primary">{coverage.crewSeats}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs sm:text-sm text-muted-foreground">Équipage manquant</p>
+                <p className={`text-sm sm:text-base font-bold ${coverage.crewMissing > 0 ? 'text-yellow-400' : 'text-primary'}`}>{coverage.crewMissing}</p>
+              </div>
+            </div>
+
+            {coverage.positions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Aucun vaisseau requis</p>
+            ) : (
+              <div className="space-y-2">
+                {coverage.positions.map(({ position, assigned, candidates, missing }) => (
+                  <div key={position.id} className="flex flex-wrap items-center gap-3 border border-border rounded-lg p-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-sm">{position.ship_role}{position.label && <span className="text-muted-foreground"> • {position.label}</span>}</p>
+                      <p className="text-xs text-muted-foreground">{assigned} / {position.quantity} assigné(s) • {candidates} candidat(s) non assigné(s)</p>
+                    </div>
+                    {missing > 0 ? (
+                      <Badge variant="outline" className="text-xs border-yellow-500/50 text-yellow-400">{missing} manquant(s)</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-xs border-green-500/50 text-green-400">Complet</Badge>
+                    )}
+                    {isOfficer && (
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removePosition.mutate(position.id)} aria-label="Retirer le poste">
+                        <X className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {isOfficer && <PositionPicker onAdd={(position) => addPosition.mutate(position)} disabled={addPosition.isPending} />}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Roster */}
+      <Card className="bg-card/60 border-border/50">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2"><Users className="w-4 h-4 text-primary" /> Roster ({roster.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rosterLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : roster.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Personne n'a encore répondu</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Pilote</TableHead>
+                    <TableHead>Réponse</TableHead>
+                    <TableHead>Vaisseau</TableHead>
+                    <TableHead>Poste</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {roster.map((entry) => {
+                    const ship = entry.user_ships?.ships ?? null;
+                    return (
+                      <TableRow key={entry.id} className={entry.status === 'declined' ? 'opacity-60' : undefined}>
+                        <TableCell>
+                          {entry.profiles ? (
+                            <Link to={`/pilots/${entry.profiles.handle}`} className="font-medium hover:text-primary hover:underline">
+                              {entry.profiles.display_name}
+                            </Link>
+                          ) : '—'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={entry.status === 'going' ? 'default' : 'outline'} className="text-xs">
+                            {RSVP_STATUSES.find((s) => s.value === entry.status)?.label ?? entry.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {ship ? (
+                            <div>
+                              <Link to={`/ships/${ship.slug}`} className="hover:text-primary hover:underline">{entry.user_ships?.nickname || ship.name}</Link>
+                              {ship.role && <p className="text-xs text-muted-foreground">{ship.role}</p>}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">Équipage</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="min-w-44">
+                          {isOfficer && entry.status === 'going' ? (
+                            <Select
+                              value={entry.position_id ? String(entry.position_id) : UNASSIGNED}
+                              onValueChange={(value) => updateRsvp.mutate({ id: entry.id, position_id: value === UNASSIGNED ? null : Number(value) })}
+                            >
+                              <SelectTrigger className="h-8 bg-background/50"><SelectValue /></SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={UNASSIGNED}>Non assigné</SelectItem>
+                                {positions.map((position) => (
+                                  <SelectItem key={position.id} value={String(position.id)}>
+                                    {position.label || position.ship_role}{shipMatchesRole(ship, position.ship_role) ? ' ✓' : ''}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <span className="text-sm">{positionLabel(entry.position_id)}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{entry.notes || '—'}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Payout */}
+      {(op.status === 'completed' || op.payout_total !== null) && (
+        <Card className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2"><Coins className="w-4 h-4 text-primary" /> Répartition des gains</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isOfficer ? (
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="payout-total">Gains totaux (aUEC)</Label>
+                  <Input
+                    id="payout-total"
+                    type="number"
+                    min={0}
+                    value={payoutTotal ?? (op.payout_total !== null ? String(op.payout_total) : '')}
+                    onChange={(e) => setPayoutTotal(e.target.value)}
+                    className="w-48 bg-background/50"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  disabled={payoutTotal === null || updateOperation.isPending}
+                  onClick={() => updateOperation.mutate(
+                    { payout_total: payoutTotal ? Math.max(0, Number(payoutTotal)) : null },
+                    { onSuccess: () => setPayoutTotal(null) },
+                  )}
+                >
+                  <Save className="w-4 h-4" /> Enregistrer
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm">Gains totaux : <span className="font-bold text-primary">{Number(op.payout_total ?? 0).toLocaleString()} aUEC</span></p>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Partagé entre les pilotes présents selon leur part (1 par défaut, 0 pour exclure un absent).
+            </p>
+
+            {going.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Pilote</TableHead>
+                    <TableHead className="w-28">Part</TableHead>
+                    <TableHead className="text-right">Montant</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {going.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{entry.profiles?.display_name ?? '—'}</TableCell>
+                      <TableCell>
+                        {isOfficer ? (
+                          <Input
+                            key={entry.payout_share}
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            defaultValue={entry.payout_share}
+                            onBlur={(e) => {
+                              const share = Math.max(0, Number(e.target.value) || 0);
+                              if (share !== Number(entry.payout_share)) updateRsvp.mutate({ id: entry.id, payout_share: share });
+                            }}
+                            className="h-8 bg-background/50"
+                          />
+                        ) : (
+                          entry.payout_share
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{(payout.amounts.get(entry.id) ?? 0).toLocaleString()} aUEC</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {payout.remainder > 0 && (
+              <p className="text-xs text-muted-foreground">Reste non réparti : {payout.remainder.toLocaleString()} aUEC</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Supprimer {op.title} ?</AlertDialogTitle>
+            <AlertDialogDescription>Les postes et les réponses des membres seront supprimés.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteOperation.mutate(undefined, { onSuccess: () => navigate(`/orgs/${org.slug}`) })}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Supprimer
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
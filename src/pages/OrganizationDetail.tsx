@@ -0,0 +1,350 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import ReactMarkdown from 'react-markdown';
+import rehypeSanitize from 'rehype-sanitize';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { useAuth } from '@/contexts/AuthContext';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, CalendarDays, Check, LogOut, Pencil, Shield, Trash2, UserPlus, Users, Warehouse, X } from 'lucide-react';
+import { useOrganization, type OrgRole } from '@/hooks/useOrganizations';
+import { OrganizationForm } from '@/components/OrganizationForm';
+import { OrgFleet } from '@/components/OrgFleet';
+import { OrgOperations } from '@/components/OrgOperations';
+
+type Tab = 'members' | 'fleet' | 'operations' | 'requests';
+
+const ROLE_LABELS: Record<OrgRole, string> = {
+  founder: 'Fondateur',
+  officer: 'Officier',
+  member: 'Membre',
+};
+
+export default function OrganizationDetail() {
+  const { slug } = useParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const {
+    organization: org,
+    isLoading,
+    members,
+    membersLoading,
+    requests,
+    myRole,
+    myRequest,
+    updateOrganization,
+    deleteOrganization,
+    requestJoin,
+    cancelRequest,
+    reviewRequest,
+    changeRole,
+    removeMember,
+  } = useOrganization(slug, user?.id);
+
+  const [tab, setTab] = useState<Tab>('members');
+  const [editing, setEditing] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [joinMessage, setJoinMessage] = useState('');
+
+  const isOfficer = myRole === 'founder' || myRole === 'officer';
+  const myMembership = members.find((m) => m.user_id === user?.id);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-32" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  if (!org) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground mb-4">Organisation introuvable</p>
+        <Button onClick={() => navigate('/orgs')}>Retour aux organisations</Button>
+      </div>
+    );
+  }
+
+  const tabs: { value: Tab; label: string }[] = [
+    { value: 'members', label: `Membres (${members.length})` },
+    { value: 'fleet', label: 'Flotte' },
+    ...(myRole ? [{ value: 'operations' as const, label: 'Opérations' }] : []),
+    ...(isOfficer ? [{ value: 'requests' as const, label: `Demandes (${requests.length})` }] : []),
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Link to="/orgs">
+        <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> Retour aux organisations</Button>
+      </Link>
+
+      {/* Header */}
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="pt-6 space-y-4">
+          {editing ? (
+            <OrganizationForm
+              initial={{ name: org.name, slug: org.slug, logo_url: org.logo_url, description_md: org.description_md }}
+              submitLabel="Enregistrer"
+              pending={updateOrganization.isPending}
+              onCancel={() => setEditing(false)}
+              onSubmit={(values) => updateOrganization.mutate(values, {
+                onSuccess: (newSlug) => {
+                  setEditing(false);
+                  if (newSlug !== slug) navigate(`/orgs/${newSlug}`, { replace: true });
+                },
+              })}
+            />
+          ) : (
+            <>
+              <div className="flex flex-wrap items-start gap-4">
+                <Avatar className="w-20 h-20 rounded-md">
+                  <AvatarImage src={org.logo_url || undefined} className="object-cover" />
+                  <AvatarFallback className="rounded-md"><Shield className="w-8 h-8" /></AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <h1 className="text-2xl md:text-3xl font-bold">{org.name}</h1>
+                  <p className="text-sm text-muted-foreground">
+                    {members.length} membre(s){myRole && <> • {ROLE_LABELS[myRole]}</>}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {isOfficer && (
+                    <Button variant="outline" size="sm" className="gap-2" onClick={() => setEditing(true)}>
+                      <Pencil className="w-4 h-4" /> Modifier
+                    </Button>
+                  )}
+                  {myRole === 'founder' && (
+                    <Button variant="outline" size="sm" className="gap-2 text-destructive" onClick={() => setConfirmDelete(true)}>
+                      <Trash2 className="w-4 h-4" /> Supprimer
+                    </Button>
+                  )}
+                  {myMembership && myRole !== 'founder' && (
+                    <Button variant="outline" size="sm" className="gap-2" onClick={() => removeMember.mutate(myMembership.id)}>
+                      <LogOut className="w-4 h-4" /> Quitter
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {org.description_md && (
+                <div className="prose prose-invert max-w-none text-sm">
+                  <ReactMarkdown rehypePlugins={[rehypeSanitize]}>{org.description_md}</ReactMarkdown>
+                </div>
+              )}
+            </>
+          )}
+
+          {/* Join */}
+          {!user ? (
+            <p className="text-sm text-muted-foreground">
+              <Link to="/auth" className="text-primary hover:underline">Connecte-toi</Link> pour rejoindre cette organisation.
+            </p>
+          ) : !myRole && (myRequest ? (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline">Demande en attente</Badge>
+              <Button variant="ghost" size="sm" onClick={() => cancelRequest.mutate(myRequest.id)} disabled={cancelRequest.isPending}>
+                Annuler la demande
+              </Button>
+            </div>
+          ) : (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                value={joinMessage}
+                onChange={(e) => setJoinMessage(e.target.value)}
+                placeholder="Message aux officiers (optionnel)"
+                className="bg-background/50"
+              />
+              <Button
+                className="gap-2 shrink-0"
+                disabled={requestJoin.isPending}
+                onClick={() => requestJoin.mutate(joinMessage.trim() || null, { onSuccess: () => setJoinMessage('') })}
+              >
+                <UserPlus className="w-4 h-4" /> Demander à rejoindre
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="flex flex-wrap gap-2 border-b border-border pb-2">
+        {tabs.map((t) => (
+          <Button key={t.value} variant={tab === t.value ? 'default' : 'ghost'} size="sm" onClick={() => setTab(t.value)}>
+            {t.label}
+          </Button>
+        ))}
+      </div>
+
+      {tab === 'members' && (
+        <Card className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2"><Users className="w-4 h-4 text-primary" /> Membres</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {membersLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : (
+              <div className="divide-y divide-border">
+                {members.map((member) => (
+                  <div key={member.id} className="flex items-center gap-3 py-2">
+                    <Avatar className="w-9 h-9">
+                      <AvatarImage src={member.profiles?.avatar_url || undefined} />
+                      <AvatarFallback>{member.profiles?.display_name?.[0]?.toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      {member.profiles ? (
+                        <Link to={`/pilots/${member.profiles.handle}`} className="font-medium text-sm hover:text-primary hover:underline">
+                          {member.profiles.display_name}
+                        </Link>
+                      ) : (
+                        <span className="font-medium text-sm">—</span>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {member.profiles && <>@{member.profiles.handle} • </>}
+                        depuis le {format(new Date(member.joined_at), 'd MMM yyyy', { locale: fr })}
+                      </p>
+                    </div>
+                    {myRole === 'founder' && member.role !== 'founder' ? (
+                      <Select value={member.role} onValueChange={(role) => changeRole.mutate({ memberId: member.id, role: role as OrgRole })}>
+                        <SelectTrigger className="h-8 w-32 bg-background/50"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="officer">{ROLE_LABELS.officer}</SelectItem>
+                          <SelectItem value="member">{ROLE_LABELS.member}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant={member.role === 'member' ? 'outline' : 'secondary'}>{ROLE_LABELS[member.role]}</Badge>
+                    )}
+                    {isOfficer && member.role !== 'founder' && member.user_id !== user?.id && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => removeMember.mutate(member.id)}
+                        aria-label="Retirer le membre"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {tab === 'fleet' && (
+        <Card className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2"><Warehouse className="w-4 h-4 text-primary" /> Flotte de l'organisation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <OrgFleet orgId={org.id} isMember={!!myRole} />
+          </CardContent>
+        </Card>
+      )}
+
+      {tab === 'operations' && myRole && user && (
+        <Card className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2"><CalendarDays className="w-4 h-4 text-primary" /> Opérations</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <OrgOperations org={org} userId={user.id} isOfficer={isOfficer} />
+          </CardContent>
+        </Card>
+      )}
+
+      {tab === 'requests' && isOfficer && (
+        <Card className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2"><UserPlus className="w-4 h-4 text-primary" /> Demandes d'adhésion</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {requests.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Aucune demande en attente</p>
+            ) : (
+              <div className="divide-y divide-border">
+                {requests.map((request) => (
+                  <div key={request.id} className="flex items-start gap-3 py-2">
+                    <Avatar className="w-9 h-9">
+                      <AvatarImage src={request.profiles?.avatar_url || undefined} />
+                      <AvatarFallback>{request.profiles?.display_name?.[0]?.toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      {request.profiles && (
+                        <Link to={`/pilots/${request.profiles.handle}`} className="font-medium text-sm hover:text-primary hover:underline">
+                          {request.profiles.display_name}
+                        </Link>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(request.created_at), 'd MMM yyyy HH:mm', { locale: fr })}
+                      </p>
+                      {request.message && <p className="text-sm mt-1">{request.message}</p>}
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <Button
+                        size="sm"
+                        className="gap-1"
+                        disabled={reviewRequest.isPending}
+                        onClick={() => reviewRequest.mutate({ requestId: request.id, accept: true })}
+                      >
+                        <Check className="w-4 h-4" /> Accepter
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={reviewRequest.isPending}
+                        onClick={() => reviewRequest.mutate({ requestId: request.id, accept: false })}
+                      >
+                        Refuser
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Supprimer {org.name} ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Les membres et les demandes d'adhésion seront supprimés. Les hangars des pilotes ne sont pas touchés.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteOrganization.mutate(undefined, { onSuccess: () => navigate('/orgs') })}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Supprimer
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Plus, Search, Shield } from 'lucide-react';
+import { useOrganizations } from '@/hooks/useOrganizations';
+import { OrganizationForm } from '@/components/OrganizationForm';
+
+export default function Organizations() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { organizations, isLoading, myMemberships, createOrganization } = useOrganizations(user?.id);
+  const [search, setSearch] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const myOrgIds = useMemo(() => new Set(myMemberships.map((m) => m.org_id)), [myMemberships]);
+
+  const filtered = useMemo(() => {
+    const q = search.toLowerCase();
+    const list = q
+      ? organizations.filter((org) => org.name.toLowerCase().includes(q) || org.slug.includes(q) || org.description_md?.toLowerCase().includes(q))
+      : organizations;
+    // The pilot's own orgs first
+    return [...list].sort((a, b) => Number(myOrgIds.has(b.id)) - Number(myOrgIds.has(a.id)));
+  }, [organizations, search, myOrgIds]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-accent to-secondary bg-clip-text text-transparent">
+            Organisations
+          </h1>
+          <p className="text-muted-foreground text-sm">
+            Les orgas des pilotes, leurs membres et la flotte réunie de leurs hangars
+          </p>
+        </div>
+        {user && !creating && (
+          <Button className="gap-2" onClick={() => setCreating(true)}>
+            <Plus className="w-4 h-4" /> Créer une organisation
+          </Button>
+        )}
+      </div>
+
+      {creating && (
+        <Card className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2"><Plus className="w-4 h-4 text-primary" /> Nouvelle organisation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <OrganizationForm
+              submitLabel="Créer"
+              pending={createOrganization.isPending}
+              onCancel={() => setCreating(false)}
+              onSubmit={(values) => createOrganization.mutate(values, { onSuccess: (slug) => navigate(`/orgs/${slug}`) })}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          placeholder="Chercher une organisation..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-10 bg-background/50"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-32 w-full" />)}
+        </div>
+      ) : filtered.length === 0 ? (
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-12 text-center text-muted-foreground">Aucune organisation trouvée</CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {filtered.map((org) => (
+            <Link key={org.id} to={`/orgs/${org.slug}`}>
+              <Card className="h-full bg-card/60 border-border/50 hover:shadow-lg hover:border-primary/50 transition-all">
+                <CardHeader>
+                  <div className="flex items-center gap-4">
+                    <Avatar className="w-14 h-14 rounded-md">
+                      <AvatarImage src={org.logo_url || undefined} className="object-cover" />
+                      <AvatarFallback className="rounded-md"><Shield className="w-6 h-6" /></AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <CardTitle className="text-lg truncate">{org.name}</CardTitle>
+                      <CardDescription className="truncate">{org.member_count} membre(s)</CardDescription>
+                    </div>
+                    {myOrgIds.has(org.id) && <Badge variant="secondary">Membre</Badge>}
+                  </div>
+                  {org.description_md && (
+                    <p className="text-sm text-muted-foreground line-clamp-2 mt-2">{org.description_md}</p>
+                  )}
+                </CardHeader>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
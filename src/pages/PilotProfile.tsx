@@ -1,4 +1,4 @@
-import { useParams, useNavigate } from 'react-router-dom';
+import { Link, useParams, useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -7,6 +7,14 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft } from 'lucide-react';
+import { useCollectedBlueprints } from '@/hooks/useCollectedBlueprints';
+import { useFactionStandings } from '@/hooks/useFactionStandings';
+import { PilotStats } from '@/components/PilotStats';
+import { HangarOverview } from '@/components/HangarOverview';
+import { useHangar } from '@/hooks/useHangar';
+import { useAuth } from '@/contexts/AuthContext';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 
 export default function PilotProfile() {
   const { handle } = useParams();
@@ -42,6 +50,12 @@ export default function PilotProfile() {
     enabled: !!profile,
   });
 
+  const { blueprints } = useCollectedBlueprints(profile?.id);
+  const { standings } = useFactionStandings(profile?.id);
+  const { user } = useAuth();
+  const { ships: hangar, setHangarPublic } = useHangar(profile?.id);
+  const isOwner = !!user && user.id === profile?.id;
+
   if (profileLoading) {
     return (
       <div className="space-y-6">
@@ -68,8 +82,6 @@ export default function PilotProfile() {
     );
   }
 
-  const stats = profile.stats as any;
-
   return (
     <div className="space-y-4 md:space-y-6">
       <Button variant="ghost" onClick={() => navigate('/pilots')} className="gap-2">
@@ -99,49 +111,76 @@ export default function PilotProfile() {
       </Card>
 
       {/* Stats */}
-      {stats && (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg sm:text-xl">Statistics</CardTitle>
+          <CardDescription>Computed from the pilot's mission log</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PilotStats stats={profile.stats} />
+        </CardContent>
+      </Card>
+
+      {/* Hangar (RLS returns nothing for other pilots when it is private) */}
+      {(profile.hangar_public || isOwner) && (
         <Card>
-          <CardHeader>
-            <CardTitle className="text-lg sm:text-xl">Statistics</CardTitle>
+          <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg sm:text-xl">Hangar ({hangar.length})</CardTitle>
+              <CardDescription>
+                Owned ships and fleet totals
+                {isOwner && <> • <Link to="/hangar" className="hover:text-primary hover:underline">Manage</Link></>}
+              </CardDescription>
+            </div>
+            {isOwner && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="hangar-public"
+                  checked={profile.hangar_public}
+                  onCheckedChange={(checked) => setHangarPublic.mutate(checked)}
+                />
+                <Label htmlFor="hangar-public" className="text-sm">{profile.hangar_public ? 'Public' : 'Private'}</Label>
+              </div>
+            )}
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              {Object.entries(stats).map(([key, value]) => {
-                const numValue = typeof value === 'number' ? value : 0;
-                const maxValue = key === 'flight_hours' || key === 'events_completed' ? 100 : 10;
-                const displayValue = key === 'kd_ratio' ? numValue.toFixed(2) : numValue;
-                const percentage = key === 'flight_hours' || key === 'events_completed'
-                  ? Math.min((numValue / 500) * 100, 100)
-                  : (numValue / maxValue) * 100;
+            <HangarOverview entries={hangar} />
+          </CardContent>
+        </Card>
+      )}
 
-                const getBarColor = (value: number, max: number) => {
-                  const ratio = value / max;
-                  if (ratio >= 0.8) return 'bg-gradient-to-r from-primary to-accent';
-                  if (ratio >= 0.6) return 'bg-accent';
-                  if (ratio >= 0.4) return 'bg-secondary';
-                  if (ratio >= 0.2) return 'bg-orange-500';
-                  return 'bg-muted-foreground/50';
-                };
+      {/* Faction standings */}
+      {standings.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg sm:text-xl">Reputation</CardTitle>
+            <CardDescription>Current rank with mission factions</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {standings.map((s) => (
+                <div key={s.faction} className="flex justify-between items-center text-sm">
+                  <span>{s.faction}</span>
+                  <Badge variant="outline" className="text-xs">{s.rank}</Badge>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
-                return (
-                  <div key={key} className="space-y-2">
-                    <div className="flex justify-between items-center">
-                      <p className="text-xs sm:text-sm font-medium capitalize">
-                        {key.replace(/_/g, ' ')}
-                      </p>
-                      <p className="text-xs sm:text-sm font-bold text-primary">
-                        {displayValue}{key !== 'kd_ratio' && key !== 'flight_hours' && key !== 'events_completed' && '/10'}
-                      </p>
-                    </div>
-                    <div className="h-2 sm:h-3 bg-muted rounded-full overflow-hidden">
-                      <div
-                        className={`h-full ${getBarColor(numValue, maxValue)} transition-all duration-500 rounded-full`}
-                        style={{ width: `${percentage}%` }}
-                      />
-                    </div>
-                  </div>
-                );
-              })}
+      {/* Blueprints */}
+      {blueprints.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg sm:text-xl">Blueprints ({blueprints.length})</CardTitle>
+            <CardDescription>Collected from mission rewards</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-2">
+              {blueprints.map((b) => (
+                <Badge key={b.blueprint} variant="secondary" className="text-xs">{b.blueprint}</Badge>
+              ))}
             </div>
           </CardContent>
         </Card>
@@ -1,4 +1,4 @@
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
@@ -8,11 +8,15 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { ProfileEditDialog } from '@/components/ProfileEditDialog';
+import { PilotStats } from '@/components/PilotStats';
+import { HangarOverview } from '@/components/HangarOverview';
+import { useHangar } from '@/hooks/useHangar';
 
 export default function Profile() {
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
   const { t } = useTranslation();
+  const { ships } = useHangar(user?.id);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -55,8 +59,6 @@ export default function Profile() {
 
   if (!user || !profile) return null;
 
-  const stats = profile.stats as any;
-
   return (
     <div className="space-y-4 md:space-y-6">
       <Card>
@@ -79,54 +81,29 @@ export default function Profile() {
         )}
       </Card>
 
-      {stats && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg sm:text-xl">{t('profile.stats')}</CardTitle>
-            <CardDescription className="text-sm">Skills & Achievements</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              {Object.entries(stats).map(([key, value]) => {
-                const numValue = typeof value === 'number' ? value : 0;
-                const maxValue = key === 'flight_hours' || key === 'events_completed' ? 100 : 10;
-                const displayValue = key === 'kd_ratio' ? numValue.toFixed(2) : numValue;
-                const percentage = key === 'flight_hours' || key === 'events_completed' 
-                  ? Math.min((numValue / 500) * 100, 100) 
-                  : (numValue / maxValue) * 100;
-                
-                const getBarColor = (value: number, max: number) => {
-                  const ratio = value / max;
-                  if (ratio >= 0.8) return 'bg-gradient-to-r from-primary to-accent';
-                  if (ratio >= 0.6) return 'bg-accent';
-                  if (ratio >= 0.4) return 'bg-secondary';
-                  if (ratio >= 0.2) return 'bg-orange-500';
-                  return 'bg-muted-foreground/50';
-                };
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg sm:text-xl">{t('profile.stats')}</CardTitle>
+          <CardDescription className="text-sm">
+            Computed from your <Link to="/missions/log" className="hover:text-primary hover:underline">mission log</Link>
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PilotStats stats={profile.stats} />
+        </CardContent>
+      </Card>
 
-                return (
-                  <div key={key} className="space-y-2">
-                    <div className="flex justify-between items-center">
-                      <p className="text-xs sm:text-sm font-medium capitalize">
-                        {key.replace(/_/g, ' ')}
-                      </p>
-                      <p className="text-xs sm:text-sm font-bold text-primary">
-                        {displayValue}{key !== 'kd_ratio' && key !== 'flight_hours' && key !== 'events_completed' && '/10'}
-                      </p>
-                    </div>
-                    <div className="h-2 sm:h-3 bg-muted rounded-full overflow-hidden">
-                      <div 
-                        className={`h-full ${getBarColor(numValue, maxValue)} transition-all duration-500 rounded-full`}
-                        style={{ width: `${percentage}%` }}
-                      />
-                    </div>
-                  </div>
-                );
-              })}
-            </div>
-          </CardContent>
-        </Card>
-      )}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg sm:text-xl">Hangar ({ships.length})</CardTitle>
+          <CardDescription className="text-sm">
+            {profile.hangar_public ? 'Visible on your pilot profile' : 'Hidden from other pilots'} • <Link to="/hangar" className="hover:text-primary hover:underline">Manage hangar</Link>
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <HangarOverview entries={ships} />
+        </CardContent>
+      </Card>
 
       <Card>
         <CardHeader>
@@ -0,0 +1,410 @@
+import { useState, useMemo, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { useAuth } from '@/contexts/AuthContext';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Plus, Trash2, Timer, CheckCircle2, Bell, Coins, History, X } from 'lucide-react';
+import { useRefineryJobs, type RefineryJob } from '@/hooks/useRefineryJobs';
+import {
+  useRefineryCommodities,
+  useRefineryTerminals,
+  useRefineryMethods,
+  useRefineryYields,
+  useBestSellPrices,
+} from '@/hooks/useRefineryData';
+import { estimateRefineryJobs, formatCountdown, formatDuration, getRefinedCommodity, type RefineryLoadEntry } from '@/lib/refinery';
+
+const toLocalInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export default function RefineryJobs() {
+  const { user } = useAuth();
+  const { jobs, isLoading, createJob, updateJob, deleteJob } = useRefineryJobs(user?.id);
+
+  const [terminalId, setTerminalId] = useState('');
+  const [methodId, setMethodId] = useState('');
+  const [load, setLoad] = useState<RefineryLoadEntry[]>([{ commodityId: 0, quantity: 0 }]);
+  const [startedAt, setStartedAt] = useState(() => toLocalInput(new Date()));
+  const [gameMinutes, setGameMinutes] = useState('');
+  const [notes, setNotes] = useState('');
+  const [finalValues, setFinalValues] = useState<Record<number, string>>({});
+  const [now, setNow] = useState(() => Date.now());
+  const [notificationPermission, setNotificationPermission] = useState(
+    () => ('Notification' in window ? Notification.permission : 'denied'),
+  );
+
+  const { data: commodities } = useRefineryCommodities();
+  const { data: refineries } = useRefineryTerminals();
+  const { data: methods } = useRefineryMethods();
+  const { data: yields } = useRefineryYields();
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const refinedIds = useMemo(() => {
+    if (!commodities) return [];
+    const ids = load
+      .map(e => commodities.find(c => c.id === e.commodityId))
+      .filter(Boolean)
+      .map(c => getRefinedCommodity(c!, commodities).id);
+    return Array.from(new Set(ids)).sort((a, b) => a - b);
+  }, [load, commodities]);
+
+  const { data: bestSells } = useBestSellPrices(refinedIds);
+
+  const method = methods?.find(m => m.id === Number(methodId));
+  const estimate = useMemo(() => {
+    if (!commodities || !yields || !method || !terminalId) return null;
+    const sellPrices = new Map(Array.from(bestSells?.entries() ?? []).map(([id, p]) => [id, Number(p.price_sell)]));
+    return estimateRefineryJobs(load, [Number(terminalId)], [method], yields, commodities, sellPrices)[0] ?? null;
+  }, [commodities, yields, method, terminalId, load, bestSells]);
+
+  // The duration shown in-game wins over our estimate when the user typed it
+  const durationSeconds = Number(gameMinutes) > 0 ? Number(gameMinutes) * 60 : estimate?.durationSeconds ?? 0;
+  const completesAt = startedAt ? new Date(new Date(startedAt).getTime() + durationSeconds * 1000) : null;
+
+  const activeJobs = jobs.filter(j => j.status === 'processing');
+  const collectedJobs = jobs.filter(j => j.status === 'collected');
+
+  const stats = useMemo(() => {
+    const net = (j: RefineryJob) => Number(j.final_value || 0) - Number(j.cost_auec || 0);
+    const monthAgo = Date.now() - 30 * 24 * 3600 * 1000;
+    return {
+      total: collectedJobs.reduce((sum, j) => sum + net(j), 0),
+      lastMonth: collectedJobs
+        .filter(j => j.collected_at && new Date(j.collected_at).getTime() >= monthAgo)
+        .reduce((sum, j) => sum + net(j), 0),
+      count: collectedJobs.length,
+    };
+  }, [collectedJobs]);
+
+  const updateEntry = (index: number, patch: Partial<RefineryLoadEntry>) => {
+    setLoad(prev => prev.map((e, i) => i === index ? { ...e, ...patch } : e));
+  };
+
+  const handleCreate = () => {
+    if (!estimate || !completesAt || estimate.lines.length === 0) return;
+    createJob.mutate(
+      {
+        terminalId: Number(terminalId),
+        methodId: Number(methodId),
+        startedAt: new Date(startedAt).toISOString(),
+        completesAt: completesAt.toISOString(),
+        costAuec: Math.round(estimate.cost),
+        estimatedValue: Math.round(estimate.value),
+        notes: notes.trim() || null,
+        items: estimate.lines.map(line => ({
+          commodityId: line.rawCommodityId,
+          quantityScu: line.rawScu,
+          expectedScu: Math.round(line.refinedScu * 100) / 100,
+        })),
+      },
+      {
+        onSuccess: () => {
+          setLoad([{ commodityId: 0, quantity: 0 }]);
+          setGameMinutes('');
+          setNotes('');
+          setStartedAt(toLocalInput(new Date()));
+        },
+      },
+    );
+  };
+
+  const handleCollect = (job: RefineryJob) => {
+    const value = finalValues[job.id] ?? String(job.estimated_value ?? '');
+    updateJob.mutate({
+      id: job.id,
+      changes: { status: 'collected', final_value: Number(value) || 0, collected_at: new Date().toISOString() },
+    });
+  };
+
+  const requestNotifications = async () => {
+    if (!('Notification' in window)) return;
+    setNotificationPermission(await Notification.requestPermission());
+  };
+
+  const formatAuec = (value: number) => `${Math.round(value).toLocaleString()} aUEC`;
+  const jobCommodities = (job: RefineryJob) =>
+    job.refinery_job_items.map(i => `${i.commodities?.name || '—'} (${Number(i.quantity_scu)} SCU)`).join(', ');
+
+  if (!user) {
+    return (
+      <div className="space-y-6">
+        <Link to="/mining">
+          <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> Retour au mining</Button>
+        </Link>
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-12 text-center text-muted-foreground space-y-4">
+            <p>Connecte-toi pour suivre tes jobs de raffinage.</p>
+            <Link to="/auth"><Button>Se connecter</Button></Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link to="/mining">
+        <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> Retour au mining</Button>
+      </Link>
+
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-2">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-amber-400 to-primary bg-clip-text text-transparent">
+            Mes jobs de raffinage
+          </h1>
+          <p className="text-muted-foreground text-sm">
+            Suis tes jobs en cours, sois prévenu quand ils sont prêts et garde l'historique de tes revenus
+          </p>
+        </div>
+        {notificationPermission === 'default' && (
+          <Button variant="outline" size="sm" onClick={requestNotifications} className="gap-2">
+            <Bell className="w-4 h-4" /> Activer les notifications
+          </Button>
+        )}
+      </div>
+
+      {/* New job */}
+      <Card className="bg-card/60 border-border/50">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2"><Plus className="w-4 h-4 text-primary" /> Nouveau job</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="space-y-2">
+              <Label>Raffinerie</Label>
+              <Select value={terminalId} onValueChange={setTerminalId}>
+                <SelectTrigger className="bg-background/50"><SelectValue placeholder="Choisir" /></SelectTrigger>
+                <SelectContent>
+                  {refineries?.map(r => <SelectItem key={r.id} value={String(r.id)}>{r.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Méthode</Label>
+              <Select value={methodId} onValueChange={setMethodId}>
+                <SelectTrigger className="bg-background/50"><SelectValue placeholder="Choisir" /></SelectTrigger>
+                <SelectContent>
+                  {methods?.map(m => <SelectItem key={m.id} value={String(m.id)}>{m.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Début</Label>
+              <Input type="datetime-local" value={startedAt} onChange={(e) => setStartedAt(e.target.value)} className="bg-background/50" />
+            </div>
+            <div className="space-y-2">
+              <Label>Durée affichée en jeu (min)</Label>
+              <Input
+                type="number"
+                min={0}
+                placeholder={estimate ? `estimée : ${Math.round(estimate.durationSeconds / 60)}` : 'optionnel'}
+                value={gameMinutes}
+                onChange={(e) => setGameMinutes(e.target.value)}
+                className="bg-background/50"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Chargement</Label>
+              <Button variant="outline" size="sm" onClick={() => setLoad(prev => [...prev, { commodityId: 0, quantity: 0 }])} className="gap-1">
+                <Plus className="w-3 h-3" /> Ajouter
+              </Button>
+            </div>
+            {load.map((entry, i) => (
+              <div key={i} className="flex gap-2 items-center">
+                <Select value={entry.commodityId ? String(entry.commodityId) : ''} onValueChange={(v) => updateEntry(i, { commodityId: Number(v) })}>
+                  <SelectTrigger className="flex-1 bg-background/50"><SelectValue placeholder="Minerai brut" /></SelectTrigger>
+                  <SelectContent>
+                    {commodities?.filter(c => c.is_raw).map(c => <SelectItem key={c.id} value={String(c.id)}>{c.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="SCU"
+                  value={entry.quantity || ''}
+                  onChange={(e) => updateEntry(i, { quantity: Math.max(0, Number(e.target.value) || 0) })}
+                  className="w-28 bg-background/50"
+                />
+                <Button variant="ghost" size="icon" onClick={() => setLoad(prev => prev.filter((_, idx) => idx !== i))} disabled={load.length === 1}>
+                  <Trash2 className="w-4 h-4 text-muted-foreground" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <Input placeholder="Notes (optionnel)" value={notes} onChange={(e) => setNotes(e.target.value)} className="bg-background/50" />
+
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              {estimate && completesAt ? (
+                <>
+                  Durée {formatDuration(durationSeconds)} • prêt le {format(completesAt, 'd MMM HH:mm', { locale: fr })}
+                  {' '}• coût ~{formatAuec(estimate.cost)} • valeur ~{formatAuec(estimate.value)}
+                </>
+              ) : 'Choisis une raffinerie, une méthode et un chargement.'}
+            </p>
+            <Button onClick={handleCreate} disabled={!estimate || estimate.lines.length === 0 || createJob.isPending} className="gap-2">
+              <Timer className="w-4 h-4" /> Lancer le suivi
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Active jobs */}
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold flex items-center gap-2"><Timer className="w-5 h-5 text-primary" /> En cours ({activeJobs.length})</h2>
+        {isLoading ? (
+          <div className="h-24 bg-muted/30 rounded animate-pulse" />
+        ) : activeJobs.length === 0 ? (
+          <Card className="bg-card/60 border-border/50">
+            <CardContent className="py-8 text-center text-muted-foreground">Aucun job en cours.</CardContent>
+          </Card>
+        ) : (
+          activeJobs.map(job => {
+            const start = new Date(job.started_at).getTime();
+            const end = new Date(job.completes_at).getTime();
+            const remaining = end - now;
+            const done = remaining <= 0;
+            const progress = end > start ? Math.min(100, ((now - start) / (end - start)) * 100) : 100;
+            return (
+              <Card key={job.id} className={`bg-card/60 ${done ? 'border-green-600/40' : 'border-border/50'}`}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                    <div>
+                      <p className="font-medium">
+                        {job.terminals ? (
+                          <Link to={`/terminals/${job.terminals.slug}`} className="hover:text-primary hover:underline">{job.terminals.name}</Link>
+                        ) : '—'}
+                        <span className="text-muted-foreground font-normal"> • {job.refinery_methods?.name || '—'}</span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">{jobCommodities(job)}</p>
+                      {job.notes && <p className="text-xs text-muted-foreground italic">{job.notes}</p>}
+                    </div>
+                    {done ? (
+                      <Badge className="bg-green-600/20 text-green-400 border-green-600/30 gap-1 w-fit">
+                        <CheckCircle2 className="w-3 h-3" /> Prêt à récupérer
+                      </Badge>
+                    ) : (
+                      <span className="font-mono text-lg">{formatCountdown(remaining)}</span>
+                    )}
+                  </div>
+                  <Progress value={progress} className="h-2" />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Valeur finale (aUEC)"
+                      value={finalValues[job.id] ?? (job.estimated_value != null ? String(job.estimated_value) : '')}
+                      onChange={(e) => setFinalValues(prev => ({ ...prev, [job.id]: e.target.value }))}
+                      className="w-48 h-8 bg-background/50"
+                    />
+                    <Button size="sm" onClick={() => handleCollect(job)} disabled={updateJob.isPending} className="gap-1">
+                      <Coins className="w-3 h-3" /> Récupéré
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateJob.mutate({ id: job.id, changes: { status: 'cancelled' } })}
+                      className="gap-1 text-muted-foreground"
+                    >
+                      <X className="w-3 h-3" /> Annuler
+                    </Button>
+                    <span className="text-xs text-muted-foreground ml-auto">
+                      Prêt le {format(new Date(job.completes_at), 'd MMM HH:mm', { locale: fr })}
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+
+      {/* Income history */}
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold flex items-center gap-2"><History className="w-5 h-5 text-primary" /> Historique des revenus</h2>
+        <div className="grid grid-cols-3 gap-3">
+          <Card className="bg-card/60 border-border/50">
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground">Jobs récupérés</p>
+              <p className="text-lg font-bold">{stats.count}</p>
+            </CardContent>
+          </Card>
+          <Card className="bg-card/60 border-border/50">
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground">Net 30 derniers jours</p>
+              <p className="text-lg font-bold font-mono text-green-400">{formatAuec(stats.lastMonth)}</p>
+            </CardContent>
+          </Card>
+          <Card className="bg-card/60 border-border/50">
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground">Net total</p>
+              <p className="text-lg font-bold font-mono text-green-400">{formatAuec(stats.total)}</p>
+            </CardContent>
+          </Card>
+        </div>
+        <Card className="bg-card/60 border-border/50 overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent border-border/50">
+                  <TableHead>Date</TableHead>
+                  <TableHead>Raffinerie</TableHead>
+                  <TableHead>Chargement</TableHead>
+                  <TableHead className="text-right">Coût</TableHead>
+                  <TableHead className="text-right">Valeur</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {collectedJobs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">Aucun job récupéré pour l'instant.</TableCell>
+                  </TableRow>
+                ) : (
+                  collectedJobs.map(job => (
+                    <TableRow key={job.id} className="border-border/30 hover:bg-muted/20">
+                      <TableCell className="text-sm">
+                        {format(new Date(job.collected_at || job.completes_at), 'd MMM yyyy', { locale: fr })}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {job.terminals?.name || '—'}
+                        <div className="text-xs text-muted-foreground">{job.refinery_methods?.name || '—'}</div>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-[260px]">{jobCommodities(job)}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatAuec(Number(job.cost_auec || 0))}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatAuec(Number(job.final_value || 0))}</TableCell>
+                      <TableCell className="text-right font-mono text-sm text-green-400">
+                        {formatAuec(Number(job.final_value || 0) - Number(job.cost_auec || 0))}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => deleteJob.mutate(job.id)}>
+                          <Trash2 className="w-4 h-4 text-muted-foreground" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Search, X, GitCompare } from "lucide-react";
+import { useShipCompare, MAX_COMPARED_SHIPS } from "@/hooks/useShipCompare";
+import { COMPARE_SECTIONS, bestIndexes, type CompareRow, type CompareValue } from "@/lib/shipCompare";
+
+function parseSlugs(value: string | null): string[] {
+  if (!value) return [];
+  return Array.from(new Set(value.split(",").map((s) => s.trim()).filter(Boolean))).slice(0, MAX_COMPARED_SHIPS);
+}
+
+function formatValue(row: CompareRow, value: CompareValue): string {
+  if (value === null || value === "") return "—";
+  if (typeof value === "string") return value;
+  if (row.format) return row.format(value);
+  return row.unit ? `${value.toLocaleString()} ${row.unit}` : value.toLocaleString();
+}
+
+export default function ShipCompare() {
+  const { t } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const compare = useShipCompare();
+  const [search, setSearch] = useState("");
+
+  // A shared /ships/compare?slugs=... link wins over the stored selection, which follows it
+  const urlParam = searchParams.get("slugs");
+  const slugs = useMemo(
+    () => (urlParam !== null ? parseSlugs(urlParam) : compare.slugs),
+    [urlParam, compare.slugs]
+  );
+
+  const { slugs: stored, set: setStored } = compare;
+  useEffect(() => {
+    if (urlParam !== null && slugs.join(",") !== stored.join(",")) setStored(slugs);
+  }, [urlParam, slugs, stored, setStored]);
+
+  const updateSlugs = (next: string[]) => {
+    compare.set(next);
+    setSearchParams(next.length > 0 ? { slugs: next.join(",") } : {}, { replace: true });
+  };
+
+  const { data: ships, isLoading } = useQuery({
+    queryKey: ["ships-compare", slugs],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("ships").select("*").in("slug", slugs);
+      if (error) throw error;
+      // Keep the columns in the order the ships were picked
+      return slugs.map((slug) => data.find((s) => s.slug === slug)).filter((s): s is Tables<"ships"> => s !== undefined);
+    },
+    enabled: slugs.length > 0,
+  });
+
+  const { data: shipNames } = useQuery({
+    queryKey: ["ships-list"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("ships").select("slug, name, manufacturer").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const suggestions = useMemo(() => {
+    if (!shipNames || search.length < 2) return [];
+    const q = search.toLowerCase();
+    return shipNames
+      .filter((s) => !slugs.includes(s.slug))
+      .filter((s) => s.name.toLowerCase().includes(q) || s.manufacturer?.toLowerCase().includes(q))
+      .slice(0, 8);
+  }, [shipNames, search, slugs]);
+
+  const compared = slugs.length > 0 ? ships ?? [] : [];
+  const isFull = slugs.length >= MAX_COMPARED_SHIPS;
+
+  return (
+    <div className="space-y-6">
+      <Link to="/ships">
+        <Button variant="ghost">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          {t("ships.backToList")}
+        </Button>
+      </Link>
+
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold mb-2 flex items-center gap-3">
+            <GitCompare className="h-8 w-8 text-primary" />
+            {t("ships.compareTitle")}
+          </h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            {t("ships.compareDescription", { max: MAX_COMPARED_SHIPS })}
+          </p>
+        </div>
+        {slugs.length > 0 && (
+          <Button variant="ghost" size="sm" className="gap-2" onClick={() => updateSlugs([])}>
+            <X className="h-4 w-4" />
+            {t("ships.clearCompare")}
+          </Button>
+        )}
+      </div>
+
+      <div className="relative max-w-md">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder={isFull ? t("ships.compareFull", { max: MAX_COMPARED_SHIPS }) : t("ships.compareAddShip")}
+          value={search}
+          disabled={isFull}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-10"
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute z-10 mt-1 w-full rounded-md border border-border bg-popover shadow-md">
+            {suggestions.map((option) => (
+              <button
+                key={option.slug}
+                type="button"
+                onClick={() => {
+                  updateSlugs([...slugs, option.slug]);
+                  setSearch("");
+                }}
+                className="w-full text-left px-3 py-2 text-sm hover:bg-muted/50 flex justify-between gap-2"
+              >
+                <span className="truncate">{option.name}</span>
+                <span className="text-xs text-muted-foreground shrink-0">{option.manufacturer || ""}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {slugs.length === 0 ? (
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-12 text-center text-muted-foreground">
+            {t("ships.compareEmpty")}
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
+        <Skeleton className="h-96 w-full" />
+      ) : (
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="p-0 overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-44" />
+                  {compared.map((ship) => (
+                    <TableHead key={ship.slug} className="align-top py-3 min-w-44">
+                      <div className="space-y-2">
+                        <img
+                          src={ship.image_url || `${import.meta.env.BASE_URL}placeholder.svg`}
+                          alt={ship.name}
+                          className="w-full aspect-video object-cover rounded-md bg-muted"
+                          loading="lazy"
+                        />
+                        <div className="flex items-start justify-between gap-2">
+                          <Link to={`/ships/${ship.slug}`} className="font-semibold text-foreground hover:text-primary hover:underline">
+                            {ship.name}
+                          </Link>
+                          <button
+                            type="button"
+                            onClick={() => updateSlugs(slugs.filter((s) => s !== ship.slug))}
+                            aria-label={t("ships.remove")}
+                            className="text-muted-foreground hover:text-destructive"
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {COMPARE_SECTIONS.map((section) => (
+                  <SectionRows key={section.titleKey} title={t(section.titleKey)} rows={section.rows} ships={compared} />
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function SectionRows({
+  title,
+  rows,
+  ships,
+}: {
+  title: string;
+  rows: CompareRow[];
+  ships: Tables<"ships">[];
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <>
+      <TableRow className="bg-muted/30 hover:bg-muted/30">
+        <TableCell colSpan={ships.length + 1} className="font-semibold text-primary">
+          {title}
+        </TableCell>
+      </TableRow>
+      {rows.map((row) => {
+        const values = ships.map((ship) => row.get(ship));
+        const best = bestIndexes(row, values);
+        return (
+          <TableRow key={row.key}>
+            <TableCell className="text-muted-foreground">{t(row.labelKey)}</TableCell>
+            {values.map((value, i) => (
+              <TableCell
+                key={ships[i].slug}
+                className={best.has(i) ? "font-semibold text-green-400 bg-green-500/10" : undefined}
+              >
+                {formatValue(row, value)}
+              </TableCell>
+            ))}
+          </TableRow>
+        );
+      })}
+    </>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useParams, Link } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
@@ -8,7 +9,7 @@ import { Button } from "@/components/ui/button";
 import {
   ExternalLink, Users, Package, Ruler, Gauge, DollarSign, ArrowLeft,
   Sword, Compass, Shield, Zap, Target, Rocket, Box, Settings,
-  Cpu, Fuel, Radio, Wind, Battery, Snowflake, Wrench, Info
+  Cpu, Fuel, Radio, Wind, Battery, Snowflake, Wrench, Info, History
 } from "lucide-react";
 import { ShipViewer3D } from "@/components/ShipViewer3D";
 import { useTranslation } from "react-i18next";
@@ -19,6 +20,7 @@ import { ShipLoaners } from "@/components/ShipLoaners";
 import { ShipVariants } from "@/components/ShipVariants";
 import { ShipModules } from "@/components/ShipModules";
 import { ShipTags } from "@/components/ShipTags";
+import { ShipHistory } from "@/components/ShipHistory";
 
 type Ship = Tables<"ships">;
 
@@ -98,6 +100,7 @@ function getStatusBadge(status: string | null) {
 export default function ShipDetail() {
   const { slug } = useParams<{ slug: string }>();
   const { t } = useTranslation();
+  const [tab, setTab] = useState<"overview" | "history">("overview");
 
   const { data: ship, isLoading } = useQuery({
     queryKey: ["ship", slug],
@@ -228,237 +231,261 @@ export default function ShipDetail() {
         </div>
       </div>
 
-      {/* ─── Image + Quick Stats ─────────────────────────────────────── */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <Card className="overflow-hidden">
-          <CardContent className="p-0">
-            {ship.model_glb_url ? (
-              <div className="h-96">
-                <ShipViewer3D modelUrl={ship.model_glb_url} shipName={ship.name} />
-              </div>
-            ) : ship.image_url ? (
-              <img
-                src={ship.image_url}
-                alt={ship.name}
-                className="w-full h-96 object-cover"
-                onError={(e) => { e.currentTarget.src = "/placeholder.svg"; }}
-              />
-            ) : (
-              <div className="w-full h-96 bg-muted flex items-center justify-center">
-                <Package className="h-24 w-24 text-muted-foreground" />
-              </div>
-            )}
-          </CardContent>
-        </Card>
+      {/* ─── Tabs ─────────────────────────────────────────────────────── */}
+      <div className="flex flex-wrap gap-2 border-b border-border pb-2">
+        <Button variant={tab === "overview" ? "default" : "ghost"} size="sm" className="gap-2" onClick={() => setTab("overview")}>
+          <Info className="h-4 w-4" />
+          {t("ships.overview")}
+        </Button>
+        <Button variant={tab === "history" ? "default" : "ghost"} size="sm" className="gap-2" onClick={() => setTab("history")}>
+          <History className="h-4 w-4" />
+          {t("ships.history")}
+        </Button>
+      </div>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>{t("ships.technicalSpecs")}</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-2 gap-4">
-              <Stat icon={Users} label={t("ships.crew")}>
-                {ship.crew_min != null && ship.crew_max != null
-                  ? ship.crew_min === ship.crew_max
-                    ? String(ship.crew_min)
-                    : `${ship.crew_min}–${ship.crew_max}`
-                  : "N/A"}
-              </Stat>
-              <Stat icon={Package} label={t("ships.cargo")}>
-                {ship.cargo_scu ? `${ship.cargo_scu} SCU` : "N/A"}
-              </Stat>
-              <Stat icon={Gauge} label={`SCM ${t("ships.speed")}`}>
-                {ship.scm_speed ? `${ship.scm_speed} m/s` : "N/A"}
-              </Stat>
-              <Stat icon={Zap} label={`Max ${t("ships.speed")}`}>
-                {ship.max_speed ? `${ship.max_speed} m/s` : "N/A"}
-              </Stat>
-              <Stat icon={Ruler} label={t("ships.length")}>
-                {ship.length_m ? `${ship.length_m} m` : "N/A"}
-              </Stat>
-              <Stat icon={Ruler} label={t("ships.beam")}>
-                {ship.beam_m ? `${ship.beam_m} m` : "N/A"}
-              </Stat>
-              <Stat icon={Ruler} label={t("ships.height")}>
-                {ship.height_m ? `${ship.height_m} m` : "N/A"}
-              </Stat>
-              {uecPrice && (
-                <Stat icon={DollarSign} label="Pledge Price">
-                  ${Number(uecPrice).toLocaleString()}
-                </Stat>
+      {tab === "history" ? (
+        <ShipHistory shipId={ship.id} />
+      ) : (
+        <>
+        {/* ─── Image + Quick Stats ─────────────────────────────────────── */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="overflow-hidden">
+            <CardContent className="p-0">
+              {ship.model_glb_url ? (
+                <div className="h-96">
+                  <ShipViewer3D modelUrl={ship.model_glb_url} shipName={ship.name} />
+                </div>
+              ) : ship.image_url ? (
+                <img
+                  src={ship.image_url}
+                  alt={ship.name}
+                  className="w-full h-96 object-cover"
+                  onError={(e) => { e.currentTarget.src = "/placeholder.svg"; }}
+                />
+              ) : (
+                <div className="w-full h-96 bg-muted flex items-center justify-center">
+                  <Package className="h-24 w-24 text-muted-foreground" />
+                </div>
               )}
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+            </CardContent>
+          </Card>
 
-      {/* ─── Systems / Components ─────────────────────────────────────── */}
-      {hasComponents ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-          {avionicsItems.length > 0 && (
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm flex items-center gap-2">
-                  <Radio className="h-4 w-4 text-primary" /> Avionics
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2 text-xs text-muted-foreground">
-                {avionicsItems.map((item, i) => <div key={i} className="border-l-2 border-primary/30 pl-2">{item}</div>)}
-              </CardContent>
-            </Card>
-          )}
-          {propItems.length > 0 && (
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm flex items-center gap-2">
-                  <Fuel className="h-4 w-4 text-blue-400" /> {t("ships.propulsion")}
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2 text-xs text-muted-foreground">
-                {propItems.map((item, i) => <div key={i} className="border-l-2 border-blue-400/30 pl-2">{item}</div>)}
-              </CardContent>
-            </Card>
-          )}
-          {thrusterItems.length > 0 && (
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm flex items-center gap-2">
-                  <Wind className="h-4 w-4 text-cyan-400" /> {t("ships.thrusters")}
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2 text-xs text-muted-foreground">
-                {thrusterItems.map((item, i) => <div key={i} className="border-l-2 border-cyan-400/30 pl-2">{item}</div>)}
-              </CardContent>
-            </Card>
-          )}
-          {powerItems.length > 0 && (
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm flex items-center gap-2">
-                  <Battery className="h-4 w-4 text-yellow-400" /> {t("ships.powerSystems")}
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2 text-xs text-muted-foreground">
-                {powerItems.map((item, i) => <div key={i} className="border-l-2 border-yellow-400/30 pl-2">{item}</div>)}
-              </CardContent>
-            </Card>
-          )}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("ships.technicalSpecs")}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 gap-4">
+                <Stat icon={Users} label={t("ships.crew")}>
+                  {ship.crew_min != null && ship.crew_max != null
+                    ? ship.crew_min === ship.crew_max
+                      ? String(ship.crew_min)
+                      : `${ship.crew_min}–${ship.crew_max}`
+                    : "N/A"}
+                </Stat>
+                <Stat icon={Package} label={t("ships.cargo")}>
+                  {ship.cargo_scu ? `${ship.cargo_scu} SCU` : "N/A"}
+                </Stat>
+                <Stat icon={Gauge} label={`SCM ${t("ships.speed")}`}>
+                  {ship.scm_speed ? `${ship.scm_speed} m/s` : "N/A"}
+                </Stat>
+                <Stat icon={Zap} label={`Max ${t("ships.speed")}`}>
+                  {ship.max_speed ? `${ship.max_speed} m/s` : "N/A"}
+                </Stat>
+                <Stat icon={Ruler} label={t("ships.length")}>
+                  {ship.length_m ? `${ship.length_m} m` : "N/A"}
+                </Stat>
+                <Stat icon={Ruler} label={t("ships.beam")}>
+                  {ship.beam_m ? `${ship.beam_m} m` : "N/A"}
+                </Stat>
+                <Stat icon={Ruler} label={t("ships.height")}>
+                  {ship.height_m ? `${ship.height_m} m` : "N/A"}
+                </Stat>
+                {uecPrice && (
+                  <Stat icon={DollarSign} label="Pledge Price">
+                    ${Number(uecPrice).toLocaleString()}
+                  </Stat>
+                )}
+              </div>
+            </CardContent>
+          </Card>
         </div>
-      ) : (
-        <Card className="border-dashed border-muted">
-          <CardContent className="py-8 flex items-center gap-3 text-muted-foreground">
-            <Info className="h-5 w-5 shrink-0" />
-            <p className="text-sm">
-              Les données composants ne sont pas encore disponibles pour ce vaisseau.
-              Lancez la synchronisation FleetYards depuis l'admin pour les récupérer.
-            </p>
-          </CardContent>
-        </Card>
-      )}
 
-      {/* ─── Armament ─────────────────────────────────────────────────── */}
-      {hasArmament ? (
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Target className="h-5 w-5" />
-              {t("ships.weaponry")}
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-6">
-              {weaponItems.length > 0 && (
-                <ComponentSection title={t("ships.weapons")} icon={Sword} items={weaponItems} />
-              )}
-              {turretItems.length > 0 && (
-                <ComponentSection title={t("ships.turrets")} icon={Settings} items={turretItems} />
-              )}
-              {missileItems.length > 0 && (
-                <ComponentSection title={t("ships.missiles")} icon={Rocket} items={missileItems} />
-              )}
-              {utilityItems.length > 0 && (
-                <ComponentSection title={t("ships.utilityItems")} icon={Wrench} items={utilityItems} />
-              )}
-              {cmItems.length > 0 && (
-                <ComponentSection title="Countermeasures" icon={Shield} items={cmItems} />
-              )}
-            </div>
-          </CardContent>
-        </Card>
-      ) : (
-        <Card className="border-dashed border-muted">
-          <CardContent className="py-8 flex items-center gap-3 text-muted-foreground">
-            <Info className="h-5 w-5 shrink-0" />
-            <p className="text-sm">{t("ships.noArmamentData")}</p>
-          </CardContent>
-        </Card>
-      )}
+        {/* ─── Systems / Components ─────────────────────────────────────── */}
+        {hasComponents ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {avionicsItems.length > 0 && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm flex items-center gap-2">
+                    <Radio className="h-4 w-4 text-primary" /> Avionics
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-xs text-muted-foreground">
+                  {avionicsItems.map((item, i) => <div key={i} className="border-l-2 border-primary/30 pl-2">{item}</div>)}
+                </CardContent>
+              </Card>
+            )}
+            {propItems.length > 0 && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm flex items-center gap-2">
+                    <Fuel className="h-4 w-4 text-blue-400" /> {t("ships.propulsion")}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-xs text-muted-foreground">
+                  {propItems.map((item, i) => <div key={i} className="border-l-2 border-blue-400/30 pl-2">{item}</div>)}
+                </CardContent>
+              </Card>
+            )}
+            {thrusterItems.length > 0 && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm flex items-center gap-2">
+                    <Wind className="h-4 w-4 text-cyan-400" /> {t("ships.thrusters")}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-xs text-muted-foreground">
+                  {thrusterItems.map((item, i) => <div key={i} className="border-l-2 border-cyan-400/30 pl-2">{item}</div>)}
+                </CardContent>
+              </Card>
+            )}
+            {powerItems.length > 0 && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm flex items-center gap-2">
+                    <Battery className="h-4 w-4 text-yellow-400" /> {t("ships.powerSystems")}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-xs text-muted-foreground">
+                  {powerItems.map((item, i) => <div key={i} className="border-l-2 border-yellow-400/30 pl-2">{item}</div>)}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        ) : (
+          <Card className="border-dashed border-muted">
+            <CardContent className="py-8 flex items-center gap-3 text-muted-foreground">
+              <Info className="h-5 w-5 shrink-0" />
+              <p className="text-sm">
+                Les données composants ne sont pas encore disponibles pour ce vaisseau.
+                Lancez la synchronisation FleetYards depuis l'admin pour les récupérer.
+              </p>
+            </CardContent>
+          </Card>
+        )}
 
-      {/* ─── Pricing ──────────────────────────────────────────────────── */}
-      {prices.length > 0 && (
+        {/* ─── Armament ─────────────────────────────────────────────────── */}
+        {hasArmament ? (
+          <Card>
+            <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+              <CardTitle className="flex items-center gap-2">
+                <Target className="h-5 w-5" />
+                {t("ships.weaponry")}
+              </CardTitle>
+              <Link to={`/loadouts/new?ship=${ship.slug}`}>
+                <Button variant="outline" size="sm" className="gap-2">
+                  <Wrench className="h-4 w-4" />
+                  Composer un loadout
+                </Button>
+              </Link>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-6">
+                {weaponItems.length > 0 && (
+                  <ComponentSection title={t("ships.weapons")} icon={Sword} items={weaponItems} />
+                )}
+                {turretItems.length > 0 && (
+                  <ComponentSection title={t("ships.turrets")} icon={Settings} items={turretItems} />
+                )}
+                {missileItems.length > 0 && (
+                  <ComponentSection title={t("ships.missiles")} icon={Rocket} items={missileItems} />
+                )}
+                {utilityItems.length > 0 && (
+                  <ComponentSection title={t("ships.utilityItems")} icon={Wrench} items={utilityItems} />
+                )}
+                {cmItems.length > 0 && (
+                  <ComponentSection title="Countermeasures" icon={Shield} items={cmItems} />
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="border-dashed border-muted">
+            <CardContent className="py-8 flex items-center gap-3 text-muted-foreground">
+              <Info className="h-5 w-5 shrink-0" />
+              <p className="text-sm">{t("ships.noArmamentData")}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* ─── Pricing ──────────────────────────────────────────────────── */}
+        {prices.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <DollarSign className="h-5 w-5" />
+                {t("ships.pricing")}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                {prices.map((price: any, i: number) => (
+                  <div key={i} className="space-y-0.5">
+                    <p className="text-xs text-muted-foreground">{price.type || "Price"}</p>
+                    <p className="text-lg font-semibold">
+                      {price.amount ? `$${Number(price.amount).toLocaleString()}` : "N/A"}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* ─── External Links ────────────────────────────────────────────── */}
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <DollarSign className="h-5 w-5" />
-              {t("ships.pricing")}
-            </CardTitle>
+            <CardTitle>{t("ships.externalLinks")}</CardTitle>
           </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-              {prices.map((price: any, i: number) => (
-                <div key={i} className="space-y-0.5">
-                  <p className="text-xs text-muted-foreground">{price.type || "Price"}</p>
-                  <p className="text-lg font-semibold">
-                    {price.amount ? `$${Number(price.amount).toLocaleString()}` : "N/A"}
-                  </p>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* ─── External Links ────────────────────────────────────────────── */}
-      <Card>
-        <CardHeader>
-          <CardTitle>{t("ships.externalLinks")}</CardTitle>
-        </CardHeader>
-        <CardContent className="flex flex-wrap gap-3">
-          <a
-            href={`https://starcitizen.tools/${ship.name.replace(/ /g, "_")}`}
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            <Button variant="outline" size="sm" className="gap-2">
-              <ExternalLink className="h-3 w-3" /> Star Citizen Wiki
-            </Button>
-          </a>
-          <a
-            href={`https://www.erkul.games/live/calculator?ship=${ship.slug}`}
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            <Button variant="outline" size="sm" className="gap-2">
-              <ExternalLink className="h-3 w-3" /> Erkul DPS Calculator
-            </Button>
-          </a>
-          {fy?.storeUrl && (
-            <a href={fy.storeUrl} target="_blank" rel="noopener noreferrer">
+          <CardContent className="flex flex-wrap gap-3">
+            <a
+              href={`https://starcitizen.tools/${ship.name.replace(/ /g, "_")}`}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
               <Button variant="outline" size="sm" className="gap-2">
-                <ExternalLink className="h-3 w-3" /> RSI Store
+                <ExternalLink className="h-3 w-3" /> Star Citizen Wiki
               </Button>
             </a>
-          )}
-        </CardContent>
-      </Card>
+            <a
+              href={`https://www.erkul.games/live/calculator?ship=${ship.slug}`}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <Button variant="outline" size="sm" className="gap-2">
+                <ExternalLink className="h-3 w-3" /> Erkul DPS Calculator
+              </Button>
+            </a>
+            {fy?.storeUrl && (
+              <a href={fy.storeUrl} target="_blank" rel="noopener noreferrer">
+                <Button variant="outline" size="sm" className="gap-2">
+                  <ExternalLink className="h-3 w-3" /> RSI Store
+                </Button>
+              </a>
+            )}
+          </CardContent>
+        </Card>
 
-      {/* ─── FleetYards enriched sections ──────────────────────────────── */}
-      <ShipTags fullData={fy} />
-      <ShipImageGallery images={(ship as any).fleetyards_images} />
-      <ShipVideos videos={(ship as any).fleetyards_videos} />
-      <ShipLoaners loaners={(ship as any).fleetyards_loaners} />
-      <ShipVariants variants={(ship as any).fleetyards_variants} />
-      <ShipModules modules={(ship as any).fleetyards_modules} />
+        {/* ─── FleetYards enriched sections ──────────────────────────────── */}
+        <ShipTags fullData={fy} />
+        <ShipImageGallery images={(ship as any).fleetyards_images} />
+        <ShipVideos videos={(ship as any).fleetyards_videos} />
+        <ShipLoaners loaners={(ship as any).fleetyards_loaners} />
+        <ShipVariants variants={(ship as any).fleetyards_variants} />
+        <ShipModules modules={(ship as any).fleetyards_modules} />
+        </>
+      )}
     </div>
   );
 }
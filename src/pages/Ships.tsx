@@ -2,11 +2,15 @@ import { useState, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { ShipCard } from '@/components/ShipCard';
-import { Search } from 'lucide-react';
+import { ShipQueryInput } from '@/components/ShipQueryInput';
+import { useShipCompare, MAX_COMPARED_SHIPS } from '@/hooks/useShipCompare';
+import { GitCompare, X } from 'lucide-react';
+import { QUERY_FIELDS, matchesShipQuery, normalizeProductionStatus, parseShipQuery, queryValues, sortShips } from '@/lib/shipQuery';
 
 // Normalize role to extract base role (remove prefixes like "Heavy", "Light", "Medium", "Stealth", etc.)
 function normalizeRole(role: string | null): string[] {
@@ -60,29 +64,16 @@ const PRODUCTION_STATUS_OPTIONS = [
   { value: 'concept', label: 'ships.status.concept' },
 ];
 
-// Normalize production status for filtering
-function normalizeProductionStatus(status: string | null): string {
-  if (!status) return 'unknown';
-  const lower = status.toLowerCase();
-  if (lower.includes('flight ready') || lower.includes('flyable') || lower.includes('released')) {
-    return 'flight-ready';
-  }
-  if (lower.includes('in production') || lower.includes('production')) {
-    return 'in-production';
-  }
-  if (lower.includes('concept') || lower.includes('announced')) {
-    return 'concept';
-  }
-  return 'unknown';
-}
-
 export default function Ships() {
   const { t } = useTranslation();
-  const [search, setSearch] = useState('');
+  // The query lives in the URL so searches can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') ?? '';
   const [manufacturerFilter, setManufacturerFilter] = useState('all');
   const [roleFilter, setRoleFilter] = useState('all');
   const [sizeFilter, setSizeFilter] = useState('all');
   const [statusFilter, setStatusFilter] = useState('all');
+  const compare = useShipCompare();
   
   const { data: ships, isLoading } = useQuery({
     queryKey: ['ships'],
@@ -151,10 +142,17 @@ export default function Ships() {
     });
   }, [ships]);
 
+  const parsedQuery = useMemo(() => parseShipQuery(query), [query]);
+  const suggestionValues = useMemo(() => queryValues(ships ?? []), [ships]);
+
+  const setQuery = (value: string) => {
+    setSearchParams(value ? { q: value } : {}, { replace: true });
+  };
+
   const filteredShips = useMemo(() => {
     if (!ships) return [];
-    return ships.filter(ship => {
-      const matchesSearch = ship.name.toLowerCase().includes(search.toLowerCase());
+    return sortShips(ships.filter(ship => {
+      const matchesSearch = matchesShipQuery(ship, parsedQuery);
       const matchesManufacturer = manufacturerFilter === 'all' || ship.manufacturer === manufacturerFilter;
       
       // Role matching - check if the ship's role contains the selected main role
@@ -177,8 +175,8 @@ export default function Ships() {
       }
       
       return matchesSearch && matchesManufacturer && matchesRole && matchesSize && matchesStatus;
-    });
-  }, [ships, search, manufacturerFilter, roleFilter, sizeFilter, statusFilter]);
+    }), parsedQuery.sort);
+  }, [ships, parsedQuery, manufacturerFilter, roleFilter, sizeFilter, statusFilter]);
 
   if (isLoading) {
     return (
@@ -201,14 +199,22 @@ export default function Ships() {
       </div>
 
       <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-3 md:gap-4">
-        <div className="relative sm:col-span-2 md:col-span-4">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder={t('ships.searchPlaceholder')}
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-            className="pl-10"
+        <div className="sm:col-span-2 md:col-span-4 space-y-1">
+          <ShipQueryInput
+            value={query}
+            onChange={setQuery}
+            values={suggestionValues}
+            placeholder={t('ships.queryPlaceholder')}
           />
+          {parsedQuery.errors.length > 0 ? (
+            <p className="text-xs text-destructive">
+              {parsedQuery.errors.map(e => t(`ships.queryErrors.${e.reason}`, { token: e.token })).join(' • ')}
+            </p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {t('ships.queryHelp', { fields: QUERY_FIELDS.map(f => f.key).join(', ') })}
+            </p>
+          )}
         </div>
         
         <Select value={manufacturerFilter} onValueChange={setManufacturerFilter}>
@@ -260,8 +266,24 @@ export default function Ships() {
         </Select>
       </div>
 
-      <div className="text-sm text-muted-foreground">
-        {filteredShips.length} {t('ships.results', { count: filteredShips.length })}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-muted-foreground">
+          {filteredShips.length} {t('ships.results', { count: filteredShips.length })}
+        </div>
+        {compare.slugs.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Link to={`/ships/compare?slugs=${compare.slugs.join(',')}`}>
+              <Button size="sm" className="gap-2">
+                <GitCompare className="h-4 w-4" />
+                {t('ships.compare')} ({compare.slugs.length}/{MAX_COMPARED_SHIPS})
+              </Button>
+            </Link>
+            <Button variant="ghost" size="sm" className="gap-2" onClick={compare.clear}>
+              <X className="h-4 w-4" />
+              {t('ships.clearCompare')}
+            </Button>
+          </div>
+        )}
       </div>
 
       {filteredShips.length === 0 ? (
@@ -0,0 +1,287 @@
+import { useState, useMemo, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Search, Plus, Trash2, ShoppingCart, MapPin, AlertTriangle } from 'lucide-react';
+import { fetchAllRows } from '@/lib/supabasePaging';
+import { formatTerminalLocation } from '@/lib/terminalUtils';
+import { planShoppingList, type ShoppingListEntry } from '@/lib/shoppingList';
+
+const STORAGE_KEY = 'shopping-list';
+
+function loadShoppingList(): ShoppingListEntry[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+export default function ShoppingPlanner() {
+  const [entries, setEntries] = useState<ShoppingListEntry[]>(loadShoppingList);
+  const [search, setSearch] = useState('');
+  const [stopPenalty, setStopPenalty] = useState('5000');
+  const [system, setSystem] = useState<string>('best');
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  }, [entries]);
+
+  const { data: searchResults } = useQuery({
+    queryKey: ['shopping-item-search', search],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('game_items')
+        .select('id, name, category, manufacturer, buy_price_avg')
+        .ilike('name', `%${search}%`)
+        .order('name')
+        .limit(20);
+      if (error) throw error;
+      return data;
+    },
+    enabled: search.trim().length >= 2,
+  });
+
+  const itemIds = useMemo(() => entries.map(e => e.itemId).sort((a, b) => a - b), [entries]);
+
+  const { data: offers, isLoading: loadingOffers } = useQuery({
+    queryKey: ['shopping-item-offers', itemIds],
+    queryFn: () => fetchAllRows(async (from, to) => {
+      const { data, error } = await supabase
+        .from('item_prices')
+        .select('item_id, terminal_id, price_buy, terminals(id, name, slug, star_system, planet, moon, space_station)')
+        .in('item_id', itemIds)
+        .gt('price_buy', 0)
+        .order('id')
+        .range(from, to);
+      if (error) throw error;
+      return data;
+    }),
+    enabled: itemIds.length > 0,
+  });
+
+  const plans = useMemo(
+    () => planShoppingList(entries, offers || [], Number(stopPenalty) || 0),
+    [entries, offers, stopPenalty],
+  );
+  const plan = system === 'best' ? plans[0] : plans.find(p => p.system === system);
+
+  const addItem = (item: { id: number; name: string }) => {
+    setEntries(prev => prev.some(e => e.itemId === item.id)
+      ? prev.map(e => e.itemId === item.id ? { ...e, quantity: e.quantity + 1 } : e)
+      : [...prev, { itemId: item.id, name: item.name, quantity: 1 }]);
+  };
+
+  const setQuantity = (itemId: number, value: string) => {
+    const quantity = Math.max(1, Math.floor(Number(value)) || 1);
+    setEntries(prev => prev.map(e => e.itemId === itemId ? { ...e, quantity } : e));
+  };
+
+  const removeItem = (itemId: number) => setEntries(prev => prev.filter(e => e.itemId !== itemId));
+
+  const formatAuec = (value: number) => `${Math.round(value).toLocaleString()} aUEC`;
+
+  return (
+    <div className="space-y-6">
+      <Link to="/items">
+        <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> Retour aux objets</Button>
+      </Link>
+
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-secondary to-primary bg-clip-text text-transparent">
+          Liste d'achats
+        </h1>
+        <p className="text-muted-foreground text-sm">
+          Compose une liste d'objets et trouve les terminaux les moins chers, avec le moins d'arrêts possible dans un système • Données UEX
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Item picker */}
+        <Card className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2"><Search className="w-4 h-4 text-primary" /> Ajouter des objets</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input
+              placeholder="Rechercher un objet (2 lettres min.)..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="bg-background/50"
+            />
+            <div className="space-y-1 max-h-72 overflow-y-auto">
+              {searchResults?.map(item => (
+                <div key={item.id} className="flex items-center justify-between gap-2 rounded px-2 py-1 hover:bg-muted/20">
+                  <div className="min-w-0">
+                    <p className="text-sm truncate">{item.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[item.category, item.manufacturer].filter(Boolean).join(' • ') || '—'}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => addItem(item)} className="gap-1 shrink-0">
+                    <Plus className="w-3 h-3" /> Ajouter
+                  </Button>
+                </div>
+              ))}
+              {search.trim().length >= 2 && searchResults?.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">Aucun résultat.</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Current list */}
+        <Card className="bg-card/60 border-border/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2"><ShoppingCart className="w-4 h-4 text-primary" /> Ma liste ({entries.length})</span>
+              {entries.length > 0 && (
+                <Button variant="ghost" size="sm" onClick={() => setEntries([])} className="text-xs text-muted-foreground">Vider</Button>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">La liste est vide. Ajoute des objets à gauche.</p>
+            ) : (
+              entries.map(entry => (
+                <div key={entry.itemId} className="flex items-center gap-2">
+                  <span className="flex-1 text-sm truncate">{entry.name}</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={entry.quantity}
+                    onChange={(e) => setQuantity(entry.itemId, e.target.value)}
+                    className="w-20 h-8 bg-background/50"
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeItem(entry.itemId)}>
+                    <Trash2 className="w-4 h-4 text-muted-foreground" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Parameters */}
+      {entries.length > 0 && (
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Système</Label>
+              <Select value={system} onValueChange={setSystem}>
+                <SelectTrigger className="bg-background/50"><SelectValue placeholder="Système" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="best">Meilleur système</SelectItem>
+                  {plans.map(p => <SelectItem key={p.system} value={p.system}>{p.system}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Surcoût accepté pour éviter un arrêt (aUEC)</Label>
+              <Input type="number" min={0} value={stopPenalty} onChange={(e) => setStopPenalty(e.target.value)} className="bg-background/50" />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Plan */}
+      {entries.length > 0 && (
+        loadingOffers ? (
+          <div className="h-48 bg-muted/30 rounded animate-pulse" />
+        ) : !plan ? (
+          <Card className="bg-card/60 border-border/50">
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Aucun terminal connu ne vend ces objets. Lance la sync items depuis l'admin.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <Card className="bg-card/60 border-border/50">
+                <CardContent className="p-4">
+                  <p className="text-xs text-muted-foreground">Système</p>
+                  <p className="text-lg font-bold">{plan.system}</p>
+                </CardContent>
+              </Card>
+              <Card className="bg-card/60 border-border/50">
+                <CardContent className="p-4">
+                  <p className="text-xs text-muted-foreground">Arrêts</p>
+                  <p className="text-lg font-bold">{plan.stops.length}</p>
+                </CardContent>
+              </Card>
+              <Card className="bg-card/60 border-border/50">
+                <CardContent className="p-4">
+                  <p className="text-xs text-muted-foreground">Total</p>
+                  <p className="text-lg font-bold font-mono text-green-400">{formatAuec(plan.total)}</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {plan.missing.length > 0 && (
+              <Card className="bg-card/60 border-amber-600/40">
+                <CardContent className="p-4 text-sm flex flex-wrap items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 text-amber-400" />
+                  <span className="text-amber-400">Introuvable dans {plan.system} :</span>
+                  {plan.missing.map(e => <Badge key={e.itemId} variant="outline" className="text-xs">{e.name}</Badge>)}
+                </CardContent>
+              </Card>
+            )}
+
+            {plan.stops.map((stop, i) => (
+              <Card key={stop.terminal.id} className="bg-card/60 border-border/50 overflow-hidden">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm flex flex-wrap items-center justify-between gap-2">
+                    <span className="flex items-center gap-2">
+                      <Badge variant="secondary">{i + 1}</Badge>
+                      <Link to={`/terminals/${stop.terminal.slug}`} className="hover:text-primary hover:underline">{stop.terminal.name}</Link>
+                      <span className="text-xs text-muted-foreground font-normal flex items-center gap-1">
+                        <MapPin className="w-3 h-3" />{formatTerminalLocation(stop.terminal)}
+                      </span>
+                    </span>
+                    <span className="font-mono">{formatAuec(stop.subtotal)}</span>
+                  </CardTitle>
+                </CardHeader>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="hover:bg-transparent border-border/50">
+                        <TableHead>Objet</TableHead>
+                        <TableHead className="text-right">Quantité</TableHead>
+                        <TableHead className="text-right">Prix unitaire</TableHead>
+                        <TableHead className="text-right">Sous-total</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {stop.lines.map(line => (
+                        <TableRow key={line.entry.itemId} className="border-border/30 hover:bg-muted/20">
+                          <TableCell className="text-sm">{line.entry.name}</TableCell>
+                          <TableCell className="text-right font-mono text-sm">{line.entry.quantity}</TableCell>
+                          <TableCell className="text-right font-mono text-sm">{formatAuec(line.unitPrice)}</TableCell>
+                          <TableCell className="text-right font-mono text-sm">{formatAuec(line.subtotal)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )
+      )}
+
+      <p className="text-xs text-muted-foreground text-center">
+        Données fournies par UEX Corp • Les prix sont relevés par la communauté et peuvent avoir changé en jeu
+      </p>
+    </div>
+  );
+}
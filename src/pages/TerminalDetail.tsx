@@ -0,0 +1,309 @@
+import { useMemo } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, MapPin, TrendingUp, TrendingDown, Factory, Clock, Sword } from 'lucide-react';
+import { formatTerminalLocation } from '@/lib/terminalUtils';
+import { fetchAllRows } from '@/lib/supabasePaging';
+
+export default function TerminalDetail() {
+  const { slug } = useParams<{ slug: string }>();
+
+  const { data: terminal, isLoading } = useQuery({
+    queryKey: ['terminal', slug],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('terminals')
+        .select('*')
+        .eq('slug', slug!)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!slug,
+  });
+
+  const { data: prices, isLoading: loadingPrices } = useQuery({
+    queryKey: ['terminal-commodity-prices', terminal?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('commodity_prices')
+        .select('*, commodities(id, name, slug, code, is_illegal)')
+        .eq('terminal_id', terminal!.id);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!terminal,
+  });
+
+  const { data: items, isLoading: loadingItems } = useQuery({
+    queryKey: ['terminal-item-prices', terminal?.id],
+    queryFn: async () => {
+      // Big trade hubs list more items than a single PostgREST page holds
+      const data = await fetchAllRows(async (from, to) => {
+        const { data, error } = await supabase
+          .from('item_prices')
+          .select('*, game_items(id, name, slug, category)')
+          .eq('terminal_id', terminal!.id)
+          .order('id')
+          .range(from, to);
+        if (error) throw error;
+        return data;
+      });
+      return data.sort((a, b) => (a.game_items?.name || '').localeCompare(b.game_items?.name || ''));
+    },
+    enabled: !!terminal,
+  });
+
+  const { data: yields } = useQuery({
+    queryKey: ['terminal-refinery-yields', terminal?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('refinery_yields')
+        .select('*, commodities(name, slug), refinery_methods(name)')
+        .eq('terminal_id', terminal!.id)
+        .order('yield_pct', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!terminal,
+  });
+
+  // What the terminal sells is what the player buys, and the other way around
+  const { buyHere, sellHere } = useMemo(() => {
+    const byName = (a: NonNullable<typeof prices>[number], b: NonNullable<typeof prices>[number]) =>
+      (a.commodities?.name || '').localeCompare(b.commodities?.name || '');
+    return {
+      buyHere: (prices || []).filter(p => Number(p.price_buy) > 0).sort(byName),
+      sellHere: (prices || []).filter(p => Number(p.price_sell) > 0).sort(byName),
+    };
+  }, [prices]);
+
+  const lastUpdate = useMemo(() => {
+    const dates = (prices || []).map(p => p.updated_at).filter(Boolean) as string[];
+    return dates.length > 0 ? dates.reduce((max, d) => (d > max ? d : max)) : null;
+  }, [prices]);
+
+  const formatPrice = (price: number | null) => {
+    if (!price) return '—';
+    return `${Number(price).toLocaleString()} aUEC`;
+  };
+
+  const formatUpdated = (date: string | null) =>
+    date ? formatDistanceToNow(new Date(date), { addSuffix: true, locale: fr }) : '—';
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-10 w-48" />
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (!terminal) {
+    return (
+      <div className="space-y-6">
+        <Link to="/terminals">
+          <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> Retour aux terminaux</Button>
+        </Link>
+        <Card className="bg-card/60 border-border/50">
+          <CardContent className="py-12 text-center text-muted-foreground">Terminal introuvable.</CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const priceTable = (rows: typeof buyHere, side: 'buy' | 'sell') => (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow className="hover:bg-transparent border-border/50">
+            <TableHead>Commodité</TableHead>
+            <TableHead className="text-right">Prix</TableHead>
+            <TableHead className="text-right">{side === 'buy' ? 'Stock (SCU)' : 'Demande (SCU)'}</TableHead>
+            <TableHead className="text-right">Mis à jour</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {loadingPrices ? (
+            Array.from({ length: 4 }).map((_, i) => (
+              <TableRow key={i} className="border-border/30">
+                <TableCell colSpan={4}><div className="h-6 bg-muted/30 rounded animate-pulse" /></TableCell>
+              </TableRow>
+            ))
+          ) : rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                {side === 'buy' ? 'Aucune commodité en vente ici.' : "Aucune commodité n'est rachetée ici."}
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map(p => {
+              const scu = side === 'buy' ? p.scu_buy : p.scu_sell;
+              return (
+                <TableRow key={p.id} className="border-border/30 hover:bg-muted/20">
+                  <TableCell className="font-medium">
+                    {p.commodities ? (
+                      <Link to={`/commodities/${p.commodities.slug}`} className="hover:text-primary hover:underline">{p.commodities.name}</Link>
+                    ) : '—'}
+                    {p.commodities?.is_illegal && <Badge variant="destructive" className="text-xs ml-2">Illégal</Badge>}
+                  </TableCell>
+                  <TableCell className={`text-right font-mono text-sm ${side === 'buy' ? 'text-green-400' : 'text-accent'}`}>
+                    {formatPrice(Number(side === 'buy' ? p.price_buy : p.price_sell))}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm">{scu ? scu.toLocaleString() : '—'}</TableCell>
+                  <TableCell className="text-right text-xs text-muted-foreground">{formatUpdated(p.updated_at)}</TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Link to="/terminals">
+        <Button variant="ghost" className="gap-2"><ArrowLeft className="w-4 h-4" /> Retour aux terminaux</Button>
+      </Link>
+
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          {terminal.name}
+        </h1>
+        <p className="text-muted-foreground text-sm flex items-center gap-1">
+          <MapPin className="w-3 h-3" /> {formatTerminalLocation(terminal)}
+          {terminal.latitude != null && terminal.longitude != null && (
+            <span className="font-mono text-xs ml-2">({terminal.latitude}, {terminal.longitude})</span>
+          )}
+        </p>
+        <div className="flex gap-1 flex-wrap">
+          {terminal.type && <Badge variant="outline" className="text-xs">{terminal.type}</Badge>}
+          {terminal.is_refinery && (
+            <Badge className="text-xs bg-amber-600/20 text-amber-400 border-amber-600/30 gap-1">
+              <Factory className="w-3 h-3" /> Raffinerie
+            </Badge>
+          )}
+          {lastUpdate && (
+            <Badge variant="secondary" className="text-xs gap-1">
+              <Clock className="w-3 h-3" /> Prix mis à jour {formatUpdated(lastUpdate)}
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="bg-card/60 border-border/50 overflow-hidden">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <TrendingDown className="w-4 h-4 text-green-400" /> À acheter ici ({buyHere.length})
+            </CardTitle>
+          </CardHeader>
+          {priceTable(buyHere, 'buy')}
+        </Card>
+        <Card className="bg-card/60 border-border/50 overflow-hidden">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <TrendingUp className="w-4 h-4 text-accent" /> À vendre ici ({sellHere.length})
+            </CardTitle>
+          </CardHeader>
+          {priceTable(sellHere, 'sell')}
+        </Card>
+      </div>
+
+      {(loadingItems || (items && items.length > 0)) && (
+        <Card className="bg-card/60 border-border/50 overflow-hidden">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Sword className="w-4 h-4 text-primary" /> Objets ({items?.length || 0})
+            </CardTitle>
+          </CardHeader>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent border-border/50">
+                  <TableHead>Objet</TableHead>
+                  <TableHead>Catégorie</TableHead>
+                  <TableHead className="text-right">Prix Achat</TableHead>
+                  <TableHead className="text-right">Prix Vente</TableHead>
+                  <TableHead className="text-right">Mis à jour</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loadingItems ? (
+                  Array.from({ length: 4 }).map((_, i) => (
+                    <TableRow key={i} className="border-border/30">
+                      <TableCell colSpan={5}><div className="h-6 bg-muted/30 rounded animate-pulse" /></TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  items!.map(p => (
+                    <TableRow key={p.id} className="border-border/30 hover:bg-muted/20">
+                      <TableCell className="font-medium">{p.game_items?.name || '—'}</TableCell>
+                      <TableCell>
+                        {p.game_items?.category && <Badge variant="secondary" className="text-xs">{p.game_items.category}</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm text-green-400">{formatPrice(Number(p.price_buy))}</TableCell>
+                      <TableCell className="text-right font-mono text-sm text-accent">{formatPrice(Number(p.price_sell))}</TableCell>
+                      <TableCell className="text-right text-xs text-muted-foreground">{formatUpdated(p.updated_at)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+      )}
+
+      {yields && yields.length > 0 && (
+        <Card className="bg-card/60 border-border/50 overflow-hidden">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Factory className="w-4 h-4 text-primary" /> Rendements de raffinage
+            </CardTitle>
+          </CardHeader>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent border-border/50">
+                  <TableHead>Ressource</TableHead>
+                  <TableHead>Méthode</TableHead>
+                  <TableHead className="text-right">Rendement %</TableHead>
+                  <TableHead className="text-right">Mis à jour</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {yields.map(y => (
+                  <TableRow key={y.id} className="border-border/30 hover:bg-muted/20">
+                    <TableCell className="font-medium">
+                      {y.commodities ? (
+                        <Link to={`/commodities/${y.commodities.slug}`} className="hover:text-primary hover:underline">{y.commodities.name}</Link>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{y.refinery_methods?.name || '—'}</TableCell>
+                    <TableCell className="text-right font-mono text-accent">{y.yield_pct != null ? `${y.yield_pct}%` : '—'}</TableCell>
+                    <TableCell className="text-right text-xs text-muted-foreground">{formatUpdated(y.updated_at)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+      )}
+
+      <p className="text-xs text-muted-foreground text-center">
+        Données fournies par UEX Corp • Prix relevés par la communauté, mis à jour à chaque sync
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent } from '@/components/ui/card';
+import { Search, Factory, MapPin } from 'lucide-react';
+import { fetchAllRows } from '@/lib/supabasePaging';
+import { formatTerminalLocation } from '@/lib/terminalUtils';
+
+export default function Terminals() {
+  const [search, setSearch] = useState('');
+  const [systemFilter, setSystemFilter] = useState<string>('all');
+  const [bodyFilter, setBodyFilter] = useState<string>('all');
+  const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [refineryFilter, setRefineryFilter] = useState<string>('all');
+
+  const { data: terminals, isLoading } = useQuery({
+    queryKey: ['terminals'],
+    queryFn: () => fetchAllRows(async (from, to) => {
+      const { data, error } = await supabase
+        .from('terminals')
+        .select('*')
+        .order('name')
+        .order('id')
+        .range(from, to);
+      if (error) throw error;
+      return data;
+    }),
+  });
+
+  const systems = useMemo(() => {
+    if (!terminals) return [];
+    return Array.from(new Set(terminals.map(t => t.star_system).filter(Boolean))).sort() as string[];
+  }, [terminals]);
+
+  // Planets and moons of the selected system
+  const bodies = useMemo(() => {
+    if (!terminals) return [];
+    const inSystem = terminals.filter(t => systemFilter === 'all' || t.star_system === systemFilter);
+    return Array.from(new Set(inSystem.flatMap(t => [t.planet, t.moon]).filter(Boolean))).sort() as string[];
+  }, [terminals, systemFilter]);
+
+  const types = useMemo(() => {
+    if (!terminals) return [];
+    return Array.from(new Set(terminals.map(t => t.type).filter(Boolean))).sort() as string[];
+  }, [terminals]);
+
+  const filtered = useMemo(() => {
+    if (!terminals) return [];
+    const query = search.toLowerCase();
+    return terminals.filter(t => {
+      if (query && !t.name.toLowerCase().includes(query) && !formatTerminalLocation(t).toLowerCase().includes(query)) return false;
+      if (systemFilter !== 'all' && t.star_system !== systemFilter) return false;
+      if (bodyFilter !== 'all' && t.planet !== bodyFilter && t.moon !== bodyFilter) return false;
+      if (typeFilter !== 'all' && t.type !== typeFilter) return false;
+      if (refineryFilter === 'yes' && !t.is_refinery) return false;
+      if (refineryFilter === 'no' && t.is_refinery) return false;
+      return true;
+    });
+  }, [terminals, search, systemFilter, bodyFilter, typeFilter, refineryFilter]);
+
+  const handleSystemChange = (value: string) => {
+    setSystemFilter(value);
+    setBodyFilter('all');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          Terminaux
+        </h1>
+        <p className="text-muted-foreground text-sm">
+          {terminals?.length || 0} terminaux • Commodités, prix et raffineries par lieu • Données UEX
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="p-4">
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Rechercher un terminal ou un lieu..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9 bg-background/50"
+              />
+            </div>
+            <Select value={systemFilter} onValueChange={handleSystemChange}>
+              <SelectTrigger className="w-full md:w-[160px] bg-background/50"><SelectValue placeholder="Système" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tous systèmes</SelectItem>
+                {systems.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={bodyFilter} onValueChange={setBodyFilter}>
+              <SelectTrigger className="w-full md:w-[180px] bg-background/50"><SelectValue placeholder="Planète / lune" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Toutes planètes / lunes</SelectItem>
+                {bodies.map(b => <SelectItem key={b} value={b}>{b}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="w-full md:w-[160px] bg-background/50"><SelectValue placeholder="Type" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tous types</SelectItem>
+                {types.map(t => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={refineryFilter} onValueChange={setRefineryFilter}>
+              <SelectTrigger className="w-full md:w-[160px] bg-background/50"><SelectValue placeholder="Raffinerie" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tous</SelectItem>
+                <SelectItem value="yes">Raffineries</SelectItem>
+                <SelectItem value="no">Sans raffinerie</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Table */}
+      <Card className="bg-card/60 border-border/50 overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent border-border/50">
+                <TableHead>Terminal</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Localisation</TableHead>
+                <TableHead className="text-right">Services</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                Array.from({ length: 8 }).map((_, i) => (
+                  <TableRow key={i} className="border-border/30">
+                    <TableCell colSpan={4}><div className="h-6 bg-muted/30 rounded animate-pulse" /></TableCell>
+                  </TableRow>
+                ))
+              ) : filtered.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground py-12">
+                    {terminals?.length === 0 ? "Aucune donnée. Lance la sync commodities depuis l'admin." : 'Aucun résultat'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filtered.map(t => (
+                  <TableRow key={t.id} className="border-border/30 hover:bg-muted/20">
+                    <TableCell className="font-medium">
+                      <Link to={`/terminals/${t.slug}`} className="hover:text-primary hover:underline">{t.name}</Link>
+                    </TableCell>
+                    <TableCell>
+                      {t.type ? <Badge variant="outline" className="text-xs">{t.type}</Badge> : <span className="text-muted-foreground">—</span>}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-sm">
+                      <MapPin className="w-3 h-3 inline mr-1" />{formatTerminalLocation(t)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {t.is_refinery && (
+                        <Badge className="text-xs bg-amber-600/20 text-amber-400 border-amber-600/30 gap-1">
+                          <Factory className="w-3 h-3" /> Raffinerie
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      <p className="text-xs text-muted-foreground text-center">
+        Données fournies par UEX Corp • Terminaux mis à jour à chaque sync commodities
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent } from '@/components/ui/card';
+import { ArrowRight, Coins, Package, Route, Ship, AlertTriangle, Repeat } from 'lucide-react';
+import { TradeLoopsPanel } from '@/components/TradeLoopsPanel';
+import { useCommodityMarket } from '@/hooks/useCommodityMarket';
+import { findTradeRoutes, type LegalityPreference } from '@/lib/tradeRoutes';
+import { formatTerminalLocation } from '@/lib/terminalUtils';
+
+export default function TradePlanner() {
+  const [shipSlug, setShipSlug] = useState<string>('');
+  const [customCargo, setCustomCargo] = useState('');
+  const [budget, setBudget] = useState('100000');
+  const [startSystem, setStartSystem] = useState<string>('all');
+  const [legality, setLegality] = useState<LegalityPreference>('legal');
+  const [sameSystemOnly, setSameSystemOnly] = useState(true);
+  const [activeTab, setActiveTab] = useState<'routes' | 'loops'>('routes');
+
+  const { data: market, isLoading } = useCommodityMarket();
+
+  const { data: ships } = useQuery({
+    queryKey: ['cargo-ships'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ships')
+        .select('id, name, slug, manufacturer, cargo_scu')
+        .gt('cargo_scu', 0)
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const ship = useMemo(() => ships?.find(s => s.slug === shipSlug) ?? null, [ships, shipSlug]);
+  const cargoScu = ship ? Number(ship.cargo_scu) : Number(customCargo) || 0;
+  const budgetValue = Number(budget) || 0;
+
+  const systems = useMemo(() => {
+    if (!market) return [];
+    return Array.from(new Set(market.map(p => p.terminals?.star_system).filter(Boolean))).sort() as string[];
+  }, [market]);
+
+  const routes = useMemo(() => {
+    if (!market || activeTab !== 'routes') return [];
+    return findTradeRoutes(market, {
+      cargoScu,
+      budget: budgetValue,
+      startSystem: startSystem === 'all' ? null : startSystem,
+      sameSystemOnly,
+      legality,
+    });
+  }, [market, cargoScu, budgetValue, startSystem, sameSystemOnly, legality, activeTab]);
+
+  const formatAuec = (value: number) => `${Math.round(value).toLocaleString()} aUEC`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          Planificateur de routes commerciales
+        </h1>
+        <p className="text-muted-foreground text-sm">
+          Meilleures routes achat → vente pour un chargement, selon la soute, le budget et les stocks • Données UEX
+        </p>
+      </div>
+
+      {/* Parameters */}
+      <Card className="bg-card/60 border-border/50">
+        <CardContent className="p-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label className="flex items-center gap-1"><Ship className="w-3 h-3" /> Vaisseau</Label>
+            <Select value={shipSlug || 'custom'} onValueChange={(v) => setShipSlug(v === 'custom' ? '' : v)}>
+              <SelectTrigger className="bg-background/50"><SelectValue placeholder="Choisir un vaisseau" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="custom">Soute personnalisée</SelectItem>
+                {ships?.map(s => (
+                  <SelectItem key={s.id} value={s.slug}>{s.name} ({s.cargo_scu} SCU)</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!ship && (
+              <Input
+                type="number"
+                min={0}
+                placeholder="Capacité en SCU"
+                value={customCargo}
+                onChange={(e) => setCustomCargo(e.target.value)}
+                className="bg-background/50"
+              />
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label className="flex items-center gap-1"><Coins className="w-3 h-3" /> Budget (aUEC)</Label>
+            <Input type="number" min={0} value={budget} onChange={(e) => setBudget(e.target.value)} className="bg-background/50" />
+          </div>
+          <div className="space-y-2">
+            <Label>Système de départ</Label>
+            <Select value={startSystem} onValueChange={setStartSystem}>
+              <SelectTrigger className="bg-background/50"><SelectValue placeholder="Système" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tous systèmes</SelectItem>
+                {systems.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2 pt-1">
+              <Switch id="same-system" checked={sameSystemOnly} onCheckedChange={setSameSystemOnly} />
+              <Label htmlFor="same-system" className="text-xs text-muted-foreground">Rester dans le système</Label>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Légalité</Label>
+            <Select value={legality} onValueChange={(v) => setLegality(v as LegalityPreference)}>
+              <SelectTrigger className="bg-background/50"><SelectValue placeholder="Légalité" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="legal">Légales uniquement</SelectItem>
+                <SelectItem value="all">Toutes</SelectItem>
+                <SelectItem value="illegal">Illégales uniquement</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {ship && (
+        <p className="text-sm text-muted-foreground">
+          <Link to={`/ships/${ship.slug}`} className="text-primary hover:underline">{ship.name}</Link>
+          {' '}• {cargoScu.toLocaleString()} SCU • budget {formatAuec(budgetValue)}
+        </p>
+      )}
+
+      {/* Tab bar */}
+      <div className="flex gap-2 border-b border-border pb-2">
+        <Button variant={activeTab === 'routes' ? 'default' : 'ghost'} size="sm" onClick={() => setActiveTab('routes')} className="gap-2">
+          <Route className="w-4 h-4" /> Routes simples
+        </Button>
+        <Button variant={activeTab === 'loops' ? 'default' : 'ghost'} size="sm" onClick={() => setActiveTab('loops')} className="gap-2">
+          <Repeat className="w-4 h-4" /> Boucles
+        </Button>
+      </div>
+
+      {activeTab === 'loops' && (
+        isLoading ? (
+          <div className="h-48 bg-muted/30 rounded animate-pulse" />
+        ) : cargoScu <= 0 || budgetValue <= 0 ? (
+          <Card className="bg-card/60 border-border/50">
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Choisis un vaisseau (ou une soute) et un budget pour calculer les boucles.
+            </CardContent>
+          </Card>
+        ) : (
+          <TradeLoopsPanel
+            market={market || []}
+            cargoScu={cargoScu}
+            budget={budgetValue}
+            system={startSystem === 'all' ? null : startSystem}
+            legality={legality}
+          />
+        )
+      )}
+
+      {/* Results */}
+      {activeTab === 'routes' && (
+        <Card className="bg-card/60 border-border/50 overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent border-border/50">
+                  <TableHead>#</TableHead>
+                  <TableHead>Commodité</TableHead>
+                  <TableHead>Achat</TableHead>
+                  <TableHead>Vente</TableHead>
+                  <TableHead className="text-right">Quantité</TableHead>
+                  <TableHead className="text-right">Investissement</TableHead>
+                  <TableHead className="text-right">Profit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  Array.from({ length: 6 }).map((_, i) => (
+                    <TableRow key={i} className="border-border/30">
+                      <TableCell colSpan={7}><div className="h-6 bg-muted/30 rounded animate-pulse" /></TableCell>
+                    </TableRow>
+                  ))
+                ) : cargoScu <= 0 || budgetValue <= 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-12">
+                      Choisis un vaisseau (ou une soute) et un budget pour calculer les routes.
+                    </TableCell>
+                  </TableRow>
+                ) : routes.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-12">
+                      {market?.length === 0 ? "Aucune donnée. Lance la sync commodities depuis l'admin." : 'Aucune route rentable pour ces paramètres.'}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  routes.map((route, i) => (
+                    <TableRow key={`${route.buy.id}-${route.sell.id}`} className="border-border/30 hover:bg-muted/20">
+                      <TableCell className="text-muted-foreground">{i + 1}</TableCell>
+                      <TableCell className="font-medium">
+                        <Link to={`/commodities/${route.commodity.slug}`} className="hover:text-primary hover:underline">
+                          {route.commodity.name}
+                        </Link>
+                        {route.commodity.is_illegal && <Badge variant="destructive" className="text-xs ml-2">Illégal</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">
+                          <Link to={`/terminals/${route.buy.terminals?.slug}`} className="hover:text-primary hover:underline">{route.buy.terminals?.name}</Link>
+                        </div>
+                        <div className="text-xs text-muted-foreground">{formatTerminalLocation(route.buy.terminals)}</div>
+                        <div className="text-xs font-mono text-green-400">{formatAuec(Number(route.buy.price_buy))}/SCU</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm flex items-center gap-1">
+                          <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                          <Link to={`/terminals/${route.sell.terminals?.slug}`} className="hover:text-primary hover:underline">{route.sell.terminals?.name}</Link>
+                        </div>
+                        <div className="text-xs text-muted-foreground">{formatTerminalLocation(route.sell.terminals)}</div>
+                        <div className="text-xs font-mono text-accent">{formatAuec(Number(route.sell.price_sell))}/SCU</div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        <div className="flex items-center justify-end gap-1">
+                          <Package className="w-3 h-3 text-muted-foreground" />
+                          {route.quantity.toLocaleString()} SCU
+                        </div>
+                        {route.stockLimited && <div className="text-xs text-amber-400">limité par le stock</div>}
+                        {route.stockUnknown && (
+                          <div className="text-xs text-muted-foreground flex items-center justify-end gap-1">
+                            <AlertTriangle className="w-3 h-3" /> stock inconnu
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatAuec(route.investment)}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        <div className="font-bold text-green-400">+{formatAuec(route.profit)}</div>
+                        <div className="text-xs text-muted-foreground">+{route.profitPerScu.toLocaleString()}/SCU</div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+      )}
+
+      <p className="text-xs text-muted-foreground text-center flex items-center justify-center gap-1">
+        <Route className="w-3 h-3" /> Le budget s'applique à chaque étape • Les stocks UEX sont indicatifs et peuvent avoir changé en jeu
+      </p>
+    </div>
+  );
+}
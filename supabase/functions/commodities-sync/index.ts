@@ -29,6 +29,17 @@ async function fetchUEX(endpoint: string): Promise<any> {
   return json.data;
 }
 
+// A commodity_price_history row, terminal_id is null for the commodity-wide average
+interface PriceHistoryRow {
+  commodity_id: number;
+  terminal_id: number | null;
+  price_buy: number | null;
+  price_sell: number | null;
+  scu_buy: number | null;
+  scu_sell: number | null;
+  recorded_at: string;
+}
+
 function slugify(name: string): string {
   return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
 }
@@ -174,6 +185,48 @@ Deno.serve(async (req) => {
     }
     console.log(`[commodities-sync] Upserted ${pricesUpserted} prices (${skippedPrices} skipped)`);
 
+    // ===== STEP 4: Append price snapshots to history =====
+    // commodities/commodity_prices only hold the latest values, so every run also
+    // appends a snapshot: one average row per commodity (terminal_id = null) and one row per terminal price.
+    const recordedAt = new Date().toISOString();
+    const historyRows: PriceHistoryRow[] = [];
+    for (const c of commoditiesData) {
+      const commodityId = commodityMap.get(c.id);
+      if (!commodityId || (!c.price_buy && !c.price_sell)) continue;
+      historyRows.push({
+        commodity_id: commodityId,
+        terminal_id: null,
+        price_buy: c.price_buy || null,
+        price_sell: c.price_sell || null,
+        scu_buy: null,
+        scu_sell: null,
+        recorded_at: recordedAt,
+      });
+    }
+    for (const p of priceRows) {
+      historyRows.push({
+        commodity_id: p.commodity_id,
+        terminal_id: p.terminal_id,
+        price_buy: p.price_buy,
+        price_sell: p.price_sell,
+        scu_buy: p.scu_buy,
+        scu_sell: p.scu_sell,
+        recorded_at: recordedAt,
+      });
+    }
+
+    let historyInserted = 0;
+    for (let i = 0; i < historyRows.length; i += 500) {
+      const batch = historyRows.slice(i, i + 500);
+      const { error } = await supabase.from('commodity_price_history').insert(batch);
+      if (error) {
+        console.error(`[commodities-sync] History batch error at ${i}:`, error.message);
+      } else {
+        historyInserted += batch.length;
+      }
+    }
+    console.log(`[commodities-sync] Appended ${historyInserted} price history rows`);
+
     const duration = Date.now() - startTime;
 
     // Log to cron history
@@ -193,6 +246,7 @@ Deno.serve(async (req) => {
         commodities: commoditiesUpserted,
         prices: pricesUpserted,
         skipped_prices: skippedPrices,
+        history: historyInserted,
         duration_ms: duration,
         timestamp: new Date().toISOString(),
       },
@@ -205,6 +259,7 @@ Deno.serve(async (req) => {
       terminals: terminalsUpserted,
       commodities: commoditiesUpserted,
       prices: pricesUpserted,
+      history: historyInserted,
       duration_ms: duration,
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
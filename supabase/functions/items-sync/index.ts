@@ -22,10 +22,48 @@ async function fetchUEX(endpoint: string): Promise<any> {
   return json.data;
 }
 
+// An item_prices row, one per item sold or bought at a terminal
+interface ItemPriceRow {
+  item_id: number;
+  terminal_id: number;
+  price_buy: number | null;
+  price_sell: number | null;
+  updated_at: string;
+}
+
 function slugify(name: string): string {
   return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
 }
 
+// uex_id -> db id for a synced table, paged because the API caps responses at 1000 rows
+async function fetchUexIdMap(table: string): Promise<Map<number, number>> {
+  const map = new Map<number, number>();
+  for (let from = 0; ; from += 1000) {
+    const { data, error } = await supabase.from(table).select('id, uex_id').order('id').range(from, from + 999);
+    if (error) throw new Error(`Failed to read ${table}: ${error.message}`);
+    for (const row of data || []) {
+      if (row.uex_id) map.set(row.uex_id, row.id);
+    }
+    if (!data || data.length < 1000) break;
+  }
+  return map;
+}
+
+// id + item/terminal pair of every stored terminal price, to find the ones UEX no longer lists
+async function fetchItemPriceKeys(): Promise<{ id: number; key: string }[]> {
+  const rows: { id: number; key: string }[] = [];
+  for (let from = 0; ; from += 1000) {
+    const { data, error } = await supabase
+      .from('item_prices')
+      .select('id, item_id, terminal_id')
+      .order('id')
+      .range(from, from + 999);
+    if (error) throw new Error(`Failed to read item_prices: ${error.message}`);
+    for (const row of data || []) rows.push({ id: row.id, key: `${row.item_id}:${row.terminal_id}` });
+    if (!data || data.length < 1000) return rows;
+  }
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
   const startTime = Date.now();
@@ -86,17 +124,17 @@ Deno.serve(async (req) => {
     }
 
     // Now fetch item prices
+    let terminalPricesUpserted = 0;
+    let terminalPricesDeleted = 0;
+    let skippedTerminalPrices = 0;
     console.log('[items-sync] Fetching item prices...');
     try {
       const pricesData = await fetchUEX('items_prices_all');
       console.log(`[items-sync] Got ${pricesData.length} price entries`);
 
-      // Build uex_id -> db_id map
-      const { data: dbItems } = await supabase.from('game_items').select('id, uex_id');
-      const itemMap = new Map<number, number>();
-      for (const it of dbItems || []) {
-        if (it.uex_id) itemMap.set(it.uex_id, it.id);
-      }
+      // Build uex_id -> db_id maps (terminals are synced by commodities-sync)
+      const itemMap = await fetchUexIdMap('game_items');
+      const terminalMap = await fetchUexIdMap('terminals');
 
       // Aggregate prices by item (avg buy/sell across all terminals)
       const priceAgg = new Map<number, { buys: number[]; sells: number[] }>();
@@ -120,20 +158,63 @@ Deno.serve(async (req) => {
         if (!error) pricesUpdated++;
       }
       console.log(`[items-sync] Updated prices for ${pricesUpdated} items`);
+
+      // Keep the per-terminal prices so the Items page can show where to buy
+      const terminalPriceRows: ItemPriceRow[] = [];
+      for (const p of pricesData) {
+        const itemId = itemMap.get(p.id_item);
+        const terminalId = terminalMap.get(p.id_terminal);
+        if (!itemId || !terminalId) {
+          skippedTerminalPrices++;
+          continue;
+        }
+        terminalPriceRows.push({
+          item_id: itemId,
+          terminal_id: terminalId,
+          price_buy: p.price_buy || null,
+          price_sell: p.price_sell || null,
+          updated_at: p.date_modified ? new Date(p.date_modified * 1000).toISOString() : new Date().toISOString(),
+        });
+      }
+
+      for (let i = 0; i < terminalPriceRows.length; i += 200) {
+        const batch = terminalPriceRows.slice(i, i + 200);
+        const { error } = await supabase
+          .from('item_prices')
+          .upsert(batch, { onConflict: 'item_id,terminal_id', ignoreDuplicates: false });
+        if (!error) terminalPricesUpserted += batch.length;
+        else console.error(`[items-sync] Item price batch error at ${i}:`, error.message);
+      }
+      console.log(`[items-sync] Upserted ${terminalPricesUpserted} terminal prices (${skippedTerminalPrices} skipped)`);
+
+      // Drop terminal prices UEX no longer lists (item no longer sold there). An empty price list is
+      // more likely an API hiccup than every shop closing, keep the table as is then.
+      if (terminalPriceRows.length > 0) {
+        const seen = new Set(terminalPriceRows.map(row => `${row.item_id}:${row.terminal_id}`));
+        const stale = (await fetchItemPriceKeys()).filter(row => !seen.has(row.key)).map(row => row.id);
+        for (let i = 0; i < stale.length; i += 200) {
+          const batch = stale.slice(i, i + 200);
+          const { error } = await supabase.from('item_prices').delete().in('id', batch);
+          if (!error) terminalPricesDeleted += batch.length;
+          else console.error(`[items-sync] Item price delete error at ${i}:`, error.message);
+        }
+        console.log(`[items-sync] Deleted ${terminalPricesDeleted} stale terminal prices`);
+      }
     } catch (e) {
       console.warn('[items-sync] Failed to fetch prices:', e);
     }
 
     const duration = Date.now() - startTime;
-    console.log(`[items-sync] Done in ${duration}ms: ${itemsUpserted} items`);
+    console.log(`[items-sync] Done in ${duration}ms: ${itemsUpserted} items, ${terminalPricesUpserted} terminal prices, ${terminalPricesDeleted} stale prices deleted`);
 
+    // cron_job_history only has items_synced; the price counts are in the log line above and the response
     await supabase.from('cron_job_history').insert({
       job_name: 'items-sync', status: 'success',
       items_synced: itemsUpserted, duration_ms: duration,
     });
 
     return new Response(JSON.stringify({
-      status: 'ok', items: itemsUpserted, duration_ms: duration,
+      status: 'ok', items: itemsUpserted, prices: terminalPricesUpserted, prices_deleted: terminalPricesDeleted, duration_ms: duration,
     }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
 
   } catch (error) {
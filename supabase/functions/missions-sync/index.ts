@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { parseContractDump } from './parse.ts';
 
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
 const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
@@ -9,77 +10,86 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// SCUnpacked GitHub raw URLs for mission-related data
-const SCUNPACKED_BASE = 'https://raw.githubusercontent.com/StarCitizenTools/scunpacked/master/website/data';
+// Contract dump in the scunpacked format (see parse.ts). scunpacked does not publish one itself,
+// so there is no default: point this at a mirror that exports the contracts of the current patch
+const MISSIONS_DUMP_URL = Deno.env.get('MISSIONS_DUMP_URL');
+
+const BATCH_SIZE = 200;
+const PAGE_SIZE = 1000;
+
+async function loadDump(): Promise<unknown> {
+  if (!MISSIONS_DUMP_URL) throw new Error('MISSIONS_DUMP_URL is not set');
+  const res = await fetch(MISSIONS_DUMP_URL);
+  if (!res.ok) throw new Error(`Contract dump error ${res.status} for ${MISSIONS_DUMP_URL}`);
+  return res.json();
+}
+
+async function fetchActiveSourceIds(): Promise<string[]> {
+  const ids: string[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('missions')
+      .select('id, source_id')
+      .eq('is_active', true)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    for (const row of data || []) if (row.source_id) ids.push(row.source_id);
+    if (!data || data.length < PAGE_SIZE) return ids;
+  }
+}
 
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
   const startTime = Date.now();
 
   try {
-    console.log('[missions-sync] Starting...');
-
-    // Try fetching mission data from SCUnpacked
-    // Note: SCUnpacked doesn't have a dedicated missions file, so we'll use a community source
-    // For now, we'll seed with known mission categories from Star Citizen
-    const knownMissions = [
-      // Bounty missions
-      { title: 'Bounty - Very Low Threat', category: 'bounty', mission_type: 'combat', faction: 'Crusader Security', star_system: 'Stanton', reward_auec: 7500, is_illegal: false, is_shareable: true, is_repeatable: true, combat_threat: 'very_low', rank_required: 'None' },
-      { title: 'Bounty - Low Threat', category: 'bounty', mission_type: 'combat', faction: 'Crusader Security', star_system: 'Stanton', reward_auec: 15000, is_illegal: false, is_shareable: true, is_repeatable: true, combat_threat: 'low', rank_required: 'None' },
-      { title: 'Bounty - Medium Threat', category: 'bounty', mission_type: 'combat', faction: 'Crusader Security', star_system: 'Stanton', reward_auec: 25000, is_illegal: false, is_shareable: true, is_repeatable: true, combat_threat: 'medium', rank_required: 'Tier 1' },
-      { title: 'Bounty - High Threat (HRT)', category: 'bounty', mission_type: 'combat', faction: 'Crusader Security', star_system: 'Stanton', reward_auec: 40000, is_illegal: false, is_shareable: true, is_repeatable: true, combat_threat: 'high', rank_required: 'Tier 2' },
-      { title: 'Bounty - Very High Threat (VHRT)', category: 'bounty', mission_type: 'combat', faction: 'Crusader Security', star_system: 'Stanton', reward_auec: 60000, is_illegal: false, is_shareable: true, is_repeatable: true, combat_threat: 'very_high', rank_required: 'Tier 3' },
-      { title: 'Bounty - Extreme Risk Targets (ERT)', category: 'bounty', mission_type: 'combat', faction: 'Crusader Security', star_system: 'Stanton', reward_auec: 100000, is_illegal: false, is_shareable: true, is_repeatable: true, combat_threat: 'extreme', rank_required: 'Tier 4' },
-      { title: 'Group Bounty - VHRT', category: 'bounty', mission_type: 'combat', faction: 'Crusader Security', star_system: 'Stanton', reward_auec: 90000, is_illegal: false, is_shareable: true, is_repeatable: true, combat_threat: 'very_high', rank_required: 'Tier 3' },
-      
-      // Delivery
-      { title: 'Delivery - Local', category: 'delivery', mission_type: 'transport', faction: 'Covalex Shipping', star_system: 'Stanton', reward_auec: 6000, is_illegal: false, is_shareable: false, is_repeatable: true, combat_threat: null, rank_required: 'None' },
-      { title: 'Delivery - Interplanetary', category: 'delivery', mission_type: 'transport', faction: 'Covalex Shipping', star_system: 'Stanton', reward_auec: 12000, is_illegal: false, is_shareable: false, is_repeatable: true, combat_threat: null, rank_required: 'None' },
-      { title: 'Drug Delivery', category: 'delivery', mission_type: 'transport', faction: 'Underground', star_system: 'Stanton', reward_auec: 25000, is_illegal: true, is_shareable: false, is_repeatable: true, combat_threat: null, rank_required: 'None' },
-      
-      // Mining
-      { title: 'Mining Contract - Quantanium', category: 'mining', mission_type: 'resource', faction: 'Shubin Interstellar', star_system: 'Stanton', reward_auec: 45000, is_illegal: false, is_shareable: true, is_repeatable: true, combat_threat: null, rank_required: 'None' },
-      { title: 'Mining Contract - Hadanite', category: 'mining', mission_type: 'resource', faction: 'Shubin Interstellar', star_system: 'Stanton', reward_auec: 30000, is_illegal: false, is_shareable: true, is_repeatable: true, combat_threat: null, rank_required: 'None' },
-      
-      // Salvage
-      { title: 'Salvage Contract - Wreckage', category: 'salvage', mission_type: 'salvage', faction: 'Reclaimer Association', star_system: 'Stanton', reward_auec: 20000, is_illegal: false, is_shareable: true, is_repeatable: true, combat_threat: null, rank_required: 'None' },
-      { title: 'Illegal Salvage', category: 'salvage', mission_type: 'salvage', faction: 'Underground', star_system: 'Stanton', reward_auec: 35000, is_illegal: true, is_shareable: false, is_repeatable: true, combat_threat: 'low', rank_required: 'None' },
-      
-      // Investigation
-      { title: 'Missing Person Investigation', category: 'investigation', mission_type: 'exploration', faction: 'microTech Security', star_system: 'Stanton', reward_auec: 15000, is_illegal: false, is_shareable: false, is_repeatable: true, combat_threat: null, rank_required: 'None' },
-      { title: 'Black Box Recovery', category: 'investigation', mission_type: 'exploration', faction: 'Crusader Security', star_system: 'Stanton', reward_auec: 10000, is_illegal: false, is_shareable: false, is_repeatable: true, combat_threat: null, rank_required: 'None' },
-      
-      // Mercenary
-      { title: 'Bunker Clearance', category: 'mercenary', mission_type: 'combat', faction: 'Hurston Security', star_system: 'Stanton', reward_auec: 20000, is_illegal: false, is_shareable: true, is_repeatable: true, combat_threat: 'medium', rank_required: 'Tier 1' },
-      { title: 'Defend Outpost', category: 'mercenary', mission_type: 'combat', faction: 'Crusader Security', star_system: 'Stanton', reward_auec: 35000, is_illegal: false, is_shareable: true, is_repeatable: true, combat_threat: 'high', rank_required: 'Tier 2' },
-      { title: 'Raid Security Post', category: 'mercenary', mission_type: 'combat', faction: 'Underground', star_system: 'Stanton', reward_auec: 30000, is_illegal: true, is_shareable: true, is_repeatable: true, combat_threat: 'high', rank_required: 'Tier 2' },
-      
-      // Maintenance
-      { title: 'Repair Relay Station', category: 'maintenance', mission_type: 'maintenance', faction: 'Comm-Array', star_system: 'Stanton', reward_auec: 8000, is_illegal: false, is_shareable: false, is_repeatable: true, combat_threat: null, rank_required: 'None' },
-      { title: 'Disable Comm Array', category: 'maintenance', mission_type: 'maintenance', faction: 'Underground', star_system: 'Stanton', reward_auec: 20000, is_illegal: true, is_shareable: false, is_repeatable: true, combat_threat: null, rank_required: 'None' },
-      
-      // Escort
-      { title: 'Escort - Transport Ship', category: 'escort', mission_type: 'combat', faction: 'Covalex Shipping', star_system: 'Stanton', reward_auec: 30000, is_illegal: false, is_shareable: true, is_repeatable: true, combat_threat: 'medium', rank_required: 'Tier 1' },
-      
-      // Search & Rescue
-      { title: 'Search and Rescue', category: 'search_rescue', mission_type: 'exploration', faction: 'Crusader Security', star_system: 'Stanton', reward_auec: 12000, is_illegal: false, is_shareable: false, is_repeatable: true, combat_threat: null, rank_required: 'None' },
-    ];
-
-    // Upsert missions with source_id for dedup
+    const { dry_run } = await req.json().catch(() => ({}));
+    console.log(`[missions-sync] Starting${dry_run ? ' (dry run)' : ''}...`);
+
+    const { gameVersion, missions, skipped } = parseContractDump(await loadDump());
+    console.log(`[missions-sync] Parsed ${missions.length} missions (${skipped} skipped), game version ${gameVersion ?? 'unknown'}`);
+    // An empty or broken dump must not retire the whole table
+    if (missions.length === 0) throw new Error('Contract dump contains no missions');
+
+    if (dry_run) {
+      return new Response(JSON.stringify({
+        status: 'ok', dry_run: true, game_version: gameVersion, missions: missions.length, skipped, parsed: missions,
+      }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // Upsert by source_id; anything seen again is active, even if it had been retired before
+    const now = new Date().toISOString();
     let missionsUpserted = 0;
-    for (const mission of knownMissions) {
-      const sourceId = `seed-${mission.category}-${mission.title.toLowerCase().replace(/\s+/g, '-')}`;
-      const { error } = await supabase.from('missions').upsert({
-        ...mission,
-        source_id: sourceId,
-        updated_at: new Date().toISOString(),
-      }, { onConflict: 'source_id' });
-      if (!error) missionsUpserted++;
-      else console.error(`[missions-sync] Error:`, error.message);
+    for (let i = 0; i < missions.length; i += BATCH_SIZE) {
+      const batch = missions.slice(i, i + BATCH_SIZE).map(m => ({
+        ...m,
+        game_version: gameVersion,
+        is_active: true,
+        retired_at: null,
+        updated_at: now,
+      }));
+      const { error } = await supabase.from('missions').upsert(batch, { onConflict: 'source_id' });
+      if (!error) missionsUpserted += batch.length;
+      else console.error(`[missions-sync] Upsert error:`, error.message);
+    }
+
+    // Retire active missions that are no longer in the dump (including the old seeded ones)
+    const seen = new Set(missions.map(m => m.source_id));
+    const missing = (await fetchActiveSourceIds()).filter(id => !seen.has(id));
+    let missionsRetired = 0;
+    for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+      const batch = missing.slice(i, i + BATCH_SIZE);
+      const { error } = await supabase
+        .from('missions')
+        .update({ is_active: false, retired_at: now, updated_at: now })
+        .in('source_id', batch);
+      if (!error) missionsRetired += batch.length;
+      else console.error(`[missions-sync] Retire error:`, error.message);
     }
 
     const duration = Date.now() - startTime;
-    console.log(`[missions-sync] Done in ${duration}ms: ${missionsUpserted} missions`);
+    console.log(`[missions-sync] Done in ${duration}ms: ${missionsUpserted} missions, ${missionsRetired} retired`);
 
     await supabase.from('cron_job_history').insert({
       job_name: 'missions-sync', status: 'success',
@@ -87,7 +97,7 @@ Deno.serve(async (req) => {
     });
 
     return new Response(JSON.stringify({
-      status: 'ok', missions: missionsUpserted, duration_ms: duration,
+      status: 'ok', game_version: gameVersion, missions: missionsUpserted, retired: missionsRetired, skipped, duration_ms: duration,
     }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
 
   } catch (error) {
@@ -0,0 +1,165 @@
+// Parser for scunpacked-style contract dumps. Kept free of network and database access so it can be
+// run against the checked-in fixtures (see fixtures/) without touching Supabase.
+//
+// Expected shape (field names vary between dump generations, the common aliases are accepted):
+// {
+//   "version": "4.1.0-LIVE.9650658",
+//   "contracts": [{
+//     "id": "…", "title": "…", "description": "…", "type": "BountyHunter",
+//     "faction": { "name": "Crusader Security" }, "system": "Stanton",
+//     "minStanding": "Tier 1", "threat": "Very High",
+//     "illegal": false, "shareable": true, "once": false,
+//     "reward": { "uec": 25000, "xp": 1200, "blueprints": ["FS-9 LMG"] },
+//     "chain": { "id": "…", "step": 1, "length": 3 }
+//   }]
+// }
+
+export interface ParsedMission {
+  source_id: string;
+  title: string;
+  description: string | null;
+  category: string | null;
+  mission_type: string | null;
+  faction: string | null;
+  star_system: string | null;
+  reward_auec: number | null;
+  base_xp: number | null;
+  rank_required: string | null;
+  combat_threat: string | null;
+  is_illegal: boolean;
+  is_shareable: boolean;
+  is_unique: boolean;
+  is_repeatable: boolean;
+  is_chain: boolean;
+  chain_id: string | null;
+  chain_step: number | null;
+  chain_length: number | null;
+  blueprint_reward: string | null;
+  blueprint_rewards: string[];
+}
+
+export interface ParsedDump {
+  gameVersion: string | null;
+  missions: ParsedMission[];
+  /** Entries without an id or a readable title */
+  skipped: number;
+}
+
+const SOURCE_PREFIX = 'scunpacked-';
+
+// Contract types from the game files -> categories already used by the Missions page
+const CATEGORY_ALIASES: Record<string, string> = {
+  bounty: 'bounty', bountyhunter: 'bounty', bountyhunting: 'bounty',
+  delivery: 'delivery', courier: 'delivery', hauling: 'delivery', cargo: 'delivery',
+  mercenary: 'mercenary', security: 'mercenary',
+  salvage: 'salvage', salvaging: 'salvage',
+  mining: 'mining',
+  maintenance: 'maintenance', repair: 'maintenance',
+  investigation: 'investigation', recovery: 'investigation',
+  escort: 'escort',
+  searchandrescue: 'search_rescue', rescue: 'search_rescue',
+};
+
+const MISSION_TYPE_BY_CATEGORY: Record<string, string> = {
+  bounty: 'combat', mercenary: 'combat', escort: 'combat',
+  delivery: 'transport',
+  mining: 'resource',
+  salvage: 'salvage',
+  investigation: 'exploration', search_rescue: 'exploration',
+  maintenance: 'maintenance',
+};
+
+type Raw = Record<string, unknown>;
+
+const record = (value: unknown): Raw | undefined =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Raw : undefined;
+
+const pick = (obj: unknown, ...keys: string[]): unknown => {
+  const raw = record(obj);
+  for (const key of keys) {
+    if (raw?.[key] !== undefined && raw[key] !== null && raw[key] !== '') return raw[key];
+  }
+  return undefined;
+};
+
+const text = (value: unknown): string | null => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'object') return text(pick(value, 'name', 'title', 'label'));
+  const str = String(value).trim();
+  // Unresolved localisation keys are of no use to players
+  return str && !str.startsWith('@') ? str : null;
+};
+
+const int = (value: unknown): number | null => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.round(n) : null;
+};
+
+const bool = (value: unknown, fallback = false): boolean =>
+  value === undefined || value === null ? fallback : value === true || value === 'true' || value === 1;
+
+const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const snake = (value: string) => value.trim().replace(/([a-z])([A-Z])/g, '$1_$2').replace(/[\s-]+/g, '_').toLowerCase();
+
+export function normalizeCategory(value: unknown): string | null {
+  const raw = text(value);
+  if (!raw) return null;
+  return CATEGORY_ALIASES[raw.toLowerCase().replace(/[^a-z]/g, '')] ?? snake(raw);
+}
+
+export function parseContract(contract: unknown): ParsedMission | null {
+  const id = text(pick(contract, 'id', 'uuid', '__ref'));
+  const title = text(pick(contract, 'title', 'name', 'displayName'));
+  if (!id || !title) return null;
+
+  const reward = pick(contract, 'reward', 'rewards') ?? {};
+  const chain = pick(contract, 'chain', 'missionChain');
+  // A malformed entry (a single string, an object) yields no blueprints rather than failing the whole dump
+  const blueprints = list(pick(reward, 'blueprints', 'blueprintRewards') ?? pick(contract, 'blueprints'))
+    .map(text)
+    .filter((name): name is string => !!name);
+  const category = normalizeCategory(pick(contract, 'category', 'type', 'missionType'));
+  const unique = bool(pick(contract, 'once', 'unique', 'isUnique'));
+  const threat = text(pick(contract, 'threat', 'combatThreat', 'difficulty'));
+
+  return {
+    source_id: `${SOURCE_PREFIX}${id}`,
+    title,
+    description: text(pick(contract, 'description', 'desc')),
+    category,
+    mission_type: category ? MISSION_TYPE_BY_CATEGORY[category] ?? null : null,
+    faction: text(pick(contract, 'faction', 'giver', 'missionGiver')),
+    star_system: text(pick(contract, 'system', 'starSystem', 'star_system')) ?? text(pick(pick(contract, 'location'), 'system')),
+    reward_auec: int(pick(reward, 'uec', 'auec', 'amount')) ?? int(pick(contract, 'rewardUEC', 'reward_auec')),
+    base_xp: int(pick(reward, 'xp', 'experience')),
+    rank_required: text(pick(contract, 'minStanding', 'rank', 'requiredRank')),
+    combat_threat: threat ? snake(threat) : null,
+    is_illegal: bool(pick(contract, 'illegal', 'isIllegal')) || record(contract)?.lawful === false,
+    is_shareable: bool(pick(contract, 'shareable', 'canBeShared', 'isShareable')),
+    is_unique: unique,
+    is_repeatable: bool(pick(contract, 'repeatable', 'isRepeatable'), !unique),
+    is_chain: !!chain,
+    chain_id: chain ? text(pick(chain, 'id', 'name')) : null,
+    chain_step: chain ? int(pick(chain, 'step', 'index')) : null,
+    chain_length: chain ? int(pick(chain, 'length', 'steps', 'total')) : null,
+    blueprint_reward: blueprints.length ? blueprints.join(', ') : null,
+    blueprint_rewards: blueprints,
+  };
+}
+
+export function parseContractDump(dump: unknown): ParsedDump {
+  const contracts = Array.isArray(dump) ? dump : list(pick(dump, 'contracts', 'missions'));
+  const gameVersion = Array.isArray(dump) ? null : text(pick(dump, 'version', 'gameVersion', 'game_version'));
+
+  // The same contract can be listed once per location; keep the last definition
+  const bySource = new Map<string, ParsedMission>();
+  let skipped = 0;
+  for (const contract of contracts) {
+    const mission = parseContract(contract);
+    if (mission) bySource.set(mission.source_id, mission);
+    else skipped++;
+  }
+
+  return { gameVersion, missions: Array.from(bySource.values()), skipped };
+}
@@ -0,0 +1,87 @@
+// deno test --allow-read supabase/functions/missions-sync/
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { parseContract, parseContractDump } from './parse.ts';
+
+const FIXTURES = new URL('./fixtures/', import.meta.url);
+
+async function loadFixture(name: string): Promise<unknown> {
+  return JSON.parse(await Deno.readTextFile(new URL(name, FIXTURES)));
+}
+
+Deno.test('every fixture parses into complete missions', async () => {
+  for await (const entry of Deno.readDir(FIXTURES)) {
+    if (!entry.name.endsWith('.json')) continue;
+    const { gameVersion, missions } = parseContractDump(await loadFixture(entry.name));
+
+    assert(gameVersion, `${entry.name}: no game version`);
+    assert(missions.length > 0, `${entry.name}: no missions`);
+    assertEquals(new Set(missions.map(m => m.source_id)).size, missions.length, `${entry.name}: duplicate source ids`);
+    for (const mission of missions) {
+      assert(mission.source_id.startsWith('scunpacked-'), mission.source_id);
+      assert(mission.title, mission.source_id);
+      assert(mission.category, `${mission.source_id}: no category`);
+      assert(mission.mission_type, `${mission.source_id}: no mission type`);
+      assertEquals(mission.blueprint_reward, mission.blueprint_rewards.length ? mission.blueprint_rewards.join(', ') : null);
+    }
+  }
+});
+
+Deno.test('contracts-4.1.0.json', async () => {
+  const { gameVersion, missions, skipped } = parseContractDump(await loadFixture('contracts-4.1.0.json'));
+  const byId = new Map(missions.map(m => [m.source_id, m]));
+
+  assertEquals(gameVersion, '4.1.0-LIVE.9650658');
+  assertEquals(missions.length, 8);
+  assertEquals(skipped, 2);
+
+  const bounty = byId.get('scunpacked-bounty-crusader-vhrt')!;
+  assertEquals(bounty.category, 'bounty');
+  assertEquals(bounty.mission_type, 'combat');
+  assertEquals(bounty.faction, 'Crusader Security');
+  assertEquals(bounty.reward_auec, 60000);
+  assertEquals(bounty.combat_threat, 'very_high');
+  assertEquals(bounty.rank_required, 'Tier 3');
+
+  // Listed twice, the last definition wins
+  assertEquals(byId.get('scunpacked-delivery-covalex-local')!.reward_auec, 6500);
+
+  const salvage = byId.get('scunpacked-illegal-salvage-pyro')!;
+  assertEquals(salvage.is_illegal, true);
+  assertEquals(salvage.faction, 'Headhunters');
+  assertEquals(salvage.base_xp, null);
+
+  const finale = byId.get('scunpacked-wikelo-chain-3')!;
+  assertEquals(finale.is_chain, true);
+  assertEquals([finale.chain_id, finale.chain_step, finale.chain_length], ['wikelo-favors', 3, 3]);
+  assertEquals(finale.is_unique, true);
+  assertEquals(finale.is_repeatable, false);
+  assertEquals(finale.blueprint_rewards, ['Karna Rifle', 'FS-9 LMG']);
+
+  assertEquals(byId.get('scunpacked-search-rescue-microtech')!.category, 'search_rescue');
+});
+
+Deno.test('contracts-4.1.1.json', async () => {
+  const { gameVersion, missions, skipped } = parseContractDump(await loadFixture('contracts-4.1.1.json'));
+  const byId = new Map(missions.map(m => [m.source_id, m]));
+
+  assertEquals(gameVersion, '4.1.1-LIVE.9712345');
+  assertEquals(missions.length, 8);
+  assertEquals(skipped, 2);
+  assertEquals(byId.get('scunpacked-bounty-crusader-vhrt')!.reward_auec, 65000);
+  assertEquals(byId.get('scunpacked-mining-shubin-quantanium')!.mission_type, 'resource');
+  // Dropped from 4.1.1, missions-sync retires it
+  assertEquals(byId.has('scunpacked-ops-hurston-bunker'), false);
+});
+
+Deno.test('malformed blueprint rewards are ignored', () => {
+  assertEquals(parseContract({ id: 'a', title: 'A', reward: { blueprints: 'FS-9 LMG' } })!.blueprint_rewards, []);
+  assertEquals(parseContract({ id: 'b', title: 'B', blueprints: { name: 'FS-9 LMG' } })!.blueprint_rewards, []);
+  assertEquals(parseContract({ id: 'c', title: 'C', reward: { blueprints: [null, { name: 'P4-AR Rifle' }] } })!.blueprint_rewards, ['P4-AR Rifle']);
+});
+
+Deno.test('dumps that are not a contract list yield nothing', () => {
+  assertEquals(parseContractDump('not a dump').missions, []);
+  assertEquals(parseContractDump({ contracts: 'nope' }).missions, []);
+  assertEquals(parseContractDump(null).missions, []);
+  assertEquals(parseContract({ title: 'No id' }), null);
+});
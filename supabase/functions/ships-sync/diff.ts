@@ -0,0 +1,109 @@
+// Field-level diff between the stored ship row and the payload ships-sync is about to write. Kept free of
+// network and database access, like missions-sync/parse.ts.
+//
+// armament and systems are large nested objects, they are compared one group deeper
+// (e.g. "armament.weapons", "systems.propulsion") so a history entry points at what actually moved.
+
+export const TRACKED_FIELDS = [
+  'name',
+  'manufacturer',
+  'role',
+  'size',
+  'production_status',
+  'patch',
+  'crew_min',
+  'crew_max',
+  'cargo_scu',
+  'length_m',
+  'beam_m',
+  'height_m',
+  'scm_speed',
+  'max_speed',
+  'prices',
+  'armament',
+  'systems',
+] as const;
+
+const NESTED_FIELDS = new Set<string>(['armament', 'systems']);
+
+export interface ShipFieldChange {
+  field: string;
+  old: unknown;
+  new: unknown;
+  /** Where the new value came from, see FieldSources */
+  source?: string;
+}
+
+type Row = Record<string, unknown>;
+
+/**
+ * Tracked field -> source of the value ships-sync merged: wiki_api_v2, fleetyards, wiki_html or uex,
+ * joined with "+" when several sources make up the value (prices). Same keys as `data_sources`.
+ */
+export type FieldSources = Record<string, string>;
+
+// JSON with sorted keys at every level, so key order never shows up as a change
+function canonical(value: unknown): string {
+  if (value === undefined) return 'null';
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const obj = value as Row;
+    return `{${Object.keys(obj).sort().filter(k => obj[k] !== undefined).map(k => `${JSON.stringify(k)}:${canonical(obj[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function asObject(value: unknown): Row {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Row : {};
+}
+
+function normalize(value: unknown): unknown {
+  return value === undefined || value === '' ? null : value;
+}
+
+/**
+ * Tracked values of a row, stored as the version snapshot.
+ */
+export function pickTracked(row: Row): Row {
+  return Object.fromEntries(TRACKED_FIELDS.map(field => [field, normalize(row[field])]));
+}
+
+/**
+ * Changes from `previous` (the stored row, null for a new ship) to `next` (the upsert payload).
+ * A new ship yields no change, its first version only carries the snapshot.
+ */
+export function diffShip(previous: Row | null, next: Row, sources: FieldSources = {}): ShipFieldChange[] {
+  if (!previous) return [];
+
+  const changes: ShipFieldChange[] = [];
+  for (const field of TRACKED_FIELDS) {
+    const oldValue = normalize(previous[field]);
+    const newValue = normalize(next[field]);
+    if (canonical(oldValue) === canonical(newValue)) continue;
+
+    if (NESTED_FIELDS.has(field)) {
+      const oldGroups = asObject(oldValue);
+      const newGroups = asObject(newValue);
+      const keys = Array.from(new Set([...Object.keys(oldGroups), ...Object.keys(newGroups)])).sort();
+      for (const key of keys) {
+        if (canonical(oldGroups[key]) === canonical(newGroups[key])) continue;
+        changes.push({ field: `${field}.${key}`, old: normalize(oldGroups[key]), new: normalize(newGroups[key]), source: sources[field] });
+      }
+      continue;
+    }
+
+    changes.push({ field, old: oldValue, new: newValue, source: sources[field] });
+  }
+  return changes;
+}
+
+/**
+ * Sources behind a version: those of the changed fields, or of every tracked field for a new ship.
+ */
+export function versionSource(changes: ShipFieldChange[], sources: FieldSources): string | null {
+  const used = changes.length > 0
+    ? changes.map(change => change.source)
+    : TRACKED_FIELDS.map(field => sources[field]);
+  const names = new Set(used.flatMap(source => source?.split('+') ?? []));
+  return names.size > 0 ? Array.from(names).sort().join('+') : null;
+}
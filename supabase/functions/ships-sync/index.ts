@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { TRACKED_FIELDS, diffShip, pickTracked, versionSource, type FieldSources } from './diff.ts';
 
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
 const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
@@ -95,6 +96,15 @@ interface Vehicle {
   fleetyards_modules?: unknown[];
   fleetyards_snub_crafts?: unknown[];
   fleetyards_full_data?: unknown;
+  field_sources?: FieldSources;
+}
+
+type FieldSource = 'wiki_api_v2' | 'fleetyards' | 'wiki_html' | 'uex';
+
+// "wiki_api_v2+uex", each source once
+function joinSources(...sources: (string | undefined)[]): string | undefined {
+  const unique = Array.from(new Set(sources.filter(Boolean)));
+  return unique.length > 0 ? unique.join('+') : undefined;
 }
 
 function stableStringify(obj: any): string {
@@ -927,57 +937,95 @@ async function processShip(
     }
     
     // 6. MERGE DATA with priority: Wiki API v2 > FleetYards > Wiki HTML
+    // Each merged field remembers which source won, for data_sources.fields and the version history
+    const fieldSources: FieldSources = { name: 'wiki_html' };
+    // First candidate that is set; `loose` also skips '' and 0 like `||`. Nothing set keeps the last value.
+    const merge = <T>(field: string, candidates: [T | null | undefined, FieldSource][], loose = false) => {
+      const found = candidates.find(([value]) => loose ? !!value : value !== undefined && value !== null);
+      if (found) fieldSources[field] = found[1];
+      return found ? found[0] : candidates[candidates.length - 1][0];
+    };
     
     // Manufacturer - try both camelCase and nested object
-    let finalManufacturer = wikiAPIData?.manufacturer?.name || 
-      fyData?.basic?.manufacturer?.name || 
-      (typeof fyData?.basic?.manufacturer === 'string' ? fyData.basic.manufacturer : null) ||
-      parsed.manufacturer;
+    let finalManufacturer = merge('manufacturer', [
+      [wikiAPIData?.manufacturer?.name, 'wiki_api_v2'],
+      [fyData?.basic?.manufacturer?.name, 'fleetyards'],
+      [typeof fyData?.basic?.manufacturer === 'string' ? fyData.basic.manufacturer : null, 'fleetyards'],
+      [parsed.manufacturer, 'wiki_html'],
+    ], true);
     
     // Role - FleetYards uses "focus" (camelCase)
-    let finalRole = wikiAPIData?.foci?.[0]?.en_EN || fyData?.basic?.focus || parsed.role;
+    let finalRole = merge('role', [[wikiAPIData?.foci?.[0]?.en_EN, 'wiki_api_v2'], [fyData?.basic?.focus, 'fleetyards'], [parsed.role, 'wiki_html']], true);
     
     // Size - FleetYards uses "size" directly
-    let finalSize = wikiAPIData?.type?.en_EN || fyData?.basic?.size || parsed.size;
+    let finalSize = merge('size', [[wikiAPIData?.type?.en_EN, 'wiki_api_v2'], [fyData?.basic?.size, 'fleetyards'], [parsed.size, 'wiki_html']], true);
     
     // Production Status - PRIORITY: Wiki API v2, then FleetYards (camelCase: productionStatus)
-    let finalProductionStatus = normalizeProductionStatus(
-      wikiAPIData?.production_status?.en_EN || 
-      fyData?.basic?.productionStatus ||  // camelCase!
-      parsed.production_status
-    );
+    let finalProductionStatus = normalizeProductionStatus(merge('production_status', [
+      [wikiAPIData?.production_status?.en_EN, 'wiki_api_v2'],
+      [fyData?.basic?.productionStatus, 'fleetyards'],  // camelCase!
+      [parsed.production_status, 'wiki_html'],
+    ], true));
     
     // Crew
-    let finalCrewMin = wikiAPIData?.crew?.min ?? fyData?.basic?.crew_min ?? parsed.crew?.min;
-    let finalCrewMax = wikiAPIData?.crew?.max ?? fyData?.basic?.crew_max ?? parsed.crew?.max;
+    let finalCrewMin = merge('crew_min', [[wikiAPIData?.crew?.min, 'wiki_api_v2'], [fyData?.basic?.crew_min, 'fleetyards'], [parsed.crew?.min, 'wiki_html']]);
+    let finalCrewMax = merge('crew_max', [[wikiAPIData?.crew?.max, 'wiki_api_v2'], [fyData?.basic?.crew_max, 'fleetyards'], [parsed.crew?.max, 'wiki_html']]);
     
     // Cargo
-    let finalCargo = wikiAPIData?.cargo_capacity ?? fyData?.basic?.cargo ?? parsed.cargo;
+    let finalCargo = merge('cargo_scu', [[wikiAPIData?.cargo_capacity, 'wiki_api_v2'], [fyData?.basic?.cargo, 'fleetyards'], [parsed.cargo, 'wiki_html']]);
     
     // Dimensions
-    let finalLength = wikiAPIData?.sizes?.length ?? fyData?.basic?.length ?? parsed.dimensions?.length;
-    let finalBeam = wikiAPIData?.sizes?.beam ?? fyData?.basic?.beam ?? parsed.dimensions?.beam;
-    let finalHeight = wikiAPIData?.sizes?.height ?? fyData?.basic?.height ?? parsed.dimensions?.height;
+    let finalLength = merge('length_m', [[wikiAPIData?.sizes?.length, 'wiki_api_v2'], [fyData?.basic?.length, 'fleetyards'], [parsed.dimensions?.length, 'wiki_html']]);
+    let finalBeam = merge('beam_m', [[wikiAPIData?.sizes?.beam, 'wiki_api_v2'], [fyData?.basic?.beam, 'fleetyards'], [parsed.dimensions?.beam, 'wiki_html']]);
+    let finalHeight = merge('height_m', [[wikiAPIData?.sizes?.height, 'wiki_api_v2'], [fyData?.basic?.height, 'fleetyards'], [parsed.dimensions?.height, 'wiki_html']]);
     
     // Speeds - FleetYards uses camelCase: scmSpeed, maxSpeed
-    let finalScmSpeed = wikiAPIData?.speed?.scm ?? fyData?.basic?.scmSpeed ?? fyData?.basic?.scm_speed ?? parsed.speeds?.scm;
-    let finalMaxSpeed = wikiAPIData?.speed?.max ?? fyData?.basic?.maxSpeed ?? fyData?.basic?.max_speed ?? parsed.speeds?.max;
+    let finalScmSpeed = merge('scm_speed', [
+      [wikiAPIData?.speed?.scm, 'wiki_api_v2'],
+      [fyData?.basic?.scmSpeed, 'fleetyards'],
+      [fyData?.basic?.scm_speed, 'fleetyards'],
+      [parsed.speeds?.scm, 'wiki_html'],
+    ]);
+    let finalMaxSpeed = merge('max_speed', [
+      [wikiAPIData?.speed?.max, 'wiki_api_v2'],
+      [fyData?.basic?.maxSpeed, 'fleetyards'],
+      [fyData?.basic?.max_speed, 'fleetyards'],
+      [parsed.speeds?.max, 'wiki_html'],
+    ]);
     
     // Prices - combine sources (pledgePrice = USD, price = aUEC in-game)
     let finalPrices: { amount: number; currency: string; type?: string }[] = parsed.prices || [];
+    if (finalPrices.some(p => p.type !== 'ingame')) fieldSources['prices.pledge'] = 'wiki_html';
+    if (finalPrices.some(p => p.type === 'ingame')) fieldSources['prices.ingame'] = 'wiki_html';
     if (wikiAPIData?.msrp && wikiAPIData.msrp > 0) {
       finalPrices = [{ amount: wikiAPIData.msrp, currency: 'USD', type: 'pledge' }];
+      fieldSources['prices.pledge'] = 'wiki_api_v2';
+      delete fieldSources['prices.ingame'];
     } else if (fyData?.basic?.pledgePrice && fyData.basic.pledgePrice > 0) {
       // Use pledgePrice for USD (not price which is aUEC in-game currency)
       finalPrices = [{ amount: fyData.basic.pledgePrice, currency: 'USD', type: 'pledge' }];
+      fieldSources['prices.pledge'] = 'fleetyards';
+      delete fieldSources['prices.ingame'];
     }
     // Also add in-game price if available
     if (fyData?.basic?.price && fyData.basic.price > 0) {
       const hasAuecPrice = finalPrices.some(p => p.type === 'ingame');
       if (!hasAuecPrice) {
         finalPrices.push({ amount: fyData.basic.price, currency: 'aUEC', type: 'ingame' });
+        fieldSources['prices.ingame'] = 'fleetyards';
       }
     }
+    const priceSources = joinSources(fieldSources['prices.pledge'], fieldSources['prices.ingame']);
+    if (priceSources) fieldSources.prices = priceSources;
+    
+    if (hardpointsMapped) {
+      fieldSources.armament = 'fleetyards';
+      fieldSources.systems = 'fleetyards';
+    } else {
+      if (parsed.armament) fieldSources.armament = 'wiki_html';
+      if (parsed.systems) fieldSources.systems = 'wiki_html';
+    }
+    if (parsed.patch) fieldSources.patch = 'wiki_html';
     
     const vehicle: Vehicle = {
       name: title,
@@ -1006,7 +1054,8 @@ async function processShip(
       fleetyards_modules: fyData?.modules || [],
       fleetyards_snub_crafts: fyData?.snubCrafts || [],
       fleetyards_full_data: fyData?.basic || null,
-      raw_fleetyards_data: fyData?.basic ? { model: fyData.basic } : undefined
+      raw_fleetyards_data: fyData?.basic ? { model: fyData.basic } : undefined,
+      field_sources: fieldSources
     };
     
     // Log matching results
@@ -1111,6 +1160,7 @@ Deno.serve(async (req) => {
     let successCount = 0;
     let failedCount = 0;
     let skippedCount = 0;
+    let versionCount = 0; // ships whose tracked fields changed
     const failedShips: Array<{ slug: string; name: string; error: string }> = [];
 
     // Create batches
@@ -1182,11 +1232,12 @@ Deno.serve(async (req) => {
         const toHash = { ...v } as any;
         delete toHash.image_url;
         delete toHash.model_glb_url;
+        delete toHash.field_sources;
         const newHash = await sha256(stableStringify(toHash));
 
         const { data: existing } = await supabase
           .from('ships')
-          .select('hash, image_url, flight_ready_since, production_status')
+          .select(['hash', 'image_url', 'flight_ready_since', ...TRACKED_FIELDS].join(', '))
           .eq('slug', v.slug)
           .maybeSingle();
 
@@ -1204,6 +1255,7 @@ Deno.serve(async (req) => {
           else if (v.production_status?.includes('Concept')) statusCounts.concept++;
           else statusCounts.unknown++;
 
+          const fieldSources: FieldSources = { ...v.field_sources };
           const payload: any = {
             slug: v.slug,
             name: v.name,
@@ -1234,6 +1286,8 @@ Deno.serve(async (req) => {
                 } else {
                   prices.push(uexEntry);
                 }
+                fieldSources['prices.ingame'] = 'uex';
+                fieldSources.prices = joinSources(fieldSources['prices.pledge'], 'uex') ?? 'uex';
               }
               return prices;
             })(),
@@ -1256,7 +1310,8 @@ Deno.serve(async (req) => {
             data_sources: {
               wiki_api_v2: { has_data: !!v.raw_starcitizen_api_data, last_fetch: new Date().toISOString() },
               wiki_html: { has_data: true, last_fetch: new Date().toISOString() },
-              fleetyards: { has_data: !!v.fleetyards_full_data, last_fetch: v.fleetyards_full_data ? new Date().toISOString() : null }
+              fleetyards: { has_data: !!v.fleetyards_full_data, last_fetch: v.fleetyards_full_data ? new Date().toISOString() : null },
+              fields: fieldSources
             }
           };
 
@@ -1267,13 +1322,38 @@ Deno.serve(async (req) => {
             payload.flight_ready_since = existing.flight_ready_since;
           }
 
-          const { error } = await supabase.from('ships').upsert(payload, { onConflict: 'slug' });
+          const { data: saved, error } = await supabase
+            .from('ships')
+            .upsert(payload, { onConflict: 'slug' })
+            .select('id')
+            .single();
           
           if (error) {
             console.error(`❌ Error upserting ${v.slug}:`, error.message);
             failedCount++;
           } else {
             successCount++;
+
+            // Keep a versioned snapshot whenever the hash moves (a forced resync of identical data is not a version)
+            if (!existing || existing.hash !== newHash) {
+              const changes = diffShip(existing, payload, fieldSources);
+              const { error: versionError } = await supabase.from('ship_versions').insert({
+                ship_id: saved.id,
+                ship_slug: v.slug,
+                hash: newHash,
+                previous_hash: existing?.hash ?? null,
+                changes,
+                snapshot: pickTracked(payload),
+                source: versionSource(changes, fieldSources) ?? payload.source.source,
+                sync_job_id: jobHistoryId,
+              });
+              if (versionError) {
+                console.error(`⚠️ Error saving version of ${v.slug}:`, versionError.message);
+              } else if (changes.length > 0) {
+                versionCount++;
+                console.log(`📝 ${v.slug}: ${changes.map(c => c.field).join(', ')} changed`);
+              }
+            }
           }
         } else {
           skippedCount++;
@@ -1298,7 +1378,8 @@ Deno.serve(async (req) => {
       duration_ms: duration,
       metadata: { 
         auto_sync, force, quick: quickMode, version: 'v2-wiki-api',
-        status_counts: statusCounts
+        status_counts: statusCounts,
+        changed_ships: versionCount
       }
     }).eq('id', progressId);
 
@@ -1312,7 +1393,7 @@ Deno.serve(async (req) => {
 
     console.log('========================================');
     console.log(`✅ SYNC COMPLETED in ${Math.round(duration / 1000)}s`);
-    console.log(`   Success: ${successCount}, Failed: ${failedCount}, Skipped: ${skippedCount}`);
+    console.log(`   Success: ${successCount}, Failed: ${failedCount}, Skipped: ${skippedCount}, Changed: ${versionCount}`);
     console.log(`   Status counts: Flight Ready: ${statusCounts.flightReady}, In Production: ${statusCounts.inProduction}, Concept: ${statusCounts.concept}, Unknown: ${statusCounts.unknown}`);
     console.log('========================================');
 
@@ -1324,6 +1405,7 @@ Deno.serve(async (req) => {
           success: successCount, 
           failed: failedCount, 
           skipped: skippedCount,
+          changed: versionCount,
           statusCounts
         }
       }),
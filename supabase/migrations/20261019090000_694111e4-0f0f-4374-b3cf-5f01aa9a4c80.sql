@@ -0,0 +1,82 @@
+-- =============================================
+-- COMMODITY PRICE HISTORY (append-only snapshots written by commodities-sync)
+-- terminal_id IS NULL  -> UEX community average for the commodity
+-- terminal_id NOT NULL -> price reported at that terminal
+-- =============================================
+CREATE TABLE public.commodity_price_history (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  commodity_id bigint NOT NULL REFERENCES public.commodities(id) ON DELETE CASCADE,
+  terminal_id bigint REFERENCES public.terminals(id) ON DELETE CASCADE,
+  price_buy numeric,
+  price_sell numeric,
+  scu_buy integer,
+  scu_sell integer,
+  recorded_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.commodity_price_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Commodity price history is publicly readable" ON public.commodity_price_history FOR SELECT USING (true);
+CREATE POLICY "Admins can manage commodity price history" ON public.commodity_price_history FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_commodity_price_history_commodity ON public.commodity_price_history(commodity_id, recorded_at DESC);
+CREATE INDEX idx_commodity_price_history_recorded ON public.commodity_price_history(recorded_at DESC) WHERE terminal_id IS NULL;
+
+-- Daily average/min/max for one commodity, used by the price-over-time chart
+CREATE OR REPLACE FUNCTION public.get_commodity_price_history(p_commodity_id bigint, p_days integer DEFAULT 30)
+RETURNS TABLE (
+  day date,
+  buy_price_avg numeric,
+  sell_price_avg numeric,
+  buy_price_min numeric,
+  sell_price_max numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    h.recorded_at::date AS day,
+    ROUND(AVG(h.price_buy) FILTER (WHERE h.terminal_id IS NULL AND h.price_buy > 0), 2) AS buy_price_avg,
+    ROUND(AVG(h.price_sell) FILTER (WHERE h.terminal_id IS NULL AND h.price_sell > 0), 2) AS sell_price_avg,
+    MIN(h.price_buy) FILTER (WHERE h.terminal_id IS NOT NULL AND h.price_buy > 0) AS buy_price_min,
+    MAX(h.price_sell) FILTER (WHERE h.terminal_id IS NOT NULL AND h.price_sell > 0) AS sell_price_max
+  FROM public.commodity_price_history h
+  WHERE h.commodity_id = p_commodity_id
+    AND h.recorded_at >= now() - make_interval(days => p_days)
+  GROUP BY h.recorded_at::date
+  ORDER BY day;
+$$;
+
+-- One row per commodity with daily average prices as arrays, used by the table sparklines
+-- (keeps the response at one row per commodity instead of one row per day)
+CREATE OR REPLACE FUNCTION public.get_commodity_sparklines(p_days integer DEFAULT 30)
+RETURNS TABLE (
+  commodity_id bigint,
+  buy_prices numeric[],
+  sell_prices numeric[]
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH daily AS (
+    SELECT
+      h.commodity_id,
+      h.recorded_at::date AS day,
+      AVG(h.price_buy) FILTER (WHERE h.price_buy > 0) AS buy,
+      AVG(h.price_sell) FILTER (WHERE h.price_sell > 0) AS sell
+    FROM public.commodity_price_history h
+    WHERE h.terminal_id IS NULL
+      AND h.recorded_at >= now() - make_interval(days => p_days)
+    GROUP BY h.commodity_id, h.recorded_at::date
+  )
+  SELECT
+    d.commodity_id,
+    ARRAY_AGG(ROUND(d.buy, 2) ORDER BY d.day) AS buy_prices,
+    ARRAY_AGG(ROUND(d.sell, 2) ORDER BY d.day) AS sell_prices
+  FROM daily d
+  GROUP BY d.commodity_id;
+$$;
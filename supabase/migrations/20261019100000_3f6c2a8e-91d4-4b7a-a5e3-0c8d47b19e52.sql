@@ -0,0 +1,22 @@
+-- =============================================
+-- ITEM PRICES (per terminal, written by items-sync)
+-- game_items.buy_price_avg/sell_price_avg stay as the cross-terminal averages
+-- =============================================
+CREATE TABLE public.item_prices (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  item_id bigint NOT NULL REFERENCES public.game_items(id) ON DELETE CASCADE,
+  terminal_id bigint NOT NULL REFERENCES public.terminals(id) ON DELETE CASCADE,
+  price_buy numeric,
+  price_sell numeric,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(item_id, terminal_id)
+);
+
+ALTER TABLE public.item_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Item prices are publicly readable" ON public.item_prices FOR SELECT USING (true);
+CREATE POLICY "Admins can manage item prices" ON public.item_prices FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_item_prices_item ON public.item_prices(item_id);
+CREATE INDEX idx_item_prices_terminal ON public.item_prices(terminal_id);
@@ -0,0 +1,45 @@
+-- =============================================
+-- REFINERY JOBS (per-user tracker for jobs submitted in-game)
+-- =============================================
+CREATE TABLE public.refinery_jobs (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  terminal_id bigint REFERENCES public.terminals(id) ON DELETE SET NULL,
+  method_id bigint REFERENCES public.refinery_methods(id) ON DELETE SET NULL,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  completes_at timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'collected', 'cancelled')),
+  cost_auec numeric,
+  estimated_value numeric,
+  final_value numeric,
+  collected_at timestamptz,
+  notified_at timestamptz,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE public.refinery_job_items (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  job_id bigint NOT NULL REFERENCES public.refinery_jobs(id) ON DELETE CASCADE,
+  commodity_id bigint NOT NULL REFERENCES public.commodities(id) ON DELETE CASCADE,
+  quantity_scu numeric NOT NULL CHECK (quantity_scu > 0),
+  expected_scu numeric
+);
+
+ALTER TABLE public.refinery_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.refinery_job_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own refinery jobs" ON public.refinery_jobs FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Admins can manage all refinery jobs" ON public.refinery_jobs FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can manage own refinery job items" ON public.refinery_job_items FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.refinery_jobs j WHERE j.id = job_id AND j.user_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.refinery_jobs j WHERE j.id = job_id AND j.user_id = auth.uid()));
+CREATE POLICY "Admins can manage all refinery job items" ON public.refinery_job_items FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_refinery_jobs_user ON public.refinery_jobs(user_id, started_at DESC);
+CREATE INDEX idx_refinery_jobs_pending ON public.refinery_jobs(user_id, completes_at) WHERE status = 'processing';
+CREATE INDEX idx_refinery_job_items_job ON public.refinery_job_items(job_id);
@@ -0,0 +1,15 @@
+-- =============================================
+-- MISSIONS: ingestion from contract dumps
+-- =============================================
+-- Chain position and every blueprint a contract rewards (blueprint_reward keeps the display string)
+ALTER TABLE public.missions
+  ADD COLUMN chain_id text,
+  ADD COLUMN chain_step integer,
+  ADD COLUMN blueprint_rewards text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN game_version text,
+  ADD COLUMN is_active boolean NOT NULL DEFAULT true,
+  ADD COLUMN retired_at timestamptz;
+
+-- Missions no longer present in the latest dump are kept for history but hidden
+CREATE INDEX idx_missions_active ON public.missions(is_active);
+CREATE INDEX idx_missions_chain ON public.missions(chain_id) WHERE chain_id IS NOT NULL;
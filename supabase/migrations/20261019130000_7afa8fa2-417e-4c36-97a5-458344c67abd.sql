@@ -0,0 +1,22 @@
+-- =============================================
+-- USER BLUEPRINTS (blueprints a pilot has collected)
+-- =============================================
+-- Blueprints are keyed by name, as listed in missions.blueprint_rewards
+CREATE TABLE public.user_blueprints (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  blueprint text NOT NULL,
+  collected_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, blueprint)
+);
+
+ALTER TABLE public.user_blueprints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "User blueprints are publicly readable" ON public.user_blueprints FOR SELECT USING (true);
+CREATE POLICY "Users can manage own blueprints" ON public.user_blueprints FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Admins can manage user blueprints" ON public.user_blueprints FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_user_blueprints_user ON public.user_blueprints(user_id);
+CREATE INDEX idx_missions_blueprints ON public.missions USING gin(blueprint_rewards);
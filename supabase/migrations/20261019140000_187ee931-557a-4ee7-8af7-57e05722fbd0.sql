@@ -0,0 +1,22 @@
+-- =============================================
+-- FACTION STANDINGS (pilot's current rank per mission faction)
+-- =============================================
+CREATE TABLE public.user_faction_standings (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  faction text NOT NULL, -- matches missions.faction
+  rank text NOT NULL, -- matches missions.rank_required
+  xp integer NOT NULL DEFAULT 0 CHECK (xp >= 0), -- progress towards the next rank
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, faction)
+);
+
+ALTER TABLE public.user_faction_standings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Faction standings are publicly readable" ON public.user_faction_standings FOR SELECT USING (true);
+CREATE POLICY "Users can manage own faction standings" ON public.user_faction_standings FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Admins can manage faction standings" ON public.user_faction_standings FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_user_faction_standings_user ON public.user_faction_standings(user_id);
@@ -0,0 +1,115 @@
+-- =============================================
+-- MISSION LOGS (missions a pilot completed, with what they actually earned)
+-- =============================================
+CREATE TABLE public.mission_logs (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  mission_id bigint REFERENCES public.missions(id) ON DELETE SET NULL,
+  -- Copied from the mission when there is one, so the log survives mission changes
+  title text NOT NULL,
+  category text,
+  faction text,
+  payout_auec integer NOT NULL DEFAULT 0 CHECK (payout_auec >= 0),
+  duration_minutes integer CHECK (duration_minutes > 0),
+  crew_size integer NOT NULL DEFAULT 1 CHECK (crew_size >= 1),
+  completed_at timestamptz NOT NULL DEFAULT now(),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.mission_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own mission logs" ON public.mission_logs FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Admins can manage mission logs" ON public.mission_logs FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_mission_logs_user ON public.mission_logs(user_id, completed_at DESC);
+
+CREATE TRIGGER update_mission_logs_updated_at
+  BEFORE UPDATE ON public.mission_logs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =============================================
+-- PROFILE STATS computed from the mission log
+-- =============================================
+CREATE OR REPLACE FUNCTION public.refresh_profile_mission_stats(_user_id uuid)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _totals record;
+  _top_category text;
+  _top_faction text;
+BEGIN
+  SELECT
+    count(*) AS missions,
+    COALESCE(sum(payout_auec), 0) AS earnings,
+    COALESCE(sum(duration_minutes), 0) AS minutes,
+    -- Rate over the missions that have a duration only
+    COALESCE(sum(payout_auec) FILTER (WHERE duration_minutes IS NOT NULL), 0) AS timed_earnings,
+    max(completed_at) AS last_mission_at
+  INTO _totals
+  FROM public.mission_logs
+  WHERE user_id = _user_id;
+
+  SELECT category INTO _top_category
+  FROM public.mission_logs
+  WHERE user_id = _user_id AND category IS NOT NULL
+  GROUP BY category
+  ORDER BY count(*) DESC, sum(payout_auec) DESC
+  LIMIT 1;
+
+  SELECT faction INTO _top_faction
+  FROM public.mission_logs
+  WHERE user_id = _user_id AND faction IS NOT NULL
+  GROUP BY faction
+  ORDER BY sum(payout_auec) DESC
+  LIMIT 1;
+
+  UPDATE public.profiles
+  SET stats = jsonb_build_object(
+    'missions_completed', _totals.missions,
+    'total_earnings', _totals.earnings,
+    'hours_logged', round(_totals.minutes / 60.0, 1),
+    'auec_per_hour', CASE WHEN _totals.minutes > 0 THEN round(_totals.timed_earnings * 60.0 / _totals.minutes) ELSE 0 END,
+    'top_category', _top_category,
+    'top_faction', _top_faction,
+    'last_mission_at', _totals.last_mission_at
+  )
+  WHERE id = _user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_mission_log_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_profile_mission_stats(OLD.user_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.user_id <> OLD.user_id) THEN
+    PERFORM public.refresh_profile_mission_stats(NEW.user_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_mission_log_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.mission_logs
+  FOR EACH ROW EXECUTE FUNCTION public.handle_mission_log_change();
+
+-- Stats used to be free-form JSON; start everyone from their (empty) mission log
+ALTER TABLE public.profiles ALTER COLUMN stats SET DEFAULT jsonb_build_object(
+  'missions_completed', 0,
+  'total_earnings', 0,
+  'hours_logged', 0,
+  'auec_per_hour', 0
+);
+SELECT public.refresh_profile_mission_stats(id) FROM public.profiles;
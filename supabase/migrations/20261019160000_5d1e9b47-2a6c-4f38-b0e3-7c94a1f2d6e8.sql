@@ -0,0 +1,26 @@
+-- =============================================
+-- SHIP VERSIONS (append-only snapshots written by ships-sync whenever a ship's hash changes)
+-- changes: [{ "field": "cargo_scu", "old": 46, "new": 48 }, ...], empty for the first version of a ship
+-- snapshot: tracked fields as written by that sync
+-- =============================================
+CREATE TABLE public.ship_versions (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  ship_id bigint NOT NULL REFERENCES public.ships(id) ON DELETE CASCADE,
+  ship_slug text NOT NULL,
+  hash text NOT NULL,
+  previous_hash text,
+  changes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  snapshot jsonb NOT NULL DEFAULT '{}'::jsonb,
+  source text,
+  sync_job_id bigint REFERENCES public.cron_job_history(id) ON DELETE SET NULL,
+  recorded_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ship_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Ship versions are publicly readable" ON public.ship_versions FOR SELECT USING (true);
+CREATE POLICY "Admins can manage ship versions" ON public.ship_versions FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_ship_versions_ship ON public.ship_versions(ship_id, recorded_at DESC);
+-- Admin "recent changes" view only looks at versions that changed something
+CREATE INDEX idx_ship_versions_changed ON public.ship_versions(recorded_at DESC) WHERE changes <> '[]'::jsonb;
@@ -0,0 +1,37 @@
+-- =============================================
+-- PERSONAL HANGAR (ships a pilot owns, one row per owned hull so duplicates are allowed)
+-- =============================================
+ALTER TABLE public.profiles
+  ADD COLUMN hangar_public boolean NOT NULL DEFAULT false;
+
+CREATE TABLE public.user_ships (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  ship_id bigint NOT NULL REFERENCES public.ships(id) ON DELETE CASCADE,
+  acquisition text NOT NULL DEFAULT 'pledged' CHECK (acquisition IN ('pledged', 'ingame')),
+  insurance text,
+  nickname text,
+  loadout_notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.user_ships ENABLE ROW LEVEL SECURITY;
+
+-- Hidden from other pilots when the owner turned profiles.hangar_public off
+CREATE POLICY "Public hangars are readable" ON public.user_ships FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = user_id AND p.hangar_public)
+  );
+CREATE POLICY "Users can manage own hangar" ON public.user_ships FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Admins can manage hangars" ON public.user_ships FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_user_ships_user ON public.user_ships(user_id);
+CREATE INDEX idx_user_ships_ship ON public.user_ships(ship_id);
+
+CREATE TRIGGER update_user_ships_updated_at
+  BEFORE UPDATE ON public.user_ships
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
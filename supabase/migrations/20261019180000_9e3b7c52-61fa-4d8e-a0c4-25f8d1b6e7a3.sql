@@ -0,0 +1,165 @@
+-- =============================================
+-- ORGANIZATIONS
+-- founder: created the org, only one who changes roles or deletes the org
+-- officer: edits the org, reviews join requests, removes members
+-- =============================================
+CREATE TYPE public.org_role AS ENUM ('founder', 'officer', 'member');
+
+CREATE TABLE public.organizations (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  slug text NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name text NOT NULL,
+  logo_url text,
+  description_md text,
+  created_by uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE public.organization_members (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  org_id bigint NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role public.org_role NOT NULL DEFAULT 'member',
+  joined_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (org_id, user_id)
+);
+
+CREATE TABLE public.organization_join_requests (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  org_id bigint NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  message text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+  reviewed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- A declined pilot can ask again, but only one request can be pending
+CREATE UNIQUE INDEX idx_org_join_requests_pending ON public.organization_join_requests(org_id, user_id) WHERE status = 'pending';
+CREATE INDEX idx_org_members_user ON public.organization_members(user_id);
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Membership lookups used by the policies (SECURITY DEFINER so organization_members policies do not recurse)
+CREATE OR REPLACE FUNCTION public.org_role_of(_org_id bigint, _user_id uuid)
+RETURNS public.org_role
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.organization_members WHERE org_id = _org_id AND user_id = _user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_org_officer(_org_id bigint, _user_id uuid)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.org_role_of(_org_id, _user_id) IN ('founder', 'officer'), false);
+$$;
+
+-- The creator becomes the founder
+CREATE OR REPLACE FUNCTION public.handle_new_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.organization_members (org_id, user_id, role) VALUES (NEW.id, NEW.created_by, 'founder');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_organization_created
+  AFTER INSERT ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_organization();
+
+-- Accept or decline a join request, accepting adds the pilot as a member
+CREATE OR REPLACE FUNCTION public.review_org_join_request(_request_id bigint, _accept boolean)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.organization_join_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO _request FROM public.organization_join_requests WHERE id = _request_id AND status = 'pending';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join request % not found or already reviewed', _request_id;
+  END IF;
+  IF NOT public.is_org_officer(_request.org_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only org officers can review join requests';
+  END IF;
+
+  UPDATE public.organization_join_requests
+  SET status = CASE WHEN _accept THEN 'accepted' ELSE 'declined' END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _request_id;
+
+  IF _accept THEN
+    INSERT INTO public.organization_members (org_id, user_id)
+    VALUES (_request.org_id, _request.user_id)
+    ON CONFLICT (org_id, user_id) DO NOTHING;
+  END IF;
+END;
+$$;
+
+-- Ship counts over the members' hangars. Private hangars only count for the org's own members.
+CREATE OR REPLACE FUNCTION public.get_org_fleet(_org_id bigint)
+RETURNS TABLE (
+  ship_id bigint,
+  ship_count integer,
+  owner_count integer
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT us.ship_id, count(*)::integer, count(DISTINCT us.user_id)::integer
+  FROM public.organization_members m
+  JOIN public.profiles p ON p.id = m.user_id
+  JOIN public.user_ships us ON us.user_id = m.user_id
+  WHERE m.org_id = _org_id
+    AND (p.hangar_public OR public.org_role_of(_org_id, auth.uid()) IS NOT NULL)
+  GROUP BY us.ship_id;
+$$;
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_join_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organizations are publicly readable" ON public.organizations FOR SELECT USING (true);
+CREATE POLICY "Users can create organizations" ON public.organizations FOR INSERT WITH CHECK (auth.uid() = created_by);
+CREATE POLICY "Org officers can update their organization" ON public.organizations FOR UPDATE
+  USING (public.is_org_officer(id, auth.uid()));
+CREATE POLICY "Org founders can delete their organization" ON public.organizations FOR DELETE
+  USING (public.org_role_of(id, auth.uid()) = 'founder');
+CREATE POLICY "Admins can manage organizations" ON public.organizations FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Members are added by the triggers/RPC above, never inserted directly
+CREATE POLICY "Org members are publicly readable" ON public.organization_members FOR SELECT USING (true);
+CREATE POLICY "Org founders can change member roles" ON public.organization_members FOR UPDATE
+  USING (role <> 'founder' AND public.org_role_of(org_id, auth.uid()) = 'founder')
+  WITH CHECK (role <> 'founder');
+CREATE POLICY "Members can leave and officers can remove members" ON public.organization_members FOR DELETE
+  USING (role <> 'founder' AND (auth.uid() = user_id OR public.is_org_officer(org_id, auth.uid())));
+CREATE POLICY "Admins can manage org members" ON public.organization_members FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Join requests are visible to the requester and org officers" ON public.organization_join_requests FOR SELECT
+  USING (auth.uid() = user_id OR public.is_org_officer(org_id, auth.uid()));
+CREATE POLICY "Users can ask to join" ON public.organization_join_requests FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND status = 'pending' AND public.org_role_of(org_id, auth.uid()) IS NULL);
+CREATE POLICY "Users can cancel own pending requests" ON public.organization_join_requests FOR DELETE
+  USING (auth.uid() = user_id AND status = 'pending');
+CREATE POLICY "Admins can manage join requests" ON public.organization_join_requests FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
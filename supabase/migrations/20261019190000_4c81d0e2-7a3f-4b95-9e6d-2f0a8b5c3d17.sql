@@ -0,0 +1,147 @@
+-- =============================================
+-- ORG OPERATIONS
+-- Officers plan ops with the ship roles they need, members RSVP with a ship from their hangar,
+-- officers assign positions and split the payout once the op is done
+-- =============================================
+CREATE TABLE public.org_operations (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  org_id bigint NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  op_type text NOT NULL DEFAULT 'other' CHECK (op_type IN ('mining', 'cargo', 'bounty', 'combat', 'exploration', 'salvage', 'other')),
+  status text NOT NULL DEFAULT 'planned' CHECK (status IN ('planned', 'in_progress', 'completed', 'cancelled')),
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz CHECK (ends_at IS NULL OR ends_at > starts_at),
+  star_system text,
+  objective_md text,
+  -- Total number of pilots/crew wanted, on top of the ship positions
+  crew_slots integer NOT NULL DEFAULT 0 CHECK (crew_slots >= 0),
+  -- aUEC to share once the op is completed
+  payout_total numeric CHECK (payout_total IS NULL OR payout_total >= 0),
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- A required ship role (as found in ships.role) and how many hulls of it
+CREATE TABLE public.org_operation_positions (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  operation_id bigint NOT NULL REFERENCES public.org_operations(id) ON DELETE CASCADE,
+  ship_role text NOT NULL,
+  label text,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.org_operation_rsvps (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  operation_id bigint NOT NULL REFERENCES public.org_operations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'going' CHECK (status IN ('going', 'maybe', 'declined')),
+  user_ship_id bigint REFERENCES public.user_ships(id) ON DELETE SET NULL,
+  notes text,
+  -- Set by officers only, see guard_org_operation_rsvp()
+  position_id bigint REFERENCES public.org_operation_positions(id) ON DELETE SET NULL,
+  payout_share numeric NOT NULL DEFAULT 1 CHECK (payout_share >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (operation_id, user_id)
+);
+
+CREATE INDEX idx_org_operations_org_starts ON public.org_operations(org_id, starts_at);
+CREATE INDEX idx_org_operation_positions_operation ON public.org_operation_positions(operation_id);
+CREATE INDEX idx_org_operation_rsvps_operation ON public.org_operation_rsvps(operation_id);
+
+CREATE TRIGGER update_org_operations_updated_at
+  BEFORE UPDATE ON public.org_operations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_org_operation_rsvps_updated_at
+  BEFORE UPDATE ON public.org_operation_rsvps
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.operation_org_id(_operation_id bigint)
+RETURNS bigint
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT org_id FROM public.org_operations WHERE id = _operation_id;
+$$;
+
+-- Members RSVP on their own row but cannot pick their position or payout share; officers place
+-- pilots but cannot answer for them: the ship (shared with the org, see user_ships policies),
+-- the answer and the notes are the pilot's own
+CREATE OR REPLACE FUNCTION public.guard_org_operation_rsvp()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND auth.uid() IS DISTINCT FROM OLD.user_id THEN
+    NEW.user_ship_id := OLD.user_ship_id;
+    NEW.status := OLD.status;
+    NEW.notes := OLD.notes;
+  END IF;
+
+  IF public.is_org_officer(public.operation_org_id(NEW.operation_id), auth.uid()) OR has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.position_id := NULL;
+    NEW.payout_share := 1;
+  ELSE
+    NEW.position_id := OLD.position_id;
+    NEW.payout_share := OLD.payout_share;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_org_operation_rsvp
+  BEFORE INSERT OR UPDATE ON public.org_operation_rsvps
+  FOR EACH ROW EXECUTE FUNCTION public.guard_org_operation_rsvp();
+
+ALTER TABLE public.org_operations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.org_operation_positions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.org_operation_rsvps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org operations are visible to org members" ON public.org_operations FOR SELECT
+  USING (public.org_role_of(org_id, auth.uid()) IS NOT NULL);
+CREATE POLICY "Org officers can manage operations" ON public.org_operations FOR ALL
+  USING (public.is_org_officer(org_id, auth.uid()))
+  WITH CHECK (public.is_org_officer(org_id, auth.uid()));
+CREATE POLICY "Admins can manage org operations" ON public.org_operations FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Operation positions are visible to org members" ON public.org_operation_positions FOR SELECT
+  USING (public.org_role_of(public.operation_org_id(operation_id), auth.uid()) IS NOT NULL);
+CREATE POLICY "Org officers can manage operation positions" ON public.org_operation_positions FOR ALL
+  USING (public.is_org_officer(public.operation_org_id(operation_id), auth.uid()))
+  WITH CHECK (public.is_org_officer(public.operation_org_id(operation_id), auth.uid()));
+CREATE POLICY "Admins can manage operation positions" ON public.org_operation_positions FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Operation RSVPs are visible to org members" ON public.org_operation_rsvps FOR SELECT
+  USING (public.org_role_of(public.operation_org_id(operation_id), auth.uid()) IS NOT NULL);
+-- The ship must come from the pilot's own hangar
+CREATE POLICY "Members can manage own RSVPs" ON public.org_operation_rsvps FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.org_role_of(public.operation_org_id(operation_id), auth.uid()) IS NOT NULL
+    AND (user_ship_id IS NULL OR EXISTS (SELECT 1 FROM public.user_ships WHERE id = user_ship_id AND user_id = auth.uid()))
+  );
+-- Officers assign positions and shares or remove RSVPs, they do not RSVP for others
+CREATE POLICY "Org officers can update RSVPs" ON public.org_operation_rsvps FOR UPDATE
+  USING (public.is_org_officer(public.operation_org_id(operation_id), auth.uid()))
+  WITH CHECK (
+    public.is_org_officer(public.operation_org_id(operation_id), auth.uid())
+    AND public.org_role_of(public.operation_org_id(operation_id), user_id) IS NOT NULL
+  );
+CREATE POLICY "Org officers can delete RSVPs" ON public.org_operation_rsvps FOR DELETE
+  USING (public.is_org_officer(public.operation_org_id(operation_id), auth.uid()));
+CREATE POLICY "Admins can manage operation RSVPs" ON public.org_operation_rsvps FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Live roster on the operation page
+ALTER PUBLICATION supabase_realtime ADD TABLE public.org_operation_rsvps;
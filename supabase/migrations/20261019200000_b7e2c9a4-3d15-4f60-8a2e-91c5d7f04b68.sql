@@ -0,0 +1,137 @@
+-- =============================================
+-- CREW FINDER (LFG)
+-- A pilot posts a multicrew ship looking for crew, others ask for a seat and the poster accepts
+-- =============================================
+CREATE TABLE public.lfg_listings (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  activity text NOT NULL CHECK (activity IN ('mining', 'bounty', 'cargo', 'mission', 'combat', 'salvage', 'exploration', 'other')),
+  mission_id bigint REFERENCES public.missions(id) ON DELETE SET NULL,
+  ship_id bigint NOT NULL REFERENCES public.ships(id) ON DELETE CASCADE,
+  seats_needed integer NOT NULL CHECK (seats_needed BETWEEN 1 AND 100),
+  star_system text,
+  starts_at timestamptz NOT NULL,
+  -- i18n language code (en, fr, de...) spoken on board
+  language text NOT NULL DEFAULT 'en',
+  description text,
+  expires_at timestamptz NOT NULL,
+  is_closed boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (expires_at > starts_at)
+);
+
+CREATE TABLE public.lfg_requests (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  listing_id bigint NOT NULL REFERENCES public.lfg_listings(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  message text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (listing_id, user_id)
+);
+
+CREATE INDEX idx_lfg_listings_expires ON public.lfg_listings(expires_at) WHERE NOT is_closed;
+CREATE INDEX idx_lfg_requests_listing ON public.lfg_requests(listing_id);
+
+CREATE TRIGGER update_lfg_listings_updated_at
+  BEFORE UPDATE ON public.lfg_listings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_lfg_requests_updated_at
+  BEFORE UPDATE ON public.lfg_requests
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.lfg_listing_owner(_listing_id bigint)
+RETURNS uuid
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_id FROM public.lfg_listings WHERE id = _listing_id;
+$$;
+
+-- Open and not expired, the only listings that take new requests
+CREATE OR REPLACE FUNCTION public.lfg_listing_is_open(_listing_id bigint)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.lfg_listings WHERE id = _listing_id AND NOT is_closed AND expires_at > now());
+$$;
+
+-- A listing never accepts more crew than the seats it offers
+CREATE OR REPLACE FUNCTION public.check_lfg_seats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _seats integer;
+  _accepted integer;
+BEGIN
+  IF NEW.status = 'accepted' AND OLD.status <> 'accepted' THEN
+    SELECT seats_needed INTO _seats FROM public.lfg_listings WHERE id = NEW.listing_id;
+    SELECT count(*) INTO _accepted FROM public.lfg_requests WHERE listing_id = NEW.listing_id AND status = 'accepted';
+    IF _accepted >= _seats THEN
+      RAISE EXCEPTION 'All % seats of listing % are taken', _seats, NEW.listing_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_lfg_seats
+  BEFORE UPDATE ON public.lfg_requests
+  FOR EACH ROW EXECUTE FUNCTION public.check_lfg_seats();
+
+ALTER TABLE public.lfg_listings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lfg_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "LFG listings are publicly readable" ON public.lfg_listings FOR SELECT USING (true);
+CREATE POLICY "Users can manage own LFG listings" ON public.lfg_listings FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Admins can manage LFG listings" ON public.lfg_listings FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Accepted crew is public so the board can show filled seats
+CREATE POLICY "LFG requests are visible to the requester, the poster, and publicly once accepted" ON public.lfg_requests FOR SELECT
+  USING (status = 'accepted' OR auth.uid() = user_id OR auth.uid() = public.lfg_listing_owner(listing_id));
+CREATE POLICY "Users can ask for a seat on open listings" ON public.lfg_requests FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND auth.uid() <> public.lfg_listing_owner(listing_id)
+    AND public.lfg_listing_is_open(listing_id)
+  );
+CREATE POLICY "Users can withdraw own LFG requests" ON public.lfg_requests FOR DELETE USING (auth.uid() = user_id);
+CREATE POLICY "Posters can answer LFG requests" ON public.lfg_requests FOR UPDATE
+  USING (auth.uid() = public.lfg_listing_owner(listing_id))
+  WITH CHECK (auth.uid() = public.lfg_listing_owner(listing_id));
+CREATE POLICY "Admins can manage LFG requests" ON public.lfg_requests FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Expired listings leave the board right away (queries filter on expires_at), the rows go after a week
+CREATE OR REPLACE FUNCTION public.delete_expired_lfg_listings()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  DELETE FROM public.lfg_listings
+  WHERE expires_at < (NOW() - INTERVAL '7 days');
+END;
+$function$;
+
+SELECT cron.schedule(
+  'delete-expired-lfg-listings-daily',
+  '30 3 * * *', -- every day at 3:30 AM
+  $$
+  SELECT public.delete_expired_lfg_listings();
+  $$
+);
@@ -0,0 +1,60 @@
+-- =============================================
+-- SHIP LOADOUTS
+-- A ship's hardpoints with components from game_items swapped in, shareable by id and
+-- attachable to the pilot's hangar ships
+-- =============================================
+CREATE TABLE public.ship_loadouts (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  ship_id bigint NOT NULL REFERENCES public.ships(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  -- slot key ("weapons-0", "coolers-1"...) -> game_items.id, slots left stock are absent
+  slots jsonb NOT NULL DEFAULT '{}'::jsonb,
+  is_public boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_ship_loadouts_ship ON public.ship_loadouts(ship_id);
+CREATE INDEX idx_ship_loadouts_user ON public.ship_loadouts(user_id);
+
+CREATE TRIGGER update_ship_loadouts_updated_at
+  BEFORE UPDATE ON public.ship_loadouts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.ship_loadouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public loadouts are publicly readable" ON public.ship_loadouts FOR SELECT
+  USING (is_public OR auth.uid() = user_id);
+CREATE POLICY "Users can manage own loadouts" ON public.ship_loadouts FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Admins can manage loadouts" ON public.ship_loadouts FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Hangar ships can carry one of the loadouts built for their hull
+ALTER TABLE public.user_ships
+  ADD COLUMN loadout_id bigint REFERENCES public.ship_loadouts(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.check_user_ship_loadout()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.loadout_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.ship_loadouts
+    WHERE id = NEW.loadout_id
+      AND ship_id = NEW.ship_id
+      AND (is_public OR user_id = NEW.user_id)
+  ) THEN
+    RAISE EXCEPTION 'Loadout % does not fit ship %', NEW.loadout_id, NEW.ship_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_user_ship_loadout
+  BEFORE INSERT OR UPDATE OF loadout_id, ship_id ON public.user_ships
+  FOR EACH ROW EXECUTE FUNCTION public.check_user_ship_loadout();
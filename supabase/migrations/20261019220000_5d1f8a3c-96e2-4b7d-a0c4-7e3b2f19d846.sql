@@ -0,0 +1,25 @@
+-- =============================================
+-- PROFILE STATS are computed from the mission log only
+-- =============================================
+-- Profile edits from the app (authenticated / anon) keep the stored stats. refresh_profile_mission_stats
+-- is SECURITY DEFINER, so its own UPDATE runs as the function owner and goes through.
+-- Deliberately not SECURITY DEFINER: current_user has to be the caller's role.
+CREATE OR REPLACE FUNCTION public.keep_computed_profile_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.stats = OLD.stats;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER keep_computed_profile_stats
+  BEFORE UPDATE OF stats ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.keep_computed_profile_stats();
+
+-- Profiles saved by the old edit dialog may hold hand-entered stats
+SELECT public.refresh_profile_mission_stats(id) FROM public.profiles;
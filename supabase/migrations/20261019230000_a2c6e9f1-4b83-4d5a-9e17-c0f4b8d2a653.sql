@@ -0,0 +1,24 @@
+-- =============================================
+-- ORG OPERATIONS: ships brought to an op are visible to the org
+-- =============================================
+-- The roster embeds the RSVP's user_ships row, which "Public hangars are readable" hides when the
+-- pilot's hangar is private. Bringing a ship to an op shares that ship (not the rest of the hangar)
+-- with the members of the operation's org.
+CREATE OR REPLACE FUNCTION public.user_ship_on_org_roster(_user_ship_id bigint, _user_id uuid)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.org_operation_rsvps r
+    -- Only ships the RSVP'd pilot owns and attached themselves (see guard_org_operation_rsvp)
+    JOIN public.user_ships us ON us.id = r.user_ship_id AND us.user_id = r.user_id
+    WHERE r.user_ship_id = _user_ship_id
+      AND public.org_role_of(public.operation_org_id(r.operation_id), _user_id) IS NOT NULL
+  );
+$$;
+
+CREATE POLICY "Ships on org rosters are readable by org members" ON public.user_ships FOR SELECT
+  USING (public.user_ship_on_org_roster(id, auth.uid()));